@@ -4,6 +4,11 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { SubscriptionProductsProvider } from "@/contexts/SubscriptionProductsContext";
+import { UsdtRateProvider } from "@/contexts/UsdtRateContext";
+import { VaultProvider } from "@/contexts/VaultContext";
+import { AppLockProvider } from "@/contexts/AppLockContext";
+import { WorkspaceProvider } from "@/contexts/WorkspaceContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { useBackButton } from "@/hooks/useBackButton";
 import Index from "./pages/Index";
@@ -16,8 +21,13 @@ import MemberPayDetails from "./pages/MemberPayDetails";
 import Profile from "./pages/Profile";
 import RenewSubscription from "./pages/RenewSubscription";
 import MonthlyEarnings from "./pages/MonthlyEarnings";
+import Trash from "./pages/Trash";
+import PaymentVerifications from "./pages/PaymentVerifications";
+import EmailTemplates from "./pages/EmailTemplates";
 import Auth from "./pages/Auth";
 import Unsubscribe from "./pages/Unsubscribe";
+import MemberPortal from "./pages/MemberPortal";
+import AcceptInvite from "./pages/AcceptInvite";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -34,6 +44,11 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
+          <AppLockProvider>
+          <WorkspaceProvider>
+          <VaultProvider>
+          <SubscriptionProductsProvider>
+          <UsdtRateProvider>
           <BackButtonHandler />
           <Routes>
             <Route path="/auth" element={<Auth />} />
@@ -117,10 +132,48 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/trash"
+              element={
+                <ProtectedRoute>
+                  <Trash />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/payment-verifications"
+              element={
+                <ProtectedRoute>
+                  <PaymentVerifications />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/email-templates"
+              element={
+                <ProtectedRoute>
+                  <EmailTemplates />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/invite"
+              element={
+                <ProtectedRoute>
+                  <AcceptInvite />
+                </ProtectedRoute>
+              }
+            />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="/unsubscribe" element={<Unsubscribe />} />
+            <Route path="/portal" element={<MemberPortal />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
+          </UsdtRateProvider>
+          </SubscriptionProductsProvider>
+          </VaultProvider>
+          </WorkspaceProvider>
+          </AppLockProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
@@ -53,7 +53,7 @@ export function ActionControls({
           <div className="flex items-center gap-2 px-4 py-3 rounded-xl bg-muted">
             <AlertTriangle className="w-5 h-5 text-yellow-500" />
             <span className="text-xs font-medium text-muted-foreground whitespace-nowrap">
-              Max {maxMembers} members
+              All {maxMembers} seats taken
             </span>
           </div>
         ) : null}
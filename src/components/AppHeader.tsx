@@ -1,10 +1,12 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { Settings, User, Wifi, WifiOff } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import logo from '@/assets/logo.jpg';
 import { useProfile } from '@/hooks/useProfile';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { SyncStatusModal } from '@/components/SyncStatusModal';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
 
 interface AppHeaderProps {
   onSettingsClick: () => void;
@@ -13,15 +15,8 @@ interface AppHeaderProps {
 export function AppHeader({ onSettingsClick }: AppHeaderProps) {
   const navigate = useNavigate();
   const { profile } = useProfile();
-  const [online, setOnline] = useState(navigator.onLine);
-
-  useEffect(() => {
-    const on = () => setOnline(true);
-    const off = () => setOnline(false);
-    window.addEventListener('online', on);
-    window.addEventListener('offline', off);
-    return () => { window.removeEventListener('online', on); window.removeEventListener('offline', off); };
-  }, []);
+  const [showSyncStatus, setShowSyncStatus] = useState(false);
+  const { online, pending, errors, deadLetters } = useSyncStatus();
 
   const getInitials = () => {
     if (profile?.full_name) {
@@ -36,49 +31,64 @@ export function AppHeader({ onSettingsClick }: AppHeaderProps) {
   };
 
   return (
-    <motion.header
-      initial={{ opacity: 0, y: -20 }}
-      animate={{ opacity: 1, y: 0 }}
-      className="glass-card sticky top-0 z-50 px-4 py-4"
-      style={{ paddingTop: 'max(1rem, env(safe-area-inset-top))' }}
-    >
-      <div className="container mx-auto flex items-center justify-between">
-        <div className="flex items-center gap-3">
-          <img src={logo} alt="Elite NotePad" className="h-10 w-auto rounded-lg" />
-          <div className="flex flex-col">
-            <h1 className="font-display text-xl font-bold gradient-text leading-tight">Elite NotePad</h1>
-            <div className="flex items-center gap-1.5">
-              <span className="text-xs text-muted-foreground">Powered by Fardin Sagor</span>
-              {online ? (
-                <Wifi className="w-3 h-3 text-green-500" />
-              ) : (
-                <WifiOff className="w-3 h-3 text-destructive" />
-              )}
+    <>
+      <motion.header
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass-card sticky top-0 z-50 px-4 py-4"
+        style={{ paddingTop: 'max(1rem, env(safe-area-inset-top))' }}
+      >
+        <div className="container mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <img src={logo} alt="Elite NotePad" className="h-10 w-auto rounded-lg" />
+            <div className="flex flex-col">
+              <h1 className="font-display text-xl font-bold gradient-text leading-tight">Elite NotePad</h1>
+              <div className="flex items-center gap-1.5">
+                <span className="text-xs text-muted-foreground">Powered by Fardin Sagor</span>
+                <button
+                  onClick={() => setShowSyncStatus(true)}
+                  className="relative p-0.5 -m-0.5 rounded touch-manipulation"
+                  aria-label="Sync status"
+                >
+                  {online ? (
+                    <Wifi className="w-3 h-3 text-green-500" />
+                  ) : (
+                    <WifiOff className="w-3 h-3 text-destructive" />
+                  )}
+                  {deadLetters.length + errors.length > 0 ? (
+                    <span className="absolute -top-0.5 -right-0.5 w-1.5 h-1.5 rounded-full bg-destructive" />
+                  ) : pending.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 w-1.5 h-1.5 rounded-full bg-yellow-500" />
+                  )}
+                </button>
+              </div>
             </div>
           </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onSettingsClick}
+              className="p-2.5 rounded-lg hover:bg-secondary transition-colors active:scale-95 touch-manipulation"
+              aria-label="Settings"
+            >
+              <Settings className="w-5 h-5 text-muted-foreground hover:text-foreground transition-colors" />
+            </button>
+            <button
+              onClick={() => navigate('/profile')}
+              className="rounded-full hover:ring-2 hover:ring-primary/50 transition-all active:scale-95 touch-manipulation"
+              aria-label="Profile"
+            >
+              <Avatar className="w-9 h-9 border-2 border-primary/20">
+                <AvatarImage src={profile?.avatar_url || undefined} alt="Profile" />
+                <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                  {getInitials()}
+                </AvatarFallback>
+              </Avatar>
+            </button>
+          </div>
         </div>
-        <div className="flex items-center gap-2">
-          <button
-            onClick={onSettingsClick}
-            className="p-2.5 rounded-lg hover:bg-secondary transition-colors active:scale-95 touch-manipulation"
-            aria-label="Settings"
-          >
-            <Settings className="w-5 h-5 text-muted-foreground hover:text-foreground transition-colors" />
-          </button>
-          <button
-            onClick={() => navigate('/profile')}
-            className="rounded-full hover:ring-2 hover:ring-primary/50 transition-all active:scale-95 touch-manipulation"
-            aria-label="Profile"
-          >
-            <Avatar className="w-9 h-9 border-2 border-primary/20">
-              <AvatarImage src={profile?.avatar_url || undefined} alt="Profile" />
-              <AvatarFallback className="text-xs bg-primary/10 text-primary">
-                {getInitials()}
-              </AvatarFallback>
-            </Avatar>
-          </button>
-        </div>
-      </div>
-    </motion.header>
+      </motion.header>
+
+      <SyncStatusModal isOpen={showSyncStatus} onClose={() => setShowSyncStatus(false)} />
+    </>
   );
 }
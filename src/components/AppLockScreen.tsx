@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Fingerprint, Loader2, LockKeyhole, LogOut } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { MAX_PIN_LENGTH } from '@/lib/appLock';
+
+/** Covers the app (without unmounting it) until the PIN or biometric check passes. */
+export function AppLockScreen() {
+  const { signOut } = useAuth();
+  const { hasBiometric, isConfirming, unlockWithPin, unlockWithBiometric, cancelConfirm, resetLock } = useAppLock();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleBiometric = useCallback(async () => {
+    setError(null);
+    const result = await unlockWithBiometric();
+    if (!result.ok) setError(result.error || 'Failed to unlock');
+  }, [unlockWithBiometric]);
+
+  // Offer the fingerprint/face prompt straight away when it's set up
+  useEffect(() => {
+    if (hasBiometric) handleBiometric();
+  }, [hasBiometric, handleBiometric]);
+
+  const handleUnlock = async () => {
+    if (!pin || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const result = await unlockWithPin(pin);
+      if (!result.ok) setError(result.error || 'Failed to unlock');
+    } finally {
+      setIsUnlocking(false);
+      setPin('');
+    }
+  };
+
+  const handleForgotPin = async () => {
+    await resetLock();
+    await signOut();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] bg-background flex items-center justify-center px-4"
+      style={{ paddingTop: 'env(safe-area-inset-top)', paddingBottom: 'env(safe-area-inset-bottom)' }}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        className="w-full max-w-sm glass-card rounded-2xl p-6 card-shadow text-center"
+      >
+        <div className="w-14 h-14 mx-auto mb-4 rounded-2xl bg-primary/20 flex items-center justify-center">
+          <LockKeyhole className="w-7 h-7 text-primary" />
+        </div>
+        <h1 className="font-display text-lg font-bold mb-1">{isConfirming ? 'Confirm it’s you' : 'App Locked'}</h1>
+        <p className="text-sm text-muted-foreground mb-6">
+          {isConfirming ? 'Unlock again to copy credentials.' : 'Enter your PIN to continue.'}
+        </p>
+
+        <input
+          type="password"
+          inputMode="numeric"
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, MAX_PIN_LENGTH))}
+          onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+          placeholder="PIN"
+          autoFocus={!hasBiometric}
+          autoComplete="off"
+          className="w-full bg-input rounded-xl px-4 py-3 text-center text-lg tracking-[0.5em] focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        {error && <p className="text-xs text-destructive mt-2 text-left">{error}</p>}
+
+        <button
+          onClick={handleUnlock}
+          disabled={!pin || isUnlocking}
+          className="w-full mt-4 py-3 rounded-xl bg-primary text-primary-foreground font-medium hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {isUnlocking && <Loader2 className="w-4 h-4 animate-spin" />}
+          Unlock
+        </button>
+
+        {hasBiometric && (
+          <button
+            onClick={handleBiometric}
+            className="w-full mt-3 py-3 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors font-medium flex items-center justify-center gap-2"
+          >
+            <Fingerprint className="w-4 h-4" />
+            Use biometrics
+          </button>
+        )}
+
+        {isConfirming ? (
+          <button
+            onClick={cancelConfirm}
+            className="w-full mt-3 py-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleForgotPin}
+            className="w-full mt-3 py-2 text-sm text-muted-foreground hover:text-foreground transition-colors flex items-center justify-center gap-2"
+          >
+            <LogOut className="w-4 h-4" />
+            Forgot PIN? Sign out
+          </button>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useEffect, useState } from 'react';
+import { Fingerprint, KeyRound, LockKeyhole } from 'lucide-react';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { APP_LOCK_IDLE_OPTIONS, MAX_PIN_LENGTH, MIN_PIN_LENGTH } from '@/lib/appLock';
+import { isBiometricAvailable } from '@/services/appLockService';
+import { toast } from 'sonner';
+
+const inputClass =
+  'w-full bg-input rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+type PinForm = 'enable' | 'change' | 'disable' | null;
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, MAX_PIN_LENGTH);
+
+export function AppLockSettings() {
+  const {
+    status,
+    hasBiometric,
+    idleMinutes,
+    lock,
+    enableLock,
+    disableLock,
+    changePin,
+    enableBiometric,
+    disableBiometric,
+    setIdleMinutes,
+  } = useAppLock();
+  const [form, setForm] = useState<PinForm>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [canUseBiometric, setCanUseBiometric] = useState(false);
+
+  useEffect(() => {
+    isBiometricAvailable().then(setCanUseBiometric);
+  }, []);
+
+  const reset = () => {
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setForm(null);
+  };
+
+  const handleSubmit = async () => {
+    if (form !== 'disable' && next !== confirm) {
+      toast.error("PINs don't match");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result =
+        form === 'enable'
+          ? await enableLock(next)
+          : form === 'change'
+            ? await changePin(current, next)
+            : await disableLock(current);
+      if (!result.ok) {
+        toast.error(result.error || 'Failed to save PIN');
+        return;
+      }
+      toast.success(form === 'enable' ? 'App lock on' : form === 'change' ? 'PIN changed' : 'App lock off');
+      reset();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleBiometric = async () => {
+    if (hasBiometric) {
+      await disableBiometric();
+      toast.success('Biometric unlock off');
+      return;
+    }
+    const result = await enableBiometric();
+    if (result.ok) toast.success('Biometric unlock on');
+    else toast.error(result.error || "Couldn't set up biometric unlock");
+  };
+
+  const pinForm = form && (
+    <div className="space-y-2 mt-3">
+      {form !== 'enable' && (
+        <input
+          type="password"
+          inputMode="numeric"
+          value={current}
+          onChange={(e) => setCurrent(digitsOnly(e.target.value))}
+          onKeyDown={(e) => form === 'disable' && e.key === 'Enter' && handleSubmit()}
+          placeholder="Current PIN"
+          autoComplete="off"
+          className={inputClass}
+        />
+      )}
+      {form !== 'disable' && (
+        <>
+          <input
+            type="password"
+            inputMode="numeric"
+            value={next}
+            onChange={(e) => setNext(digitsOnly(e.target.value))}
+            placeholder={form === 'enable' ? `PIN (${MIN_PIN_LENGTH}–${MAX_PIN_LENGTH} digits)` : 'New PIN'}
+            autoComplete="off"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            value={confirm}
+            onChange={(e) => setConfirm(digitsOnly(e.target.value))}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            placeholder="Repeat PIN"
+            autoComplete="off"
+            className={inputClass}
+          />
+        </>
+      )}
+      <button
+        onClick={handleSubmit}
+        disabled={isSaving || (form === 'disable' ? !current : !next || !confirm || (form === 'change' && !current))}
+        className="w-full py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+      >
+        {form === 'enable' ? 'Turn on app lock' : form === 'change' ? 'Change PIN' : 'Turn off app lock'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <LockKeyhole className="w-4 h-4" />
+        App Lock
+        <span className={`ml-auto text-xs font-medium ${status === 'off' ? 'text-muted-foreground' : 'text-emerald-400'}`}>
+          {status === 'off' ? 'Off' : 'On'}
+        </span>
+      </h3>
+
+      {status === 'off' ? (
+        <>
+          <p className="text-[11px] text-muted-foreground">
+            Ask for a PIN on this device at launch, after idling and when the app goes to the background.
+          </p>
+          {form === 'enable' ? (
+            pinForm
+          ) : (
+            <button
+              onClick={() => setForm('enable')}
+              className="w-full mt-3 flex items-center justify-center gap-2 py-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium"
+            >
+              <KeyRound className="w-4 h-4" />
+              Set a PIN
+            </button>
+          )}
+        </>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm">Lock when idle</span>
+            <select
+              value={idleMinutes}
+              onChange={(e) => setIdleMinutes(Number(e.target.value))}
+              className="bg-input rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {APP_LOCK_IDLE_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? 'Only in background' : `After ${minutes} min`}
+                </option>
+              ))}
+            </select>
+          </div>
+          {canUseBiometric && (
+            <button
+              onClick={handleToggleBiometric}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium"
+            >
+              <Fingerprint className="w-4 h-4" />
+              {hasBiometric ? 'Turn off biometric unlock' : 'Unlock with biometrics'}
+            </button>
+          )}
+          <div className="flex gap-2">
+            <button
+              onClick={lock}
+              className="flex-1 py-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium"
+            >
+              Lock now
+            </button>
+            <button
+              onClick={() => (form === 'change' ? reset() : setForm('change'))}
+              className="flex-1 py-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium"
+            >
+              {form === 'change' ? 'Cancel' : 'Change PIN'}
+            </button>
+            <button
+              onClick={() => (form === 'disable' ? reset() : setForm('disable'))}
+              className="flex-1 py-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium"
+            >
+              {form === 'disable' ? 'Cancel' : 'Turn off'}
+            </button>
+          </div>
+          {pinForm}
+        </div>
+      )}
+    </div>
+  );
+}
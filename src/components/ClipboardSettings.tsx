@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { ClipboardX } from 'lucide-react';
+import {
+  CLIPBOARD_CLEAR_OPTIONS,
+  COPY_FIELD_LABELS,
+  COPY_FIELD_TYPES,
+  ClipboardClearSettings,
+  CopyFieldType,
+} from '@/lib/clipboard';
+import { getClipboardClearSettings, setClipboardClearSettings } from '@/services/clipboardService';
+
+export function ClipboardSettings() {
+  const [settings, setSettings] = useState<ClipboardClearSettings | null>(null);
+
+  useEffect(() => {
+    getClipboardClearSettings().then(setSettings);
+  }, []);
+
+  const handleChange = (type: CopyFieldType, seconds: number) => {
+    if (!settings) return;
+    const next = { ...settings, [type]: seconds };
+    setSettings(next);
+    setClipboardClearSettings(next).catch((e) => console.error('[Clipboard] Failed to save settings:', e));
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <ClipboardX className="w-4 h-4" />
+        Clear Clipboard
+      </h3>
+      <p className="text-[11px] text-muted-foreground mb-3">
+        Wipe copied values after a while, if nothing else was copied since.
+      </p>
+      {settings && (
+        <div className="space-y-2">
+          {COPY_FIELD_TYPES.map((type) => (
+            <div key={type} className="flex items-center justify-between gap-3">
+              <span className="text-sm">{COPY_FIELD_LABELS[type]}</span>
+              <select
+                value={settings[type]}
+                onChange={(e) => handleChange(type, Number(e.target.value))}
+                className="bg-input rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {CLIPBOARD_CLEAR_OPTIONS.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {seconds === 0 ? 'Never' : `After ${seconds}s`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -37,7 +37,7 @@ export function DeleteConfirmModal({
               </div>
               <h2 className="font-display text-lg font-bold mb-2">Remove Member?</h2>
               <p className="text-sm text-muted-foreground mb-6">
-                Are you sure you want to remove <span className="font-medium text-foreground">{memberEmail}</span> from your team?
+                Are you sure you want to remove <span className="font-medium text-foreground">{memberEmail}</span> from your team? You can restore them from the trash.
               </p>
               <div className="flex gap-3">
                 <button
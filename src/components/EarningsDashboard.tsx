@@ -1,218 +1,39 @@
-import { useMemo, useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { DollarSign, Clock, TrendingUp, Users, Eye, EyeOff } from 'lucide-react';
-import { Team } from '@/types/member';
-import { supabase } from '@/lib/supabase';
-import { useAuth } from '@/contexts/AuthContext';
+import { Team, LedgerEntry } from '@/types/member';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
+import { getLedgerEntryUsd, isPaidInMonth, sumLedger } from '@/lib/ledger';
 
 interface EarningsDashboardProps {
   teams: Team[];
+  ledger: LedgerEntry[];
 }
 
-interface PaymentSummary {
-  member_id: string;
-  total_paid: number;
-  total_amount: number;
-}
-
-export const EarningsDashboard = ({ teams }: EarningsDashboardProps) => {
+export const EarningsDashboard = ({ teams, ledger }: EarningsDashboardProps) => {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const [paymentSummaries, setPaymentSummaries] = useState<PaymentSummary[]>([]);
-  const [currentMonthYearlyPaid, setCurrentMonthYearlyPaid] = useState(0);
-  const [allTimeYearlyPaid, setAllTimeYearlyPaid] = useState(0);
-
-  // Load cached data on mount
-  useEffect(() => {
-    try {
-      const cached = localStorage.getItem('earningsCache');
-      if (cached) {
-        const parsed = JSON.parse(cached);
-        if (parsed.paymentSummaries) setPaymentSummaries(parsed.paymentSummaries);
-        if (parsed.currentMonthYearlyPaid != null) setCurrentMonthYearlyPaid(parsed.currentMonthYearlyPaid);
-        if (parsed.allTimeYearlyPaid != null) setAllTimeYearlyPaid(parsed.allTimeYearlyPaid);
-      }
-    } catch {}
-  }, []);
-
-  // Fetch payment summaries for all yearly team members
-  useEffect(() => {
-    const fetchPaymentSummaries = async () => {
-      if (!user) return;
-      if (!navigator.onLine) return; // Don't fetch when offline, use cached data
-
-      // Get all member IDs from yearly teams
-      const yearlyMembers = teams
-        .filter(team => team.isYearlyTeam)
-        .flatMap(team => team.members);
-
-      if (yearlyMembers.length === 0) {
-        setPaymentSummaries([]);
-        setCurrentMonthYearlyPaid(0);
-        setAllTimeYearlyPaid(0);
-        localStorage.setItem('earningsCache', JSON.stringify({ paymentSummaries: [], currentMonthYearlyPaid: 0, allTimeYearlyPaid: 0 }));
-        return;
-      }
-
-      const memberIds = yearlyMembers.map(m => m.id);
-
-      const now = new Date();
-      const currentMonth = now.getMonth() + 1; // 1-based for DB
-      const currentYear = now.getFullYear();
-
-      // Fetch all payments, current month payments, and member total_amounts in parallel
-      const [paymentsResult, currentMonthPaymentsResult, membersResult] = await Promise.all([
-        supabase
-          .from('member_payments')
-          .select('member_id, amount, status, month, year')
-          .eq('user_id', user.id)
-          .in('member_id', memberIds)
-          .eq('status', 'paid'),
-        supabase
-          .from('member_payments')
-          .select('member_id, amount, status, month, year')
-          .eq('user_id', user.id)
-          .in('member_id', memberIds)
-          .eq('status', 'paid')
-          .eq('month', currentMonth)
-          .eq('year', currentYear),
-        supabase
-          .from('members')
-          .select('id, total_amount')
-          .in('id', memberIds)
-      ]);
-
-      if (paymentsResult.error || currentMonthPaymentsResult.error || membersResult.error) {
-        console.error('Error fetching payments:', paymentsResult.error || currentMonthPaymentsResult.error || membersResult.error);
-        return;
-      }
-
-      // Calculate current month yearly paid amount
-      let yearlyCurrentMonthPaid = 0;
-      (currentMonthPaymentsResult.data || []).forEach(payment => {
-        yearlyCurrentMonthPaid += payment.amount;
-      });
-      setCurrentMonthYearlyPaid(yearlyCurrentMonthPaid);
-
-      // Calculate all time yearly paid amount
-      let yearlyAllTimePaid = 0;
-      (paymentsResult.data || []).forEach(payment => {
-        yearlyAllTimePaid += payment.amount;
-      });
-      setAllTimeYearlyPaid(yearlyAllTimePaid);
-
-      // Create a map of member total_amounts
-      const memberTotalAmounts: Record<string, number> = {};
-      (membersResult.data || []).forEach(member => {
-        memberTotalAmounts[member.id] = member.total_amount || 0;
-      });
-
-      // Aggregate paid amounts by member
-      const paidSummaries: Record<string, number> = {};
-      (paymentsResult.data || []).forEach(payment => {
-        if (!paidSummaries[payment.member_id]) {
-          paidSummaries[payment.member_id] = 0;
-        }
-        paidSummaries[payment.member_id] += payment.amount;
-      });
+  const { rateOn } = useUsdtRate();
 
-      // Build summaries with total_amount
-      const allMemberIds = [...new Set([...Object.keys(memberTotalAmounts), ...Object.keys(paidSummaries)])];
-      const newSummaries = allMemberIds.map(member_id => ({
-        member_id,
-        total_paid: paidSummaries[member_id] || 0,
-        total_amount: memberTotalAmounts[member_id] || 0,
-      }));
-      setPaymentSummaries(newSummaries);
-
-      // Cache for offline use
-      localStorage.setItem('earningsCache', JSON.stringify({
-        paymentSummaries: newSummaries,
-        currentMonthYearlyPaid: yearlyCurrentMonthPaid,
-        allTimeYearlyPaid: yearlyAllTimePaid,
-      }));
-    };
-
-    fetchPaymentSummaries();
-  }, [user, teams]);
-  
   const earnings = useMemo(() => {
     const now = new Date();
-    const currentMonth = now.getMonth();
-    const currentYear = now.getFullYear();
-
-    let currentMonthEarnings = 0;
-    let regularDue = 0; // Only regular team due
-    let allTimeEarnings = 0;
-
-    // Get all members from all teams
-    const allMembers = teams.flatMap(team => team.members);
-
-    // Calculate current month and all time earnings from regular teams (non-yearly, non-plus)
-    // Also calculate regular team due only
-    const regularMembers = teams.filter(team => !team.isYearlyTeam && !team.isPlusTeam).flatMap(team => team.members);
-    
-    regularMembers.forEach(member => {
-      const joinDate = new Date(member.joinDate);
-      const memberMonth = joinDate.getMonth();
-      const memberYear = joinDate.getFullYear();
-
-      // Add to regular due from pending amount
-      if (member.pendingAmount) {
-        regularDue += member.pendingAmount;
-      }
-
-      // Check if member has paid amount
-      if (member.paidAmount) {
-        // Current month earnings
-        if (memberMonth === currentMonth && memberYear === currentYear) {
-          currentMonthEarnings += member.paidAmount;
-        }
-
-        // All time earnings - sum all paid amounts
-        allTimeEarnings += member.paidAmount;
-      }
-    });
-
-    // Calculate Plus Team earnings
-    const plusMembers = teams.filter(team => team.isPlusTeam).flatMap(team => team.members);
-    
-    plusMembers.forEach(member => {
-      const joinDate = new Date(member.joinDate);
-      const memberMonth = joinDate.getMonth();
-      const memberYear = joinDate.getFullYear();
-
-      // Add to due from pending amount
-      if (member.pendingAmount) {
-        regularDue += member.pendingAmount;
-      }
-
-      // Check if member has paid amount
-      if (member.paidAmount) {
-        // Current month earnings - check if payment was in current month
-        if (memberMonth === currentMonth && memberYear === currentYear) {
-          currentMonthEarnings += member.paidAmount;
-        }
-
-        // All time earnings - sum all paid amounts
-        allTimeEarnings += member.paidAmount;
-      }
-    });
+    const thisMonth = ledger.filter(p => isPaidInMonth(p, now.getFullYear(), now.getMonth()));
 
-    // Add yearly team current month paid to current month earnings
-    currentMonthEarnings += currentMonthYearlyPaid;
-    
-    // Add yearly team all time paid to all time earnings
-    allTimeEarnings += allTimeYearlyPaid;
+    // Due on Regular and Plus teams (yearly dues live on the Due Members page)
+    const totalDue = teams
+      .filter(team => !team.isYearlyTeam)
+      .flatMap(team => team.members)
+      .reduce((sum, member) => sum + (member.pendingAmount || 0), 0);
 
     return {
-      currentMonth: currentMonthEarnings,
-      totalDue: regularDue, // Regular + Plus due in display
-      allTimeEarnings: allTimeEarnings,
-      totalMembers: allMembers.length,
+      currentMonth: sumLedger(thisMonth),
+      // USD taken from USDT members this month, at the rate each payment was recorded at
+      currentMonthUsdt: thisMonth.reduce((sum, p) => sum + getLedgerEntryUsd(p, rateOn), 0),
+      totalDue,
+      allTimeEarnings: sumLedger(ledger),
+      totalMembers: teams.reduce((sum, team) => sum + team.members.length, 0),
     };
-  }, [teams, currentMonthYearlyPaid, allTimeYearlyPaid]);
+  }, [teams, ledger, rateOn]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -243,6 +64,11 @@ export const EarningsDashboard = ({ teams }: EarningsDashboardProps) => {
         </div>
         <p className="text-[8px] text-muted-foreground leading-tight">{currentMonthName}</p>
         <p className={`text-[11px] font-bold text-foreground leading-tight transition-all ${hideEarnings ? 'blur-sm select-none' : ''}`}>{formatCurrency(earnings.currentMonth)}</p>
+        {earnings.currentMonthUsdt > 0 && (
+          <p className={`text-[8px] text-amber-400 leading-tight transition-all ${hideEarnings ? 'blur-sm select-none' : ''}`}>
+            ${earnings.currentMonthUsdt.toFixed(1)} USDT
+          </p>
+        )}
       </div>
 
       {/* Total Due - Clickable */}
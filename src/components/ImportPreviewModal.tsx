@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Upload, GitMerge, RefreshCcw, AlertTriangle, Loader2 } from 'lucide-react';
+import { ImportMode, ImportPreview, ImportStatus } from '@/services/backupService';
+import { SyncTable } from '@/services/offlineDb';
+
+interface ImportPreviewModalProps {
+  preview: ImportPreview | null;
+  onCancel: () => void;
+  onConfirm: (mode: ImportMode) => Promise<void>;
+}
+
+const TABLE_LABELS: Record<SyncTable, string> = {
+  teams: 'Teams',
+  members: 'Members',
+  member_payments: 'Payments',
+  payment_ledger: 'Ledger entries',
+  member_events: 'Member history',
+  notepads: 'Notes',
+  subscription_products: 'Products',
+  usdt_rates: 'USDT rates',
+};
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  new: 'bg-green-500/20 text-green-400',
+  changed: 'bg-blue-500/20 text-blue-400',
+  conflict: 'bg-orange-500/20 text-orange-400',
+};
+
+export function ImportPreviewModal({ preview, onCancel, onConfirm }: ImportPreviewModalProps) {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isApplying, setIsApplying] = useState(false);
+
+  const countFor = (table: SyncTable, status: ImportStatus) =>
+    preview ? preview.records.filter((r) => r.table === table && r.status === status).length : 0;
+
+  const conflictCount = preview ? preview.records.filter((r) => r.status === 'conflict').length : 0;
+  const removedCount = preview ? preview.removed.length : 0;
+  const hasChanges = preview ? preview.records.length > 0 || (mode === 'replace' && removedCount > 0) : false;
+
+  const handleConfirm = async () => {
+    setIsApplying(true);
+    try {
+      await onConfirm(mode);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {preview && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={isApplying ? undefined : onCancel}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-x-4 top-1/2 -translate-y-1/2 max-w-md mx-auto glass-card rounded-2xl p-6 z-50 card-shadow max-h-[85vh] overflow-y-auto"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-xl bg-primary/20">
+                  <Upload className="w-5 h-5 text-primary" />
+                </div>
+                <div>
+                  <h2 className="font-display text-xl font-bold">Restore Backup</h2>
+                  {preview.backup.exportedAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Exported {new Date(preview.backup.exportedAt).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+              </div>
+              <button
+                onClick={onCancel}
+                disabled={isApplying}
+                className="p-2 rounded-lg hover:bg-secondary transition-colors disabled:opacity-50"
+              >
+                <X className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </div>
+
+            {/* Per-table summary */}
+            <div className="rounded-xl border border-border overflow-hidden mb-4">
+              <div className="grid grid-cols-4 gap-2 px-3 py-2 bg-secondary/50 text-[11px] font-medium text-muted-foreground">
+                <span />
+                <span className="text-center">New</span>
+                <span className="text-center">Changed</span>
+                <span className="text-center">Conflicts</span>
+              </div>
+              {preview.tables.map((table) => (
+                <div key={table} className="grid grid-cols-4 gap-2 px-3 py-2 text-xs border-t border-border/50">
+                  <span className="text-foreground font-medium">{TABLE_LABELS[table]}</span>
+                  <span className="text-center text-green-400">{countFor(table, 'new')}</span>
+                  <span className="text-center text-blue-400">{countFor(table, 'changed')}</span>
+                  <span className="text-center text-orange-400">{countFor(table, 'conflict')}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mb-4">
+              {preview.unchanged} record{preview.unchanged !== 1 ? 's' : ''} already match this backup.
+            </p>
+
+            {/* Changed records */}
+            {preview.records.length > 0 && (
+              <div className="max-h-40 overflow-y-auto space-y-1.5 mb-4 pr-1">
+                {preview.records.map((record) => (
+                  <div key={`${record.table}-${record.id}`} className="flex items-center gap-2 text-xs">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium shrink-0 ${STATUS_STYLES[record.status]}`}>
+                      {record.status.toUpperCase()}
+                    </span>
+                    <span className="text-muted-foreground shrink-0">{TABLE_LABELS[record.table]}</span>
+                    <span className="text-foreground truncate">{record.label}</span>
+                    {record.changedFields.length > 0 && (
+                      <span className="text-muted-foreground/70 truncate ml-auto">{record.changedFields.join(', ')}</span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Mode selection */}
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <button
+                onClick={() => setMode('merge')}
+                className={`flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium transition-colors ${
+                  mode === 'merge' ? 'bg-primary/20 border-2 border-primary text-primary' : 'bg-secondary border border-border'
+                }`}
+              >
+                <GitMerge className="w-4 h-4" />
+                Merge
+              </button>
+              <button
+                onClick={() => setMode('replace')}
+                className={`flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-medium transition-colors ${
+                  mode === 'replace' ? 'bg-destructive/20 border-2 border-destructive text-destructive' : 'bg-secondary border border-border'
+                }`}
+              >
+                <RefreshCcw className="w-4 h-4" />
+                Replace
+              </button>
+            </div>
+            <p className="text-xs text-muted-foreground mb-4">
+              {mode === 'merge'
+                ? `Adds new records and updates changed ones. ${conflictCount > 0 ? `${conflictCount} conflicting record${conflictCount !== 1 ? 's' : ''} keep your unsynced edits.` : 'Nothing is deleted.'}`
+                : 'Makes your data match the backup exactly, overwriting conflicts.'}
+            </p>
+
+            {mode === 'replace' && removedCount > 0 && (
+              <div className="flex items-start gap-2 p-3 rounded-xl bg-destructive/10 border border-destructive/30 mb-4">
+                <AlertTriangle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+                <p className="text-xs text-destructive">
+                  {removedCount} record{removedCount !== 1 ? 's' : ''} not in the backup will be deleted.
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                onClick={onCancel}
+                disabled={isApplying}
+                className="flex-1 py-3 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={isApplying || !hasChanges}
+                className="flex-1 flex items-center justify-center gap-2 py-3 rounded-xl bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                {isApplying && <Loader2 className="w-4 h-4 animate-spin" />}
+                Restore
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,10 +1,15 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Phone, Trash2, Calendar, Pencil, Check, X, Send, DollarSign, AlertCircle, Copy, Pause, Play } from 'lucide-react';
-import { differenceInDays } from 'date-fns';
-import { Member, SubscriptionType, Team, USDT_RATE } from '@/types/member';
+import { Phone, Trash2, Calendar, Pencil, Check, X, Send, DollarSign, AlertCircle, Copy, Pause, Play, History, ChevronDown } from 'lucide-react';
+import { LedgerEntry, Member, MemberEvent, PaymentMethod, PAYMENT_METHODS, SubscriptionType, Team } from '@/types/member';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
 import { SubscriptionBadges } from './SubscriptionBadges';
+import { MemberTimeline } from './MemberTimeline';
+import { PaymentReceiptList } from './PaymentReceiptList';
+import { TwoFAField } from './TwoFAField';
+import { useSecureCopy } from '@/hooks/useSecureCopy';
+import { BillingCycle, daysUntilCycleEnd, resolveBillingCycle } from '@/lib/billingCycle';
 import { supabase as cloudSupabase } from '@/integrations/supabase/client';
 
 interface MemberCardProps {
@@ -16,12 +21,21 @@ interface MemberCardProps {
   allTeams?: Team[];
   hideActiveControl?: boolean;
   teamName?: string;
+  billingCycle?: BillingCycle;
+  // Team product's default price (BDT), prefilled when recording a first payment
+  defaultPrice?: number;
+  // This member's lifecycle log, newest first
+  events?: MemberEvent[];
+  // This member's payments, newest first, each with a receipt
+  payments?: LedgerEntry[];
+  onReceipt?: (entry: LedgerEntry) => void;
   onRemove: () => void;
   onDateChange: (id: string, date: string) => void;
   onEmailChange: (id: string, email: string) => void;
   onPhoneChange: (id: string, phone: string) => void;
   onTelegramChange: (id: string, telegram: string) => void;
-  onPaymentChange: (id: string, isPaid: boolean, paidAmount?: number) => void;
+  onTwoFAChange?: (id: string, twoFA: string) => void;
+  onPaymentChange: (id: string, isPaid: boolean, paidAmount?: number, usdtRate?: number, method?: PaymentMethod) => void;
   onSubscriptionsChange: (id: string, subscriptions: SubscriptionType[]) => void;
   onPendingAmountChange: (id: string, pendingAmount?: number) => void;
   onPushedChange?: (id: string, isPushed: boolean) => void;
@@ -38,11 +52,17 @@ export function MemberCard({
   allTeams = [],
   hideActiveControl = false,
   teamName,
+  billingCycle = resolveBillingCycle(),
+  defaultPrice,
+  events,
+  payments,
+  onReceipt,
   onRemove, 
   onDateChange,
   onEmailChange,
   onPhoneChange,
   onTelegramChange,
+  onTwoFAChange,
   onPaymentChange,
   onSubscriptionsChange,
   onPendingAmountChange,
@@ -51,6 +71,10 @@ export function MemberCard({
   onUsdtChange
 }: MemberCardProps) {
   const navigate = useNavigate();
+  const { rate: usdtRate } = useUsdtRate();
+  const copy = useSecureCopy();
+  // Paid amounts convert at the rate they were taken at, not today's
+  const paidUsdtRate = member.paidUsdtRate || usdtRate;
   const [isEditingDate, setIsEditingDate] = useState(false);
   const [editDateValue, setEditDateValue] = useState(member.joinDate);
   const [isEditingEmail, setIsEditingEmail] = useState(false);
@@ -61,8 +85,10 @@ export function MemberCard({
   const [editTelegramValue, setEditTelegramValue] = useState(member.telegram || '');
   const [isEditingPayment, setIsEditingPayment] = useState(false);
   const [editPaidAmount, setEditPaidAmount] = useState(member.paidAmount?.toString() || '');
+  const [editPaymentMethod, setEditPaymentMethod] = useState<PaymentMethod | ''>('');
   const [isEditingPending, setIsEditingPending] = useState(false);
   const [editPendingAmount, setEditPendingAmount] = useState(member.pendingAmount?.toString() || '');
+  const [showHistory, setShowHistory] = useState(false);
   // Get the active team name for display
   const activeTeamName = member.activeTeamId 
     ? allTeams.find(t => t.id === member.activeTeamId)?.teamName 
@@ -210,12 +236,19 @@ export function MemberCard({
     setIsEditingTelegram(false);
   };
 
+  const handleStartPayment = () => {
+    if (!member.paidAmount && defaultPrice) {
+      setEditPaidAmount(member.isUsdt ? (defaultPrice / usdtRate).toFixed(2) : defaultPrice.toString());
+    }
+    setIsEditingPayment(true);
+  };
+
   const handleSavePayment = (isPaid: boolean) => {
     let amount = parseFloat(editPaidAmount) || 0;
     if (member.isUsdt && amount > 0) {
-      amount = amount * USDT_RATE;
+      amount = amount * usdtRate;
     }
-    onPaymentChange(member.id, isPaid, isPaid ? amount : undefined);
+    onPaymentChange(member.id, isPaid, isPaid ? amount : undefined, usdtRate, editPaymentMethod || undefined);
     setIsEditingPayment(false);
   };
 
@@ -227,7 +260,7 @@ export function MemberCard({
   const handleSavePending = () => {
     let amount = parseFloat(editPendingAmount) || 0;
     if (member.isUsdt && amount > 0) {
-      amount = amount * USDT_RATE;
+      amount = amount * usdtRate;
     }
     onPendingAmountChange(member.id, amount > 0 ? amount : undefined);
     setIsEditingPending(false);
@@ -240,9 +273,11 @@ export function MemberCard({
           recipientEmail: member.email,
           idempotencyKey: `due-${member.id}-${Date.now()}`,
           templateData: {
+            memberId: member.id,
             email: member.email,
             dueAmount: amount,
             isUsdt: member.isUsdt || false,
+            usdtRate,
             teamName: teamName || '',
           },
         },
@@ -255,16 +290,13 @@ export function MemberCard({
     setIsEditingPending(false);
   };
 
-  const [y, mo, d] = member.joinDate.split('-').map(Number);
-  const joinDateLocal = new Date(y, mo - 1, d);
-  const todayLocal = new Date(new Date().getFullYear(), new Date().getMonth(), new Date().getDate());
-  const isOverOneMonth = differenceInDays(todayLocal, joinDateLocal) >= 30;
+  const isCycleOver = daysUntilCycleEnd(member.joinDate, billingCycle) <= 0;
   
   // Check if member has paid with 0 amount
   const isPaidZero = member.isPaid && (!member.paidAmount || member.paidAmount === 0);
   
   // Determine if red indicator should be hidden (when pushed OR has active team)
-  const shouldShowRedIndicator = !member.isPushed && !member.activeTeamId && (isOverOneMonth || isPaidZero);
+  const shouldShowRedIndicator = !member.isPushed && !member.activeTeamId && (isCycleOver || isPaidZero);
 
   // Card highlight classes
   const getCardClasses = () => {
@@ -311,7 +343,7 @@ export function MemberCard({
                   ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
                   : 'bg-muted/30 text-muted-foreground hover:bg-muted/50'
               }`}
-              title={member.isUsdt ? `USDT ON (1$ = ${USDT_RATE}৳)` : 'Enable USDT mode'}
+              title={member.isUsdt ? `USDT ON (1$ = ${usdtRate}৳)` : 'Enable USDT mode'}
             >
               <DollarSign className="w-3 h-3" />
             </button>
@@ -406,7 +438,7 @@ export function MemberCard({
               <div className="flex items-center gap-2 min-w-0">
                 <p className="text-sm font-medium text-foreground break-all">{member.email}</p>
                 <button
-                  onClick={() => navigator.clipboard.writeText(member.email)}
+                  onClick={() => copy(member.email, 'Email', 'email')}
                   className="p-1 rounded-lg hover:bg-secondary transition-all flex-shrink-0"
                   aria-label="Copy email"
                 >
@@ -457,7 +489,7 @@ export function MemberCard({
             <div className="flex items-center gap-2 group">
               <p className="text-sm text-muted-foreground">{member.phone}</p>
               <button
-                onClick={() => navigator.clipboard.writeText(member.phone)}
+                onClick={() => copy(member.phone, 'Phone', 'phone')}
                 className="p-1 rounded-lg hover:bg-secondary transition-all flex-shrink-0"
                 aria-label="Copy phone"
               >
@@ -528,6 +560,15 @@ export function MemberCard({
             </div>
           )}
 
+          {/* 2FA - live code for TOTP secrets */}
+          {onTwoFAChange && (
+            <TwoFAField
+              value={member.twoFA}
+              isRemoveMode={isRemoveMode}
+              onSave={(twoFA) => onTwoFAChange(member.id, twoFA)}
+            />
+          )}
+
           {/* Payment Status */}
           {isEditingPayment ? (
             <div className="flex items-center gap-2 flex-wrap">
@@ -542,6 +583,17 @@ export function MemberCard({
                 min="0"
                 step="0.01"
               />
+              <select
+                value={editPaymentMethod}
+                onChange={(e) => setEditPaymentMethod(e.target.value as PaymentMethod | '')}
+                className="bg-input rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+                aria-label="Payment method"
+              >
+                <option value="">Method</option>
+                {PAYMENT_METHODS.map((m) => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
               <button
                 onClick={() => handleSavePayment(true)}
                 className="px-2 py-1 rounded text-xs bg-success/20 text-success hover:bg-success/30 transition-colors"
@@ -560,7 +612,7 @@ export function MemberCard({
               {member.isPaid ? (
                 <span className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-success/20 text-success">
                   <DollarSign className="w-3 h-3" />
-                  Paid {member.paidAmount ? (member.isUsdt ? `$${(member.paidAmount / USDT_RATE).toFixed(1)} (৳${member.paidAmount})` : `৳${member.paidAmount}`) : ''}
+                  Paid {member.paidAmount ? (member.isUsdt ? `$${(member.paidAmount / paidUsdtRate).toFixed(1)} (৳${member.paidAmount})` : `৳${member.paidAmount}`) : ''}
                 </span>
               ) : (
               <span className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-amber-500/20 text-amber-400">
@@ -570,7 +622,7 @@ export function MemberCard({
               )}
               {!isRemoveMode && (
                 <button
-                  onClick={() => setIsEditingPayment(true)}
+                  onClick={handleStartPayment}
                   className="p-1 rounded-lg opacity-0 group-hover:opacity-100 hover:bg-secondary transition-all"
                   aria-label="Edit payment status"
                 >
@@ -616,7 +668,7 @@ export function MemberCard({
               {member.pendingAmount && member.pendingAmount > 0 ? (
                 <span className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-orange-500/20 text-orange-400">
                   <AlertCircle className="w-3 h-3" />
-                  Due {member.isUsdt ? `$${(member.pendingAmount / USDT_RATE).toFixed(1)} (৳${member.pendingAmount})` : `৳${member.pendingAmount}`}
+                  Due {member.isUsdt ? `$${(member.pendingAmount / usdtRate).toFixed(1)} (৳${member.pendingAmount})` : `৳${member.pendingAmount}`}
                 </span>
               ) : (
                 <button
@@ -777,6 +829,26 @@ export function MemberCard({
           </>
         )}
       </div>
+
+      {/* Lifecycle history */}
+      {events && !isRemoveMode && (
+        <div className="mt-2 pt-2 border-t border-border/50">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <History className="w-3 h-3" />
+            <span>History ({events.length})</span>
+            <ChevronDown className={`w-3 h-3 transition-transform ${showHistory ? 'rotate-180' : ''}`} />
+          </button>
+          {showHistory && (
+            <div className="mt-3">
+              {payments && onReceipt && <PaymentReceiptList payments={payments} onReceipt={onReceipt} />}
+              <MemberTimeline events={events} teams={allTeams} />
+            </div>
+          )}
+        </div>
+      )}
     </motion.div>
   );
 }
@@ -0,0 +1,108 @@
+import {
+  ArchiveRestore,
+  ArrowRightLeft,
+  Banknote,
+  DollarSign,
+  KeyRound,
+  LucideIcon,
+  Pause,
+  Pencil,
+  RefreshCw,
+  UserMinus,
+  UserPlus,
+} from 'lucide-react';
+import { MemberEvent, MemberEventType, Team } from '@/types/member';
+
+interface MemberTimelineProps {
+  events: MemberEvent[];
+  // Used to show team names for added/removed/moved events
+  teams?: Team[];
+  limit?: number;
+}
+
+const EVENT_STYLES: Record<MemberEventType, { icon: LucideIcon; color: string }> = {
+  added: { icon: UserPlus, color: 'text-emerald-400 bg-emerald-500/20' },
+  removed: { icon: UserMinus, color: 'text-destructive bg-destructive/20' },
+  updated: { icon: Pencil, color: 'text-muted-foreground bg-muted/40' },
+  moved: { icon: ArrowRightLeft, color: 'text-sky-400 bg-sky-500/20' },
+  pushed: { icon: Pause, color: 'text-muted-foreground bg-muted/40' },
+  usdt: { icon: DollarSign, color: 'text-amber-400 bg-amber-500/20' },
+  credentials: { icon: KeyRound, color: 'text-violet-400 bg-violet-500/20' },
+  payment: { icon: Banknote, color: 'text-success bg-success/20' },
+  renewed: { icon: RefreshCw, color: 'text-cyan-400 bg-cyan-500/20' },
+  restored: { icon: ArchiveRestore, color: 'text-emerald-400 bg-emerald-500/20' },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  email: 'Email',
+  phone: 'Phone',
+  telegram: 'Telegram',
+  join_date: 'Join date',
+  subscriptions: 'Subscriptions',
+  pending_amount: 'Due amount',
+  total_amount: 'Total amount',
+  twofa_secret: '2FA secret',
+  password: 'Password',
+  e_pass: 'E-pass',
+  g_pass: 'G-pass',
+};
+
+const formatEventTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export function MemberTimeline({ events, teams = [], limit }: MemberTimelineProps) {
+  const teamName = (id?: string) => (id && teams.find((t) => t.id === id)?.teamName) || 'a deleted team';
+
+  const describe = (event: MemberEvent): string => {
+    const field = (event.field && FIELD_LABELS[event.field]) || event.field || 'Details';
+    switch (event.type) {
+      case 'added':
+        return `Added to ${teamName(event.teamId)}`;
+      case 'removed':
+        return `Removed from ${teamName(event.teamId)}`;
+      case 'restored':
+        return `Restored to ${teamName(event.teamId)}`;
+      case 'moved':
+        return event.toValue ? `Active in ${teamName(event.toValue)}` : 'Active team cleared';
+      case 'pushed':
+        return event.toValue === 'true' ? 'Pushed' : 'Unpushed';
+      case 'usdt':
+        return event.toValue === 'true' ? 'Marked as USDT' : 'USDT turned off';
+      case 'credentials':
+        return `${field} changed`;
+      case 'payment':
+        return event.toValue ? `Paid ৳${event.toValue}` : 'Payment cleared';
+      case 'renewed':
+        return `Renewed from ${event.toValue}`;
+      default:
+        return event.fromValue || event.toValue
+          ? `${field}: ${event.fromValue || '—'} → ${event.toValue || '—'}`
+          : `${field} changed`;
+    }
+  };
+
+  const visible = limit ? events.slice(0, limit) : events;
+
+  if (visible.length === 0) {
+    return <p className="text-xs text-muted-foreground">No history yet</p>;
+  }
+
+  return (
+    <ol className="relative space-y-3 before:absolute before:left-3 before:top-1 before:bottom-1 before:w-px before:bg-border">
+      {visible.map((event) => {
+        const { icon: Icon, color } = EVENT_STYLES[event.type] || EVENT_STYLES.updated;
+        return (
+          <li key={event.id} className="relative flex items-start gap-3">
+            <span className={`relative z-10 w-6 h-6 rounded-full flex items-center justify-center shrink-0 ${color}`}>
+              <Icon className="w-3 h-3" />
+            </span>
+            <div className="min-w-0">
+              <p className="text-xs font-medium text-foreground break-all">{describe(event)}</p>
+              <p className="text-[10px] text-muted-foreground">{formatEventTime(event.createdAt)}</p>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
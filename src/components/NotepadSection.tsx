@@ -4,6 +4,8 @@ import { FileText, Plus, Trash2, Pencil, Check, X, ChevronLeft, Calendar, Save }
 import { Notepad } from '@/types/member';
 import { RichTextEditor } from './RichTextEditor';
 import { toast } from 'sonner';
+import { UndoEntry } from '@/services/undoService';
+import { toastWithUndo } from '@/lib/undo';
 
 interface NotepadSectionProps {
   notepads: Notepad[];
@@ -12,6 +14,7 @@ interface NotepadSectionProps {
   onSelectNotepad: (id: string) => void;
   onUpdateNotepad: (id: string, updates: Partial<Pick<Notepad, 'title' | 'content'>>) => void;
   onDeleteNotepad: (id: string) => void;
+  onDeleteNotepads: (ids: string[]) => Promise<UndoEntry | undefined>;
   onClose: () => void;
 }
 
@@ -22,6 +25,7 @@ export function NotepadSection({
   onSelectNotepad,
   onUpdateNotepad,
   onDeleteNotepad,
+  onDeleteNotepads,
   onClose,
 }: NotepadSectionProps) {
   const [isEditingTitle, setIsEditingTitle] = useState(false);
@@ -96,14 +100,12 @@ export function NotepadSection({
     }
   };
 
-  const confirmDeleteSelected = () => {
-    selectedNotes.forEach((id) => {
-      onDeleteNotepad(id);
-    });
-    toast.success(`${selectedNotes.size} note(s) deleted`);
+  const confirmDeleteSelected = async () => {
+    const count = selectedNotes.size;
     setSelectedNotes(new Set());
     setIsSelectMode(false);
     setDeleteConfirm(null);
+    toastWithUndo(`${count} note(s) deleted`, await onDeleteNotepads([...selectedNotes]));
   };
 
   // If viewing a notepad
@@ -0,0 +1,44 @@
+import { FileText, Receipt } from 'lucide-react';
+import { LedgerEntry } from '@/types/member';
+import { formatInvoiceNumber } from '@/lib/receipt';
+
+interface PaymentReceiptListProps {
+  // This member's payments, newest first
+  payments: LedgerEntry[];
+  onReceipt: (entry: LedgerEntry) => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function PaymentReceiptList({ payments, onReceipt }: PaymentReceiptListProps) {
+  if (payments.length === 0) return null;
+
+  return (
+    <div className="space-y-1.5 mb-3">
+      <p className="text-xs text-muted-foreground font-medium flex items-center gap-1">
+        <Receipt className="w-3 h-3" /> Payments
+      </p>
+      {payments.map((entry) => (
+        <div key={entry.id} className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-muted-foreground truncate">
+            {entry.cycleStart && entry.cycleEnd
+              ? `${formatDate(entry.cycleStart)} – ${formatDate(entry.cycleEnd)}`
+              : formatDate(entry.paidAt)}
+          </span>
+          <div className="flex items-center gap-2 shrink-0">
+            <span className="font-medium text-emerald-500">৳{entry.amount}</span>
+            <button
+              onClick={() => onReceipt(entry)}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+              title={entry.invoiceNumber ? formatInvoiceNumber(entry.invoiceNumber) : 'Receipt'}
+            >
+              <FileText className="w-3 h-3" />
+              Receipt
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,9 +1,15 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Phone, Trash2, Calendar, Pencil, Check, X, Send, Copy, Pause, Play, DollarSign } from 'lucide-react';
-import { Member, USDT_RATE } from '@/types/member';
+import { Phone, Trash2, Calendar, Pencil, Check, X, Send, Copy, Pause, Play, DollarSign, History, ChevronDown } from 'lucide-react';
+import { LedgerEntry, Member, MemberEvent, PaymentMethod, PAYMENT_METHODS, Team } from '@/types/member';
+import { CopyFieldType } from '@/lib/clipboard';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
 import { toast } from 'sonner';
 import { supabase as cloudSupabase } from '@/integrations/supabase/client';
+import { MemberTimeline } from './MemberTimeline';
+import { PaymentReceiptList } from './PaymentReceiptList';
+import { TwoFAField } from './TwoFAField';
+import { useSecureCopy } from '@/hooks/useSecureCopy';
 
 interface PlusMemberCardProps {
   member: Member;
@@ -12,6 +18,12 @@ interface PlusMemberCardProps {
   isHighlighted?: boolean;
   highlightColor?: 'blue' | 'green' | 'rainbow' | 'yellow';
   teamName?: string;
+  allTeams?: Team[];
+  // This member's lifecycle log, newest first
+  events?: MemberEvent[];
+  // This member's payments, newest first, each with a receipt
+  payments?: LedgerEntry[];
+  onReceipt?: (entry: LedgerEntry) => void;
   onRemove: () => void;
   onDateChange: (id: string, date: string) => void;
   onEmailChange: (id: string, email: string) => void;
@@ -19,8 +31,9 @@ interface PlusMemberCardProps {
   onTelegramChange: (id: string, telegram: string) => void;
   onEPassChange: (id: string, ePass: string) => void;
   onGPassChange: (id: string, gPass: string) => void;
+  onTwoFAChange?: (id: string, twoFA: string) => void;
   onPushedChange?: (id: string, isPushed: boolean) => void;
-  onPaymentChange?: (id: string, isPaid: boolean, paidAmount?: number) => void;
+  onPaymentChange?: (id: string, isPaid: boolean, paidAmount?: number, usdtRate?: number, method?: PaymentMethod) => void;
   onPendingAmountChange?: (id: string, pendingAmount?: number) => void;
   onUsdtChange?: (id: string, isUsdt: boolean) => void;
 }
@@ -32,6 +45,10 @@ export function PlusMemberCard({
   isHighlighted = false,
   highlightColor = 'blue',
   teamName,
+  allTeams = [],
+  events,
+  payments,
+  onReceipt,
   onRemove, 
   onDateChange,
   onEmailChange,
@@ -39,11 +56,15 @@ export function PlusMemberCard({
   onTelegramChange,
   onEPassChange,
   onGPassChange,
+  onTwoFAChange,
   onPushedChange,
   onPaymentChange,
   onPendingAmountChange,
   onUsdtChange
 }: PlusMemberCardProps) {
+  const { rate: usdtRate } = useUsdtRate();
+  // Paid amounts convert at the rate they were taken at, not today's
+  const paidUsdtRate = member.paidUsdtRate || usdtRate;
   const [isEditingDate, setIsEditingDate] = useState(false);
   const [editDateValue, setEditDateValue] = useState(member.joinDate);
   const [isEditingEmail, setIsEditingEmail] = useState(false);
@@ -58,13 +79,12 @@ export function PlusMemberCard({
   const [editGPassValue, setEditGPassValue] = useState(member.gPass || '');
   const [showPaidInput, setShowPaidInput] = useState(false);
   const [paidAmountInput, setPaidAmountInput] = useState(member.paidAmount?.toString() || '');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | ''>('');
   const [showDueInput, setShowDueInput] = useState(false);
   const [dueAmountInput, setDueAmountInput] = useState(member.pendingAmount?.toString() || '');
+  const [showHistory, setShowHistory] = useState(false);
 
-  const copyToClipboard = (text: string, label: string) => {
-    navigator.clipboard.writeText(text);
-    toast.success(`${label} copied!`);
-  };
+  const copy = useSecureCopy();
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -141,9 +161,9 @@ export function PlusMemberCard({
     let amount = parseFloat(paidAmountInput);
     if (!isNaN(amount) && amount > 0 && onPaymentChange) {
       if (member.isUsdt) {
-        amount = amount * USDT_RATE;
+        amount = amount * usdtRate;
       }
-      onPaymentChange(member.id, true, amount);
+      onPaymentChange(member.id, true, amount, usdtRate, paymentMethod || undefined);
       toast.success(member.isUsdt ? `Paid $${paidAmountInput} (৳${amount}) recorded!` : `Paid ৳${amount} recorded!`);
     }
     setShowPaidInput(false);
@@ -154,7 +174,7 @@ export function PlusMemberCard({
     let amount = parseFloat(dueAmountInput);
     if (!isNaN(amount) && amount >= 0 && onPendingAmountChange) {
       if (member.isUsdt && amount > 0) {
-        amount = amount * USDT_RATE;
+        amount = amount * usdtRate;
       }
       onPendingAmountChange(member.id, amount > 0 ? amount : undefined);
       toast.success(amount > 0 
@@ -169,9 +189,11 @@ export function PlusMemberCard({
             recipientEmail: member.email,
             idempotencyKey: `due-${member.id}-${Date.now()}`,
             templateData: {
+              memberId: member.id,
               email: member.email,
               dueAmount: amount,
               isUsdt: member.isUsdt || false,
+              usdtRate,
               teamName: teamName || '',
             },
           },
@@ -214,6 +236,7 @@ export function PlusMemberCard({
     onSave,
     onCancel,
     type = 'text',
+    copyType,
   }: {
     label: string;
     value: string | undefined;
@@ -224,6 +247,7 @@ export function PlusMemberCard({
     onSave: () => void;
     onCancel: () => void;
     type?: string;
+    copyType: CopyFieldType;
   }) => {
     if (isEditing) {
       return (
@@ -265,7 +289,7 @@ export function PlusMemberCard({
             <span className="text-xs text-foreground/90 truncate flex-1" title={value}>{value}</span>
             <motion.button
               whileTap={{ scale: 0.9 }}
-              onClick={() => copyToClipboard(value, label)}
+              onClick={() => copy(value, label, copyType)}
               className="p-1 rounded-md hover:bg-white/10 transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
             >
               <Copy className="w-3 h-3 text-muted-foreground" />
@@ -316,7 +340,7 @@ export function PlusMemberCard({
                       ? 'bg-amber-500/20 text-amber-400 border border-amber-500/30'
                       : 'bg-muted/30 text-muted-foreground border border-muted-foreground/20 hover:bg-muted/50'
                   }`}
-                  title={member.isUsdt ? `USDT ON (1$ = ${USDT_RATE}৳)` : 'Enable USDT mode'}
+                  title={member.isUsdt ? `USDT ON (1$ = ${usdtRate}৳)` : 'Enable USDT mode'}
                 >
                   <DollarSign className="w-3 h-3" />
                 </motion.button>
@@ -380,7 +404,7 @@ export function PlusMemberCard({
             <p className="text-sm font-medium text-foreground break-all leading-tight flex-1">{member.email}</p>
             <motion.button
               whileTap={{ scale: 0.9 }}
-              onClick={() => copyToClipboard(member.email, 'Email')}
+              onClick={() => copy(member.email, 'Email', 'email')}
               className="p-1.5 rounded-lg hover:bg-white/10 transition-colors flex-shrink-0"
             >
               <Copy className="w-3.5 h-3.5 text-muted-foreground" />
@@ -410,6 +434,7 @@ export function PlusMemberCard({
           setIsEditing={setIsEditingEPass}
           onSave={handleSaveEPass}
           onCancel={() => { setEditEPassValue(member.ePass || ''); setIsEditingEPass(false); }}
+          copyType="pass"
         />
 
         {/* G-Pass */}
@@ -422,8 +447,18 @@ export function PlusMemberCard({
           setIsEditing={setIsEditingGPass}
           onSave={handleSaveGPass}
           onCancel={() => { setEditGPassValue(member.gPass || ''); setIsEditingGPass(false); }}
+          copyType="pass"
         />
 
+        {/* 2FA - live code for TOTP secrets */}
+        {onTwoFAChange && (
+          <TwoFAField
+            value={member.twoFA}
+            isRemoveMode={isRemoveMode}
+            onSave={(twoFA) => onTwoFAChange(member.id, twoFA)}
+          />
+        )}
+
         {/* Phone */}
         <EditableField
           label="Phone"
@@ -435,6 +470,7 @@ export function PlusMemberCard({
           onSave={handleSavePhone}
           onCancel={() => { setEditPhoneValue(member.phone || ''); setIsEditingPhone(false); }}
           type="tel"
+          copyType="phone"
         />
 
         {/* Telegram */}
@@ -469,7 +505,7 @@ export function PlusMemberCard({
                 </button>
                 <motion.button
                   whileTap={{ scale: 0.9 }}
-                  onClick={() => copyToClipboard(member.telegram!, 'Telegram')}
+                  onClick={() => copy(member.telegram!, 'Telegram', 'telegram')}
                   className="p-1 rounded-md hover:bg-white/10 transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
                 >
                   <Copy className="w-3 h-3 text-muted-foreground" />
@@ -545,12 +581,12 @@ export function PlusMemberCard({
           <div className="flex items-center gap-2">
             {member.paidAmount && member.paidAmount > 0 && (
               <span className="px-2 py-1 rounded-full bg-emerald-500/20 text-emerald-400 text-[10px] font-medium">
-                Paid: {member.isUsdt ? `$${(member.paidAmount / USDT_RATE).toFixed(1)} (৳${member.paidAmount})` : `৳${member.paidAmount}`}
+                Paid: {member.isUsdt ? `$${(member.paidAmount / paidUsdtRate).toFixed(1)} (৳${member.paidAmount})` : `৳${member.paidAmount}`}
               </span>
             )}
             {member.pendingAmount && member.pendingAmount > 0 && (
               <span className="px-2 py-1 rounded-full bg-orange-500/20 text-orange-400 text-[10px] font-medium">
-                Due: {member.isUsdt ? `$${(member.pendingAmount / USDT_RATE).toFixed(1)} (৳${member.pendingAmount})` : `৳${member.pendingAmount}`}
+                Due: {member.isUsdt ? `$${(member.pendingAmount / usdtRate).toFixed(1)} (৳${member.pendingAmount})` : `৳${member.pendingAmount}`}
               </span>
             )}
           </div>
@@ -571,6 +607,17 @@ export function PlusMemberCard({
                   if (e.key === 'Escape') setShowPaidInput(false);
                 }}
               />
+              <select
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod | '')}
+                className="bg-white/10 backdrop-blur-sm rounded-lg px-2 py-2 text-xs text-foreground focus:outline-none focus:ring-2 focus:ring-emerald-500/50 border border-white/10"
+                aria-label="Payment method"
+              >
+                <option value="">Method</option>
+                {PAYMENT_METHODS.map((m) => (
+                  <option key={m.value} value={m.value}>{m.label}</option>
+                ))}
+              </select>
               <motion.button whileTap={{ scale: 0.9 }} onClick={handleSavePaid} className="p-2 rounded-lg bg-emerald-500/20 text-emerald-400">
                 <Check className="w-4 h-4" />
               </motion.button>
@@ -689,6 +736,26 @@ export function PlusMemberCard({
           </motion.button>
         )}
       </div>
+
+      {/* Lifecycle history */}
+      {events && !isRemoveMode && (
+        <div className="mt-2 pt-2 border-t border-border/50">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <History className="w-3 h-3" />
+            <span>History ({events.length})</span>
+            <ChevronDown className={`w-3 h-3 transition-transform ${showHistory ? 'rotate-180' : ''}`} />
+          </button>
+          {showHistory && (
+            <div className="mt-3">
+              {payments && onReceipt && <PaymentReceiptList payments={payments} onReceipt={onReceipt} />}
+              <MemberTimeline events={events} teams={allTeams} />
+            </div>
+          )}
+        </div>
+      )}
     </motion.div>
   );
 }
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { CheckCircle2, ImagePlus, Loader2 } from 'lucide-react';
+import { PaymentMethod, PAYMENT_METHODS } from '@/types/member';
+
+const MAX_SCREENSHOT_BYTES = 5 * 1024 * 1024;
+
+// Cash is handed over in person, so it isn't offered here
+const SUBMIT_METHODS = PAYMENT_METHODS.filter((m) => m.value !== 'cash');
+
+interface PortalPaymentFormProps {
+  token: string;
+  isUsdt: boolean;
+}
+
+// Lets a customer report a payment from their portal link; it shows up in the
+// workspace's pending verifications until someone approves it
+export function PortalPaymentForm({ token, isUsdt }: PortalPaymentFormProps) {
+  const [method, setMethod] = useState<PaymentMethod | ''>('');
+  const [transactionId, setTransactionId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [screenshot, setScreenshot] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const canSubmit = !!method && transactionId.trim().length >= 3 && parseFloat(amount) > 0 && !isSubmitting;
+
+  const handleScreenshot = (file: File | undefined) => {
+    setError(null);
+    if (!file) {
+      setScreenshot(null);
+      return;
+    }
+    if (!file.type.startsWith('image/')) {
+      setError('The screenshot must be an image.');
+      return;
+    }
+    if (file.size > MAX_SCREENSHOT_BYTES) {
+      setError('The screenshot must be under 5 MB.');
+      return;
+    }
+    setScreenshot(file);
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    setError(null);
+
+    const form = new FormData();
+    form.append('token', token);
+    form.append('method', method);
+    form.append('transactionId', transactionId.trim());
+    form.append('amount', amount);
+    if (screenshot) form.append('screenshot', screenshot);
+
+    try {
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      const anonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+      const response = await fetch(`${supabaseUrl}/functions/v1/submit-payment`, {
+        method: 'POST',
+        headers: { apikey: anonKey },
+        body: form,
+      });
+      const body = await response.json().catch(() => ({}));
+      if (response.ok && body.success) {
+        setSubmitted(true);
+      } else {
+        setError(body.error || 'Something went wrong. Please try again later.');
+      }
+    } catch {
+      setError('Something went wrong. Please try again later.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetForm = () => {
+    setMethod('');
+    setTransactionId('');
+    setAmount('');
+    setScreenshot(null);
+    setSubmitted(false);
+  };
+
+  if (submitted) {
+    return (
+      <div className="rounded-2xl bg-card border border-border p-5 text-center space-y-2">
+        <CheckCircle2 className="w-8 h-8 text-emerald-400 mx-auto" />
+        <p className="font-semibold text-foreground">Payment submitted</p>
+        <p className="text-sm text-muted-foreground">
+          We'll verify it shortly and update your subscription.
+        </p>
+        <button onClick={resetForm} className="text-sm text-primary hover:underline">
+          Submit another payment
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl bg-card border border-border p-5 space-y-3">
+      <h2 className="text-sm font-semibold text-foreground">Report a payment</h2>
+
+      <div className="space-y-1">
+        <label className="text-xs text-muted-foreground">Method</label>
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as PaymentMethod | '')}
+          className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        >
+          <option value="">Choose how you paid</option>
+          {SUBMIT_METHODS.map((m) => (
+            <option key={m.value} value={m.value}>{m.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-muted-foreground">Transaction ID</label>
+        <input
+          value={transactionId}
+          onChange={(e) => setTransactionId(e.target.value)}
+          maxLength={64}
+          className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-xs text-muted-foreground">Amount {isUsdt ? '($)' : '(৳)'}</label>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 px-4 py-2.5 rounded-xl bg-secondary/50 text-sm text-muted-foreground cursor-pointer hover:bg-secondary transition-colors">
+        <ImagePlus className="w-4 h-4 flex-shrink-0" />
+        <span className="truncate">{screenshot ? screenshot.name : 'Attach a screenshot (optional)'}</span>
+        <input
+          type="file"
+          accept="image/jpeg,image/png,image/webp,image/heic"
+          className="hidden"
+          onChange={(e) => handleScreenshot(e.target.files?.[0])}
+        />
+      </label>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <button
+        onClick={handleSubmit}
+        disabled={!canSubmit}
+        className="w-full py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+        Submit payment
+      </button>
+    </div>
+  );
+}
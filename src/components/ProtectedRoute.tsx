@@ -1,6 +1,11 @@
 import { ReactNode } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { VaultLockScreen } from './VaultLockScreen';
+import { AppLockScreen } from './AppLockScreen';
 
 interface ProtectedRouteProps {
   children: ReactNode;
@@ -8,8 +13,12 @@ interface ProtectedRouteProps {
 
 export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
   const { user, loading } = useAuth();
+  const location = useLocation();
+  const { status: vaultStatus } = useVault();
+  const { status: appLockStatus } = useAppLock();
+  const { isLoading: workspaceLoading } = useWorkspace();
 
-  if (loading) {
+  if (loading || (user && (workspaceLoading || vaultStatus === 'loading' || appLockStatus === 'loading'))) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="w-8 h-8 rounded-full border-2 border-primary border-t-transparent animate-spin" />
@@ -18,8 +27,15 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
   }
 
   if (!user) {
-    return <Navigate to="/auth" replace />;
+    // Come back here after signing in (e.g. an invite link)
+    return <Navigate to="/auth" replace state={{ from: `${location.pathname}${location.search}` }} />;
   }
 
-  return <>{children}</>;
+  return (
+    <>
+      {vaultStatus === 'locked' ? <VaultLockScreen /> : children}
+      {/* Overlaid rather than swapped in, so pages keep their state across a lock */}
+      {appLockStatus === 'locked' && <AppLockScreen />}
+    </>
+  );
 };
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
+import { Download, FileText, Loader2, Mail, X } from 'lucide-react';
+import { supabase as cloudSupabase } from '@/integrations/supabase/client';
+import { useProfile } from '@/hooks/useProfile';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
+import { useSubscriptionProducts } from '@/contexts/SubscriptionProductsContext';
+import { isOnline } from '@/services/syncService';
+import { downloadReceipt, formatInvoiceNumber, ReceiptData } from '@/lib/receipt';
+import { bdtToUsd } from '@/lib/usdtRate';
+import { LedgerEntry, Member, PAYMENT_METHODS, Team } from '@/types/member';
+
+const DEFAULT_BUSINESS_NAME = 'Tech Subx BD';
+
+interface ReceiptModalProps {
+  entry: LedgerEntry | null;
+  member: Member | null;
+  team: Team | null;
+  onClose: () => void;
+  // Resolves the entry's invoice number, assigning one the first time
+  assignInvoiceNumber: (entryId: string) => Promise<number | null>;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const methodLabel = (method?: string) => PAYMENT_METHODS.find((m) => m.value === method)?.label;
+
+export function ReceiptModal({ entry, member, team, onClose, assignInvoiceNumber }: ReceiptModalProps) {
+  const { profile } = useProfile();
+  const { workspace, isOwner } = useWorkspace();
+  const { rateOn } = useUsdtRate();
+  const { getPlanName } = useSubscriptionProducts();
+  const [busy, setBusy] = useState<'download' | 'email' | null>(null);
+
+  const isOpen = !!entry && !!member && !!team;
+  // A shared workspace's receipts carry its name, not the collaborator's own business
+  const businessName = (isOwner ? profile?.business_name : workspace?.name) || DEFAULT_BUSINESS_NAME;
+  const isUsdt = entry?.currency === 'USDT';
+  const usdtRate = entry ? entry.usdtRate || rateOn(entry.paidAt) : 0;
+
+  const buildReceipt = (invoiceNumber: number): ReceiptData | null => {
+    if (!entry || !member || !team) return null;
+    return {
+      invoiceNumber,
+      businessName,
+      memberEmail: member.email,
+      planName: getPlanName(team.logo),
+      paidAt: entry.paidAt,
+      periodStart: entry.cycleStart,
+      periodEnd: entry.cycleEnd,
+      amountBdt: entry.amount,
+      amountUsd: isUsdt ? bdtToUsd(entry.amount, usdtRate) : undefined,
+      usdtRate: isUsdt ? usdtRate : undefined,
+      method: methodLabel(entry.method),
+    };
+  };
+
+  const handleDownload = async () => {
+    if (!entry) return;
+    setBusy('download');
+    try {
+      const invoiceNumber = await assignInvoiceNumber(entry.id);
+      const receipt = invoiceNumber ? buildReceipt(invoiceNumber) : null;
+      if (receipt) downloadReceipt(receipt);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmail = async () => {
+    if (!entry || !member || !team) return;
+    if (!isOnline()) {
+      toast.error('Connect to the internet to email the receipt');
+      return;
+    }
+    setBusy('email');
+    try {
+      const invoiceNumber = await assignInvoiceNumber(entry.id);
+      if (!invoiceNumber) return;
+      const { error } = await cloudSupabase.functions.invoke('send-transactional-email', {
+        body: {
+          templateName: 'payment-receipt',
+          recipientEmail: member.email,
+          idempotencyKey: `payment-receipt-${entry.id}`,
+          templateData: {
+            memberId: member.id,
+            email: member.email,
+            invoiceNumber: formatInvoiceNumber(invoiceNumber),
+            planName: getPlanName(team.logo),
+            teamName: team.teamName,
+            isUsdt,
+            amount: entry.amount,
+            usdtRate: isUsdt ? usdtRate : undefined,
+            paidAt: entry.paidAt,
+            cycleStart: entry.cycleStart,
+            cycleEnd: entry.cycleEnd,
+            method: methodLabel(entry.method),
+            receiptId: entry.id,
+          },
+        },
+      });
+      if (error) throw error;
+      toast.success(`Receipt emailed to ${member.email}`);
+    } catch (e) {
+      console.error('[Email] Receipt email failed:', e);
+      toast.error('Failed to email the receipt');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && entry && member && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-x-4 top-1/2 -translate-y-1/2 max-w-md mx-auto glass-card rounded-2xl p-6 z-50 card-shadow"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-emerald-500 to-cyan-500 flex items-center justify-center">
+                  <FileText className="w-4 h-4 text-white" />
+                </div>
+                <div>
+                  <h2 className="font-display text-lg font-bold">Receipt</h2>
+                  <p className="text-xs text-muted-foreground truncate max-w-[14rem]">{member.email}</p>
+                </div>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-secondary transition-colors" aria-label="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="rounded-xl bg-secondary/50 p-3 space-y-1.5 text-sm">
+              <div className="flex justify-between gap-3">
+                <span className="text-muted-foreground">Invoice</span>
+                <span className="font-medium">
+                  {entry.invoiceNumber ? formatInvoiceNumber(entry.invoiceNumber) : 'Assigned when issued'}
+                </span>
+              </div>
+              <div className="flex justify-between gap-3">
+                <span className="text-muted-foreground">Paid</span>
+                <span className="font-medium">{formatDate(entry.paidAt)}</span>
+              </div>
+              {entry.cycleStart && entry.cycleEnd && (
+                <div className="flex justify-between gap-3">
+                  <span className="text-muted-foreground">Period</span>
+                  <span className="font-medium">{formatDate(entry.cycleStart)} – {formatDate(entry.cycleEnd)}</span>
+                </div>
+              )}
+              <div className="flex justify-between gap-3">
+                <span className="text-muted-foreground">Amount</span>
+                <span className="font-medium text-emerald-500">
+                  {isUsdt ? `$${bdtToUsd(entry.amount, usdtRate).toFixed(2)} · ` : ''}৳{entry.amount}
+                </span>
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={handleEmail}
+                disabled={busy !== null}
+                className="flex-1 py-3 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {busy === 'email' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+                Email
+              </button>
+              <button
+                onClick={handleDownload}
+                disabled={busy !== null}
+                className="flex-1 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {busy === 'download' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                Download PDF
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
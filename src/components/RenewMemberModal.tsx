@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { RefreshCw, X, Loader2, History } from 'lucide-react';
+import { LedgerEntry, Member, PaymentMethod, PAYMENT_METHODS, Team } from '@/types/member';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
+import { useSubscriptionProducts } from '@/contexts/SubscriptionProductsContext';
+import { formatLocalDate, getCycleEndDate, getNextCycleStart, getTeamBillingCycle } from '@/lib/billingCycle';
+import { Switch } from '@/components/ui/switch';
+
+interface RenewMemberModalProps {
+  member: Member | null;
+  team: Team | null;
+  history: LedgerEntry[];
+  onClose: () => void;
+  onRenew: (payment: { amount: number; usdtRate?: number; method?: PaymentMethod; sendEmail: boolean }) => Promise<void>;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export function RenewMemberModal({ member, team, history, onClose, onRenew }: RenewMemberModalProps) {
+  const { rate: usdtRate } = useUsdtRate();
+  const { getProduct } = useSubscriptionProducts();
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod | ''>('');
+  const [sendEmail, setSendEmail] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [prefilledFor, setPrefilledFor] = useState<string | null>(null);
+
+  // Prefill with the last amount paid, else the product's default price — only when a different member is opened
+  const memberId = member?.id ?? null;
+  if (memberId !== prefilledFor) {
+    setPrefilledFor(memberId);
+    if (member && team) {
+      const lastAmount = history[0]?.amount ?? member.paidAmount ?? getProduct(team.logo)?.defaultPrice;
+      setAmount(lastAmount ? (member.isUsdt ? (lastAmount / usdtRate).toFixed(2) : String(lastAmount)) : '');
+      setMethod(history[0]?.method || '');
+      setSendEmail(true);
+    }
+  }
+
+  const isOpen = !!member && !!team;
+  const cycle = getTeamBillingCycle(team || undefined);
+  const nextStart = member ? getNextCycleStart(member.joinDate, cycle) : '';
+  const nextEnd = nextStart ? formatLocalDate(getCycleEndDate(nextStart, cycle)) : '';
+
+  const handleRenew = async () => {
+    let value = parseFloat(amount);
+    if (!member || isNaN(value) || value <= 0) return;
+    if (member.isUsdt) value = value * usdtRate;
+
+    setIsSaving(true);
+    try {
+      await onRenew({ amount: value, usdtRate: member.isUsdt ? usdtRate : undefined, method: method || undefined, sendEmail });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && member && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-x-4 top-1/2 -translate-y-1/2 max-w-md mx-auto glass-card rounded-2xl p-6 z-50 card-shadow max-h-[85vh] overflow-y-auto"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <div className="w-9 h-9 rounded-xl bg-gradient-to-br from-emerald-500 to-cyan-500 flex items-center justify-center">
+                  <RefreshCw className="w-4 h-4 text-white" />
+                </div>
+                <div>
+                  <h2 className="font-display text-lg font-bold">Renew Member</h2>
+                  <p className="text-xs text-muted-foreground truncate max-w-[14rem]">{member.email}</p>
+                </div>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-secondary transition-colors" aria-label="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="rounded-xl bg-secondary/50 p-3 mb-4 text-sm">
+              <p className="text-xs text-muted-foreground mb-1">New cycle</p>
+              <p className="font-medium">{formatDate(nextStart)} – {formatDate(nextEnd)}</p>
+            </div>
+
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">
+                  Amount {member.isUsdt ? `(USD · ৳${usdtRate}/$)` : '(৳)'}
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  autoFocus
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleRenew();
+                  }}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Method</label>
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as PaymentMethod | '')}
+                  className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">Not specified</option>
+                  {PAYMENT_METHODS.map((m) => (
+                    <option key={m.value} value={m.value}>{m.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-center justify-between gap-3 py-1">
+                <span className="text-sm">Send confirmation email</span>
+                <Switch checked={sendEmail} onCheckedChange={setSendEmail} />
+              </label>
+            </div>
+
+            {history.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-border space-y-2">
+                <p className="text-xs text-muted-foreground font-medium flex items-center gap-1">
+                  <History className="w-3 h-3" /> Payment history
+                </p>
+                {history.slice(0, 5).map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">
+                      {entry.cycleStart && entry.cycleEnd
+                        ? `${formatDate(entry.cycleStart)} – ${formatDate(entry.cycleEnd)}`
+                        : formatDate(entry.paidAt)}
+                    </span>
+                    <span className="font-medium text-emerald-500">৳{entry.amount}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={onClose}
+                className="flex-1 py-3 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRenew}
+                disabled={isSaving || !(parseFloat(amount) > 0)}
+                className="flex-1 py-3 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white font-medium hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+                Renew
+              </button>
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -1,16 +1,25 @@
 import { useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Settings, Cloud, Download, Upload, CheckCircle, AlertCircle, LogOut, Loader2 } from 'lucide-react';
+import { X, Settings, Cloud, Download, Upload, CheckCircle, AlertCircle, LogOut, Loader2, Package, ChevronRight, Trash2, History, Mail } from 'lucide-react';
 import { useGoogleDrive } from '@/hooks/useGoogleDrive';
+import { UsdtRateSettings } from './UsdtRateSettings';
+import { VaultSettings } from './VaultSettings';
+import { AppLockSettings } from './AppLockSettings';
+import { ClipboardSettings } from './ClipboardSettings';
+import { WorkspaceSettings } from './WorkspaceSettings';
 import { toast } from 'sonner';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   onExport: () => void | Promise<void>;
-  onImport: (json: string) => boolean;
+  onImport: (json: string) => void;
   getBackupData: () => object | Promise<object>;
   onRestoreData: (data: object) => void;
+  onManageProducts?: () => void;
+  onOpenEmailTemplates?: () => void;
+  onOpenTrash?: () => void;
+  onOpenUndoHistory?: () => void;
 }
 
 export function SettingsModal({
@@ -20,6 +29,10 @@ export function SettingsModal({
   onImport,
   getBackupData,
   onRestoreData,
+  onManageProducts,
+  onOpenEmailTemplates,
+  onOpenTrash,
+  onOpenUndoHistory,
 }: SettingsModalProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { isConnected, email, isLoading, connect, disconnect, backup, restore } = useGoogleDrive();
@@ -30,13 +43,9 @@ export function SettingsModal({
       const reader = new FileReader();
       reader.onload = (event) => {
         const result = event.target?.result as string;
-        const success = onImport(result);
-        if (success) {
-          toast.success('Import successful!');
-        } else {
-          toast.error('Invalid file format');
-        }
+        onImport(result);
       };
+      reader.onerror = () => toast.error('Failed to read file');
       reader.readAsText(file);
     }
     // Reset file input
@@ -46,7 +55,7 @@ export function SettingsModal({
   };
 
   const handleBackupToCloud = async () => {
-    const data = getBackupData();
+    const data = await getBackupData();
     await backup(data);
   };
 
@@ -90,8 +99,88 @@ export function SettingsModal({
             </div>
 
             <div className="space-y-6">
+              {/* Product Catalog Section */}
+              {onManageProducts && (
+                <div>
+                  <h3 className="text-sm font-semibold text-foreground mb-3">Subscription Products</h3>
+                  <button
+                    onClick={onManageProducts}
+                    className="w-full flex items-center gap-3 p-3 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors"
+                  >
+                    <Package className="w-4 h-4" />
+                    <span className="text-sm font-medium flex-1 text-left">Manage products</span>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                  </button>
+                </div>
+              )}
+
+              {/* Email Templates Section */}
+              {onOpenEmailTemplates && (
+                <div className={onManageProducts ? 'pt-4 border-t border-border' : undefined}>
+                  <h3 className="text-sm font-semibold text-foreground mb-3">Member Emails</h3>
+                  <button
+                    onClick={onOpenEmailTemplates}
+                    className="w-full flex items-center gap-3 p-3 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors"
+                  >
+                    <Mail className="w-4 h-4" />
+                    <span className="text-sm font-medium flex-1 text-left">Email templates</span>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                  </button>
+                </div>
+              )}
+
+              {/* Trash Section */}
+              {onOpenTrash && (
+                <div className={onManageProducts || onOpenEmailTemplates ? 'pt-4 border-t border-border' : undefined}>
+                  <h3 className="text-sm font-semibold text-foreground mb-3">Trash</h3>
+                  <button
+                    onClick={onOpenTrash}
+                    className="w-full flex items-center gap-3 p-3 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    <span className="text-sm font-medium flex-1 text-left">Deleted teams & members</span>
+                    <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                  </button>
+                  {onOpenUndoHistory && (
+                    <button
+                      onClick={onOpenUndoHistory}
+                      className="w-full flex items-center gap-3 p-3 mt-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors"
+                    >
+                      <History className="w-4 h-4" />
+                      <span className="text-sm font-medium flex-1 text-left">Undo history</span>
+                      <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {/* Workspace Section */}
+              <div className={onManageProducts || onOpenTrash ? 'pt-4 border-t border-border' : undefined}>
+                <WorkspaceSettings />
+              </div>
+
+              {/* USDT Rate Section */}
+              <div className="pt-4 border-t border-border">
+                <UsdtRateSettings />
+              </div>
+
+              {/* Credential Vault Section */}
+              <div className="pt-4 border-t border-border">
+                <VaultSettings />
+              </div>
+
+              {/* App Lock Section */}
+              <div className="pt-4 border-t border-border">
+                <AppLockSettings />
+              </div>
+
+              {/* Clipboard Section */}
+              <div className="pt-4 border-t border-border">
+                <ClipboardSettings />
+              </div>
+
               {/* Local Backup Section */}
-              <div>
+              <div className="pt-4 border-t border-border">
                 <h3 className="text-sm font-semibold text-foreground mb-3">Local Backup</h3>
                 <div className="flex gap-3">
                   <button
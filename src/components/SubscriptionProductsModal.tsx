@@ -0,0 +1,385 @@
+import { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Package, Plus, Pencil, Trash2, ImagePlus, Loader2, ArrowLeft } from 'lucide-react';
+import { Team, SubscriptionProduct, DEFAULT_SEAT_LIMIT } from '@/types/member';
+import { useSubscriptionProducts, SubscriptionProductInput } from '@/contexts/SubscriptionProductsContext';
+import { BILLING_CYCLE_PRESETS, DEFAULT_BILLING_CYCLE_DAYS, formatBillingCycle } from '@/lib/billingCycle';
+import { ProductIcon } from './SubscriptionBadges';
+import { toast } from 'sonner';
+
+interface SubscriptionProductsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teams: Team[];
+}
+
+const EMPTY_FORM: SubscriptionProductInput = {
+  name: '',
+  color: '#6366f1',
+  iconUrl: undefined,
+  planName: '',
+  defaultPrice: undefined,
+  billingCycleDays: DEFAULT_BILLING_CYCLE_DAYS,
+  billingCalendarMonth: false,
+  defaultSeats: undefined,
+};
+
+export function SubscriptionProductsModal({ isOpen, onClose, teams }: SubscriptionProductsModalProps) {
+  const { products, createProduct, updateProduct, deleteProduct, uploadProductIcon } = useSubscriptionProducts();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // null = list view, 'new' = create form, otherwise the product being edited
+  const [editing, setEditing] = useState<SubscriptionProduct | 'new' | null>(null);
+  const [form, setForm] = useState<SubscriptionProductInput>(EMPTY_FORM);
+  const [isUploading, setIsUploading] = useState(false);
+  const [productToDelete, setProductToDelete] = useState<SubscriptionProduct | null>(null);
+
+  const teamsUsing = (product: SubscriptionProduct) => teams.filter((t) => t.logo === product.key).length;
+
+  const openForm = (product: SubscriptionProduct | 'new') => {
+    setEditing(product);
+    setForm(
+      product === 'new'
+        ? EMPTY_FORM
+        : {
+            name: product.name,
+            color: product.color,
+            iconUrl: product.iconUrl,
+            planName: product.planName || '',
+            defaultPrice: product.defaultPrice,
+            billingCycleDays: product.billingCycleDays,
+            billingCalendarMonth: product.billingCalendarMonth,
+            defaultSeats: product.defaultSeats,
+          }
+    );
+  };
+
+  const handleClose = () => {
+    setEditing(null);
+    setProductToDelete(null);
+    onClose();
+  };
+
+  const handleIconUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+
+    setIsUploading(true);
+    const { error, url } = await uploadProductIcon(file);
+    setIsUploading(false);
+
+    if (error || !url) {
+      toast.error(error || 'Failed to upload icon');
+      return;
+    }
+    setForm((prev) => ({ ...prev, iconUrl: url }));
+  };
+
+  const handleSave = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      toast.error('Product name is required');
+      return;
+    }
+    if (!form.billingCalendarMonth && !(form.billingCycleDays > 0)) {
+      toast.error('Billing cycle must be at least 1 day');
+      return;
+    }
+
+    const input = { ...form, name, planName: form.planName?.trim() || undefined };
+    if (editing === 'new') {
+      await createProduct(input);
+      toast.success(`${name} added`);
+    } else if (editing) {
+      await updateProduct(editing.id, input);
+      toast.success(`${name} updated`);
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = async () => {
+    if (!productToDelete) return;
+    await deleteProduct(productToDelete.id);
+    toast.success(`${productToDelete.name} deleted`);
+    setProductToDelete(null);
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={handleClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-x-4 top-1/2 -translate-y-1/2 max-w-md mx-auto glass-card rounded-2xl p-6 z-50 card-shadow max-h-[85vh] overflow-y-auto"
+          >
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-3">
+                {editing ? (
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="p-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors"
+                  >
+                    <ArrowLeft className="w-5 h-5" />
+                  </button>
+                ) : (
+                  <div className="p-2 rounded-xl bg-primary/20">
+                    <Package className="w-5 h-5 text-primary" />
+                  </div>
+                )}
+                <h2 className="font-display text-xl font-bold">
+                  {editing === 'new' ? 'New Product' : editing ? 'Edit Product' : 'Products'}
+                </h2>
+              </div>
+              <button
+                onClick={handleClose}
+                className="p-2 rounded-lg hover:bg-secondary transition-colors"
+              >
+                <X className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </div>
+
+            {editing ? (
+              <div className="space-y-4">
+                {/* Icon + color */}
+                <div className="flex items-center gap-4">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isUploading}
+                    className="relative w-16 h-16 rounded-xl bg-secondary border border-border hover:border-primary/50 flex items-center justify-center shrink-0 transition-colors"
+                  >
+                    {isUploading ? (
+                      <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                    ) : form.iconUrl || form.name ? (
+                      <ProductIcon product={form} size={32} />
+                    ) : (
+                      <ImagePlus className="w-6 h-6 text-muted-foreground" />
+                    )}
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handleIconUpload}
+                    className="hidden"
+                  />
+                  <div className="flex-1 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={form.color}
+                        onChange={(e) => setForm((prev) => ({ ...prev, color: e.target.value }))}
+                        className="w-8 h-8 rounded-lg bg-transparent cursor-pointer"
+                      />
+                      <span className="text-xs text-muted-foreground">Badge color</span>
+                    </div>
+                    {form.iconUrl && (
+                      <button
+                        onClick={() => setForm((prev) => ({ ...prev, iconUrl: undefined }))}
+                        className="text-xs text-destructive hover:underline"
+                      >
+                        Remove icon
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g. Spotify"
+                    maxLength={40}
+                    className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Plan name in emails</label>
+                  <input
+                    type="text"
+                    value={form.planName || ''}
+                    onChange={(e) => setForm((prev) => ({ ...prev, planName: e.target.value }))}
+                    placeholder="Business Subscription"
+                    maxLength={60}
+                    className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Default price (৳)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.defaultPrice ?? ''}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        defaultPrice: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                      }))
+                    }
+                    placeholder="Optional"
+                    className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <label className="text-xs text-muted-foreground">Seats per team (incl. admin)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.defaultSeats ?? ''}
+                    onChange={(e) =>
+                      setForm((prev) => ({
+                        ...prev,
+                        defaultSeats: e.target.value === '' ? undefined : Math.max(1, Math.round(Number(e.target.value))),
+                      }))
+                    }
+                    placeholder={`${DEFAULT_SEAT_LIMIT}`}
+                    className="w-full bg-input rounded-xl px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-xs text-muted-foreground">Billing cycle for new teams</label>
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    {BILLING_CYCLE_PRESETS.map((days) => (
+                      <button
+                        key={days}
+                        onClick={() => setForm((prev) => ({ ...prev, billingCycleDays: days, billingCalendarMonth: false }))}
+                        className={`px-2 py-1 rounded-lg text-xs font-medium transition-colors ${
+                          !form.billingCalendarMonth && form.billingCycleDays === days ? 'bg-primary/20 text-primary' : 'bg-secondary hover:bg-secondary/80'
+                        }`}
+                      >
+                        {days}d
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => setForm((prev) => ({ ...prev, billingCalendarMonth: true }))}
+                      className={`px-2 py-1 rounded-lg text-xs font-medium transition-colors ${
+                        form.billingCalendarMonth ? 'bg-primary/20 text-primary' : 'bg-secondary hover:bg-secondary/80'
+                      }`}
+                    >
+                      Calendar month
+                    </button>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.billingCycleDays || ''}
+                      onChange={(e) => setForm((prev) => ({ ...prev, billingCycleDays: Number(e.target.value), billingCalendarMonth: false }))}
+                      disabled={form.billingCalendarMonth}
+                      className="w-24 bg-input rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+                    />
+                    <span className="text-xs text-muted-foreground">days</span>
+                  </div>
+                </div>
+
+                <div className="flex gap-3 pt-2">
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="flex-1 px-4 py-2.5 rounded-xl bg-secondary text-foreground font-medium hover:bg-secondary/80 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={isUploading}
+                    className="flex-1 px-4 py-2.5 rounded-xl bg-primary text-primary-foreground font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {products.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-6">No products yet</p>
+                )}
+                {products.map((product) => {
+                  const usage = teamsUsing(product);
+                  return (
+                    <div key={product.id} className="flex items-center gap-3 p-3 rounded-xl bg-secondary/50">
+                      <div className="w-10 h-10 rounded-xl bg-white flex items-center justify-center shrink-0">
+                        <ProductIcon product={product} size={24} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-foreground truncate">{product.name}</p>
+                        <p className="text-[11px] text-muted-foreground truncate">
+                          {formatBillingCycle({ days: product.billingCycleDays, calendarMonth: product.billingCalendarMonth })}
+                          {product.defaultPrice != null && ` · ৳${product.defaultPrice}`}
+                          {product.defaultSeats != null && ` · ${product.defaultSeats} seats`}
+                          {usage > 0 && ` · ${usage} team${usage !== 1 ? 's' : ''}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => openForm(product)}
+                        className="p-2 rounded-lg hover:bg-secondary transition-colors"
+                      >
+                        <Pencil className="w-4 h-4 text-muted-foreground" />
+                      </button>
+                      <button
+                        onClick={() => setProductToDelete(product)}
+                        className="p-2 rounded-lg hover:bg-destructive/20 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </button>
+                    </div>
+                  );
+                })}
+
+                {productToDelete && (
+                  <div className="p-3 rounded-xl bg-destructive/10 border border-destructive/30 space-y-2">
+                    <p className="text-sm text-foreground">
+                      Delete <span className="font-semibold">{productToDelete.name}</span>?
+                      {teamsUsing(productToDelete) > 0 &&
+                        ` ${teamsUsing(productToDelete)} team(s) will lose their logo.`}
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setProductToDelete(null)}
+                        className="flex-1 py-2 rounded-lg bg-secondary text-sm font-medium hover:bg-secondary/80 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleDelete}
+                        className="flex-1 py-2 rounded-lg bg-destructive text-destructive-foreground text-sm font-medium hover:opacity-90 transition-opacity"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                <button
+                  onClick={() => openForm('new')}
+                  className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-primary/20 text-primary font-medium hover:bg-primary/30 transition-colors"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Product
+                </button>
+              </div>
+            )}
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, GitCompare, Smartphone, Cloud, Loader2 } from 'lucide-react';
+import { SyncConflict } from '@/services/offlineDb';
+import { isEncrypted } from '@/lib/vault';
+
+interface SyncConflictsModalProps {
+  isOpen: boolean;
+  conflicts: SyncConflict[];
+  onClose: () => void;
+  onResolve: (conflict: SyncConflict, choices: Record<string, 'local' | 'remote'>) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  team_name: 'Team name',
+  admin_email: 'Admin email',
+  logo: 'Logo',
+  created_at: 'Created',
+  last_backup: 'Last backup',
+  billing_cycle_days: 'Billing cycle (days)',
+  billing_calendar_month: 'Calendar month billing',
+  email: 'Email',
+  phone: 'Phone',
+  telegram: 'Telegram',
+  twofa_secret: '2FA',
+  password: 'Password',
+  e_pass: 'E-Pass',
+  g_pass: 'G-Pass',
+  join_date: 'Join date',
+  is_paid: 'Paid',
+  paid_amount: 'Paid amount',
+  pending_amount: 'Pending amount',
+  subscriptions: 'Subscriptions',
+  is_pushed: 'Pushed',
+  active_team_id: 'Active team',
+  is_usdt: 'USDT',
+  total_amount: 'Total amount',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (isEncrypted(value)) return '•••••• (encrypted)';
+  return String(value);
+};
+
+export function SyncConflictsModal({ isOpen, conflicts, onClose, onResolve }: SyncConflictsModalProps) {
+  const [choices, setChoices] = useState<Record<number, Record<string, 'local' | 'remote'>>>({});
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
+
+  // Default every field to the server value
+  useEffect(() => {
+    setChoices((prev) => {
+      const next: Record<number, Record<string, 'local' | 'remote'>> = {};
+      conflicts.forEach((c) => {
+        next[c.id!] = prev[c.id!] || Object.fromEntries(c.fields.map((f) => [f.field, 'remote' as const]));
+      });
+      return next;
+    });
+  }, [conflicts]);
+
+  useEffect(() => {
+    if (isOpen && conflicts.length === 0) onClose();
+  }, [isOpen, conflicts.length, onClose]);
+
+  const choose = (conflictId: number, field: string, side: 'local' | 'remote') => {
+    setChoices((prev) => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }));
+  };
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    setResolvingId(conflict.id!);
+    try {
+      await onResolve(conflict, choices[conflict.id!] || {});
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-x-4 top-1/2 -translate-y-1/2 max-w-md mx-auto glass-card rounded-2xl p-6 z-50 card-shadow max-h-[85vh] overflow-y-auto"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-xl bg-orange-500/20">
+                  <GitCompare className="w-5 h-5 text-orange-400" />
+                </div>
+                <div>
+                  <h2 className="font-display text-xl font-bold">Sync Conflicts</h2>
+                  <p className="text-xs text-muted-foreground">Edited here and on another device</p>
+                </div>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-secondary transition-colors">
+                <X className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              {conflicts.map((conflict) => (
+                <div key={conflict.id} className="rounded-xl border border-border p-3 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{conflict.label}</p>
+                      <p className="text-[10px] text-muted-foreground">
+                        {conflict.table === 'teams' ? 'Team' : 'Member'} · {new Date(conflict.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+
+                  {conflict.fields.map((f) => {
+                    const choice = choices[conflict.id!]?.[f.field] || 'remote';
+                    return (
+                      <div key={f.field} className="space-y-1.5">
+                        <p className="text-xs font-medium text-muted-foreground">{FIELD_LABELS[f.field] || f.field}</p>
+                        <div className="grid grid-cols-2 gap-2">
+                          <button
+                            onClick={() => choose(conflict.id!, f.field, 'local')}
+                            className={`flex flex-col items-start gap-1 p-2 rounded-lg text-left text-xs transition-colors ${
+                              choice === 'local' ? 'bg-primary/20 border-2 border-primary' : 'bg-secondary border border-border'
+                            }`}
+                          >
+                            <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                              <Smartphone className="w-3 h-3" /> This device
+                            </span>
+                            <span className="text-foreground break-all">{formatValue(f.local)}</span>
+                          </button>
+                          <button
+                            onClick={() => choose(conflict.id!, f.field, 'remote')}
+                            className={`flex flex-col items-start gap-1 p-2 rounded-lg text-left text-xs transition-colors ${
+                              choice === 'remote' ? 'bg-primary/20 border-2 border-primary' : 'bg-secondary border border-border'
+                            }`}
+                          >
+                            <span className="flex items-center gap-1 text-[10px] text-muted-foreground">
+                              <Cloud className="w-3 h-3" /> Other device
+                            </span>
+                            <span className="text-foreground break-all">{formatValue(f.remote)}</span>
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+
+                  <button
+                    onClick={() => handleResolve(conflict)}
+                    disabled={resolvingId !== null}
+                    className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-xs font-medium disabled:opacity-50"
+                  >
+                    {resolvingId === conflict.id && <Loader2 className="w-3 h-3 animate-spin" />}
+                    Resolve
+                  </button>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, RefreshCw, AlertTriangle, RotateCcw, Trash2, Loader2, Wifi, WifiOff, Clock } from 'lucide-react';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
+import { SyncQueueEntry, SyncTable } from '@/services/offlineDb';
+import { MAX_SYNC_ATTEMPTS } from '@/services/syncService';
+import { toast } from 'sonner';
+
+interface SyncStatusModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TABLE_LABELS: Record<SyncTable, string> = {
+  teams: 'Team',
+  members: 'Member',
+  member_payments: 'Payment',
+  payment_ledger: 'Ledger entry',
+  member_events: 'Member event',
+  notepads: 'Note',
+  subscription_products: 'Product',
+  usdt_rates: 'USDT rate',
+};
+
+const OPERATION_STYLES: Record<SyncQueueEntry['operation'], string> = {
+  insert: 'bg-green-500/20 text-green-400',
+  update: 'bg-blue-500/20 text-blue-400',
+  delete: 'bg-destructive/20 text-destructive',
+};
+
+const describeEntry = (entry: Pick<SyncQueueEntry, 'payload' | 'record_id'>): string => {
+  const p = entry.payload as Record<string, unknown>;
+  const name = p.email || p.team_name || p.title || p.name || (p.rate ? `৳${p.rate}` : '');
+  return typeof name === 'string' && name ? name : entry.record_id.slice(0, 8);
+};
+
+export function SyncStatusModal({ isOpen, onClose }: SyncStatusModalProps) {
+  const { online, lastSync, pending, errors, deadLetters, isSyncing, syncNow, retry, discard } = useSyncStatus();
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const handleSyncNow = async () => {
+    const ok = await syncNow();
+    if (ok) {
+      toast.success('Sync complete');
+    } else {
+      toast.error('Sync failed. Changes stay queued on this device.');
+    }
+  };
+
+  const handleRetry = async (id: number) => {
+    setBusyId(id);
+    try {
+      await retry(id);
+      toast.success('Change queued for sync');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (id: number) => {
+    setBusyId(id);
+    try {
+      await discard(id);
+      toast.success('Change discarded');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-x-4 top-1/2 -translate-y-1/2 max-w-md mx-auto glass-card rounded-2xl p-6 z-50 card-shadow max-h-[85vh] overflow-y-auto"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 rounded-xl bg-primary/20">
+                  <RefreshCw className="w-5 h-5 text-primary" />
+                </div>
+                <h2 className="font-display text-xl font-bold">Sync Status</h2>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-secondary transition-colors">
+                <X className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </div>
+
+            {/* Connection */}
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              <div className="p-3 rounded-xl bg-secondary/50">
+                <p className="text-[11px] text-muted-foreground mb-1">Connection</p>
+                <p className={`flex items-center gap-1.5 text-sm font-medium ${online ? 'text-green-500' : 'text-destructive'}`}>
+                  {online ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+                  {online ? 'Online' : 'Offline'}
+                </p>
+              </div>
+              <div className="p-3 rounded-xl bg-secondary/50">
+                <p className="text-[11px] text-muted-foreground mb-1">Last sync</p>
+                <p className="text-sm font-medium text-foreground truncate">
+                  {lastSync ? new Date(lastSync).toLocaleString() : 'Never'}
+                </p>
+              </div>
+            </div>
+
+            <button
+              onClick={handleSyncNow}
+              disabled={!online || isSyncing}
+              className="w-full flex items-center justify-center gap-2 py-3 mb-4 rounded-xl bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-sm font-medium disabled:opacity-50"
+            >
+              {isSyncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              {isSyncing ? 'Syncing...' : 'Sync now'}
+            </button>
+
+            {/* Pending queue */}
+            <h3 className="text-sm font-semibold text-foreground mb-2 flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-muted-foreground" />
+                Pending changes
+              </span>
+              <span className="text-xs font-bold text-muted-foreground">{pending.length}</span>
+            </h3>
+            {pending.length === 0 ? (
+              <p className="text-xs text-muted-foreground mb-4">Everything is synced.</p>
+            ) : (
+              <div className="max-h-40 overflow-y-auto space-y-1.5 mb-4 pr-1">
+                {pending.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-2 text-xs">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium shrink-0 ${OPERATION_STYLES[entry.operation]}`}>
+                      {entry.operation.toUpperCase()}
+                    </span>
+                    <span className="text-muted-foreground shrink-0">{TABLE_LABELS[entry.table]}</span>
+                    <span className="text-foreground truncate">{describeEntry(entry)}</span>
+                    {!!entry.attempts && (
+                      <span className="text-muted-foreground/70 shrink-0 ml-auto">
+                        {entry.attempts}/{MAX_SYNC_ATTEMPTS}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Latest errors on entries that are still retrying */}
+            {errors.length > 0 && (
+              <>
+                <h3 className="text-sm font-semibold text-foreground mb-2 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4 text-orange-400" />
+                  Latest errors
+                </h3>
+                <div className="space-y-2 mb-4">
+                  {errors.slice(0, 5).map((entry) => (
+                    <div key={entry.id} className="p-3 rounded-xl border border-orange-500/30 bg-orange-500/5 space-y-1">
+                      <div className="flex items-center gap-2 text-xs">
+                        <span className="text-muted-foreground shrink-0">{TABLE_LABELS[entry.table]}</span>
+                        <span className="text-foreground truncate">{describeEntry(entry)}</span>
+                      </div>
+                      <p className="text-[11px] text-orange-400 break-words">{entry.last_error}</p>
+                      {entry.next_attempt_at && (
+                        <p className="text-[10px] text-muted-foreground">
+                          Attempt {entry.attempts} of {MAX_SYNC_ATTEMPTS} · next retry {new Date(entry.next_attempt_at).toLocaleTimeString()}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {/* Dead letters */}
+            <h3 className="text-sm font-semibold text-foreground mb-2 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4 text-destructive" />
+              Failed changes
+            </h3>
+            {deadLetters.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No failed changes.</p>
+            ) : (
+              <div className="space-y-2">
+                {deadLetters.map((entry) => (
+                  <div key={entry.id} className="p-3 rounded-xl border border-destructive/30 bg-destructive/5 space-y-2">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="px-1.5 py-0.5 rounded bg-destructive/20 text-destructive text-[10px] font-medium shrink-0">
+                        {entry.operation.toUpperCase()}
+                      </span>
+                      <span className="text-muted-foreground shrink-0">{TABLE_LABELS[entry.table]}</span>
+                      <span className="text-foreground truncate">{describeEntry(entry)}</span>
+                    </div>
+                    {entry.last_error && (
+                      <p className="text-[11px] text-destructive break-words">{entry.last_error}</p>
+                    )}
+                    <p className="text-[10px] text-muted-foreground">
+                      {entry.attempts} attempts · gave up {new Date(entry.failed_at).toLocaleString()}
+                    </p>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleRetry(entry.id!)}
+                        disabled={busyId !== null}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg bg-primary/20 text-primary hover:bg-primary/30 transition-colors text-xs font-medium disabled:opacity-50"
+                      >
+                        {busyId === entry.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />}
+                        Retry
+                      </button>
+                      <button
+                        onClick={() => handleDiscard(entry.id!)}
+                        disabled={busyId !== null}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded-lg bg-secondary hover:bg-secondary/80 transition-colors text-xs font-medium disabled:opacity-50"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
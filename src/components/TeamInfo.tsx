@@ -1,9 +1,10 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Pencil, Check, X, Mail, Users, Calendar } from 'lucide-react';
-import { MAX_MEMBERS } from '@/types/member';
+import { Pencil, Check, X, Mail, Users, Calendar, RefreshCw } from 'lucide-react';
+import { DEFAULT_SEAT_LIMIT } from '@/types/member';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
+import { BillingCycle, BILLING_CYCLE_PRESETS, DEFAULT_BILLING_CYCLE_DAYS, formatBillingCycle } from '@/lib/billingCycle';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 
@@ -15,15 +16,24 @@ interface TeamInfoProps {
   onTeamNameChange: (name: string) => void;
   onAdminEmailChange: (email: string) => void;
   onCreatedAtChange?: (date: string) => void;
+  billingCycle?: BillingCycle;
+  onBillingCycleChange?: (cycle: BillingCycle) => void;
   isPlusTeam?: boolean;
+  seatLimit?: number;
+  onSeatLimitChange?: (seatLimit: number) => void;
 }
 
-export function TeamInfo({ teamName, adminEmail, memberCount, createdAt, onTeamNameChange, onAdminEmailChange, onCreatedAtChange, isPlusTeam = false }: TeamInfoProps) {
+export function TeamInfo({ teamName, adminEmail, memberCount, createdAt, onTeamNameChange, onAdminEmailChange, onCreatedAtChange, billingCycle, onBillingCycleChange, isPlusTeam = false, seatLimit = DEFAULT_SEAT_LIMIT, onSeatLimitChange }: TeamInfoProps) {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editNameValue, setEditNameValue] = useState(teamName);
   const [isEditingEmail, setIsEditingEmail] = useState(false);
   const [editEmailValue, setEditEmailValue] = useState(adminEmail);
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
+  const [isEditingCycle, setIsEditingCycle] = useState(false);
+  const [editCycleDays, setEditCycleDays] = useState('');
+  const [editCalendarMonth, setEditCalendarMonth] = useState(false);
+  const [isEditingSeats, setIsEditingSeats] = useState(false);
+  const [editSeatsValue, setEditSeatsValue] = useState('');
 
   const handleSaveName = () => {
     if (editNameValue.trim()) {
@@ -50,6 +60,32 @@ export function TeamInfo({ teamName, adminEmail, memberCount, createdAt, onTeamN
     setIsEditingEmail(false);
   };
 
+  const handleEditCycle = () => {
+    setEditCycleDays(String(billingCycle?.days ?? ''));
+    setEditCalendarMonth(billingCycle?.calendarMonth ?? false);
+    setIsEditingCycle(true);
+  };
+
+  const handleSaveCycle = () => {
+    const days = parseInt(editCycleDays, 10);
+    if (!onBillingCycleChange || (!editCalendarMonth && !(days > 0))) return;
+    onBillingCycleChange({ days: days > 0 ? days : billingCycle?.days ?? DEFAULT_BILLING_CYCLE_DAYS, calendarMonth: editCalendarMonth });
+    setIsEditingCycle(false);
+  };
+
+  const handleEditSeats = () => {
+    setEditSeatsValue(String(seatLimit));
+    setIsEditingSeats(true);
+  };
+
+  // The admin holds a seat, so the limit can't drop below the current team size
+  const handleSaveSeats = () => {
+    const seats = parseInt(editSeatsValue, 10);
+    if (!onSeatLimitChange || !(seats > 0) || seats < memberCount) return;
+    onSeatLimitChange(seats);
+    setIsEditingSeats(false);
+  };
+
   const handleDateChange = (date: Date | undefined) => {
     if (date && onCreatedAtChange) {
       onCreatedAtChange(date.toISOString());
@@ -133,6 +169,80 @@ export function TeamInfo({ teamName, adminEmail, memberCount, createdAt, onTeamN
         )}
       </div>
 
+      {/* Billing Cycle */}
+      {billingCycle && (
+        <div className="text-sm text-muted-foreground mb-3">
+          {isEditingCycle ? (
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-1.5">
+                <RefreshCw className="w-4 h-4 flex-shrink-0" />
+                {BILLING_CYCLE_PRESETS.map((days) => (
+                  <button
+                    key={days}
+                    onClick={() => { setEditCycleDays(String(days)); setEditCalendarMonth(false); }}
+                    className={`px-2 py-1 rounded-lg text-xs font-medium transition-colors ${
+                      !editCalendarMonth && editCycleDays === String(days) ? 'bg-primary/20 text-primary' : 'bg-secondary hover:bg-secondary/80'
+                    }`}
+                  >
+                    {days}d
+                  </button>
+                ))}
+                <button
+                  onClick={() => setEditCalendarMonth(true)}
+                  className={`px-2 py-1 rounded-lg text-xs font-medium transition-colors ${
+                    editCalendarMonth ? 'bg-primary/20 text-primary' : 'bg-secondary hover:bg-secondary/80'
+                  }`}
+                >
+                  Calendar month
+                </button>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={1}
+                  value={editCycleDays}
+                  onChange={(e) => { setEditCycleDays(e.target.value); setEditCalendarMonth(false); }}
+                  disabled={editCalendarMonth}
+                  placeholder="Days"
+                  className="w-24 bg-input rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleSaveCycle();
+                    if (e.key === 'Escape') setIsEditingCycle(false);
+                  }}
+                />
+                <span className="text-xs">days</span>
+                <button
+                  onClick={handleSaveCycle}
+                  className="p-1.5 rounded-lg bg-success/20 text-success hover:bg-success/30 transition-colors"
+                >
+                  <Check className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => setIsEditingCycle(false)}
+                  className="p-1.5 rounded-lg bg-destructive/20 text-destructive hover:bg-destructive/30 transition-colors"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <RefreshCw className="w-4 h-4" />
+              <span>Billing cycle: {formatBillingCycle(billingCycle)}</span>
+              {onBillingCycleChange && (
+                <button
+                  onClick={handleEditCycle}
+                  className="p-1 rounded-lg hover:bg-secondary transition-colors"
+                  aria-label="Edit billing cycle"
+                >
+                  <Pencil className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Admin Email - Hidden for Plus Teams */}
       {!isPlusTeam && (
         <div className="flex items-center gap-2 text-sm text-muted-foreground mb-3">
@@ -187,13 +297,53 @@ export function TeamInfo({ teamName, adminEmail, memberCount, createdAt, onTeamN
             <motion.div
               className="h-full bg-gradient-to-r from-primary to-cyan-400"
               initial={{ width: 0 }}
-              animate={{ width: `${(memberCount / MAX_MEMBERS) * 100}%` }}
+              animate={{ width: `${Math.min(100, (memberCount / seatLimit) * 100)}%` }}
               transition={{ duration: 0.5, ease: 'easeOut' }}
             />
           </div>
-          <span className="text-sm font-medium text-muted-foreground">
-            {memberCount}/{MAX_MEMBERS}
-          </span>
+          {isEditingSeats ? (
+            <div className="flex items-center gap-1.5">
+              <input
+                type="number"
+                min={memberCount}
+                value={editSeatsValue}
+                onChange={(e) => setEditSeatsValue(e.target.value)}
+                className="w-16 bg-input rounded-lg px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                autoFocus
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleSaveSeats();
+                  if (e.key === 'Escape') setIsEditingSeats(false);
+                }}
+              />
+              <button
+                onClick={handleSaveSeats}
+                className="p-1.5 rounded-lg bg-success/20 text-success hover:bg-success/30 transition-colors"
+              >
+                <Check className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => setIsEditingSeats(false)}
+                className="p-1.5 rounded-lg bg-destructive/20 text-destructive hover:bg-destructive/30 transition-colors"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ) : (
+            <>
+              <span className="text-sm font-medium text-muted-foreground">
+                {memberCount}/{seatLimit} seats
+              </span>
+              {onSeatLimitChange && (
+                <button
+                  onClick={handleEditSeats}
+                  className="p-1 rounded-lg hover:bg-secondary transition-colors"
+                  aria-label="Edit seat limit"
+                >
+                  <Pencil className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+              )}
+            </>
+          )}
         </div>
       )}
     </motion.div>
@@ -1,14 +1,17 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Plus, Users, Calendar, ChevronRight, Trash2, X, Check, ImagePlus, Pencil, Bell } from 'lucide-react';
-import { Team, MAX_MEMBERS, SubscriptionType, SUBSCRIPTION_CONFIG } from '@/types/member';
+import { Team, MemberPayment, SubscriptionType } from '@/types/member';
+import { getTeamFreeSeats, getTeamSeatLimit, hasSeatLimit } from '@/lib/seats';
+import { useSubscriptionProducts } from '@/contexts/SubscriptionProductsContext';
+import { ProductIcon } from './SubscriptionBadges';
 import { differenceInDays } from 'date-fns';
-import { supabase } from '@/lib/supabase';
-import { useAuth } from '@/contexts/AuthContext';
+import { getMemberDaysLeft } from '@/lib/billingCycle';
 
 interface TeamListProps {
   teams: Team[];
+  memberPayments: MemberPayment[];
   activeTeamId: string;
   onSelectTeam: (teamId: string) => void;
   onCreateTeam: (teamName: string, logo?: SubscriptionType, isYearly?: boolean, isPlus?: boolean) => void;
@@ -16,44 +19,25 @@ interface TeamListProps {
   onUpdateTeamLogo?: (teamId: string, logo: SubscriptionType) => void;
 }
 
-const LOGO_ICONS: Record<SubscriptionType, string> = {
-  chatgpt: 'https://upload.wikimedia.org/wikipedia/commons/0/04/ChatGPT_logo.svg',
-  gemini: 'https://upload.wikimedia.org/wikipedia/commons/8/8a/Google_Gemini_logo.svg',
-  perplexity: 'https://uxwing.com/wp-content/themes/uxwing/download/brands-and-social-media/perplexity-ai-icon.png',
-  youtube: 'https://upload.wikimedia.org/wikipedia/commons/0/09/YouTube_full-color_icon_%282017%29.svg',
-  canva: 'https://static.canva.com/static/images/favicon-1.ico',
-  quillbot: '/images/quillbot-logo.png',
-  crunchyroll: '/images/crunchyroll-logo.png',
-  netflix: 'https://upload.wikimedia.org/wikipedia/commons/0/08/Netflix_2015_logo.svg',
-};
-
 // Count members who need red indicators - for non-yearly, non-plus teams
-// Includes: 30+ days old OR paid with 0 amount
+// Includes: billing cycle ended OR paid with 0 amount
 const countMembersWithRedIndicator = (team: Team): number => {
   if (team.isYearlyTeam || team.isPlusTeam) return 0; // Yearly and Plus teams use different logic
-  const now = new Date();
-  const todayLocal = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   return team.members.filter(member => {
     // Skip pushed members or members with active team - they don't show red indicators
     if (member.isPushed || member.activeTeamId) return false;
-    const [y, m, d] = member.joinDate.split('-').map(Number);
-    const joinDateLocal = new Date(y, m - 1, d);
-    const isOverOneMonth = differenceInDays(todayLocal, joinDateLocal) >= 30;
+    const isCycleOver = getMemberDaysLeft(member, team) <= 0;
     const isPaidZero = member.isPaid && (!member.paidAmount || member.paidAmount === 0);
-    return isOverOneMonth || isPaidZero;
+    return isCycleOver || isPaidZero;
   }).length;
 };
 
-// Count Plus team members whose join date is 30+ days ago (not pushed)
+// Count Plus team members whose billing cycle has ended (not pushed)
 const countPlusMembersOverOneMonth = (team: Team): number => {
   if (!team.isPlusTeam) return 0;
-  const now = new Date();
-  const todayLocal = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   return team.members.filter(member => {
     if (member.isPushed) return false;
-    const [y, m, d] = member.joinDate.split('-').map(Number);
-    const joinDateLocal = new Date(y, m - 1, d);
-    return differenceInDays(todayLocal, joinDateLocal) >= 30;
+    return getMemberDaysLeft(member, team) <= 0;
   }).length;
 };
 
@@ -77,9 +61,9 @@ const checkYearlyMemberDue = (
   return currentDay >= jd;
 };
 
-export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDeleteTeam, onUpdateTeamLogo }: TeamListProps) {
+export function TeamList({ teams, memberPayments, activeTeamId, onSelectTeam, onCreateTeam, onDeleteTeam, onUpdateTeamLogo }: TeamListProps) {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { products, getProduct } = useSubscriptionProducts();
   const [isDeleteMode, setIsDeleteMode] = useState(false);
   const [teamToDelete, setTeamToDelete] = useState<Team | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -89,87 +73,56 @@ export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDe
   const [selectedLogo, setSelectedLogo] = useState<SubscriptionType | null>(null);
   const [teamToAddLogo, setTeamToAddLogo] = useState<Team | null>(null);
   const [logoForTeam, setLogoForTeam] = useState<SubscriptionType | null>(null);
-  const [yearlyCurrentMonthPayments, setYearlyCurrentMonthPayments] = useState<Record<string, boolean>>({});
-  const [yearlyMemberDueStatus, setYearlyMemberDueStatus] = useState<Record<string, boolean>>({});
-  const [yearlyMemberPaidZero, setYearlyMemberPaidZero] = useState<Record<string, boolean>>({});
-  const [yearlyMemberTotalPaid, setYearlyMemberTotalPaid] = useState<Record<string, number>>({});
-  const [yearlyMemberTotalAmount, setYearlyMemberTotalAmount] = useState<Record<string, number>>({});
-
-  // Fetch current month payment status and total due for all yearly team members
-  const fetchYearlyPayments = useCallback(async () => {
-    if (!user) return;
-
-    const yearlyTeams = teams.filter(t => t.isYearlyTeam);
-    if (yearlyTeams.length === 0) return;
-
-    const allMemberIds = yearlyTeams.flatMap(t => t.members.map(m => m.id));
-    if (allMemberIds.length === 0) return;
 
+  // Free seats across all seat-based teams
+  const seatTeams = useMemo(() => teams.filter(hasSeatLimit), [teams]);
+  const freeSeats = useMemo(() => seatTeams.reduce((sum, t) => sum + getTeamFreeSeats(t), 0), [seatTeams]);
+
+  // Current month payment status and total due for all yearly team members
+  const {
+    yearlyCurrentMonthPayments,
+    yearlyMemberDueStatus,
+    yearlyMemberPaidZero,
+    yearlyMemberTotalPaid,
+    yearlyMemberTotalAmount,
+  } = useMemo(() => {
     const now = new Date();
     const currentMonth = now.getMonth() + 1;
     const currentYear = now.getFullYear();
 
-    const [currentMonthResult, allPaymentsResult, membersResult] = await Promise.all([
-      supabase
-        .from('member_payments')
-        .select('member_id, status')
-        .eq('user_id', user.id)
-        .eq('year', currentYear)
-        .eq('month', currentMonth)
-        .in('member_id', allMemberIds),
-      supabase
-        .from('member_payments')
-        .select('member_id, amount, status')
-        .eq('user_id', user.id)
-        .in('member_id', allMemberIds)
-        .eq('status', 'paid'),
-      supabase
-        .from('members')
-        .select('id, total_amount')
-        .in('id', allMemberIds),
-    ]);
-
-    if (currentMonthResult.error || allPaymentsResult.error || membersResult.error) {
-      console.error('Error fetching yearly payments');
-      return;
-    }
+    const yearlyMembers = teams.filter(t => t.isYearlyTeam).flatMap(t => t.members);
+    const yearlyMemberIds = new Set(yearlyMembers.map(m => m.id));
 
     const paymentsMap: Record<string, boolean> = {};
-    (currentMonthResult.data || []).forEach(p => {
-      if (p.status === 'paid') {
-        paymentsMap[p.member_id] = true;
+    const totalPaidMap: Record<string, number> = {};
+    memberPayments.forEach(p => {
+      if (p.status !== 'paid' || !yearlyMemberIds.has(p.memberId)) return;
+      if (p.year === currentYear && p.month === currentMonth) {
+        paymentsMap[p.memberId] = true;
       }
+      totalPaidMap[p.memberId] = (totalPaidMap[p.memberId] || 0) + p.amount;
     });
-    setYearlyCurrentMonthPayments(paymentsMap);
 
     // Calculate which members have total_due > 0
-    const totalPaidMap: Record<string, number> = {};
-    (allPaymentsResult.data || []).forEach(p => {
-      totalPaidMap[p.member_id] = (totalPaidMap[p.member_id] || 0) + p.amount;
-    });
-
     const totalAmountMap: Record<string, number> = {};
-    (membersResult.data || []).forEach(m => {
-      totalAmountMap[m.id] = m.total_amount || 0;
-    });
-
     const dueStatus: Record<string, boolean> = {};
     const paidZeroStatus: Record<string, boolean> = {};
-    allMemberIds.forEach(id => {
-      const totalAmount = totalAmountMap[id] || 0;
-      const totalPaid = totalPaidMap[id] || 0;
-      dueStatus[id] = (totalAmount - totalPaid) > 0;
-      paidZeroStatus[id] = totalPaid === 0 && totalAmount > 0;
+    yearlyMembers.forEach(m => {
+      const totalAmount = m.totalAmount || 0;
+      const totalPaid = totalPaidMap[m.id] || 0;
+      totalAmountMap[m.id] = totalAmount;
+      dueStatus[m.id] = (totalAmount - totalPaid) > 0;
+      paidZeroStatus[m.id] = totalPaid === 0 && totalAmount > 0;
     });
-    setYearlyMemberDueStatus(dueStatus);
-    setYearlyMemberPaidZero(paidZeroStatus);
-    setYearlyMemberTotalPaid(totalPaidMap);
-    setYearlyMemberTotalAmount(totalAmountMap);
-  }, [user, teams]);
 
-  useEffect(() => {
-    fetchYearlyPayments();
-  }, [fetchYearlyPayments]);
+    return {
+      yearlyCurrentMonthPayments: paymentsMap,
+      yearlyMemberDueStatus: dueStatus,
+      yearlyMemberPaidZero: paidZeroStatus,
+      yearlyMemberTotalPaid: totalPaidMap,
+      yearlyMemberTotalAmount: totalAmountMap,
+    };
+  }, [teams, memberPayments]);
 
   // Count yearly team members with due indicators (exclude fully paid members)
   const countYearlyMembersWithDue = (team: Team): number => {
@@ -315,12 +268,19 @@ export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDe
         <h3 className="text-sm font-medium text-muted-foreground">
           Your Teams ({teams.length})
         </h3>
+        {seatTeams.length > 0 && (
+          <span className="text-xs text-muted-foreground flex items-center gap-1">
+            <Users className="w-3 h-3" />
+            {freeSeats} free seat{freeSeats !== 1 ? 's' : ''}
+          </span>
+        )}
       </div>
 
       <div className="space-y-2">
         {teams.map((team, index) => {
           const memberCount = team.isYearlyTeam ? team.members.length : team.members.length + 1;
-          const isFull = !team.isYearlyTeam && memberCount >= MAX_MEMBERS;
+          const seatLimit = getTeamSeatLimit(team);
+          const isFull = !team.isYearlyTeam && memberCount >= seatLimit;
           const isActive = team.id === activeTeamId;
           const membersOverMonth = countMembersWithRedIndicator(team);
           const yearlyMembersWithDue = countYearlyMembersWithDue(team);
@@ -358,18 +318,14 @@ export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDe
                     <div className={`w-10 h-10 rounded-xl flex items-center justify-center overflow-hidden ${
                       isDeleteMode 
                         ? 'bg-destructive/20 text-destructive' 
-                      : team.logo && LOGO_ICONS[team.logo]
+                      : getProduct(team.logo)
                           ? 'bg-white'
                           : 'bg-secondary text-muted-foreground'
                     }`}>
                       {isDeleteMode ? (
                         <Trash2 className="w-5 h-5" />
-                      ) : team.logo && LOGO_ICONS[team.logo] && SUBSCRIPTION_CONFIG[team.logo] ? (
-                        <img 
-                          src={LOGO_ICONS[team.logo]} 
-                          alt={SUBSCRIPTION_CONFIG[team.logo].name}
-                          className="w-6 h-6 object-contain"
-                        />
+                      ) : getProduct(team.logo) ? (
+                        <ProductIcon product={getProduct(team.logo)} size={24} />
                       ) : (
                         <button
                           onClick={(e) => {
@@ -394,7 +350,7 @@ export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDe
                         </div>
                       </div>
                     )}
-                    {/* Bell notification badge for Plus teams - members 30+ days since join */}
+                    {/* Bell notification badge for Plus teams - members whose billing cycle ended */}
                     {!isDeleteMode && team.isPlusTeam && plusMembersOverMonth > 0 && (
                       <div className="absolute -top-1.5 -right-1.5 flex items-center justify-center">
                         <div className="relative">
@@ -413,7 +369,7 @@ export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDe
                       {/* Indicators */}
                       {!isDeleteMode && (
                         <div className="flex items-center gap-1">
-                          {/* Red dots for standard teams with members over 30 days */}
+                          {/* Red dots for standard teams with members past their billing cycle */}
                           {!team.isYearlyTeam && membersOverMonth > 0 && (
                             <div className="flex items-center gap-0.5">
                               {Array.from({ length: Math.min(membersOverMonth, 8) }).map((_, i) => (
@@ -461,7 +417,7 @@ export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDe
                     <div className="flex items-center gap-3 mt-1">
                       <span className="text-xs text-muted-foreground flex items-center gap-1">
                         <Users className="w-3 h-3" />
-                        {team.isYearlyTeam || team.isPlusTeam ? `${team.members.length} members` : `${memberCount}/${MAX_MEMBERS}`}
+                        {team.isYearlyTeam || team.isPlusTeam ? `${team.members.length} members` : `${memberCount} of ${seatLimit} seats`}
                       </span>
                       <span className="text-xs text-muted-foreground flex items-center gap-1">
                         <Calendar className="w-3 h-3" />
@@ -536,7 +492,7 @@ export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDe
                 <h3 className="text-lg font-semibold text-foreground">Delete Team?</h3>
                 <p className="text-sm text-muted-foreground">
                   Are you sure you want to delete "<span className="font-medium text-foreground">{teamToDelete.teamName}</span>"? 
-                  This will remove all {teamToDelete.members.length} member{teamToDelete.members.length !== 1 ? 's' : ''}.
+                  It moves to the trash with its {teamToDelete.members.length} member{teamToDelete.members.length !== 1 ? 's' : ''} and can be restored from there.
                 </p>
               </div>
               
@@ -624,27 +580,23 @@ export function TeamList({ teams, activeTeamId, onSelectTeam, onCreateTeam, onDe
                 <div className="space-y-2">
                   <p className="text-sm font-medium text-foreground">Select Team Logo (Optional)</p>
                   <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">
-                    {(Object.keys(SUBSCRIPTION_CONFIG) as SubscriptionType[]).map((type, i) => (
+                    {products.map((product, i) => (
                       <motion.button
-                        key={type}
+                        key={product.key}
                         initial={{ opacity: 0, x: 30 }}
                         animate={{ opacity: 1, x: 0 }}
                         transition={{ delay: i * 0.07 }}
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
-                        onClick={() => setSelectedLogo(selectedLogo === type ? null : type)}
+                        onClick={() => setSelectedLogo(selectedLogo === product.key ? null : product.key)}
                         className={`relative w-16 h-16 rounded-xl flex items-center justify-center transition-all touch-manipulation shrink-0 ${
-                          selectedLogo === type
+                          selectedLogo === product.key
                             ? 'bg-primary/20 border-2 border-primary'
                             : 'bg-secondary border border-border hover:border-primary/50'
                         }`}
                       >
-                        <img 
-                          src={LOGO_ICONS[type]} 
-                          alt={SUBSCRIPTION_CONFIG[type].name}
-className="w-8 h-8 object-contain"
-                        />
-                        {selectedLogo === type && (
+                        <ProductIcon product={product} size={32} />
+                        {selectedLogo === product.key && (
                           <div className="absolute -top-1 -right-1 w-4 h-4 bg-primary rounded-full flex items-center justify-center">
                             <Check className="w-2.5 h-2.5 text-primary-foreground" />
                           </div>
@@ -654,7 +606,7 @@ className="w-8 h-8 object-contain"
                   </div>
                   {selectedLogo && (
                     <p className="text-xs text-primary text-center">
-                      {SUBSCRIPTION_CONFIG[selectedLogo].name} selected
+                      {getProduct(selectedLogo)?.name} selected
                     </p>
                   )}
                 </div>
@@ -715,27 +667,23 @@ className="w-8 h-8 object-contain"
               <div className="space-y-2">
                 <p className="text-sm font-medium text-foreground text-center">Choose a Logo</p>
                 <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">
-                  {(Object.keys(SUBSCRIPTION_CONFIG) as SubscriptionType[]).map((type, i) => (
+                  {products.map((product, i) => (
                     <motion.button
-                      key={type}
+                      key={product.key}
                       initial={{ opacity: 0, x: 30 }}
                       animate={{ opacity: 1, x: 0 }}
                       transition={{ delay: i * 0.07 }}
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
-                      onClick={() => setLogoForTeam(logoForTeam === type ? null : type)}
+                      onClick={() => setLogoForTeam(logoForTeam === product.key ? null : product.key)}
                       className={`relative w-16 h-16 rounded-xl flex items-center justify-center transition-all touch-manipulation shrink-0 ${
-                        logoForTeam === type
+                        logoForTeam === product.key
                           ? 'bg-primary/20 border-2 border-primary'
                           : 'bg-secondary border border-border hover:border-primary/50'
                       }`}
                     >
-                      <img 
-                        src={LOGO_ICONS[type]} 
-                        alt={SUBSCRIPTION_CONFIG[type].name}
-                        className="w-8 h-8 object-contain"
-                      />
-                      {logoForTeam === type && (
+                      <ProductIcon product={product} size={32} />
+                      {logoForTeam === product.key && (
                         <div className="absolute -top-1 -right-1 w-4 h-4 bg-primary rounded-full flex items-center justify-center">
                           <Check className="w-2.5 h-2.5 text-primary-foreground" />
                         </div>
@@ -745,7 +693,7 @@ className="w-8 h-8 object-contain"
                 </div>
                 {logoForTeam && (
                   <p className="text-xs text-primary text-center">
-                    {SUBSCRIPTION_CONFIG[logoForTeam].name} selected
+                    {getProduct(logoForTeam)?.name} selected
                   </p>
                 )}
               </div>
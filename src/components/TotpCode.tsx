@@ -0,0 +1,83 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { generateTotp, parseTotpSecret, totpCounter, totpSecondsRemaining } from '@/lib/totp';
+import { useSecureCopy } from '@/hooks/useSecureCopy';
+
+interface TotpCodeProps {
+  // Base32 secret or otpauth:// URI
+  secret?: string;
+  className?: string;
+}
+
+const RING_RADIUS = 9;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+// Seconds left when the code turns red
+const EXPIRING_SECONDS = 5;
+
+const formatCode = (code: string) => (code.length === 6 ? `${code.slice(0, 3)} ${code.slice(3)}` : code);
+
+/** Live one-time code with a countdown ring; tap to copy. Renders nothing for a non-TOTP value. */
+export function TotpCode({ secret, className = '' }: TotpCodeProps) {
+  const params = useMemo(() => parseTotpSecret(secret), [secret]);
+  const [now, setNow] = useState(() => Date.now());
+  const [code, setCode] = useState<string | null>(null);
+  const copy = useSecureCopy();
+
+  useEffect(() => {
+    if (!params) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [params]);
+
+  const counter = params ? totpCounter(params, now) : 0;
+
+  useEffect(() => {
+    if (!params) return;
+    let cancelled = false;
+    generateTotp(params, counter * params.period * 1000)
+      .then((next) => !cancelled && setCode(next))
+      .catch((e) => {
+        console.error('[TOTP] Failed to generate code:', e);
+        if (!cancelled) setCode(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [params, counter]);
+
+  if (!params) return null;
+
+  const remaining = totpSecondsRemaining(params, now);
+  const isExpiring = remaining <= EXPIRING_SECONDS;
+
+  return (
+    <motion.button
+      whileTap={{ scale: 0.97 }}
+      onClick={() => code && copy(code, '2FA code', 'totpCode')}
+      disabled={!code}
+      title={params.issuer ? `${params.issuer} — tap to copy` : 'Tap to copy'}
+      className={`inline-flex items-center gap-2 px-2.5 py-1 rounded-lg bg-white/5 hover:bg-white/10 border border-white/10 transition-colors ${className}`}
+    >
+      <svg width="22" height="22" viewBox="0 0 22 22" className="-rotate-90 flex-shrink-0">
+        <circle cx="11" cy="11" r={RING_RADIUS} fill="none" strokeWidth="2.5" className="stroke-white/10" />
+        <circle
+          cx="11"
+          cy="11"
+          r={RING_RADIUS}
+          fill="none"
+          strokeWidth="2.5"
+          strokeLinecap="round"
+          strokeDasharray={RING_CIRCUMFERENCE}
+          strokeDashoffset={RING_CIRCUMFERENCE * (1 - remaining / params.period)}
+          className={`transition-[stroke-dashoffset] duration-1000 ease-linear ${isExpiring ? 'stroke-red-400' : 'stroke-emerald-400'}`}
+        />
+      </svg>
+      <span
+        className={`font-mono text-sm font-semibold tracking-wider tabular-nums ${isExpiring ? 'text-red-400' : 'text-foreground'}`}
+      >
+        {code ? formatCode(code) : '••• •••'}
+      </span>
+      <span className="text-[10px] text-muted-foreground tabular-nums">{remaining}s</span>
+    </motion.button>
+  );
+}
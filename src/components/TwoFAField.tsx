@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Copy, KeyRound, Loader2, Pencil, ScanLine, X } from 'lucide-react';
+import { isTotpSecret } from '@/lib/totp';
+import { canScanQrCodes, scanTotpQrCode } from '@/services/qrScanService';
+import { useSecureCopy } from '@/hooks/useSecureCopy';
+import { TotpCode } from './TotpCode';
+import { toast } from 'sonner';
+
+interface TwoFAFieldProps {
+  value?: string;
+  isRemoveMode: boolean;
+  onSave: (value: string) => void;
+}
+
+/**
+ * 2FA secret on a member card: a live code for TOTP secrets, the raw value
+ * otherwise (backup codes, notes). Accepts base32 secrets, otpauth:// URIs
+ * and setup QR codes.
+ */
+export function TwoFAField({ value, isRemoveMode, onSave }: TwoFAFieldProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState(value || '');
+  const [isScanning, setIsScanning] = useState(false);
+  const copy = useSecureCopy();
+
+  const handleSave = () => {
+    onSave(editValue.trim());
+    setIsEditing(false);
+  };
+
+  const handleCancel = () => {
+    setEditValue(value || '');
+    setIsEditing(false);
+  };
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      const scanned = await scanTotpQrCode();
+      if (!scanned) return;
+      setEditValue(scanned);
+      toast.success('2FA secret scanned');
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to scan QR code');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={editValue}
+          onChange={(e) => setEditValue(e.target.value)}
+          placeholder="Base32 secret or otpauth:// link"
+          className="flex-1 min-w-0 bg-input rounded-lg px-3 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-primary"
+          autoFocus
+          autoComplete="off"
+          spellCheck={false}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+            if (e.key === 'Escape') handleCancel();
+          }}
+        />
+        {canScanQrCodes() && (
+          <button
+            onClick={handleScan}
+            disabled={isScanning}
+            className="p-1 rounded bg-secondary hover:bg-secondary/80 transition-colors disabled:opacity-50"
+            aria-label="Scan QR code"
+          >
+            {isScanning ? <Loader2 className="w-3 h-3 animate-spin" /> : <ScanLine className="w-3 h-3" />}
+          </button>
+        )}
+        <button
+          onClick={handleSave}
+          className="p-1 rounded bg-success/20 text-success hover:bg-success/30 transition-colors"
+        >
+          <Check className="w-3 h-3" />
+        </button>
+        <button
+          onClick={handleCancel}
+          className="p-1 rounded bg-destructive/20 text-destructive hover:bg-destructive/30 transition-colors"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 group min-w-0">
+      <KeyRound className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+      {isTotpSecret(value) ? (
+        <TotpCode secret={value} />
+      ) : value ? (
+        <>
+          <span className="text-xs text-muted-foreground font-mono truncate" title={value}>
+            {value}
+          </span>
+          <motion.button
+            whileTap={{ scale: 0.9 }}
+            onClick={() => copy(value, '2FA', 'twoFA')}
+            className="p-1 rounded-lg hover:bg-secondary transition-all flex-shrink-0"
+            aria-label="Copy 2FA"
+          >
+            <Copy className="w-3 h-3 text-muted-foreground" />
+          </motion.button>
+        </>
+      ) : (
+        <span className="text-xs text-muted-foreground/50">No 2FA</span>
+      )}
+      {!isRemoveMode && (
+        <button
+          onClick={() => {
+            setEditValue(value || '');
+            setIsEditing(true);
+          }}
+          className="p-1 rounded-lg opacity-0 group-hover:opacity-100 hover:bg-secondary transition-all flex-shrink-0"
+          aria-label="Edit 2FA"
+        >
+          <Pencil className="w-3 h-3 text-muted-foreground" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import { Check, History, Undo2, X } from 'lucide-react';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
+import { runUndo } from '@/lib/undo';
+
+interface UndoHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+export function UndoHistoryModal({ isOpen, onClose }: UndoHistoryModalProps) {
+  const history = useUndoHistory();
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+            onClick={onClose}
+          />
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: 20 }}
+            className="fixed inset-x-4 top-1/2 -translate-y-1/2 max-w-md mx-auto glass-card rounded-2xl p-6 z-50 card-shadow max-h-[85vh] overflow-y-auto"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <History className="w-5 h-5 text-primary" />
+                <div>
+                  <h2 className="font-display text-lg font-bold">Undo History</h2>
+                  <p className="text-xs text-muted-foreground">Actions from this session</p>
+                </div>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-secondary transition-colors" aria-label="Close">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {history.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Nothing to undo yet</p>
+            ) : (
+              <div className="space-y-2">
+                {history.map((entry) => (
+                  <div key={entry.id} className="flex items-center gap-3 p-3 rounded-xl bg-secondary/50">
+                    <div className="min-w-0 flex-1">
+                      <p className={`text-sm font-medium truncate ${entry.undone ? 'line-through text-muted-foreground' : ''}`}>
+                        {entry.label}
+                      </p>
+                      <p className="text-[10px] text-muted-foreground">{formatTime(entry.createdAt)}</p>
+                    </div>
+                    {entry.undone ? (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                        <Check className="w-3.5 h-3.5" />
+                        Undone
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => runUndo(entry)}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-secondary text-xs font-medium hover:bg-secondary/80 transition-colors shrink-0"
+                      >
+                        <Undo2 className="w-3.5 h-3.5" />
+                        Undo
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </motion.div>
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
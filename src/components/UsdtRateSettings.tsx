@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { DollarSign, Trash2 } from 'lucide-react';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { formatLocalDate } from '@/lib/billingCycle';
+import { toast } from 'sonner';
+
+export function UsdtRateSettings() {
+  const { rate, history, addRate, deleteRate } = useUsdtRate();
+  const { isOwner } = useWorkspace();
+  const [rateInput, setRateInput] = useState('');
+  const [dateInput, setDateInput] = useState(() => formatLocalDate(new Date()));
+  const [showHistory, setShowHistory] = useState(false);
+
+  const handleSave = async () => {
+    const value = parseFloat(rateInput);
+    if (!(value > 0)) {
+      toast.error('Enter a rate above 0');
+      return;
+    }
+    await addRate(value, dateInput || undefined);
+    toast.success(`USDT rate set to ৳${value} from ${dateInput}`);
+    setRateInput('');
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <DollarSign className="w-4 h-4" />
+        USDT Rate
+        <span className="ml-auto text-xs font-medium text-amber-400">1$ = ৳{rate}</span>
+      </h3>
+
+      {isOwner ? (
+        <>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rateInput}
+              onChange={(e) => setRateInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder={`৳ per $ (now ${rate})`}
+              className="flex-1 min-w-0 bg-input rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <input
+              type="date"
+              value={dateInput}
+              onChange={(e) => setDateInput(e.target.value)}
+              className="w-36 bg-input rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <button
+              onClick={handleSave}
+              className="px-3 py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:opacity-90 transition-opacity"
+            >
+              Save
+            </button>
+          </div>
+          <p className="text-[11px] text-muted-foreground mt-1.5">
+            New payments use the rate in effect on their date. Recorded payments keep their rate.
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-muted-foreground">The workspace owner sets the rate.</p>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-xs text-primary hover:underline"
+          >
+            {showHistory ? 'Hide history' : `Show history (${history.length})`}
+          </button>
+          {showHistory && (
+            <div className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+              {history.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between px-3 py-1.5 rounded-lg bg-secondary/50 text-xs">
+                  <span className="text-muted-foreground">{entry.effectiveDate}</span>
+                  <span className="font-medium text-foreground">৳{entry.rate}</span>
+                  {isOwner && (
+                    <button
+                      onClick={() => deleteRate(entry.id)}
+                      className="p-1 rounded hover:bg-destructive/20 transition-colors"
+                      aria-label="Delete rate"
+                    >
+                      <Trash2 className="w-3 h-3 text-destructive" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
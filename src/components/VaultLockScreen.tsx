@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Lock, Loader2, LogOut } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useVault } from '@/contexts/VaultContext';
+
+export function VaultLockScreen() {
+  const { user, signOut } = useAuth();
+  const { unlock } = useVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleUnlock = async () => {
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      const result = await unlock(passphrase);
+      if (!result.ok) setError(result.error || 'Failed to unlock');
+    } finally {
+      setIsUnlocking(false);
+      setPassphrase('');
+    }
+  };
+
+  return (
+    <div
+      className="min-h-screen min-h-[100dvh] flex items-center justify-center px-4"
+      style={{ paddingTop: 'env(safe-area-inset-top)', paddingBottom: 'env(safe-area-inset-bottom)' }}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        className="w-full max-w-sm glass-card rounded-2xl p-6 card-shadow text-center"
+      >
+        <div className="w-14 h-14 mx-auto mb-4 rounded-2xl bg-primary/20 flex items-center justify-center">
+          <Lock className="w-7 h-7 text-primary" />
+        </div>
+        <h1 className="font-display text-lg font-bold mb-1">Vault Locked</h1>
+        <p className="text-sm text-muted-foreground mb-6">
+          Enter your master passphrase to open member credentials
+          {user?.email ? <> for <span className="font-medium text-foreground">{user.email}</span></> : null}.
+        </p>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+          placeholder="Master passphrase"
+          autoFocus
+          autoComplete="current-password"
+          className="w-full bg-input rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+        />
+        {error && <p className="text-xs text-destructive mt-2 text-left">{error}</p>}
+
+        <button
+          onClick={handleUnlock}
+          disabled={!passphrase || isUnlocking}
+          className="w-full mt-4 py-3 rounded-xl bg-primary text-primary-foreground font-medium hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+        >
+          {isUnlocking && <Loader2 className="w-4 h-4 animate-spin" />}
+          Unlock
+        </button>
+
+        <button
+          onClick={signOut}
+          className="w-full mt-3 py-2 text-sm text-muted-foreground hover:text-foreground transition-colors flex items-center justify-center gap-2"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </button>
+        <p className="text-[11px] text-muted-foreground mt-4">
+          The passphrase can't be recovered. Without it, stored credentials stay encrypted.
+        </p>
+      </motion.div>
+    </div>
+  );
+}
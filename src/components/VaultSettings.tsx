@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { KeyRound, Lock, ShieldCheck } from 'lucide-react';
+import { useVault } from '@/contexts/VaultContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { VAULT_AUTO_LOCK_OPTIONS } from '@/lib/vault';
+import { toast } from 'sonner';
+
+const inputClass =
+  'w-full bg-input rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+export function VaultSettings() {
+  const { status, autoLockMinutes, setupVault, lock, changePassphrase, setAutoLockMinutes } = useVault();
+  const { isOwner } = useWorkspace();
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [showChange, setShowChange] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reset = () => {
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setShowChange(false);
+  };
+
+  const handleSubmit = async () => {
+    if (next !== confirm) {
+      toast.error("Passphrases don't match");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = status === 'off' ? await setupVault(next) : await changePassphrase(current, next);
+      if (!result.ok) {
+        toast.error(result.error || 'Failed to save passphrase');
+        return;
+      }
+      if (result.error) toast.warning(result.error);
+      toast.success(status === 'off' ? 'Vault set up — credentials are now encrypted' : 'Passphrase changed');
+      reset();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const form = (
+    <div className="space-y-2 mt-3">
+      {status !== 'off' && (
+        <input
+          type="password"
+          value={current}
+          onChange={(e) => setCurrent(e.target.value)}
+          placeholder="Current passphrase"
+          autoComplete="current-password"
+          className={inputClass}
+        />
+      )}
+      <input
+        type="password"
+        value={next}
+        onChange={(e) => setNext(e.target.value)}
+        placeholder={status === 'off' ? 'Master passphrase' : 'New passphrase'}
+        autoComplete="new-password"
+        className={inputClass}
+      />
+      <input
+        type="password"
+        value={confirm}
+        onChange={(e) => setConfirm(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+        placeholder="Repeat passphrase"
+        autoComplete="new-password"
+        className={inputClass}
+      />
+      <button
+        onClick={handleSubmit}
+        disabled={isSaving || !next || !confirm || (status !== 'off' && !current)}
+        className="w-full py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+      >
+        {status === 'off' ? 'Encrypt credentials' : 'Change passphrase'}
+      </button>
+    </div>
+  );
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <ShieldCheck className="w-4 h-4" />
+        Credential Vault
+        <span className={`ml-auto text-xs font-medium ${status === 'off' ? 'text-muted-foreground' : 'text-emerald-400'}`}>
+          {status === 'off' ? 'Off' : 'Encrypted'}
+        </span>
+      </h3>
+
+      {status === 'off' ? (
+        <>
+          <p className="text-[11px] text-muted-foreground">
+            {isOwner
+              ? "Encrypt passwords, e/g-passes and 2FA secrets with a master passphrase. It can't be recovered if lost."
+              : 'Only the workspace owner can set up the vault.'}
+          </p>
+          {isOwner && form}
+        </>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm">Auto-lock</span>
+            <select
+              value={autoLockMinutes}
+              onChange={(e) => setAutoLockMinutes(Number(e.target.value))}
+              className="bg-input rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            >
+              {VAULT_AUTO_LOCK_OPTIONS.map((minutes) => (
+                <option key={minutes} value={minutes}>
+                  {minutes === 0 ? 'Never' : `After ${minutes} min idle`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={lock}
+              className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium"
+            >
+              <Lock className="w-4 h-4" />
+              Lock now
+            </button>
+            {isOwner && (
+              <button
+                onClick={() => (showChange ? reset() : setShowChange(true))}
+                className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium"
+              >
+                <KeyRound className="w-4 h-4" />
+                {showChange ? 'Cancel' : 'Change passphrase'}
+              </button>
+            )}
+          </div>
+          {showChange && form}
+        </div>
+      )}
+    </div>
+  );
+}
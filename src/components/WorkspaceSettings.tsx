@@ -0,0 +1,292 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, LogOut, Trash2, Users, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import {
+  inviteCollaborator,
+  loadCollaborators,
+  removeCollaborator,
+  renameWorkspace,
+  revokeInvite,
+  updateCollaboratorRole,
+} from '@/services/workspaceService';
+import {
+  COLLABORATOR_ROLES,
+  CollaboratorRole,
+  WorkspaceCollaborator,
+  WorkspaceInvite,
+  WorkspaceRole,
+} from '@/types/workspace';
+import { toast } from 'sonner';
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  viewer: 'Viewer',
+};
+
+const selectClass =
+  'bg-input rounded-xl px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+const inputClass =
+  'flex-1 min-w-0 bg-input rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary';
+
+export function WorkspaceSettings() {
+  const { user } = useAuth();
+  const { workspaces, workspace, isOwner, switchWorkspace, refreshWorkspaces, leaveWorkspace } = useWorkspace();
+  const [collaborators, setCollaborators] = useState<WorkspaceCollaborator[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [isLoadingCollaborators, setIsLoadingCollaborators] = useState(false);
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<CollaboratorRole>('manager');
+  const [isInviting, setIsInviting] = useState(false);
+
+  useEffect(() => {
+    setName(workspace?.name || '');
+  }, [workspace?.name]);
+
+  const reloadCollaborators = useCallback(async () => {
+    if (!user || !isOwner) return;
+    setIsLoadingCollaborators(true);
+    try {
+      const result = await loadCollaborators(user.id);
+      setCollaborators(result.collaborators);
+      setInvites(result.invites);
+    } catch (e) {
+      console.error('[Workspace] Failed to load collaborators:', e);
+    } finally {
+      setIsLoadingCollaborators(false);
+    }
+  }, [user, isOwner]);
+
+  useEffect(() => {
+    reloadCollaborators();
+  }, [reloadCollaborators]);
+
+  const handleRename = async () => {
+    if (!user || !name.trim() || name.trim() === workspace?.name) return;
+    try {
+      await renameWorkspace(user.id, name.trim());
+      await refreshWorkspaces();
+      toast.success('Workspace renamed');
+    } catch (e) {
+      console.error('[Workspace] Rename failed:', e);
+      toast.error('Failed to rename the workspace');
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!user || !workspace) return;
+    setIsInviting(true);
+    try {
+      const result = await inviteCollaborator(user, workspace.name, inviteEmail, inviteRole);
+      if (!result.ok) {
+        toast.error(result.error || 'Failed to send the invite');
+        return;
+      }
+      toast.success(`Invite sent to ${inviteEmail.trim()}`);
+      setInviteEmail('');
+      await reloadCollaborators();
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (collaborator: WorkspaceCollaborator, role: CollaboratorRole) => {
+    if (!user) return;
+    try {
+      await updateCollaboratorRole(user.id, collaborator.userId, role);
+      setCollaborators((prev) => prev.map((c) => (c.userId === collaborator.userId ? { ...c, role } : c)));
+    } catch (e) {
+      console.error('[Workspace] Role change failed:', e);
+      toast.error('Failed to change the role');
+    }
+  };
+
+  const handleRemove = async (collaborator: WorkspaceCollaborator) => {
+    if (!user || !confirm(`Remove ${collaborator.email} from this workspace?`)) return;
+    try {
+      await removeCollaborator(user.id, collaborator.userId);
+      setCollaborators((prev) => prev.filter((c) => c.userId !== collaborator.userId));
+    } catch (e) {
+      console.error('[Workspace] Remove failed:', e);
+      toast.error('Failed to remove the collaborator');
+    }
+  };
+
+  const handleRevoke = async (invite: WorkspaceInvite) => {
+    try {
+      await revokeInvite(invite.id);
+      setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    } catch (e) {
+      console.error('[Workspace] Revoke failed:', e);
+      toast.error('Failed to revoke the invite');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!workspace || !confirm(`Leave ${workspace.name}? You'll need a new invite to rejoin.`)) return;
+    const result = await leaveWorkspace(workspace.id);
+    if (!result.ok) {
+      toast.error(result.error || 'Failed to leave the workspace');
+      return;
+    }
+    toast.success('You left the workspace');
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <Users className="w-4 h-4" />
+        Workspace
+        {workspace && (
+          <span className="ml-auto text-xs font-medium text-muted-foreground">{ROLE_LABELS[workspace.role]}</span>
+        )}
+      </h3>
+
+      {workspaces.length > 1 && (
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <span className="text-sm">Open</span>
+          <select
+            value={workspace?.id || ''}
+            onChange={(e) => switchWorkspace(e.target.value)}
+            className={`${selectClass} min-w-0 max-w-[60%]`}
+          >
+            {workspaces.map((w) => (
+              <option key={w.id} value={w.id}>
+                {w.name} ({ROLE_LABELS[w.role]})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {!isOwner ? (
+        <div className="space-y-2">
+          <p className="text-[11px] text-muted-foreground">
+            {workspace?.role === 'viewer'
+              ? "You can see this workspace but not change it. Member credentials stay hidden."
+              : 'You can edit teams, members and payments. Products, rates and the vault are managed by the owner.'}
+          </p>
+          <button
+            onClick={handleLeave}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-xl bg-destructive/10 text-destructive text-sm font-medium hover:bg-destructive/20 transition-colors"
+          >
+            <LogOut className="w-4 h-4" />
+            Leave workspace
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+              placeholder="Workspace name"
+              className={inputClass}
+            />
+            <button
+              onClick={handleRename}
+              disabled={!name.trim() || name.trim() === workspace?.name}
+              className="px-3 py-2 rounded-xl bg-secondary text-sm font-medium hover:bg-secondary/80 transition-colors disabled:opacity-50"
+            >
+              Rename
+            </button>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-2">Invite a collaborator</p>
+            <div className="flex gap-2">
+              <input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+                placeholder="Email address"
+                className={inputClass}
+              />
+              <select
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as CollaboratorRole)}
+                className={selectClass}
+              >
+                {COLLABORATOR_ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {ROLE_LABELS[role]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={handleInvite}
+              disabled={isInviting || !inviteEmail.trim()}
+              className="w-full mt-2 py-2 rounded-xl bg-primary text-primary-foreground text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50"
+            >
+              {isInviting ? 'Sending…' : 'Send invite'}
+            </button>
+            <p className="text-[11px] text-muted-foreground mt-1.5">
+              Managers edit teams, members and payments. Viewers only look, and never see member credentials.
+            </p>
+          </div>
+
+          {isLoadingCollaborators ? (
+            <div className="flex items-center justify-center py-3">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              {collaborators.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground mb-1">Collaborators</p>
+                  {collaborators.map((c) => (
+                    <div key={c.userId} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-secondary/50 text-xs">
+                      <span className="flex-1 min-w-0 truncate">{c.email}</span>
+                      <select
+                        value={c.role}
+                        onChange={(e) => handleRoleChange(c, e.target.value as CollaboratorRole)}
+                        className="bg-input rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+                      >
+                        {COLLABORATOR_ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => handleRemove(c)}
+                        className="p-1 rounded hover:bg-destructive/20 transition-colors"
+                        aria-label="Remove collaborator"
+                      >
+                        <Trash2 className="w-3 h-3 text-destructive" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {invites.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-muted-foreground mb-1">Pending invites</p>
+                  {invites.map((invite) => (
+                    <div key={invite.id} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-secondary/50 text-xs">
+                      <span className="flex-1 min-w-0 truncate">{invite.email}</span>
+                      <span className="text-muted-foreground">{ROLE_LABELS[invite.role]}</span>
+                      <button
+                        onClick={() => handleRevoke(invite)}
+                        className="p-1 rounded hover:bg-destructive/20 transition-colors"
+                        aria-label="Revoke invite"
+                      >
+                        <X className="w-3 h-3 text-destructive" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
 import { motion } from 'framer-motion';
 import { 
   Mail, Phone, Send, Calendar, MessageCircle, Check, X, Pencil, 
-  Shield, Lock, Receipt, Copy 
+  Shield, Lock, Receipt, Copy, ScanLine 
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
+import { isTotpSecret } from '@/lib/totp';
+import { canScanQrCodes, scanTotpQrCode } from '@/services/qrScanService';
+import { useSecureCopy } from '@/hooks/useSecureCopy';
+import { TotpCode } from './TotpCode';
 
 interface Member {
   id: string;
@@ -63,9 +67,15 @@ const YearlyMemberCard = ({
   onRemove,
   onNavigatePayDetails,
 }: YearlyMemberCardProps) => {
-  const copyToClipboard = (text: string, label: string) => {
-    navigator.clipboard.writeText(text);
-    toast.success(`${label} copied!`);
+  const copy = useSecureCopy();
+
+  const handleScanTwoFA = async () => {
+    try {
+      const scanned = await scanTotpQrCode();
+      if (scanned) onEditValueChange(scanned);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : 'Failed to scan QR code');
+    }
   };
 
   const isEditing = (field: string) => 
@@ -104,6 +114,15 @@ const YearlyMemberCard = ({
                 placeholder={placeholder}
                 onKeyDown={(e) => e.key === 'Enter' && onSaveEdit()}
               />
+              {isTwoFAField && canScanQrCodes() && (
+                <button
+                  onClick={handleScanTwoFA}
+                  className="p-1.5 bg-muted/50 hover:bg-muted rounded-lg transition-colors"
+                  title="Scan QR code"
+                >
+                  <ScanLine className="w-4 h-4" />
+                </button>
+              )}
               <button 
                 onClick={onSaveEdit} 
                 className="p-1.5 bg-green-500/20 text-green-500 hover:bg-green-500/30 rounded-lg transition-colors"
@@ -119,19 +138,23 @@ const YearlyMemberCard = ({
             </div>
           ) : (
             <div className="flex items-center gap-1.5">
-              <span 
-                className={`font-medium text-foreground ${
-                  isTwoFAField 
-                    ? 'text-xs truncate max-w-[140px] sm:max-w-[200px]' 
-                    : 'text-sm'
-                }`}
-                title={isTwoFAField && value ? value : undefined}
-              >
-                {value || '—'}
-              </span>
-              {isTwoFAField && value && (
+              {isTwoFAField && isTotpSecret(value) ? (
+                <TotpCode secret={value} />
+              ) : (
+                <span 
+                  className={`font-medium text-foreground ${
+                    isTwoFAField 
+                      ? 'text-xs truncate max-w-[140px] sm:max-w-[200px]' 
+                      : 'text-sm'
+                  }`}
+                  title={isTwoFAField && value ? value : undefined}
+                >
+                  {value || '—'}
+                </span>
+              )}
+              {isTwoFAField && value && !isTotpSecret(value) && (
                 <button
-                  onClick={() => copyToClipboard(value, '2FA')}
+                  onClick={() => copy(value, '2FA', 'twoFA')}
                   className="p-1 rounded-md hover:bg-muted/50 transition-colors shrink-0"
                   title="Copy 2FA"
                 >
@@ -219,7 +242,7 @@ const YearlyMemberCard = ({
                   </p>
                   <div className="flex items-center gap-1 mt-1">
                     <button
-                      onClick={() => copyToClipboard(member.email, 'Email')}
+                      onClick={() => copy(member.email, 'Email', 'email')}
                       className="p-1 rounded-md hover:bg-muted/50 transition-colors"
                       title="Copy email"
                     >
@@ -247,7 +270,7 @@ const YearlyMemberCard = ({
               '2FA',
               member.twoFA,
               'text',
-              'Enter 2FA code',
+              '2FA secret or otpauth:// link',
               true
             )}
             {renderEditableField(
@@ -0,0 +1,296 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { App } from '@capacitor/app';
+import {
+  AppLockConfig,
+  checkPin,
+  DEFAULT_APP_LOCK_IDLE_MINUTES,
+  hashPin,
+  isValidPin,
+  MAX_PIN_ATTEMPTS,
+  MIN_PIN_LENGTH,
+  MAX_PIN_LENGTH,
+  PIN_LOCKOUT_MS,
+  RECENT_UNLOCK_MS,
+} from '@/lib/appLock';
+import {
+  getAppLockConfig,
+  getPinAttempts,
+  registerBiometric,
+  saveAppLockConfig,
+  savePinAttempts,
+  verifyBiometric,
+} from '@/services/appLockService';
+
+// off: no PIN set on this device
+export type AppLockStatus = 'loading' | 'off' | 'locked' | 'unlocked';
+
+type LockResult = { ok: boolean; error?: string };
+
+interface AppLockContextType {
+  status: AppLockStatus;
+  hasBiometric: boolean;
+  idleMinutes: number;
+  // Locked only to confirm a sensitive action; the user can back out
+  isConfirming: boolean;
+  unlockWithPin: (pin: string) => Promise<LockResult>;
+  unlockWithBiometric: () => Promise<LockResult>;
+  lock: () => void;
+  cancelConfirm: () => void;
+  /** Resolves true right away when unlocked recently, otherwise asks to unlock again. */
+  confirmRecentUnlock: () => Promise<boolean>;
+  enableLock: (pin: string) => Promise<LockResult>;
+  disableLock: (pin: string) => Promise<LockResult>;
+  // Forgotten PIN: drop the lock without it (the caller signs out, so the account password guards re-entry)
+  resetLock: () => Promise<void>;
+  changePin: (current: string, next: string) => Promise<LockResult>;
+  enableBiometric: () => Promise<LockResult>;
+  disableBiometric: () => Promise<void>;
+  setIdleMinutes: (minutes: number) => Promise<void>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'] as const;
+
+const INVALID_PIN_ERROR = `Use ${MIN_PIN_LENGTH}–${MAX_PIN_LENGTH} digits`;
+
+export const AppLockProvider = ({ children }: { children: ReactNode }) => {
+  const [config, setConfig] = useState<AppLockConfig | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const lastUnlockAtRef = useRef(0);
+  const failedAttemptsRef = useRef(0);
+  const lockedOutUntilRef = useRef(0);
+  const confirmResolverRef = useRef<((confirmed: boolean) => void) | null>(null);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    Promise.all([getAppLockConfig(), getPinAttempts()])
+      .then(([loaded, attempts]) => {
+        setConfig(loaded);
+        failedAttemptsRef.current = attempts.failed;
+        lockedOutUntilRef.current = attempts.lockedOutUntil;
+      })
+      .catch((e) => console.error('[AppLock] Failed to load:', e))
+      .finally(() => setIsLoaded(true));
+  }, []);
+
+  const settleConfirm = useCallback((confirmed: boolean) => {
+    confirmResolverRef.current?.(confirmed);
+    confirmResolverRef.current = null;
+    setIsConfirming(false);
+  }, []);
+
+  const lock = useCallback(() => {
+    setIsUnlocked(false);
+    settleConfirm(false);
+  }, [settleConfirm]);
+
+  const clearPinAttempts = useCallback(() => {
+    if (failedAttemptsRef.current === 0) return;
+    failedAttemptsRef.current = 0;
+    savePinAttempts({ failed: 0, lockedOutUntil: lockedOutUntilRef.current }).catch((e) =>
+      console.error('[AppLock] Failed to save PIN attempts:', e)
+    );
+  }, []);
+
+  const markUnlocked = useCallback(() => {
+    clearPinAttempts();
+    lastUnlockAtRef.current = Date.now();
+    setIsUnlocked(true);
+    settleConfirm(true);
+  }, [clearPinAttempts, settleConfirm]);
+
+  // Lock whenever the app leaves the foreground
+  useEffect(() => {
+    if (!config) return;
+    const listener = App.addListener('appStateChange', ({ isActive }) => {
+      if (!isActive) lock();
+    });
+    return () => {
+      listener.then((l) => l.remove());
+    };
+  }, [config, lock]);
+
+  // Lock after a stretch without interaction while unlocked
+  useEffect(() => {
+    if (!config || !isUnlocked || config.idleMinutes <= 0) return;
+    const restart = () => {
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+      idleTimerRef.current = setTimeout(lock, config.idleMinutes * 60_000);
+    };
+    restart();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restart));
+    };
+  }, [config, isUnlocked, lock]);
+
+  const saveConfig = useCallback(async (next: AppLockConfig | null) => {
+    await saveAppLockConfig(next);
+    setConfig(next);
+  }, []);
+
+  // Every PIN check counts toward the lockout, so settings can't be used to guess the PIN
+  const verifyPin = useCallback(
+    async (pin: string, lockConfig: AppLockConfig, wrongPinError = 'Wrong PIN'): Promise<LockResult> => {
+      const waitMs = lockedOutUntilRef.current - Date.now();
+      if (waitMs > 0) return { ok: false, error: `Too many attempts — try again in ${Math.ceil(waitMs / 1000)}s` };
+
+      if (!(await checkPin(pin, lockConfig))) {
+        failedAttemptsRef.current += 1;
+        const lockedOut = failedAttemptsRef.current >= MAX_PIN_ATTEMPTS;
+        if (lockedOut) {
+          failedAttemptsRef.current = 0;
+          lockedOutUntilRef.current = Date.now() + PIN_LOCKOUT_MS;
+        }
+        await savePinAttempts({
+          failed: failedAttemptsRef.current,
+          lockedOutUntil: lockedOutUntilRef.current,
+        }).catch((e) => console.error('[AppLock] Failed to save PIN attempts:', e));
+        if (lockedOut) return { ok: false, error: `Too many attempts — try again in ${PIN_LOCKOUT_MS / 1000}s` };
+        return { ok: false, error: wrongPinError };
+      }
+      clearPinAttempts();
+      return { ok: true };
+    },
+    [clearPinAttempts]
+  );
+
+  const unlockWithPin = useCallback(
+    async (pin: string): Promise<LockResult> => {
+      if (!config) return { ok: true };
+      const result = await verifyPin(pin, config);
+      if (result.ok) markUnlocked();
+      return result;
+    },
+    [config, verifyPin, markUnlocked]
+  );
+
+  const unlockWithBiometric = useCallback(async (): Promise<LockResult> => {
+    if (!config?.biometricCredentialId) return { ok: false, error: 'Biometric unlock is not set up' };
+    if (!(await verifyBiometric(config.biometricCredentialId))) {
+      return { ok: false, error: "Couldn't verify — use your PIN" };
+    }
+    markUnlocked();
+    return { ok: true };
+  }, [config, markUnlocked]);
+
+  const confirmRecentUnlock = useCallback((): Promise<boolean> => {
+    if (!config) return Promise.resolve(true);
+    if (isUnlocked && Date.now() - lastUnlockAtRef.current < RECENT_UNLOCK_MS) return Promise.resolve(true);
+    return new Promise<boolean>((resolve) => {
+      confirmResolverRef.current?.(false);
+      confirmResolverRef.current = resolve;
+      setIsConfirming(true);
+    });
+  }, [config, isUnlocked]);
+
+  const enableLock = useCallback(
+    async (pin: string): Promise<LockResult> => {
+      if (!isValidPin(pin)) return { ok: false, error: INVALID_PIN_ERROR };
+      try {
+        await saveConfig({ ...(await hashPin(pin)), idleMinutes: DEFAULT_APP_LOCK_IDLE_MINUTES });
+        markUnlocked();
+        return { ok: true };
+      } catch (e) {
+        console.error('[AppLock] Setup failed:', e);
+        return { ok: false, error: 'Failed to turn on the app lock' };
+      }
+    },
+    [saveConfig, markUnlocked]
+  );
+
+  const disableLock = useCallback(
+    async (pin: string): Promise<LockResult> => {
+      if (!config) return { ok: true };
+      const result = await verifyPin(pin, config);
+      if (!result.ok) return result;
+      await saveConfig(null);
+      return { ok: true };
+    },
+    [config, verifyPin, saveConfig]
+  );
+
+  const resetLock = useCallback(() => saveConfig(null), [saveConfig]);
+
+  const changePin = useCallback(
+    async (current: string, next: string): Promise<LockResult> => {
+      if (!config) return { ok: false, error: 'The app lock is off' };
+      if (!isValidPin(next)) return { ok: false, error: INVALID_PIN_ERROR };
+      const result = await verifyPin(current, config, 'Current PIN is wrong');
+      if (!result.ok) return result;
+      await saveConfig({ ...config, ...(await hashPin(next)) });
+      return { ok: true };
+    },
+    [config, verifyPin, saveConfig]
+  );
+
+  const enableBiometric = useCallback(async (): Promise<LockResult> => {
+    if (!config) return { ok: false, error: 'Set a PIN first' };
+    try {
+      const biometricCredentialId = await registerBiometric();
+      await saveConfig({ ...config, biometricCredentialId });
+      return { ok: true };
+    } catch (e) {
+      console.error('[AppLock] Biometric setup failed:', e);
+      return { ok: false, error: "Couldn't set up biometric unlock" };
+    }
+  }, [config, saveConfig]);
+
+  const disableBiometric = useCallback(async () => {
+    if (!config) return;
+    await saveConfig({ ...config, biometricCredentialId: undefined });
+  }, [config, saveConfig]);
+
+  const setIdleMinutes = useCallback(
+    async (idleMinutes: number) => {
+      if (!config) return;
+      await saveConfig({ ...config, idleMinutes });
+    },
+    [config, saveConfig]
+  );
+
+  const status: AppLockStatus = !isLoaded
+    ? 'loading'
+    : !config
+      ? 'off'
+      : isUnlocked && !isConfirming
+        ? 'unlocked'
+        : 'locked';
+
+  return (
+    <AppLockContext.Provider
+      value={{
+        status,
+        hasBiometric: !!config?.biometricCredentialId,
+        idleMinutes: config?.idleMinutes ?? DEFAULT_APP_LOCK_IDLE_MINUTES,
+        isConfirming: isConfirming && isUnlocked,
+        unlockWithPin,
+        unlockWithBiometric,
+        lock,
+        cancelConfirm: () => settleConfirm(false),
+        confirmRecentUnlock,
+        enableLock,
+        disableLock,
+        resetLock,
+        changePin,
+        enableBiometric,
+        disableBiometric,
+        setIdleMinutes,
+      }}
+    >
+      {children}
+    </AppLockContext.Provider>
+  );
+};
+
+export const useAppLock = () => {
+  const context = useContext(AppLockContext);
+  if (!context) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
@@ -0,0 +1,209 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { supabase } from '@/lib/supabase';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { SubscriptionProduct, SubscriptionType } from '@/types/member';
+import {
+  getLocalProducts,
+  getLocalProduct,
+  putLocalProduct,
+  deleteLocalProduct,
+  addToSyncQueue,
+  localProductToAppProduct,
+  LocalSubscriptionProduct,
+} from '@/services/offlineDb';
+import { isOnline, processSyncQueue, onSyncChange, notifySyncChange } from '@/services/syncService';
+
+export type SubscriptionProductInput = Omit<SubscriptionProduct, 'id' | 'key' | 'sortOrder'>;
+
+const DEFAULT_PLAN_NAME = 'Business Subscription';
+
+interface SubscriptionProductsContextType {
+  products: SubscriptionProduct[];
+  getProduct: (key?: SubscriptionType | null) => SubscriptionProduct | undefined;
+  getPlanName: (key?: SubscriptionType | null) => string;
+  createProduct: (input: SubscriptionProductInput) => Promise<SubscriptionProduct | null>;
+  updateProduct: (id: string, updates: Partial<SubscriptionProductInput>) => Promise<void>;
+  deleteProduct: (id: string) => Promise<void>;
+  uploadProductIcon: (file: File) => Promise<{ error: string | null; url: string | null }>;
+}
+
+const SubscriptionProductsContext = createContext<SubscriptionProductsContextType | undefined>(undefined);
+
+const productToRow = (product: LocalSubscriptionProduct): Record<string, unknown> => ({ ...product });
+
+const queueProductChange = async (
+  userId: string,
+  operation: 'insert' | 'update' | 'delete',
+  productId: string,
+  payload: Record<string, unknown>,
+  base?: Record<string, unknown>
+) => {
+  await addToSyncQueue({
+    table: 'subscription_products',
+    operation,
+    record_id: productId,
+    payload,
+    base,
+    created_at: new Date().toISOString(),
+    user_id: userId,
+  });
+  notifySyncChange();
+
+  if (isOnline()) {
+    processSyncQueue(userId).catch((e) => console.error('[Sync] background error:', e));
+  }
+};
+
+export const SubscriptionProductsProvider = ({ children }: { children: ReactNode }) => {
+  // The catalog belongs to the workspace; only its owner changes it
+  const { workspaceId, isOwner } = useWorkspace();
+  const [localProducts, setLocalProducts] = useState<LocalSubscriptionProduct[]>([]);
+
+  const loadFromLocal = useCallback(async () => {
+    if (!workspaceId) {
+      setLocalProducts([]);
+      return;
+    }
+    try {
+      setLocalProducts(await getLocalProducts(workspaceId));
+    } catch (e) {
+      console.error('[Offline] Failed to load subscription products:', e);
+    }
+  }, [workspaceId]);
+
+  // The catalog arrives with every pull; reload whenever sync touches local data
+  useEffect(() => {
+    loadFromLocal();
+    return onSyncChange(() => {
+      loadFromLocal();
+    });
+  }, [loadFromLocal]);
+
+  const products = useMemo(
+    () =>
+      localProducts
+        .map(localProductToAppProduct)
+        .sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)),
+    [localProducts]
+  );
+
+  const productsByKey = useMemo(() => new Map(products.map((p) => [p.key, p])), [products]);
+
+  const getProduct = useCallback(
+    (key?: SubscriptionType | null) => (key ? productsByKey.get(key) : undefined),
+    [productsByKey]
+  );
+
+  const getPlanName = useCallback(
+    (key?: SubscriptionType | null) => getProduct(key)?.planName || DEFAULT_PLAN_NAME,
+    [getProduct]
+  );
+
+  const createProduct = useCallback(
+    async (input: SubscriptionProductInput) => {
+      if (!workspaceId || !isOwner) return null;
+
+      const id = crypto.randomUUID();
+      const localProduct: LocalSubscriptionProduct = {
+        id,
+        user_id: workspaceId,
+        key: id,
+        name: input.name,
+        color: input.color,
+        icon_url: input.iconUrl || null,
+        plan_name: input.planName || null,
+        default_price: input.defaultPrice ?? null,
+        billing_cycle_days: input.billingCycleDays,
+        billing_calendar_month: input.billingCalendarMonth,
+        default_seats: input.defaultSeats ?? null,
+        sort_order: localProducts.reduce((max, p) => Math.max(max, p.sort_order + 1), 0),
+        created_at: new Date().toISOString(),
+      };
+
+      await putLocalProduct(localProduct);
+      setLocalProducts((prev) => [...prev, localProduct]);
+      await queueProductChange(workspaceId, 'insert', id, productToRow(localProduct));
+      return localProductToAppProduct(localProduct);
+    },
+    [workspaceId, isOwner, localProducts]
+  );
+
+  const updateProduct = useCallback(
+    async (id: string, updates: Partial<SubscriptionProductInput>) => {
+      if (!workspaceId || !isOwner) return;
+      const existing = await getLocalProduct(id);
+      if (!existing) return;
+
+      const changes: Partial<LocalSubscriptionProduct> = {};
+      if (updates.name !== undefined) changes.name = updates.name;
+      if (updates.color !== undefined) changes.color = updates.color;
+      if (updates.iconUrl !== undefined) changes.icon_url = updates.iconUrl || null;
+      if (updates.planName !== undefined) changes.plan_name = updates.planName || null;
+      if (updates.defaultPrice !== undefined) changes.default_price = updates.defaultPrice ?? null;
+      if (updates.billingCycleDays !== undefined) changes.billing_cycle_days = updates.billingCycleDays;
+      if (updates.billingCalendarMonth !== undefined) changes.billing_calendar_month = updates.billingCalendarMonth;
+      if ('defaultSeats' in updates) changes.default_seats = updates.defaultSeats ?? null;
+
+      const base = Object.fromEntries(
+        Object.keys(changes).map((field) => [field, existing[field as keyof LocalSubscriptionProduct]])
+      );
+      const updated = { ...existing, ...changes };
+      await putLocalProduct(updated);
+      setLocalProducts((prev) => prev.map((p) => (p.id === id ? updated : p)));
+      await queueProductChange(workspaceId, 'update', id, { id, ...changes }, base);
+    },
+    [workspaceId, isOwner]
+  );
+
+  const deleteProduct = useCallback(
+    async (id: string) => {
+      if (!workspaceId || !isOwner) return;
+      await deleteLocalProduct(id);
+      setLocalProducts((prev) => prev.filter((p) => p.id !== id));
+      await queueProductChange(workspaceId, 'delete', id, {});
+    },
+    [workspaceId, isOwner]
+  );
+
+  const uploadProductIcon = useCallback(
+    async (file: File) => {
+      if (!workspaceId || !isOwner) return { error: 'Only the workspace owner can change products', url: null };
+      if (!isOnline()) return { error: 'Connect to the internet to upload an icon', url: null };
+
+      const fileExt = file.name.split('.').pop();
+      const filePath = `${workspaceId}/${Date.now()}.${fileExt}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('product-icons')
+        .upload(filePath, file, { upsert: true });
+
+      if (uploadError) {
+        console.error('Error uploading product icon:', uploadError);
+        return { error: uploadError.message, url: null };
+      }
+
+      const { data: { publicUrl } } = supabase.storage
+        .from('product-icons')
+        .getPublicUrl(filePath);
+
+      return { error: null, url: publicUrl };
+    },
+    [workspaceId, isOwner]
+  );
+
+  return (
+    <SubscriptionProductsContext.Provider
+      value={{ products, getProduct, getPlanName, createProduct, updateProduct, deleteProduct, uploadProductIcon }}
+    >
+      {children}
+    </SubscriptionProductsContext.Provider>
+  );
+};
+
+export const useSubscriptionProducts = () => {
+  const context = useContext(SubscriptionProductsContext);
+  if (context === undefined) {
+    throw new Error('useSubscriptionProducts must be used within a SubscriptionProductsProvider');
+  }
+  return context;
+};
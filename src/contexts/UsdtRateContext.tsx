@@ -0,0 +1,127 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { UsdtRate } from '@/types/member';
+import {
+  getLocalUsdtRates,
+  putLocalUsdtRate,
+  deleteLocalUsdtRate,
+  addToSyncQueue,
+  localUsdtRateToAppRate,
+  LocalUsdtRate,
+} from '@/services/offlineDb';
+import { isOnline, processSyncQueue, onSyncChange, notifySyncChange } from '@/services/syncService';
+import { formatLocalDate } from '@/lib/billingCycle';
+import { getUsdtRateOn } from '@/lib/usdtRate';
+
+interface UsdtRateContextType {
+  // Rate in effect today
+  rate: number;
+  // Newest first
+  history: UsdtRate[];
+  rateOn: (date: string) => number;
+  addRate: (rate: number, effectiveDate?: string) => Promise<void>;
+  deleteRate: (id: string) => Promise<void>;
+}
+
+const UsdtRateContext = createContext<UsdtRateContextType | undefined>(undefined);
+
+const queueRateChange = async (
+  userId: string,
+  operation: 'insert' | 'delete',
+  rateId: string,
+  payload: Record<string, unknown>
+) => {
+  await addToSyncQueue({
+    table: 'usdt_rates',
+    operation,
+    record_id: rateId,
+    payload,
+    created_at: new Date().toISOString(),
+    user_id: userId,
+  });
+  notifySyncChange();
+
+  if (isOnline()) {
+    processSyncQueue(userId).catch((e) => console.error('[Sync] background error:', e));
+  }
+};
+
+export const UsdtRateProvider = ({ children }: { children: ReactNode }) => {
+  // Rates belong to the workspace; only its owner changes them
+  const { workspaceId, isOwner } = useWorkspace();
+  const [localRates, setLocalRates] = useState<LocalUsdtRate[]>([]);
+
+  const loadFromLocal = useCallback(async () => {
+    if (!workspaceId) {
+      setLocalRates([]);
+      return;
+    }
+    try {
+      setLocalRates(await getLocalUsdtRates(workspaceId));
+    } catch (e) {
+      console.error('[Offline] Failed to load USDT rates:', e);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    loadFromLocal();
+    return onSyncChange(() => {
+      loadFromLocal();
+    });
+  }, [loadFromLocal]);
+
+  const history = useMemo(
+    () =>
+      localRates
+        .map(localUsdtRateToAppRate)
+        .sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.createdAt.localeCompare(a.createdAt)),
+    [localRates]
+  );
+
+  const rateOn = useCallback((date: string) => getUsdtRateOn(history, date), [history]);
+  const rate = useMemo(() => getUsdtRateOn(history), [history]);
+
+  // Rates are history: a correction is a new entry, never an edit of an old one
+  const addRate = useCallback(
+    async (value: number, effectiveDate: string = formatLocalDate(new Date())) => {
+      if (!workspaceId || !isOwner || !(value > 0)) return;
+
+      const localRate: LocalUsdtRate = {
+        id: crypto.randomUUID(),
+        user_id: workspaceId,
+        rate: value,
+        effective_date: effectiveDate,
+        created_at: new Date().toISOString(),
+      };
+
+      await putLocalUsdtRate(localRate);
+      setLocalRates((prev) => [...prev, localRate]);
+      await queueRateChange(workspaceId, 'insert', localRate.id, { ...localRate });
+    },
+    [workspaceId, isOwner]
+  );
+
+  const deleteRate = useCallback(
+    async (id: string) => {
+      if (!workspaceId || !isOwner) return;
+      await deleteLocalUsdtRate(id);
+      setLocalRates((prev) => prev.filter((r) => r.id !== id));
+      await queueRateChange(workspaceId, 'delete', id, {});
+    },
+    [workspaceId, isOwner]
+  );
+
+  return (
+    <UsdtRateContext.Provider value={{ rate, history, rateOn, addRate, deleteRate }}>
+      {children}
+    </UsdtRateContext.Provider>
+  );
+};
+
+export const useUsdtRate = () => {
+  const context = useContext(UsdtRateContext);
+  if (context === undefined) {
+    throw new Error('useUsdtRate must be used within a UsdtRateProvider');
+  }
+  return context;
+};
@@ -0,0 +1,200 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import {
+  checkVaultKey,
+  createVaultVerifier,
+  deriveVaultKey,
+  generateVaultSalt,
+  VAULT_PBKDF2_ITERATIONS,
+  VaultConfig,
+} from '@/lib/vault';
+import {
+  getVaultAutoLockMinutes,
+  loadVaultConfig,
+  resealCredentials,
+  saveVaultConfig,
+  setVaultAutoLockMinutes,
+} from '@/services/vaultService';
+import { isOnline } from '@/services/syncService';
+
+// off: no passphrase set yet, credentials are stored as they are
+export type VaultStatus = 'loading' | 'off' | 'locked' | 'unlocked';
+
+interface VaultContextType {
+  status: VaultStatus;
+  // In memory only, while unlocked
+  key: CryptoKey | null;
+  autoLockMinutes: number;
+  setupVault: (passphrase: string) => Promise<{ ok: boolean; error?: string }>;
+  unlock: (passphrase: string) => Promise<{ ok: boolean; error?: string }>;
+  lock: () => void;
+  changePassphrase: (current: string, next: string) => Promise<{ ok: boolean; error?: string }>;
+  setAutoLockMinutes: (minutes: number) => Promise<void>;
+}
+
+const VaultContext = createContext<VaultContextType | undefined>(undefined);
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'scroll', 'touchstart'] as const;
+
+const newVaultConfig = async (passphrase: string): Promise<{ config: VaultConfig; key: CryptoKey }> => {
+  const salt = generateVaultSalt();
+  const key = await deriveVaultKey(passphrase, salt, VAULT_PBKDF2_ITERATIONS);
+  return {
+    key,
+    config: {
+      salt,
+      iterations: VAULT_PBKDF2_ITERATIONS,
+      verifier: await createVaultVerifier(key),
+      updatedAt: new Date().toISOString(),
+    },
+  };
+};
+
+export const VaultProvider = ({ children }: { children: ReactNode }) => {
+  // The vault belongs to the workspace owner; managers unlock it with the shared passphrase
+  const { workspaceId, isOwner } = useWorkspace();
+  const [config, setConfig] = useState<VaultConfig | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [key, setKey] = useState<CryptoKey | null>(null);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState(0);
+  const lockTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    setKey(null);
+    setConfig(null);
+    setIsLoaded(false);
+    if (!workspaceId) return;
+
+    let cancelled = false;
+    Promise.all([loadVaultConfig(workspaceId), getVaultAutoLockMinutes()])
+      .then(([loaded, minutes]) => {
+        if (cancelled) return;
+        setConfig(loaded);
+        setAutoLockMinutesState(minutes);
+      })
+      .catch((e) => console.error('[Vault] Failed to load:', e))
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId]);
+
+  const lock = useCallback(() => setKey(null), []);
+
+  // Lock after a stretch without interaction while unlocked
+  useEffect(() => {
+    if (!key || autoLockMinutes <= 0) return;
+    const restart = () => {
+      if (lockTimerRef.current) clearTimeout(lockTimerRef.current);
+      lockTimerRef.current = setTimeout(lock, autoLockMinutes * 60_000);
+    };
+    restart();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restart, { passive: true }));
+    return () => {
+      if (lockTimerRef.current) clearTimeout(lockTimerRef.current);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restart));
+    };
+  }, [key, autoLockMinutes, lock]);
+
+  const setupVault = useCallback(
+    async (passphrase: string) => {
+      if (!workspaceId) return { ok: false, error: 'Not authenticated' };
+      if (!isOwner) return { ok: false, error: 'Only the workspace owner can set up the vault' };
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        return { ok: false, error: `Use at least ${MIN_PASSPHRASE_LENGTH} characters` };
+      }
+      if (!isOnline()) return { ok: false, error: 'Connect to the internet to set up the vault' };
+
+      try {
+        const created = await newVaultConfig(passphrase);
+        await saveVaultConfig(workspaceId, created.config);
+        setConfig(created.config);
+        setKey(created.key);
+        await resealCredentials(workspaceId, created.key);
+        return { ok: true };
+      } catch (e) {
+        console.error('[Vault] Setup failed:', e);
+        return { ok: false, error: 'Failed to set up the vault' };
+      }
+    },
+    [workspaceId, isOwner]
+  );
+
+  const unlock = useCallback(
+    async (passphrase: string) => {
+      if (!workspaceId) return { ok: false, error: 'Not authenticated' };
+      // Pick up a passphrase changed on another device
+      const current = (await loadVaultConfig(workspaceId)) || config;
+      if (!current) return { ok: false, error: 'The vault is not set up' };
+
+      const derived = await deriveVaultKey(passphrase, current.salt, current.iterations);
+      if (!(await checkVaultKey(derived, current.verifier))) {
+        return { ok: false, error: 'Wrong passphrase' };
+      }
+      setConfig(current);
+      setKey(derived);
+      // Seal plaintext that arrived while locked (older devices, imported backups)
+      resealCredentials(workspaceId, derived).catch((e) => console.error('[Vault] Reseal failed:', e));
+      return { ok: true };
+    },
+    [workspaceId, config]
+  );
+
+  const changePassphrase = useCallback(
+    async (currentPassphrase: string, next: string) => {
+      if (!workspaceId || !config) return { ok: false, error: 'The vault is not set up' };
+      if (!isOwner) return { ok: false, error: 'Only the workspace owner can change the passphrase' };
+      if (next.length < MIN_PASSPHRASE_LENGTH) {
+        return { ok: false, error: `Use at least ${MIN_PASSPHRASE_LENGTH} characters` };
+      }
+      if (!isOnline()) return { ok: false, error: 'Connect to the internet to change the passphrase' };
+
+      const oldKey = await deriveVaultKey(currentPassphrase, config.salt, config.iterations);
+      if (!(await checkVaultKey(oldKey, config.verifier))) {
+        return { ok: false, error: 'Current passphrase is wrong' };
+      }
+
+      try {
+        const created = await newVaultConfig(next);
+        await saveVaultConfig(workspaceId, created.config);
+        setConfig(created.config);
+        setKey(created.key);
+        const { failed } = await resealCredentials(workspaceId, created.key, oldKey);
+        return failed > 0
+          ? { ok: true, error: `${failed} credential(s) couldn't be re-encrypted` }
+          : { ok: true };
+      } catch (e) {
+        console.error('[Vault] Passphrase change failed:', e);
+        return { ok: false, error: 'Failed to change the passphrase' };
+      }
+    },
+    [workspaceId, isOwner, config]
+  );
+
+  const setAutoLockMinutes = useCallback(async (minutes: number) => {
+    setAutoLockMinutesState(minutes);
+    await setVaultAutoLockMinutes(minutes);
+  }, []);
+
+  const status: VaultStatus = !isLoaded ? 'loading' : !config ? 'off' : key ? 'unlocked' : 'locked';
+
+  return (
+    <VaultContext.Provider
+      value={{ status, key, autoLockMinutes, setupVault, unlock, lock, changePassphrase, setAutoLockMinutes }}
+    >
+      {children}
+    </VaultContext.Provider>
+  );
+};
+
+export const useVault = () => {
+  const context = useContext(VaultContext);
+  if (!context) {
+    throw new Error('useVault must be used within a VaultProvider');
+  }
+  return context;
+};
@@ -0,0 +1,128 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { canEditWorkspace, canViewCredentials, Workspace } from '@/types/workspace';
+import {
+  acceptInvite as acceptInviteRequest,
+  getActiveWorkspaceId,
+  loadWorkspaces,
+  removeCollaborator,
+  setActiveWorkspaceId,
+} from '@/services/workspaceService';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  // The open workspace; null while loading or signed out
+  workspace: Workspace | null;
+  // Owner's user id: the `user_id` every row in the open workspace is stored under
+  workspaceId: string | null;
+  isLoading: boolean;
+  isOwner: boolean;
+  canEdit: boolean;
+  canViewCredentials: boolean;
+  switchWorkspace: (workspaceId: string) => Promise<void>;
+  refreshWorkspaces: () => Promise<void>;
+  acceptInvite: (token: string) => Promise<{ ok: boolean; error?: string }>;
+  leaveWorkspace: (workspaceId: string) => Promise<{ ok: boolean; error?: string }>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+export const WorkspaceProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshWorkspaces = useCallback(async () => {
+    if (!user) return;
+    const [loaded, storedActiveId] = await Promise.all([loadWorkspaces(user.id), getActiveWorkspaceId(user.id)]);
+    setWorkspaces(loaded);
+    // Removed from a workspace (or it's gone): fall back to the user's own
+    setActiveId(loaded.some((w) => w.id === storedActiveId) ? storedActiveId : user.id);
+  }, [user]);
+
+  useEffect(() => {
+    setWorkspaces([]);
+    setActiveId(null);
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    refreshWorkspaces()
+      .catch((e) => {
+        console.error('[Workspace] Failed to load:', e);
+        setWorkspaces([{ id: user.id, name: 'My workspace', role: 'owner' }]);
+        setActiveId(user.id);
+      })
+      .finally(() => setIsLoading(false));
+  }, [user, refreshWorkspaces]);
+
+  const switchWorkspace = useCallback(
+    async (workspaceId: string) => {
+      if (!user || !workspaces.some((w) => w.id === workspaceId)) return;
+      await setActiveWorkspaceId(user.id, workspaceId);
+      setActiveId(workspaceId);
+    },
+    [user, workspaces]
+  );
+
+  const acceptInvite = useCallback(
+    async (token: string) => {
+      if (!user) return { ok: false, error: 'Not authenticated' };
+      const result = await acceptInviteRequest(token);
+      if (!result.ok || !result.workspaceId) return { ok: false, error: result.error };
+      await setActiveWorkspaceId(user.id, result.workspaceId);
+      await refreshWorkspaces();
+      return { ok: true };
+    },
+    [user, refreshWorkspaces]
+  );
+
+  const leaveWorkspace = useCallback(
+    async (workspaceId: string) => {
+      if (!user || workspaceId === user.id) return { ok: false, error: "You can't leave your own workspace" };
+      try {
+        await removeCollaborator(workspaceId, user.id);
+        if (activeId === workspaceId) await setActiveWorkspaceId(user.id, user.id);
+        await refreshWorkspaces();
+        return { ok: true };
+      } catch (e) {
+        console.error('[Workspace] Failed to leave:', e);
+        return { ok: false, error: 'Failed to leave the workspace' };
+      }
+    },
+    [user, activeId, refreshWorkspaces]
+  );
+
+  const workspace = workspaces.find((w) => w.id === activeId) || null;
+  const role = workspace?.role ?? 'viewer';
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        workspace,
+        workspaceId: workspace?.id ?? null,
+        isLoading,
+        isOwner: role === 'owner',
+        canEdit: canEditWorkspace(role),
+        canViewCredentials: canViewCredentials(role),
+        switchWorkspace,
+        refreshWorkspaces,
+        acceptInvite,
+        leaveWorkspace,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+};
+
+export const useWorkspace = () => {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+};
@@ -276,7 +276,6 @@ export function useGoogleDrive() {
       }
 
       const data = await response.json();
-      toast.success('Data restored from Google Drive!');
       setState(prev => ({ ...prev, isLoading: false }));
       return data;
     } catch (error) {
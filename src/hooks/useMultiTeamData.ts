@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { AppData, Team, Member, MAX_MEMBERS, SubscriptionType } from '@/types/member';
+import { AppData, Team, Member, DEFAULT_SEAT_LIMIT, SubscriptionType } from '@/types/member';
 
 const STORAGE_KEY = 'elite_notepade_multi_data';
 
@@ -155,7 +155,7 @@ export function useMultiTeamData() {
 
   const addMember = useCallback((member: Omit<Member, 'id'>) => {
     const team = data.teams.find((t) => t.id === data.activeTeamId);
-    if (!team || team.members.length + 1 >= MAX_MEMBERS) {
+    if (!team || team.members.length + 1 >= DEFAULT_SEAT_LIMIT) {
       return false;
     }
     const newMember: Member = {
@@ -273,8 +273,8 @@ export function useMultiTeamData() {
     }));
   }, []);
 
-  const canAddMember = activeTeam ? activeTeam.members.length + 1 < MAX_MEMBERS : false;
-  const isTeamFull = activeTeam ? activeTeam.members.length + 1 >= MAX_MEMBERS : false;
+  const canAddMember = activeTeam ? activeTeam.members.length + 1 < DEFAULT_SEAT_LIMIT : false;
+  const isTeamFull = activeTeam ? activeTeam.members.length + 1 >= DEFAULT_SEAT_LIMIT : false;
 
   const exportData = useCallback(() => {
     const json = JSON.stringify(data, null, 2);
@@ -1,24 +1,53 @@
 import { useState, useEffect, useCallback } from 'react';
-import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/contexts/AuthContext';
 import { Notepad } from '@/types/member';
-
-interface DbNotepad {
-  id: string;
-  user_id: string;
-  title: string;
-  content: string;
-  created_at: string;
-  updated_at: string;
-}
-
-const mapDbNotepadToNotepad = (db: DbNotepad): Notepad => ({
-  id: db.id,
-  title: db.title,
-  content: db.content || '',
-  createdAt: db.created_at,
-  updatedAt: db.updated_at,
-});
+import {
+  getLocalNotepads,
+  getLocalNotepad,
+  putLocalNotepad,
+  deleteLocalNotepad,
+  deleteLocalNotepads,
+  getSyncQueue,
+  clearSyncQueue,
+  addToSyncQueue,
+  localNotepadToAppNotepad,
+} from '@/services/offlineDb';
+import { fullSync, isOnline, processSyncQueue, notifySyncChange } from '@/services/syncService';
+import { recordUndo, UndoEntry } from '@/services/undoService';
+
+// ─── Helper: queue + optional remote push ───────────────────────
+
+/**
+ * Keep at most one pending entry per note so conflict checks on sync
+ * compare a single, complete version against the server.
+ */
+const queueNotepadChange = async (
+  userId: string,
+  operation: 'insert' | 'update' | 'delete',
+  notepadId: string,
+  payload: Record<string, unknown>
+) => {
+  const queue = await getSyncQueue(userId);
+  const pending = queue.filter((e) => e.table === 'notepads' && e.record_id === notepadId);
+  if (pending.length > 0) await clearSyncQueue(pending.map((e) => e.id!));
+
+  const neverSynced = pending.some((e) => e.operation === 'insert');
+  if (!(operation === 'delete' && neverSynced)) {
+    await addToSyncQueue({
+      table: 'notepads',
+      operation: neverSynced && operation === 'update' ? 'insert' : operation,
+      record_id: notepadId,
+      payload,
+      created_at: new Date().toISOString(),
+      user_id: userId,
+    });
+  }
+  notifySyncChange();
+
+  if (isOnline()) {
+    processSyncQueue(userId).catch((e) => console.error('[Sync] background error:', e));
+  }
+};
 
 export function useNotepads() {
   const { user } = useAuth();
@@ -26,6 +55,12 @@ export function useNotepads() {
   const [activeNotepadId, setActiveNotepadId] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
 
+  const loadFromLocal = useCallback(async () => {
+    if (!user) return;
+    const localNotepads = await getLocalNotepads(user.id);
+    setNotepads(localNotepads.map(localNotepadToAppNotepad));
+  }, [user]);
+
   const fetchNotepads = useCallback(async () => {
     if (!user) {
       setNotepads([]);
@@ -33,92 +68,125 @@ export function useNotepads() {
       return;
     }
 
-    const { data, error } = await supabase
-      .from('notepads')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('updated_at', { ascending: false });
+    // Load from IndexedDB instantly (offline-first)
+    try {
+      await loadFromLocal();
+      setIsLoaded(true);
+    } catch (e) {
+      console.error('[Offline] Failed to load local notepads:', e);
+    }
 
-    if (error) {
-      console.error('Error fetching notepads:', error);
-      setNotepads([]);
-    } else {
-      setNotepads((data || []).map(mapDbNotepadToNotepad));
+    // Push pending edits and pull the latest in background (if online)
+    if (isOnline()) {
+      try {
+        const result = await fullSync(user.id);
+        if (result) await loadFromLocal();
+      } catch (e) {
+        console.error('[Sync] Notepad sync failed:', e);
+      }
     }
     setIsLoaded(true);
-  }, [user]);
+  }, [user, loadFromLocal]);
 
   useEffect(() => {
     fetchNotepads();
   }, [fetchNotepads]);
 
+  // Pick up remote changes (and any conflict copies) when connectivity returns
+  useEffect(() => {
+    const goOnline = () => {
+      fetchNotepads();
+    };
+    window.addEventListener('online', goOnline);
+    return () => window.removeEventListener('online', goOnline);
+  }, [fetchNotepads]);
+
   const createNotepad = useCallback(async () => {
     if (!user) return null;
 
-    const { data, error } = await supabase
-      .from('notepads')
-      .insert({
-        user_id: user.id,
-        title: 'Untitled Note',
-        content: '',
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating notepad:', error);
-      return null;
-    }
-
-    const newNotepad = mapDbNotepadToNotepad(data);
+    const now = new Date().toISOString();
+    const localNotepad = {
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      title: 'Untitled Note',
+      content: '',
+      created_at: now,
+      updated_at: now,
+      synced_updated_at: null,
+    };
+
+    await putLocalNotepad(localNotepad);
+    const newNotepad = localNotepadToAppNotepad(localNotepad);
     setNotepads((prev) => [newNotepad, ...prev]);
     setActiveNotepadId(newNotepad.id);
+
+    const { synced_updated_at: _synced, ...payload } = localNotepad;
+    await queueNotepadChange(user.id, 'insert', localNotepad.id, payload);
     return newNotepad;
   }, [user]);
 
   const updateNotepad = useCallback(async (id: string, updates: Partial<Pick<Notepad, 'title' | 'content'>>) => {
-    const { error } = await supabase
-      .from('notepads')
-      .update({
-        ...updates,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', id);
-
-    if (error) {
-      console.error('Error updating notepad:', error);
-      return;
-    }
+    if (!user) return;
+
+    const existing = await getLocalNotepad(id);
+    if (!existing) return;
+
+    const updated = { ...existing, ...updates, updated_at: new Date().toISOString() };
+    await putLocalNotepad(updated);
 
     setNotepads((prev) =>
       prev.map((n) =>
         n.id === id
-          ? { ...n, ...updates, updatedAt: new Date().toISOString() }
+          ? { ...n, ...updates, updatedAt: updated.updated_at }
           : n
       )
     );
-  }, []);
 
-  const deleteNotepad = useCallback(async (id: string) => {
-    const { error } = await supabase
-      .from('notepads')
-      .delete()
-      .eq('id', id);
+    const { synced_updated_at: _synced, ...payload } = updated;
+    await queueNotepadChange(user.id, 'update', id, payload);
+  }, [user]);
 
-    if (error) {
-      console.error('Error deleting notepad:', error);
-      return;
-    }
+  const deleteNotepad = useCallback(async (id: string) => {
+    if (!user) return;
 
+    await deleteLocalNotepad(id);
     setNotepads((prev) => prev.filter((n) => n.id !== id));
     if (activeNotepadId === id) {
       setActiveNotepadId(null);
     }
-  }, [activeNotepadId]);
+
+    await queueNotepadChange(user.id, 'delete', id, {});
+  }, [user, activeNotepadId]);
+
+  // Bulk delete, undoable. Undo brings the notes back as they were; a delete
+  // still waiting in the sync queue is replaced rather than pushed first.
+  const deleteNotepads = useCallback(async (ids: string[]): Promise<UndoEntry | undefined> => {
+    if (!user || ids.length === 0) return;
+    const userId = user.id;
+
+    const removed = (await getLocalNotepads(userId)).filter((n) => ids.includes(n.id));
+    await deleteLocalNotepads(ids);
+    setNotepads((prev) => prev.filter((n) => !ids.includes(n.id)));
+    if (activeNotepadId && ids.includes(activeNotepadId)) {
+      setActiveNotepadId(null);
+    }
+    for (const id of ids) {
+      await queueNotepadChange(userId, 'delete', id, {});
+    }
+
+    return recordUndo(userId, `Deleted ${removed.length} note${removed.length !== 1 ? 's' : ''}`, async () => {
+      for (const notepad of removed) {
+        await putLocalNotepad(notepad);
+        const { synced_updated_at: _synced, ...payload } = notepad;
+        await queueNotepadChange(userId, notepad.synced_updated_at ? 'update' : 'insert', notepad.id, payload);
+      }
+      await loadFromLocal();
+    });
+  }, [user, activeNotepadId, loadFromLocal]);
 
   const activeNotepad = notepads.find((n) => n.id === activeNotepadId) || null;
 
-  // Already sorted by updated_at from query, but re-sort for local updates
+  // Re-sort for local updates
   const sortedNotepads = [...notepads].sort(
     (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
   );
@@ -132,5 +200,7 @@ export function useNotepads() {
     createNotepad,
     updateNotepad,
     deleteNotepad,
+    deleteNotepads,
+    refetch: fetchNotepads,
   };
 }
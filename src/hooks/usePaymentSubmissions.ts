@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { isOnline } from '@/services/syncService';
+import { loadPendingSubmissions } from '@/services/paymentSubmissionService';
+import { PaymentSubmission } from '@/types/member';
+
+// Customer-reported payments of the open workspace that still need review
+export function usePaymentSubmissions() {
+  const { workspaceId } = useWorkspace();
+  const [submissions, setSubmissions] = useState<PaymentSubmission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!workspaceId || !isOnline()) {
+      setSubmissions([]);
+      setIsLoading(false);
+      return;
+    }
+    try {
+      setSubmissions(await loadPendingSubmissions(workspaceId));
+    } catch (e) {
+      console.error('[Payments] Failed to load payment submissions:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    refresh();
+  }, [refresh]);
+
+  // Drop a reviewed submission without waiting for a reload
+  const removeSubmission = useCallback((id: string) => {
+    setSubmissions((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  return { submissions, isLoading, refresh, removeSubmission };
+}
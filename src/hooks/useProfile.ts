@@ -5,6 +5,8 @@ import { useAuth } from '@/contexts/AuthContext';
 interface Profile {
   id: string;
   full_name: string | null;
+  // Printed on receipts
+  business_name: string | null;
   avatar_url: string | null;
   created_at: string;
   updated_at: string;
@@ -68,7 +70,7 @@ export function useProfile() {
     fetchProfile();
   }, [fetchProfile]);
 
-  const updateProfile = useCallback(async (updates: { full_name?: string; avatar_url?: string }) => {
+  const updateProfile = useCallback(async (updates: { full_name?: string; business_name?: string | null; avatar_url?: string }) => {
     if (!user) return { error: 'Not authenticated' };
 
     const { error } = await supabase
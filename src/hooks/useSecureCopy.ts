@@ -0,0 +1,21 @@
+import { useCallback } from 'react';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { CopyFieldType, isSecretFieldType } from '@/lib/clipboard';
+import { secureCopy } from '@/services/clipboardService';
+
+/**
+ * Copy handler for every copy button. Secrets (passwords, passes, 2FA) ask
+ * to unlock again when the app lock is on and the last unlock wasn't recent;
+ * each field type clears from the clipboard after its configured delay.
+ */
+export function useSecureCopy() {
+  const { confirmRecentUnlock } = useAppLock();
+
+  return useCallback(
+    async (text: string, label: string, type: CopyFieldType): Promise<boolean> => {
+      if (isSecretFieldType(type) && !(await confirmRecentUnlock())) return false;
+      return secureCopy(text, label, type);
+    },
+    [confirmRecentUnlock]
+  );
+}
@@ -2,7 +2,21 @@ import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
 import { supabase as cloudSupabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { Team, Member, MAX_MEMBERS, SubscriptionType } from '@/types/member';
+import { useVault } from '@/contexts/VaultContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { toast } from 'sonner';
+import {
+  Team,
+  Member,
+  MemberPayment,
+  LedgerEntry,
+  MemberEvent,
+  MemberEventType,
+  PaymentMethod,
+  PaymentSubmission,
+  SubscriptionType,
+  PAYMENT_METHODS,
+} from '@/types/member';
 import {
   getLocalTeams,
   getLocalMembers,
@@ -11,13 +25,66 @@ import {
   deleteLocalTeam,
   deleteLocalMember,
   deleteLocalMembersByTeam,
+  getLocalMemberPayments,
+  putLocalMemberPayment,
+  deleteLocalMemberPayment,
+  deleteLocalMemberPayments,
+  getLocalLedger,
+  getLocalLedgerEntry,
+  putLocalLedgerEntry,
+  deleteLocalLedgerEntry,
+  deleteLocalLedgerEntries,
+  getLocalMemberEvents,
+  putLocalMemberEvent,
+  getLocalTeam,
+  getLocalMember,
+  getLocalProducts,
+  getSyncConflicts,
+  deleteSyncConflict,
   addToSyncQueue,
   localTeamToAppTeam,
   localMemberToAppMember,
+  localPaymentToAppPayment,
+  localLedgerEntryToAppEntry,
+  localMemberEventToAppEvent,
   teamToLocal,
   memberToLocal,
+  SyncTable,
+  SyncConflict,
+  LocalLedgerEntry,
+  LocalMember,
+  LocalTeam,
+  LocalMemberEvent,
 } from '@/services/offlineDb';
-import { fullSync, isOnline, processSyncQueue } from '@/services/syncService';
+import {
+  fullSync,
+  isOnline,
+  processSyncQueue,
+  onSyncChange,
+  notifySyncChange,
+  revertQueuedUpdate,
+} from '@/services/syncService';
+import { clearUndoHistory, recordUndo, UndoEntry } from '@/services/undoService';
+import { claimSubmission } from '@/services/paymentSubmissionService';
+import {
+  parseBackup,
+  buildImportPreview,
+  applyBackupImport,
+  ImportMode,
+  ImportPreview,
+} from '@/services/backupService';
+import {
+  BillingCycle,
+  DEFAULT_BILLING_CYCLE_DAYS,
+  formatLocalDate,
+  getCycleEndDate,
+  getNextCycleStart,
+  getTeamBillingCycle,
+} from '@/lib/billingCycle';
+import { getTeamSeatLimit, getTeamSeatsUsed, hasSeatLimit } from '@/lib/seats';
+import { getTrashRetentionDays, isPastRetention } from '@/lib/trash';
+import { UNDO_TOAST_DURATION_MS } from '@/lib/undo';
+import { encryptValue, isCredentialField, revealValue } from '@/lib/vault';
 
 // ─── DB ↔ App mapping (for direct Supabase responses) ────────────
 
@@ -31,6 +98,9 @@ interface DbTeam {
   last_backup: string | null;
   is_yearly: boolean | null;
   is_plus: boolean | null;
+  billing_cycle_days?: number | null;
+  billing_calendar_month?: boolean | null;
+  seat_limit?: number | null;
 }
 
 interface DbMember {
@@ -56,6 +126,7 @@ interface DbMember {
   is_pushed?: boolean | null;
   active_team_id?: string | null;
   is_usdt?: boolean | null;
+  paid_usdt_rate?: number | null;
 }
 
 const mapDbTeamToTeam = (dbTeam: DbTeam, members: Member[]): Team => ({
@@ -68,6 +139,9 @@ const mapDbTeamToTeam = (dbTeam: DbTeam, members: Member[]): Team => ({
   logo: dbTeam.logo as SubscriptionType | undefined,
   isYearlyTeam: dbTeam.is_yearly || false,
   isPlusTeam: dbTeam.is_plus || false,
+  billingCycleDays: dbTeam.billing_cycle_days ?? undefined,
+  billingCalendarMonth: dbTeam.billing_calendar_month ?? undefined,
+  seatLimit: dbTeam.seat_limit ?? undefined,
 });
 
 const mapDbMemberToMember = (dbMember: DbMember): Member => ({
@@ -87,42 +161,163 @@ const mapDbMemberToMember = (dbMember: DbMember): Member => ({
   isPushed: dbMember.is_pushed || false,
   activeTeamId: dbMember.active_team_id || undefined,
   isUsdt: dbMember.is_usdt || false,
+  paidUsdtRate: dbMember.paid_usdt_rate ?? undefined,
 });
 
 // ─── Helper: build teams from local DB ──────────────────────────
 
-const buildTeamsFromLocal = async (userId: string): Promise<Team[]> => {
+// Stored credentials are sealed once the vault is set up; without the key they stay hidden
+const revealMemberCredentials = async (member: Member, vaultKey: CryptoKey | null): Promise<Member> => ({
+  ...member,
+  twoFA: await revealValue(vaultKey, member.twoFA),
+  password: await revealValue(vaultKey, member.password),
+  ePass: await revealValue(vaultKey, member.ePass),
+  gPass: await revealValue(vaultKey, member.gPass),
+});
+
+// Trashed teams and members stay in IndexedDB with deleted_at set; they're left out here
+const buildTeamsFromLocal = async (userId: string, vaultKey: CryptoKey | null = null): Promise<Team[]> => {
   const localTeams = await getLocalTeams(userId);
   const localMembers = await getLocalMembers(userId);
 
   const membersByTeam: Record<string, Member[]> = {};
-  localMembers.forEach((lm) => {
+  for (const lm of localMembers) {
+    if (lm.deleted_at) continue;
     if (!membersByTeam[lm.team_id]) membersByTeam[lm.team_id] = [];
-    membersByTeam[lm.team_id].push(localMemberToAppMember(lm));
-  });
+    membersByTeam[lm.team_id].push(await revealMemberCredentials(localMemberToAppMember(lm), vaultKey));
+  }
 
   return localTeams
+    .filter((lt) => !lt.deleted_at)
     .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
     .map((lt) => localTeamToAppTeam(lt, membersByTeam[lt.id] || []));
 };
 
+export interface TrashContents {
+  // Trashed teams, with the members that were live when the team was deleted
+  teams: Team[];
+  // Members trashed on their own; `team` is unset once their team is purged
+  members: { member: Member; team?: Team }[];
+}
+
+const byDeletedAtDesc = (a?: string, b?: string) => (b || '').localeCompare(a || '');
+
+const buildTrashFromLocal = async (userId: string): Promise<TrashContents> => {
+  const localTeams = await getLocalTeams(userId);
+  const localMembers = await getLocalMembers(userId);
+  const teamsById = new Map(
+    localTeams.map((lt) => [
+      lt.id,
+      localTeamToAppTeam(
+        lt,
+        localMembers.filter((lm) => lm.team_id === lt.id && !lm.deleted_at).map(localMemberToAppMember)
+      ),
+    ])
+  );
+
+  return {
+    teams: [...teamsById.values()]
+      .filter((t) => t.deletedAt)
+      .sort((a, b) => byDeletedAtDesc(a.deletedAt, b.deletedAt)),
+    members: localMembers
+      .filter((lm) => lm.deleted_at)
+      .map((lm) => ({ member: localMemberToAppMember(lm), team: teamsById.get(lm.team_id) }))
+      .sort((a, b) => byDeletedAtDesc(a.member.deletedAt, b.member.deletedAt)),
+  };
+};
+
+const buildPaymentsFromLocal = async (userId: string): Promise<MemberPayment[]> => {
+  const localPayments = await getLocalMemberPayments(userId);
+  return localPayments.map(localPaymentToAppPayment);
+};
+
+// Newest payment first
+const byPaidAtDesc = (a: LedgerEntry, b: LedgerEntry) =>
+  b.paidAt.localeCompare(a.paidAt) || b.createdAt.localeCompare(a.createdAt);
+
+const buildLedgerFromLocal = async (userId: string): Promise<LedgerEntry[]> => {
+  const localLedger = await getLocalLedger(userId);
+  return localLedger.map(localLedgerEntryToAppEntry).sort(byPaidAtDesc);
+};
+
+export type LedgerEntryInput = Omit<LedgerEntry, 'id' | 'createdAt'>;
+
+const ledgerInputToLocal = (
+  userId: string,
+  id: string,
+  input: LedgerEntryInput,
+  createdAt: string
+): LocalLedgerEntry => ({
+  id,
+  user_id: userId,
+  member_id: input.memberId,
+  team_id: input.teamId,
+  paid_at: input.paidAt,
+  amount: input.amount,
+  currency: input.currency,
+  usdt_rate: input.usdtRate ?? null,
+  method: input.method || null,
+  cycle_start: input.cycleStart || null,
+  cycle_end: input.cycleEnd || null,
+  note: input.note || null,
+  created_at: createdAt,
+});
+
+// Newest event first
+const buildMemberEventsFromLocal = async (userId: string): Promise<MemberEvent[]> => {
+  const localEvents = await getLocalMemberEvents(userId);
+  return localEvents.map(localMemberEventToAppEvent).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+type MemberEventChange = { type: MemberEventType } & Partial<Pick<LocalMemberEvent, 'field' | 'from_value' | 'to_value'>>;
+
+const toEventValue = (value: unknown): string | null => {
+  if (value == null || value === '') return null;
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+const describeMemberFieldChange = (dbField: string, from: unknown, to: unknown): MemberEventChange => {
+  // Credential values never go into the member log
+  if (isCredentialField(dbField)) return { type: 'credentials', field: dbField };
+  const type: MemberEventType =
+    dbField === 'active_team_id' ? 'moved' : dbField === 'is_pushed' ? 'pushed' : dbField === 'is_usdt' ? 'usdt' : 'updated';
+  return { type, field: dbField, from_value: toEventValue(from), to_value: toEventValue(to) };
+};
+
+// Last day of a yearly ledger month (1-based month)
+const monthEndDate = (year: number, month: number): string => formatLocalDate(new Date(year, month, 0));
+
+// ─── Helper: view-only guard ────────────────────────────────────
+
+const VIEW_ONLY_MESSAGE = 'You have view-only access to this workspace';
+
+// Viewers' edits would only be rejected on sync, so stop them up front
+const blockViewOnlyEdit = (canEdit: boolean): boolean => {
+  if (canEdit) return false;
+  toast.error(VIEW_ONLY_MESSAGE, { id: 'view-only' });
+  return true;
+};
+
 // ─── Helper: queue + optional remote push ───────────────────────
 
 const queueAndSync = async (
   userId: string,
-  table: 'teams' | 'members',
+  table: SyncTable,
   operation: 'insert' | 'update' | 'delete',
   recordId: string,
-  payload: Record<string, unknown>
+  payload: Record<string, unknown>,
+  base?: Record<string, unknown>
 ) => {
   await addToSyncQueue({
     table,
     operation,
     record_id: recordId,
     payload,
+    base,
     created_at: new Date().toISOString(),
     user_id: userId,
   });
+  notifySyncChange();
 
   // Try to sync immediately if online
   if (isOnline()) {
@@ -130,13 +325,100 @@ const queueAndSync = async (
   }
 };
 
-// ─── Plan name helper ───────────────────────────────────────
+// ─── Helper: permanent delete (purge from the trash) ────────
+
+// Payments and ledger entries go with their members; the member event log stays
+const purgeMemberRowsLocally = async (userId: string, memberIds: Set<string>) => {
+  const payments = await getLocalMemberPayments(userId);
+  await deleteLocalMemberPayments(payments.filter((p) => memberIds.has(p.member_id)).map((p) => p.id));
+  const ledger = await getLocalLedger(userId);
+  await deleteLocalLedgerEntries(ledger.filter((e) => memberIds.has(e.member_id)).map((e) => e.id));
+};
+
+const purgeTeamLocally = async (userId: string, teamId: string) => {
+  const members = (await getLocalMembers(userId)).filter((m) => m.team_id === teamId);
+  await purgeMemberRowsLocally(userId, new Set(members.map((m) => m.id)));
+  await deleteLocalMembersByTeam(teamId);
+  await deleteLocalTeam(teamId);
+  await queueAndSync(userId, 'teams', 'delete', teamId, {});
+};
+
+const purgeMemberLocally = async (userId: string, memberId: string) => {
+  await purgeMemberRowsLocally(userId, new Set([memberId]));
+  await deleteLocalMember(memberId);
+  await queueAndSync(userId, 'members', 'delete', memberId, {});
+};
+
+// ─── Product catalog helpers ────────────────────────────────
+
+const findLocalProduct = async (userId: string, key?: SubscriptionType | null) => {
+  if (!key) return undefined;
+  const products = await getLocalProducts(userId);
+  return products.find((p) => p.key === key);
+};
+
+const getPlanName = async (userId: string, logo?: SubscriptionType | null): Promise<string> =>
+  (await findLocalProduct(userId, logo))?.plan_name || 'Business Subscription';
+
+// ─── Member emails ──────────────────────────────────────────
+
+// Fire-and-forget, keyed by ledger entry so re-saving a payment never emails twice
+const sendPaymentReceivedEmail = async (
+  userId: string,
+  member: { id: string; email: string },
+  team: Team | undefined,
+  entry: LedgerEntry
+) => {
+  try {
+    const planName = await getPlanName(userId, team?.logo);
+    cloudSupabase.functions.invoke('send-transactional-email', {
+      body: {
+        templateName: 'payment-received',
+        recipientEmail: member.email,
+        idempotencyKey: `payment-received-${entry.id}`,
+        templateData: {
+          memberId: member.id,
+          email: member.email,
+          planName,
+          teamName: team?.teamName,
+          isUsdt: entry.currency === 'USDT',
+          amount: entry.amount,
+          usdtRate: entry.usdtRate,
+          paidAt: entry.paidAt,
+          cycleStart: entry.cycleStart,
+          cycleEnd: entry.cycleEnd,
+          method: PAYMENT_METHODS.find((m) => m.value === entry.method)?.label,
+        },
+      },
+    }).catch((e) => console.error('[Email] Payment email failed:', e));
+  } catch (e) {
+    console.error('[Email] Payment email error:', e);
+  }
+};
 
-const getPlanName = (logo?: SubscriptionType | null): string => {
-  if (!logo) return 'Business Subscription';
-  if (logo === 'gemini' || logo === 'canva') return 'Pro Subscription';
-  if (logo === 'youtube') return 'Premium Subscription';
-  return 'Business Subscription';
+// Keyed by the removal, so the send after the undo window and one on purge never both go out
+const sendMemberRemovedEmail = async (userId: string, member: LocalMember, team: Team | undefined) => {
+  if (!member.deleted_at) return;
+  try {
+    const planName = await getPlanName(userId, team?.logo);
+    cloudSupabase.functions.invoke('send-transactional-email', {
+      body: {
+        templateName: 'member-removed',
+        recipientEmail: member.email,
+        idempotencyKey: `member-removed-${member.id}-${member.deleted_at}`,
+        templateData: {
+          memberId: member.id,
+          email: member.email,
+          planName,
+          teamName: team?.teamName,
+          isUsdt: member.is_usdt || false,
+          removedAt: formatLocalDate(new Date(member.deleted_at)),
+        },
+      },
+    }).catch((e) => console.error('[Email] Removal email failed:', e));
+  } catch (e) {
+    console.error('[Email] Removal email error:', e);
+  }
 };
 
 // ═══════════════════════════════════════════════════════════════
@@ -145,20 +427,33 @@ const getPlanName = (logo?: SubscriptionType | null): string => {
 
 export function useSupabaseData() {
   const { user } = useAuth();
+  // Rows live under the open workspace (its owner's user id), not necessarily the signed-in user
+  const { workspaceId, canEdit, canViewCredentials } = useWorkspace();
+  const { key: vaultKey, status: vaultStatus } = useVault();
   const [teams, setTeams] = useState<Team[]>([]);
+  const [memberPayments, setMemberPayments] = useState<MemberPayment[]>([]);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [memberEvents, setMemberEvents] = useState<MemberEvent[]>([]);
+  const [trash, setTrash] = useState<TrashContents>({ teams: [], members: [] });
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
   const [activeTeamId, setActiveTeamId] = useState<string | null>(null);
   const [isLoaded, setIsLoaded] = useState(false);
   const [isOnlineState, setIsOnlineState] = useState(navigator.onLine);
   const syncIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const trashPurgedForRef = useRef<string | null>(null);
+  const loadedWorkspaceRef = useRef<string | null>(workspaceId);
+  // Read through a ref so locking/unlocking doesn't recreate every callback
+  const vaultKeyRef = useRef<CryptoKey | null>(vaultKey);
+  vaultKeyRef.current = vaultKey;
 
   // ─── Online/Offline listener ───────────────────────────────
 
   useEffect(() => {
     const goOnline = () => {
       setIsOnlineState(true);
-      if (user) {
+      if (workspaceId) {
         console.log('[Sync] Back online — syncing…');
-        fullSync(user.id).then((result) => {
+        fullSync(workspaceId, { redactCredentials: !canViewCredentials }).then((result) => {
           if (result) rebuildFromLocal();
         });
       }
@@ -174,38 +469,49 @@ export function useSupabaseData() {
       window.removeEventListener('online', goOnline);
       window.removeEventListener('offline', goOffline);
     };
-  }, [user]);
+  }, [workspaceId, canViewCredentials]);
 
   // ─── Periodic sync (every 2 min when online) ──────────────
 
   useEffect(() => {
-    if (!user) return;
+    if (!workspaceId) return;
     syncIntervalRef.current = setInterval(() => {
-      if (isOnline() && user) {
-        processSyncQueue(user.id).catch(console.error);
+      if (isOnline() && workspaceId) {
+        processSyncQueue(workspaceId).catch(console.error);
       }
     }, 120_000);
     return () => {
       if (syncIntervalRef.current) clearInterval(syncIntervalRef.current);
     };
-  }, [user]);
+  }, [workspaceId]);
 
   // ─── Rebuild UI state from IndexedDB ──────────────────────
 
   const rebuildFromLocal = useCallback(async () => {
-    if (!user) return;
-    const localTeams = await buildTeamsFromLocal(user.id);
+    if (!workspaceId) return;
+    const localTeams = await buildTeamsFromLocal(workspaceId, vaultKeyRef.current);
     setTeams(localTeams);
+    setMemberPayments(await buildPaymentsFromLocal(workspaceId));
+    setLedger(await buildLedgerFromLocal(workspaceId));
+    setMemberEvents(await buildMemberEventsFromLocal(workspaceId));
+    setTrash(await buildTrashFromLocal(workspaceId));
+    setSyncConflicts(await getSyncConflicts(workspaceId));
     if (localTeams.length > 0 && !activeTeamId) {
       setActiveTeamId(localTeams[0].id);
     }
-  }, [user, activeTeamId]);
+  }, [workspaceId, activeTeamId]);
 
   // ─── Initial data load ────────────────────────────────────
 
   const fetchData = useCallback(async () => {
-    if (!user) {
+    if (!workspaceId) {
       setTeams([]);
+      setMemberPayments([]);
+      setLedger([]);
+      setMemberEvents([]);
+      setTrash({ teams: [], members: [] });
+      setSyncConflicts([]);
+      clearUndoHistory();
       setActiveTeamId(null);
       setIsLoaded(true);
       return;
@@ -213,7 +519,12 @@ export function useSupabaseData() {
 
     // Step 1: Load from IndexedDB instantly (offline-first)
     try {
-      const localTeams = await buildTeamsFromLocal(user.id);
+      const localTeams = await buildTeamsFromLocal(workspaceId, vaultKeyRef.current);
+      setMemberPayments(await buildPaymentsFromLocal(workspaceId));
+      setLedger(await buildLedgerFromLocal(workspaceId));
+      setMemberEvents(await buildMemberEventsFromLocal(workspaceId));
+      setTrash(await buildTrashFromLocal(workspaceId));
+      setSyncConflicts(await getSyncConflicts(workspaceId));
       if (localTeams.length > 0) {
         setTeams(localTeams);
         if (!activeTeamId) setActiveTeamId(localTeams[0].id);
@@ -226,10 +537,15 @@ export function useSupabaseData() {
     // Step 2: Pull from Supabase in background (if online)
     if (isOnline()) {
       try {
-        const result = await fullSync(user.id);
+        const result = await fullSync(workspaceId, { redactCredentials: !canViewCredentials });
         if (result) {
-          const freshTeams = await buildTeamsFromLocal(user.id);
+          const freshTeams = await buildTeamsFromLocal(workspaceId, vaultKeyRef.current);
           setTeams(freshTeams);
+          setMemberPayments(await buildPaymentsFromLocal(workspaceId));
+          setLedger(await buildLedgerFromLocal(workspaceId));
+          setMemberEvents(await buildMemberEventsFromLocal(workspaceId));
+          setTrash(await buildTrashFromLocal(workspaceId));
+          setSyncConflicts(await getSyncConflicts(workspaceId));
           if (freshTeams.length > 0 && !activeTeamId) {
             setActiveTeamId(freshTeams[0].id);
           }
@@ -240,12 +556,53 @@ export function useSupabaseData() {
     }
 
     setIsLoaded(true);
-  }, [user, activeTeamId]);
+  }, [workspaceId, canViewCredentials, activeTeamId]);
+
+  // Switching workspaces: drop the previous one's data before the next loads
+  useEffect(() => {
+    if (loadedWorkspaceRef.current === workspaceId) return;
+    loadedWorkspaceRef.current = workspaceId;
+    setTeams([]);
+    setMemberPayments([]);
+    setLedger([]);
+    setMemberEvents([]);
+    setTrash({ teams: [], members: [] });
+    setSyncConflicts([]);
+    setActiveTeamId(null);
+    setIsLoaded(false);
+  }, [workspaceId]);
 
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  // Background pushes, pulls and dead-letter actions can change local rows or surface conflicts
+  useEffect(() => {
+    if (!workspaceId) return;
+    return onSyncChange(() => {
+      rebuildFromLocal();
+    });
+  }, [workspaceId, rebuildFromLocal]);
+
+  // Show or hide credentials as the vault unlocks and locks; only the key changing should rebuild
+  const rebuildFromLocalRef = useRef(rebuildFromLocal);
+  rebuildFromLocalRef.current = rebuildFromLocal;
+  const isLoadedRef = useRef(isLoaded);
+  isLoadedRef.current = isLoaded;
+  useEffect(() => {
+    if (isLoadedRef.current) rebuildFromLocalRef.current();
+  }, [vaultKey]);
+
+  // Credentials are written sealed whenever the vault is set up
+  const sealCredential = useCallback(
+    async (value: string | null): Promise<string | null> => {
+      if (!value || vaultStatus === 'off') return value;
+      if (!vaultKeyRef.current) throw new Error('Unlock the vault to change credentials');
+      return encryptValue(vaultKeyRef.current, value);
+    },
+    [vaultStatus]
+  );
+
   // ─── Derived state ────────────────────────────────────────
 
   const activeTeam = useMemo(
@@ -268,6 +625,14 @@ export function useSupabaseData() {
     });
   }, [teams]);
 
+  // Payments of trashed teams and members are kept for restore but left out of every report
+  const liveMemberIds = useMemo(() => new Set(teams.flatMap((t) => t.members.map((m) => m.id))), [teams]);
+  const liveMemberPayments = useMemo(
+    () => memberPayments.filter((p) => liveMemberIds.has(p.memberId)),
+    [memberPayments, liveMemberIds]
+  );
+  const liveLedger = useMemo(() => ledger.filter((e) => liveMemberIds.has(e.memberId)), [ledger, liveMemberIds]);
+
   const setActiveTeam = useCallback((teamId: string) => {
     setActiveTeamId(teamId);
   }, []);
@@ -276,15 +641,41 @@ export function useSupabaseData() {
   // CRUD — Local-first: IndexedDB → UI → queue sync
   // ═══════════════════════════════════════════════════════════
 
+  // ─── Member lifecycle log (append-only, local-first) ───────
+
+  const logMemberEvent = useCallback(
+    async (member: Pick<LocalMember, 'id' | 'team_id' | 'email'>, change: MemberEventChange) => {
+      if (!workspaceId) return;
+      const localEvent: LocalMemberEvent = {
+        id: crypto.randomUUID(),
+        user_id: workspaceId,
+        member_id: member.id,
+        team_id: member.team_id,
+        member_email: member.email,
+        type: change.type,
+        field: change.field ?? null,
+        from_value: change.from_value ?? null,
+        to_value: change.to_value ?? null,
+        created_at: new Date().toISOString(),
+      };
+      await putLocalMemberEvent(localEvent);
+      setMemberEvents((prev) => [localMemberEventToAppEvent(localEvent), ...prev]);
+      await queueAndSync(workspaceId, 'member_events', 'insert', localEvent.id, localEvent);
+    },
+    [workspaceId]
+  );
+
   const createNewTeam = useCallback(
     async (teamName?: string, logo?: SubscriptionType, isYearly?: boolean, isPlus?: boolean) => {
-      if (!user) return null;
+      if (!user || !workspaceId || blockViewOnlyEdit(canEdit)) return null;
 
       const id = crypto.randomUUID();
       const now = new Date().toISOString();
+      // New teams start on the billing cycle and seat count of their product
+      const product = await findLocalProduct(workspaceId, logo);
       const teamPayload = {
         id,
-        user_id: user.id,
+        user_id: workspaceId,
         team_name: teamName || 'My Elite Team',
         admin_email: (isYearly || isPlus) ? '' : (user.email || 'admin@example.com'),
         logo: logo || null,
@@ -292,6 +683,9 @@ export function useSupabaseData() {
         last_backup: null,
         is_yearly: isYearly || false,
         is_plus: isPlus || false,
+        billing_cycle_days: product?.billing_cycle_days || DEFAULT_BILLING_CYCLE_DAYS,
+        billing_calendar_month: product?.billing_calendar_month || false,
+        seat_limit: product?.default_seats ?? null,
       };
 
       // Save locally
@@ -301,44 +695,52 @@ export function useSupabaseData() {
       setActiveTeamId(newTeam.id);
 
       // Queue sync
-      await queueAndSync(user.id, 'teams', 'insert', id, teamPayload);
+      await queueAndSync(workspaceId, 'teams', 'insert', id, teamPayload);
       return newTeam;
     },
-    [user]
+    [user, workspaceId, canEdit]
   );
 
+  // Moves the team and its members to the trash; purgeTeam deletes them for good
   const deleteTeam = useCallback(
     async (teamId: string) => {
-      if (!user) return;
-      await deleteLocalMembersByTeam(teamId);
-      await deleteLocalTeam(teamId);
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const existing = await getLocalTeam(teamId);
+      if (!existing) return;
+      const deletedAt = new Date().toISOString();
+      await putLocalTeam({ ...existing, deleted_at: deletedAt });
 
+      const team = teams.find((t) => t.id === teamId);
       setTeams((prev) => {
         const remaining = prev.filter((t) => t.id !== teamId);
         if (activeTeamId === teamId && remaining.length > 0) setActiveTeamId(remaining[0].id);
         return remaining;
       });
+      if (team) setTrash((prev) => ({ ...prev, teams: [{ ...team, deletedAt }, ...prev.teams] }));
 
-      await queueAndSync(user.id, 'teams', 'delete', teamId, {});
+      await queueAndSync(workspaceId, 'teams', 'update', teamId, { id: teamId, deleted_at: deletedAt }, {
+        deleted_at: existing.deleted_at ?? null,
+      });
+      for (const m of team?.members || []) {
+        await logMemberEvent({ id: m.id, team_id: teamId, email: m.email }, { type: 'removed' });
+      }
     },
-    [user, activeTeamId]
+    [workspaceId, canEdit, activeTeamId, teams, logMemberEvent]
   );
 
   // ─── Team field updaters (local-first) ─────────────────────
 
   const updateTeamField = useCallback(
-    async (field: string, dbField: string, value: unknown) => {
-      if (!user || !activeTeamId) return;
-      const localTeams = await getLocalTeams(user.id);
+    async (field: string, dbField: keyof LocalTeam, value: unknown) => {
+      if (!workspaceId || !activeTeamId || blockViewOnlyEdit(canEdit)) return;
+      const localTeams = await getLocalTeams(workspaceId);
       const existing = localTeams.find((t) => t.id === activeTeamId);
-      if (existing) {
-        (existing as any)[dbField] = value;
-        await putLocalTeam(existing);
-      }
+      const base = existing ? { [dbField]: existing[dbField] } : undefined;
+      if (existing) await putLocalTeam({ ...existing, [dbField]: value });
       setTeams((prev) => prev.map((t) => (t.id === activeTeamId ? { ...t, [field]: value } : t)));
-      await queueAndSync(user.id, 'teams', 'update', activeTeamId, { id: activeTeamId, [dbField]: value });
+      await queueAndSync(workspaceId, 'teams', 'update', activeTeamId, { id: activeTeamId, [dbField]: value }, base);
     },
-    [user, activeTeamId]
+    [workspaceId, canEdit, activeTeamId]
   );
 
   const updateTeamName = useCallback((name: string) => updateTeamField('teamName', 'team_name', name), [updateTeamField]);
@@ -347,17 +749,71 @@ export function useSupabaseData() {
 
   const updateTeamLogo = useCallback(
     async (teamId: string, logo: SubscriptionType) => {
-      if (!user) return;
-      const localTeams = await getLocalTeams(user.id);
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const localTeams = await getLocalTeams(workspaceId);
       const existing = localTeams.find((t) => t.id === teamId);
+      // Teams without their own seat count pick up the product's
+      const product = existing && existing.seat_limit == null ? await findLocalProduct(workspaceId, logo) : undefined;
+      const changes: { logo: string; seat_limit?: number } = { logo };
+      if (product?.default_seats) changes.seat_limit = product.default_seats;
+
+      const base = existing
+        ? { logo: existing.logo, ...(changes.seat_limit !== undefined && { seat_limit: existing.seat_limit ?? null }) }
+        : undefined;
+      if (existing) {
+        Object.assign(existing, changes);
+        await putLocalTeam(existing);
+      }
+      setTeams((prev) =>
+        prev.map((t) => (t.id === teamId ? { ...t, logo, seatLimit: changes.seat_limit ?? t.seatLimit } : t))
+      );
+      await queueAndSync(workspaceId, 'teams', 'update', teamId, { id: teamId, ...changes }, base);
+    },
+    [workspaceId, canEdit]
+  );
+
+  const updateTeamBillingCycle = useCallback(
+    async (teamId: string, cycle: BillingCycle) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const existing = await getLocalTeam(teamId);
+      const base = existing
+        ? { billing_cycle_days: existing.billing_cycle_days ?? null, billing_calendar_month: existing.billing_calendar_month ?? null }
+        : undefined;
+      if (existing) {
+        existing.billing_cycle_days = cycle.days;
+        existing.billing_calendar_month = cycle.calendarMonth;
+        await putLocalTeam(existing);
+      }
+      setTeams((prev) =>
+        prev.map((t) =>
+          t.id === teamId ? { ...t, billingCycleDays: cycle.days, billingCalendarMonth: cycle.calendarMonth } : t
+        )
+      );
+      await queueAndSync(
+        workspaceId,
+        'teams',
+        'update',
+        teamId,
+        { id: teamId, billing_cycle_days: cycle.days, billing_calendar_month: cycle.calendarMonth },
+        base
+      );
+    },
+    [workspaceId, canEdit]
+  );
+
+  const updateTeamSeatLimit = useCallback(
+    async (teamId: string, seatLimit: number) => {
+      if (!workspaceId || !(seatLimit > 0) || blockViewOnlyEdit(canEdit)) return;
+      const existing = await getLocalTeam(teamId);
+      const base = existing ? { seat_limit: existing.seat_limit ?? null } : undefined;
       if (existing) {
-        existing.logo = logo;
+        existing.seat_limit = seatLimit;
         await putLocalTeam(existing);
       }
-      setTeams((prev) => prev.map((t) => (t.id === teamId ? { ...t, logo } : t)));
-      await queueAndSync(user.id, 'teams', 'update', teamId, { id: teamId, logo });
+      setTeams((prev) => prev.map((t) => (t.id === teamId ? { ...t, seatLimit } : t)));
+      await queueAndSync(workspaceId, 'teams', 'update', teamId, { id: teamId, seat_limit: seatLimit }, base);
     },
-    [user]
+    [workspaceId, canEdit]
   );
 
   // ─── Add Member (local-first) ──────────────────────────────
@@ -369,13 +825,14 @@ export function useSupabaseData() {
       skipLimitCheck?: boolean
     ): Promise<{ ok: boolean; error?: string; code?: string }> => {
       const teamIdToUse = targetTeamId || activeTeamId;
-      if (!user || !teamIdToUse) return { ok: false, error: 'Not authenticated' };
+      if (!workspaceId || !teamIdToUse) return { ok: false, error: 'Not authenticated' };
+      if (!canEdit) return { ok: false, error: VIEW_ONLY_MESSAGE };
 
       const team = teams.find((t) => t.id === teamIdToUse);
       if (!team) return { ok: false, error: 'Team not found' };
 
-      if (!team.isYearlyTeam && !team.isPlusTeam && !skipLimitCheck && team.members.length + 1 >= MAX_MEMBERS) {
-        return { ok: false, error: `Maximum ${MAX_MEMBERS} members allowed` };
+      if (hasSeatLimit(team) && !skipLimitCheck && getTeamSeatsUsed(team) >= getTeamSeatLimit(team)) {
+        return { ok: false, error: `All ${getTeamSeatLimit(team)} seats are taken` };
       }
 
       const id = crypto.randomUUID();
@@ -383,14 +840,14 @@ export function useSupabaseData() {
       const localMember = {
         id,
         team_id: teamIdToUse,
-        user_id: user.id,
+        user_id: workspaceId,
         email: member.email,
         phone: member.phone || '',
         telegram: member.telegram || null,
-        twofa_secret: member.twoFA || null,
-        password: member.password || null,
-        e_pass: member.ePass || null,
-        g_pass: member.gPass || null,
+        twofa_secret: await sealCredential(member.twoFA || null),
+        password: await sealCredential(member.password || null),
+        e_pass: await sealCredential(member.ePass || null),
+        g_pass: await sealCredential(member.gPass || null),
         join_date: member.joinDate,
         is_paid: member.isPaid || false,
         paid_amount: member.paidAmount || null,
@@ -399,76 +856,250 @@ export function useSupabaseData() {
         is_pushed: member.isPushed || false,
         active_team_id: member.activeTeamId || null,
         is_usdt: member.isUsdt || false,
+        paid_usdt_rate: member.paidUsdtRate ?? null,
+        total_amount: member.totalAmount ?? null,
         created_at: now,
       };
 
       await putLocalMember(localMember);
-      const appMember = localMemberToAppMember(localMember);
+      const appMember = await revealMemberCredentials(localMemberToAppMember(localMember), vaultKeyRef.current);
       setTeams((prev) =>
         prev.map((t) =>
           t.id === teamIdToUse ? { ...t, members: [...t.members, appMember] } : t
         )
       );
 
-      await queueAndSync(user.id, 'members', 'insert', id, localMember);
+      await queueAndSync(workspaceId, 'members', 'insert', id, localMember);
+      await logMemberEvent(localMember, { type: 'added' });
 
-      // Send welcome email (fire-and-forget, don't block addMember)
+      // Send welcome email (fire-and-forget, don't block addMember). It waits for
+      // the new member to be pushed so the server can find their workspace's template.
       try {
-        const planName = getPlanName(team.logo);
-        cloudSupabase.functions.invoke('send-transactional-email', {
-          body: {
-            templateName: 'welcome-member',
-            recipientEmail: member.email,
-            idempotencyKey: `welcome-${id}`,
-            templateData: {
-              email: member.email,
-              joinDate: member.joinDate,
-              planName,
-              isUsdt: member.isUsdt || false,
-              teamName: team.teamName,
+        const planName = await getPlanName(workspaceId, team.logo);
+        const sendWelcome = () =>
+          cloudSupabase.functions.invoke('send-transactional-email', {
+            body: {
+              templateName: 'welcome-member',
+              recipientEmail: member.email,
+              idempotencyKey: `welcome-${id}`,
+              templateData: {
+                memberId: id,
+                email: member.email,
+                joinDate: member.joinDate,
+                expiryDate: formatLocalDate(getCycleEndDate(member.joinDate, getTeamBillingCycle(team))),
+                planName,
+                isUsdt: member.isUsdt || false,
+                teamName: team.teamName,
+              },
             },
-          },
-        }).catch((e) => console.error('[Email] Welcome email failed:', e));
+          }).catch((e) => console.error('[Email] Welcome email failed:', e));
+        processSyncQueue(workspaceId)
+          .catch((e) => console.error('[Sync] background error:', e))
+          .finally(sendWelcome);
       } catch (e) {
         console.error('[Email] Welcome email error:', e);
       }
 
       return { ok: true };
     },
-    [user, activeTeamId, teams]
+    [workspaceId, canEdit, activeTeamId, teams, logMemberEvent, sealCredential]
+  );
+
+  // ─── Undo ──────────────────────────────────────────────────
+
+  // Puts member fields back as they were before an undone change. If that
+  // change is still in the sync queue it's taken back there instead of
+  // pushing a second update.
+  const revertMemberChange = useCallback(
+    async (id: string, restore: Partial<LocalMember>) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const existing = await getLocalMember(id);
+      if (!existing) return;
+      const current = Object.fromEntries(Object.keys(restore).map((f) => [f, existing[f as keyof LocalMember] ?? null]));
+      await putLocalMember({ ...existing, ...restore });
+
+      if (!(await revertQueuedUpdate(workspaceId, 'members', id, restore))) {
+        await queueAndSync(workspaceId, 'members', 'update', id, { id, ...restore }, current);
+      }
+      await rebuildFromLocal();
+
+      for (const [field, value] of Object.entries(restore)) {
+        await logMemberEvent(
+          existing,
+          field === 'deleted_at' ? { type: 'restored' } : describeMemberFieldChange(field, current[field], value)
+        );
+      }
+    },
+    [workspaceId, canEdit, rebuildFromLocal, logMemberEvent]
   );
 
   // ─── Remove Member ─────────────────────────────────────────
 
+  // Moves the member to the trash; purgeMember deletes it for good
   const removeMember = useCallback(
-    async (id: string) => {
-      if (!user) return;
-      await deleteLocalMember(id);
+    async (id: string): Promise<UndoEntry | undefined> => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const userId = workspaceId;
+      const existing = await getLocalMember(id);
+      if (!existing) return;
+      const deletedAt = new Date().toISOString();
+      const team = teams.find((t) => t.id === existing.team_id);
+      await putLocalMember({ ...existing, deleted_at: deletedAt });
+
       setTeams((prev) =>
         prev.map((t) =>
-          t.id === activeTeamId
+          t.id === existing.team_id
             ? { ...t, members: t.members.filter((m) => m.id !== id) }
             : t
         )
       );
-      await queueAndSync(user.id, 'members', 'delete', id, {});
+      setTrash((prev) => ({
+        ...prev,
+        members: [
+          {
+            member: { ...localMemberToAppMember(existing), deletedAt },
+            team,
+          },
+          ...prev.members,
+        ],
+      }));
+
+      await queueAndSync(workspaceId, 'members', 'update', id, { id, deleted_at: deletedAt }, {
+        deleted_at: existing.deleted_at ?? null,
+      });
+      await logMemberEvent(existing, { type: 'removed' });
+
+      // Tell the member only once the undo window passes with them still in the trash
+      setTimeout(async () => {
+        const current = await getLocalMember(id).catch(() => undefined);
+        if (current?.deleted_at === deletedAt) await sendMemberRemovedEmail(userId, current, team);
+      }, UNDO_TOAST_DURATION_MS);
+
+      return recordUndo(userId, `Removed ${existing.email}`, async () => {
+        const team = (await buildTeamsFromLocal(userId)).find((t) => t.id === existing.team_id);
+        if (!team) throw new Error('Restore its team first');
+        if (hasSeatLimit(team) && getTeamSeatsUsed(team) >= getTeamSeatLimit(team)) {
+          throw new Error(`All ${getTeamSeatLimit(team)} seats are taken`);
+        }
+        await revertMemberChange(id, { deleted_at: existing.deleted_at ?? null });
+      });
+    },
+    [workspaceId, canEdit, teams, logMemberEvent, revertMemberChange]
+  );
+
+  // ─── Trash: restore / purge ────────────────────────────────
+
+  const restoreTeam = useCallback(
+    async (teamId: string) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const existing = await getLocalTeam(teamId);
+      if (!existing?.deleted_at) return;
+      await putLocalTeam({ ...existing, deleted_at: null });
+      await queueAndSync(workspaceId, 'teams', 'update', teamId, { id: teamId, deleted_at: null }, {
+        deleted_at: existing.deleted_at,
+      });
+      await rebuildFromLocal();
+
+      const members = (await getLocalMembers(workspaceId)).filter((m) => m.team_id === teamId && !m.deleted_at);
+      for (const m of members) {
+        await logMemberEvent(m, { type: 'restored' });
+      }
+    },
+    [workspaceId, canEdit, rebuildFromLocal, logMemberEvent]
+  );
+
+  const restoreMember = useCallback(
+    async (id: string): Promise<{ ok: boolean; error?: string }> => {
+      if (!workspaceId) return { ok: false, error: 'Not authenticated' };
+      if (!canEdit) return { ok: false, error: VIEW_ONLY_MESSAGE };
+      const existing = await getLocalMember(id);
+      if (!existing?.deleted_at) return { ok: false, error: 'Member is not in the trash' };
+
+      const team = teams.find((t) => t.id === existing.team_id);
+      if (!team) return { ok: false, error: 'Restore its team first' };
+      if (hasSeatLimit(team) && getTeamSeatsUsed(team) >= getTeamSeatLimit(team)) {
+        return { ok: false, error: `All ${getTeamSeatLimit(team)} seats are taken` };
+      }
+
+      await putLocalMember({ ...existing, deleted_at: null });
+      await queueAndSync(workspaceId, 'members', 'update', id, { id, deleted_at: null }, {
+        deleted_at: existing.deleted_at,
+      });
+      await rebuildFromLocal();
+      await logMemberEvent(existing, { type: 'restored' });
+      return { ok: true };
     },
-    [user, activeTeamId]
+    [workspaceId, canEdit, teams, rebuildFromLocal, logMemberEvent]
   );
 
+  const purgeTeam = useCallback(
+    async (teamId: string) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      await purgeTeamLocally(workspaceId, teamId);
+      await rebuildFromLocal();
+    },
+    [workspaceId, canEdit, rebuildFromLocal]
+  );
+
+  const purgeMember = useCallback(
+    async (id: string) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const existing = await getLocalMember(id);
+      await purgeMemberLocally(workspaceId, id);
+      await rebuildFromLocal();
+      // Purging within the undo window skips the wait; the shared key keeps it to one email
+      if (existing) await sendMemberRemovedEmail(workspaceId, existing, teams.find((t) => t.id === existing.team_id));
+    },
+    [workspaceId, canEdit, teams, rebuildFromLocal]
+  );
+
+  // Deletes for good whatever has sat in the trash past the retention window
+  const purgeExpiredTrash = useCallback(async (): Promise<number> => {
+    if (!workspaceId || !canEdit) return 0;
+    const retentionDays = await getTrashRetentionDays();
+    if (retentionDays <= 0) return 0;
+
+    const expiredTeams = (await getLocalTeams(workspaceId)).filter(
+      (t) => t.deleted_at && isPastRetention(t.deleted_at, retentionDays)
+    );
+    const expiredTeamIds = new Set(expiredTeams.map((t) => t.id));
+    const expiredMembers = (await getLocalMembers(workspaceId)).filter(
+      (m) => m.deleted_at && isPastRetention(m.deleted_at, retentionDays) && !expiredTeamIds.has(m.team_id)
+    );
+
+    for (const t of expiredTeams) await purgeTeamLocally(workspaceId, t.id);
+    for (const m of expiredMembers) await purgeMemberLocally(workspaceId, m.id);
+
+    const purged = expiredTeams.length + expiredMembers.length;
+    if (purged > 0) {
+      console.log(`[Trash] Purged ${purged} item(s) older than ${retentionDays} days`);
+      await rebuildFromLocal();
+    }
+    return purged;
+  }, [workspaceId, canEdit, rebuildFromLocal]);
+
+  // Once per workspace, after the first load
+  useEffect(() => {
+    if (!workspaceId || !isLoaded || trashPurgedForRef.current === workspaceId) return;
+    trashPurgedForRef.current = workspaceId;
+    purgeExpiredTrash().catch((e) => console.error('[Trash] Auto-purge failed:', e));
+  }, [workspaceId, isLoaded, purgeExpiredTrash]);
+
   // ─── Generic member field updater (local-first) ────────────
 
   const updateMemberField = useCallback(
-    async (id: string, appField: string, dbField: string, value: unknown, allTeams?: boolean) => {
-      if (!user) return;
+    async (id: string, appField: string, dbField: keyof LocalMember, value: unknown, allTeams?: boolean) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const isCredential = isCredentialField(dbField);
+      // Credentials are sealed in IndexedDB and the sync queue; React state keeps the plaintext
+      const stored = isCredential ? await sealCredential(value as string | null) : value;
 
       // Update local DB
-      const localMembers = await getLocalMembers(user.id);
+      const localMembers = await getLocalMembers(workspaceId);
       const existing = localMembers.find((m) => m.id === id);
-      if (existing) {
-        (existing as any)[dbField] = value;
-        await putLocalMember(existing);
-      }
+      const base = existing ? { [dbField]: existing[dbField] } : undefined;
+      const updated = existing ? { ...existing, [dbField]: stored } : undefined;
+      if (updated) await putLocalMember(updated);
 
       // Update React state
       const updater = (t: Team) => ({
@@ -484,9 +1115,14 @@ export function useSupabaseData() {
         );
       }
 
-      await queueAndSync(user.id, 'members', 'update', id, { id, [dbField]: value });
+      await queueAndSync(workspaceId, 'members', 'update', id, { id, [dbField]: stored }, base);
+
+      const previous = isCredential ? await revealValue(vaultKeyRef.current, existing?.[dbField]) : existing?.[dbField];
+      if (updated && JSON.stringify(previous ?? null) !== JSON.stringify(value ?? null)) {
+        await logMemberEvent(updated, describeMemberFieldChange(dbField, previous, value));
+      }
     },
-    [user, activeTeamId]
+    [workspaceId, canEdit, activeTeamId, logMemberEvent, sealCredential]
   );
 
   const updateMemberDate = useCallback((id: string, joinDate: string) => updateMemberField(id, 'joinDate', 'join_date', joinDate), [updateMemberField]);
@@ -499,19 +1135,142 @@ export function useSupabaseData() {
   const updateMemberGPass = useCallback((id: string, gPass: string) => updateMemberField(id, 'gPass', 'g_pass', gPass || null), [updateMemberField]);
   const updateMemberSubscriptions = useCallback((id: string, subscriptions: SubscriptionType[]) => updateMemberField(id, 'subscriptions', 'subscriptions', subscriptions), [updateMemberField]);
   const updateMemberPendingAmount = useCallback((id: string, pendingAmount?: number) => updateMemberField(id, 'pendingAmount', 'pending_amount', pendingAmount || null), [updateMemberField]);
-  const updateMemberPushed = useCallback((id: string, isPushed: boolean) => updateMemberField(id, 'isPushed', 'is_pushed', isPushed, true), [updateMemberField]);
-  const updateMemberActiveTeam = useCallback((id: string, activeTeamIdVal?: string) => updateMemberField(id, 'activeTeamId', 'active_team_id', activeTeamIdVal || null, true), [updateMemberField]);
   const updateMemberUsdt = useCallback((id: string, isUsdt: boolean) => updateMemberField(id, 'isUsdt', 'is_usdt', isUsdt), [updateMemberField]);
+  const updateMemberTotalAmount = useCallback((id: string, totalAmount: number) => updateMemberField(id, 'totalAmount', 'total_amount', totalAmount, true), [updateMemberField]);
+
+  const updateMemberPushed = useCallback(
+    async (id: string, isPushed: boolean): Promise<UndoEntry | undefined> => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const before = await getLocalMember(id);
+      await updateMemberField(id, 'isPushed', 'is_pushed', isPushed, true);
+      if (!before || !!before.is_pushed === isPushed) return;
+      return recordUndo(workspaceId, `${isPushed ? 'Pushed' : 'Unpushed'} ${before.email}`, () =>
+        revertMemberChange(id, { is_pushed: before.is_pushed ?? false })
+      );
+    },
+    [workspaceId, canEdit, updateMemberField, revertMemberChange]
+  );
+
+  const updateMemberActiveTeam = useCallback(
+    async (id: string, activeTeamIdVal?: string): Promise<UndoEntry | undefined> => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const before = await getLocalMember(id);
+      await updateMemberField(id, 'activeTeamId', 'active_team_id', activeTeamIdVal || null, true);
+      if (!before || (before.active_team_id || null) === (activeTeamIdVal || null)) return;
+      const target = activeTeamIdVal ? teams.find((t) => t.id === activeTeamIdVal) : undefined;
+      const teamName = target?.teamName;
+
+      if (target) {
+        // Tell the member which team to expect an invite from (fire-and-forget)
+        try {
+          const planName = await getPlanName(workspaceId, target.logo);
+          const fromTeamId = before.active_team_id || before.team_id;
+          cloudSupabase.functions.invoke('send-transactional-email', {
+            body: {
+              templateName: 'team-moved',
+              recipientEmail: before.email,
+              idempotencyKey: `team-moved-${id}-${target.id}-${fromTeamId}`,
+              templateData: {
+                memberId: id,
+                email: before.email,
+                planName,
+                fromTeamName: teams.find((t) => t.id === fromTeamId)?.teamName,
+                teamName: target.teamName,
+                isUsdt: before.is_usdt || false,
+              },
+            },
+          }).catch((e) => console.error('[Email] Team move email failed:', e));
+        } catch (e) {
+          console.error('[Email] Team move email error:', e);
+        }
+      }
+
+      return recordUndo(workspaceId, teamName ? `Moved ${before.email} to ${teamName}` : `Cleared active team of ${before.email}`, () =>
+        revertMemberChange(id, { active_team_id: before.active_team_id ?? null })
+      );
+    },
+    [workspaceId, canEdit, teams, updateMemberField, revertMemberChange]
+  );
+
+  // ─── Payment ledger (all team types, local-first) ─────────
+
+  // Ids are stable, so saving an existing id edits that entry in place
+  const saveLedgerEntry = useCallback(
+    async (input: LedgerEntryInput, id: string = crypto.randomUUID()) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return null;
+      const existing = await getLocalLedgerEntry(id);
+      const localEntry = {
+        ...ledgerInputToLocal(workspaceId, id, input, existing?.created_at || new Date().toISOString()),
+        // Editing a payment keeps the number its receipt was issued under
+        invoice_number: existing?.invoice_number ?? null,
+      };
+
+      await putLocalLedgerEntry(localEntry);
+      const entry = localLedgerEntryToAppEntry(localEntry);
+      setLedger((prev) => [entry, ...prev.filter((e) => e.id !== id)].sort(byPaidAtDesc));
+
+      await queueAndSync(workspaceId, 'payment_ledger', 'insert', id, localEntry);
+      return entry;
+    },
+    [workspaceId, canEdit]
+  );
+
+  const deleteLedgerEntry = useCallback(
+    async (id: string) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      await deleteLocalLedgerEntry(id);
+      setLedger((prev) => prev.filter((e) => e.id !== id));
+      await queueAndSync(workspaceId, 'payment_ledger', 'delete', id, {});
+    },
+    [workspaceId, canEdit]
+  );
+
+  /**
+   * The invoice number of a payment's receipt, assigning one the first time.
+   * The server numbers from a per-workspace counter; offline, the next number
+   * this device knows of stands in until the entry syncs and takes the server's.
+   */
+  const assignInvoiceNumber = useCallback(
+    async (entryId: string): Promise<number | null> => {
+      const existing = await getLocalLedgerEntry(entryId);
+      if (!existing) return null;
+      if (existing.invoice_number) return existing.invoice_number;
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return null;
+
+      const entries = await getLocalLedger(workspaceId);
+      const invoiceNumber = entries.reduce((max, e) => Math.max(max, e.invoice_number || 0), 0) + 1;
+      await putLocalLedgerEntry({ ...existing, invoice_number: invoiceNumber });
+      setLedger((prev) => prev.map((e) => (e.id === entryId ? { ...e, invoiceNumber } : e)));
+      await queueAndSync(workspaceId, 'payment_ledger', 'update', entryId, { id: entryId, invoice_number: invoiceNumber }, {
+        invoice_number: null,
+      });
+      if (!isOnline()) return invoiceNumber;
+
+      // Wait for the push so the receipt carries the number the server settled on
+      await processSyncQueue(workspaceId).catch((e) => console.error('[Sync] Failed to push invoice number:', e));
+      const assigned = (await getLocalLedgerEntry(entryId))?.invoice_number ?? invoiceNumber;
+      if (assigned !== invoiceNumber) {
+        setLedger((prev) => prev.map((e) => (e.id === entryId ? { ...e, invoiceNumber: assigned } : e)));
+      }
+      return assigned;
+    },
+    [workspaceId, canEdit]
+  );
 
   const updateMemberPayment = useCallback(
-    async (id: string, isPaid: boolean, paidAmount?: number) => {
-      if (!user) return;
+    async (id: string, isPaid: boolean, paidAmount?: number, usdtRate?: number, method?: PaymentMethod) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
 
-      const localMembers = await getLocalMembers(user.id);
+      const paidUsdtRate = isPaid && paidAmount ? usdtRate || null : null;
+      const localMembers = await getLocalMembers(workspaceId);
       const existing = localMembers.find((m) => m.id === id);
+      const base = existing
+        ? { is_paid: existing.is_paid, paid_amount: existing.paid_amount, paid_usdt_rate: existing.paid_usdt_rate ?? null }
+        : undefined;
       if (existing) {
         existing.is_paid = isPaid;
         existing.paid_amount = isPaid ? paidAmount || null : null;
+        existing.paid_usdt_rate = paidUsdtRate;
         await putLocalMember(existing);
       }
 
@@ -521,20 +1280,323 @@ export function useSupabaseData() {
             ? {
                 ...t,
                 members: t.members.map((m) =>
-                  m.id === id ? { ...m, isPaid, paidAmount: isPaid ? paidAmount : undefined } : m
+                  m.id === id
+                    ? { ...m, isPaid, paidAmount: isPaid ? paidAmount : undefined, paidUsdtRate: paidUsdtRate ?? undefined }
+                    : m
                 ),
               }
             : t
         )
       );
 
-      await queueAndSync(user.id, 'members', 'update', id, {
+      await queueAndSync(workspaceId, 'members', 'update', id, {
         id,
         is_paid: isPaid,
         paid_amount: isPaid ? paidAmount || null : null,
+        paid_usdt_rate: paidUsdtRate,
+      }, base);
+
+      if (!existing) return;
+      await logMemberEvent(existing, {
+        type: 'payment',
+        from_value: toEventValue(base?.paid_amount),
+        to_value: isPaid ? toEventValue(paidAmount) : null,
       });
+
+      // One ledger entry per member cycle: re-saving the payment edits it, clearing it removes it
+      const team = teams.find((t) => t.id === existing.team_id);
+      const cycleEntry = ledger.find((e) => e.memberId === id && e.cycleStart === existing.join_date);
+      if (isPaid && paidAmount) {
+        const entry = await saveLedgerEntry(
+          {
+            memberId: id,
+            teamId: existing.team_id,
+            paidAt: cycleEntry?.paidAt || formatLocalDate(new Date()),
+            amount: paidAmount,
+            currency: existing.is_usdt ? 'USDT' : 'BDT',
+            usdtRate: paidUsdtRate ?? undefined,
+            method: method || cycleEntry?.method,
+            cycleStart: existing.join_date,
+            cycleEnd: formatLocalDate(getCycleEndDate(existing.join_date, getTeamBillingCycle(team))),
+            note: cycleEntry?.note,
+          },
+          cycleEntry?.id
+        );
+        // Only a newly recorded payment is confirmed; editing it stays quiet
+        if (entry && !cycleEntry) await sendPaymentReceivedEmail(workspaceId, existing, team, entry);
+      } else if (cycleEntry) {
+        await deleteLedgerEntry(cycleEntry.id);
+      }
     },
-    [user, activeTeamId]
+    [workspaceId, canEdit, activeTeamId, teams, ledger, saveLedgerEntry, deleteLedgerEntry, logMemberEvent]
+  );
+
+  // ─── Renewal (local-first) ─────────────────────────────────
+
+  /**
+   * Roll a member into their next billing cycle: the payment goes to the
+   * ledger for the new cycle (the old cycle's entry stays as history) and the
+   * member's cycle start moves forward.
+   */
+  const renewMember = useCallback(
+    async (
+      memberId: string,
+      payment: { amount: number; usdtRate?: number; method?: PaymentMethod; sendEmail?: boolean }
+    ) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return null;
+      const team = teams.find((t) => t.members.some((m) => m.id === memberId));
+      const existing = await getLocalMember(memberId);
+      if (!team || !existing) return null;
+
+      const cycle = getTeamBillingCycle(team);
+      const cycleStart = getNextCycleStart(existing.join_date, cycle);
+      const cycleEnd = formatLocalDate(getCycleEndDate(cycleStart, cycle));
+      const paidUsdtRate = payment.usdtRate ?? null;
+
+      const base = {
+        join_date: existing.join_date,
+        is_paid: existing.is_paid,
+        paid_amount: existing.paid_amount,
+        paid_usdt_rate: existing.paid_usdt_rate ?? null,
+      };
+      const changes = { join_date: cycleStart, is_paid: true, paid_amount: payment.amount, paid_usdt_rate: paidUsdtRate };
+      await putLocalMember({ ...existing, ...changes });
+      setTeams((prev) =>
+        prev.map((t) =>
+          t.id === team.id
+            ? {
+                ...t,
+                members: t.members.map((m) =>
+                  m.id === memberId
+                    ? { ...m, joinDate: cycleStart, isPaid: true, paidAmount: payment.amount, paidUsdtRate: paidUsdtRate ?? undefined }
+                    : m
+                ),
+              }
+            : t
+        )
+      );
+      await queueAndSync(workspaceId, 'members', 'update', memberId, { id: memberId, ...changes }, base);
+      await logMemberEvent(existing, { type: 'renewed', field: 'join_date', from_value: base.join_date, to_value: cycleStart });
+
+      const entry = await saveLedgerEntry({
+        memberId,
+        teamId: team.id,
+        paidAt: formatLocalDate(new Date()),
+        amount: payment.amount,
+        currency: existing.is_usdt ? 'USDT' : 'BDT',
+        usdtRate: payment.usdtRate,
+        method: payment.method,
+        cycleStart,
+        cycleEnd,
+      });
+
+      if (payment.sendEmail && entry) {
+        try {
+          const planName = await getPlanName(workspaceId, team.logo);
+          cloudSupabase.functions.invoke('send-transactional-email', {
+            body: {
+              templateName: 'renewal-confirmed',
+              recipientEmail: existing.email,
+              idempotencyKey: `renewal-${entry.id}`,
+              templateData: {
+                memberId: existing.id,
+                email: existing.email,
+                cycleStart,
+                expiryDate: cycleEnd,
+                planName,
+                isUsdt: existing.is_usdt || false,
+                teamName: team.teamName,
+                amount: payment.amount,
+                usdtRate: payment.usdtRate,
+              },
+            },
+          }).catch((e) => console.error('[Email] Renewal email failed:', e));
+        } catch (e) {
+          console.error('[Email] Renewal email error:', e);
+        }
+      }
+
+      return entry;
+    },
+    [workspaceId, canEdit, teams, saveLedgerEntry, logMemberEvent]
+  );
+
+  // ─── Customer-reported payments ────────────────────────────
+
+  /**
+   * Accept a payment a customer reported from their portal: it's recorded in
+   * the ledger under the submission's id (outside any billing cycle, so it
+   * never replaces a cycle's payment) and taken off the member's due amount.
+   */
+  const approvePaymentSubmission = useCallback(
+    async (submission: PaymentSubmission, usdtRate: number): Promise<{ ok: boolean; error?: string }> => {
+      if (!user || !workspaceId) return { ok: false, error: 'Not authenticated' };
+      if (!canEdit) return { ok: false, error: VIEW_ONLY_MESSAGE };
+      if (!isOnline()) return { ok: false, error: 'Connect to the internet to review payments' };
+      const existing = await getLocalMember(submission.memberId);
+      if (!existing || existing.deleted_at) return { ok: false, error: 'This member was removed' };
+
+      try {
+        const claimed = await claimSubmission(submission.id, user.id, submission.id);
+        if (!claimed) return { ok: false, error: 'This payment was already reviewed' };
+      } catch (e) {
+        console.error('[Payments] Failed to approve submission:', e);
+        return { ok: false, error: 'Failed to approve the payment' };
+      }
+
+      const isUsdt = submission.currency === 'USDT';
+      const amount = isUsdt ? Math.round(submission.amount * usdtRate) : submission.amount;
+      const entry = await saveLedgerEntry(
+        {
+          memberId: existing.id,
+          teamId: existing.team_id,
+          paidAt: formatLocalDate(new Date(submission.createdAt)),
+          amount,
+          currency: submission.currency,
+          usdtRate: isUsdt ? usdtRate : undefined,
+          method: submission.method,
+          note: `Txn ${submission.transactionId}`,
+        },
+        submission.id
+      );
+      await logMemberEvent(existing, { type: 'payment', to_value: toEventValue(amount) });
+      if (entry) {
+        await sendPaymentReceivedEmail(workspaceId, existing, teams.find((t) => t.id === existing.team_id), entry);
+      }
+
+      if (existing.pending_amount) {
+        const remaining = Math.max(0, existing.pending_amount - amount);
+        await updateMemberField(existing.id, 'pendingAmount', 'pending_amount', remaining || null, true);
+      }
+      return { ok: true };
+    },
+    [user, workspaceId, canEdit, teams, saveLedgerEntry, logMemberEvent, updateMemberField]
+  );
+
+  // ─── Yearly ledger (member_payments, local-first) ──────────
+
+  // Paid month rows are mirrored into the payment ledger under the same id,
+  // dated to the month they cover
+  const mirrorMonthPayment = useCallback(
+    async (payment: MemberPayment) => {
+      if (payment.status !== 'paid' || !(payment.amount > 0)) {
+        if (ledger.some((e) => e.id === payment.id)) await deleteLedgerEntry(payment.id);
+        return;
+      }
+      const team = teams.find((t) => t.members.some((m) => m.id === payment.memberId));
+      if (!team) return;
+      const member = team.members.find((m) => m.id === payment.memberId);
+      const monthStart = `${payment.year}-${String(payment.month).padStart(2, '0')}-01`;
+      const mirrored = ledger.find((e) => e.id === payment.id);
+      const entry = await saveLedgerEntry(
+        {
+          memberId: payment.memberId,
+          teamId: team.id,
+          paidAt: monthStart,
+          amount: payment.amount,
+          currency: member?.isUsdt ? 'USDT' : 'BDT',
+          usdtRate: payment.usdtRate,
+          method: mirrored?.method,
+          cycleStart: monthStart,
+          cycleEnd: monthEndDate(payment.year, payment.month),
+          note: payment.note,
+        },
+        payment.id
+      );
+      // Confirm the month the first time it's marked paid, not on later edits
+      if (workspaceId && entry && member && !mirrored) await sendPaymentReceivedEmail(workspaceId, member, team, entry);
+    },
+    [workspaceId, teams, ledger, saveLedgerEntry, deleteLedgerEntry]
+  );
+
+  const saveMonthPayment = useCallback(
+    async (memberId: string, year: number, month: number, status: 'paid' | 'due', amount: number, usdtRate?: number) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return null;
+
+      // Reuse the month's existing row so the ledger stays one row per member/month
+      const existing = memberPayments.find(
+        (p) => p.memberId === memberId && p.year === year && p.month === month
+      );
+      const localPayment = {
+        id: existing?.id || crypto.randomUUID(),
+        member_id: memberId,
+        user_id: workspaceId,
+        year,
+        month,
+        status,
+        amount,
+        note: existing?.note || null,
+        usdt_rate: usdtRate ?? existing?.usdtRate ?? null,
+        created_at: existing?.createdAt || new Date().toISOString(),
+      };
+
+      await putLocalMemberPayment(localPayment);
+      const payment = localPaymentToAppPayment(localPayment);
+      setMemberPayments((prev) =>
+        existing ? prev.map((p) => (p.id === existing.id ? payment : p)) : [...prev, payment]
+      );
+
+      await queueAndSync(workspaceId, 'member_payments', 'insert', localPayment.id, localPayment);
+      await mirrorMonthPayment(payment);
+      return payment;
+    },
+    [workspaceId, canEdit, memberPayments, mirrorMonthPayment]
+  );
+
+  const updateMonthPaymentStatus = useCallback(
+    async (paymentId: string, status: 'paid' | 'due') => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      const localPayments = await getLocalMemberPayments(workspaceId);
+      const existing = localPayments.find((p) => p.id === paymentId);
+      if (existing) {
+        existing.status = status;
+        await putLocalMemberPayment(existing);
+      }
+      setMemberPayments((prev) => prev.map((p) => (p.id === paymentId ? { ...p, status } : p)));
+      await queueAndSync(workspaceId, 'member_payments', 'update', paymentId, { id: paymentId, status });
+      if (existing) await mirrorMonthPayment({ ...localPaymentToAppPayment(existing), status });
+    },
+    [workspaceId, canEdit, mirrorMonthPayment]
+  );
+
+  const deleteMonthPayment = useCallback(
+    async (paymentId: string) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+      await deleteLocalMemberPayment(paymentId);
+      setMemberPayments((prev) => prev.filter((p) => p.id !== paymentId));
+      await queueAndSync(workspaceId, 'member_payments', 'delete', paymentId, {});
+      if (ledger.some((e) => e.id === paymentId)) await deleteLedgerEntry(paymentId);
+    },
+    [workspaceId, canEdit, ledger, deleteLedgerEntry]
+  );
+
+  // ─── Sync conflict resolution ──────────────────────────────
+
+  const resolveSyncConflict = useCallback(
+    async (conflict: SyncConflict, choices: Record<string, 'local' | 'remote'>) => {
+      if (!workspaceId || blockViewOnlyEdit(canEdit)) return;
+
+      const keepLocal = conflict.fields.filter((f) => choices[f.field] === 'local');
+      if (keepLocal.length > 0) {
+        const values = Object.fromEntries(keepLocal.map((f) => [f.field, f.local]));
+        // The server now holds the remote values, so they are the base for this edit
+        const base = Object.fromEntries(keepLocal.map((f) => [f.field, f.remote]));
+
+        if (conflict.table === 'teams') {
+          const existing = await getLocalTeam(conflict.record_id);
+          if (existing) await putLocalTeam({ ...existing, ...values });
+        } else {
+          const existing = await getLocalMember(conflict.record_id);
+          if (existing) await putLocalMember({ ...existing, ...values });
+        }
+
+        await queueAndSync(workspaceId, conflict.table, 'update', conflict.record_id, { id: conflict.record_id, ...values }, base);
+      }
+
+      await deleteSyncConflict(conflict.id!);
+      await rebuildFromLocal();
+    },
+    [workspaceId, canEdit, rebuildFromLocal]
   );
 
   // ─── Search ────────────────────────────────────────────────
@@ -566,40 +1628,38 @@ export function useSupabaseData() {
 
   // ─── Export / Import / Backup ──────────────────────────────
 
-  const canAddMember = activeTeam ? activeTeam.members.length + 1 < MAX_MEMBERS : false;
-  const isTeamFull = activeTeam ? activeTeam.members.length + 1 >= MAX_MEMBERS : false;
+  const canAddMember = activeTeam ? getTeamSeatsUsed(activeTeam) < getTeamSeatLimit(activeTeam) : false;
+  const isTeamFull = activeTeam ? getTeamSeatsUsed(activeTeam) >= getTeamSeatLimit(activeTeam) : false;
 
   const exportData = useCallback(async () => {
     try {
-      if (!user) return;
+      if (!user || !workspaceId) return;
 
       // Fetch ALL raw data from Supabase for complete backup
-      const [teamsRes, membersRes, paymentsRes, notepadsRes] = await Promise.all([
-        supabase.from('teams').select('*').eq('user_id', user.id),
-        supabase.from('members').select('*').eq('user_id', user.id),
-        supabase.from('member_payments').select('*').eq('user_id', user.id),
+      const [teamsRes, membersRes, paymentsRes, ledgerRes, eventsRes, notepadsRes, productsRes, ratesRes] = await Promise.all([
+        supabase.from('teams').select('*').eq('user_id', workspaceId),
+        canViewCredentials
+          ? supabase.from('members').select('*').eq('user_id', workspaceId)
+          : supabase.rpc('workspace_members_redacted', { p_workspace_id: workspaceId }),
+        supabase.from('member_payments').select('*').eq('user_id', workspaceId),
+        supabase.from('payment_ledger').select('*').eq('user_id', workspaceId),
+        supabase.from('member_events').select('*').eq('user_id', workspaceId),
+        // Notepads are personal, whichever workspace is open
         supabase.from('notepads').select('*').eq('user_id', user.id),
+        supabase.from('subscription_products').select('*').eq('user_id', workspaceId),
+        supabase.from('usdt_rates').select('*').eq('user_id', workspaceId),
       ]);
 
       const allTeams = teamsRes.data || [];
       const allMembers = membersRes.data || [];
       const allPayments = paymentsRes.data || [];
+      const allLedger = ledgerRes.data || [];
 
       // Build EMT summary so it's clear how earnings are calculated
       const regularTeamIds = allTeams.filter((t: any) => !t.is_yearly && !t.is_plus).map((t: any) => t.id);
       const plusTeamIds = allTeams.filter((t: any) => t.is_plus).map((t: any) => t.id);
-      const yearlyTeamIds = allTeams.filter((t: any) => t.is_yearly).map((t: any) => t.id);
 
-      // Regular + Plus: sum paid_amount from members table
-      const regularPlusPaid = allMembers
-        .filter((m: any) => regularTeamIds.includes(m.team_id) || plusTeamIds.includes(m.team_id))
-        .reduce((sum: number, m: any) => sum + (Number(m.paid_amount) || 0), 0);
-
-      // Yearly: sum amount from member_payments where status=paid
-      const yearlyMemberIds = allMembers.filter((m: any) => yearlyTeamIds.includes(m.team_id)).map((m: any) => m.id);
-      const yearlyPaid = allPayments
-        .filter((p: any) => p.status === 'paid' && yearlyMemberIds.includes(p.member_id))
-        .reduce((sum: number, p: any) => sum + (Number(p.amount) || 0), 0);
+      const totalPaid = allLedger.reduce((sum: number, e: Pick<LocalLedgerEntry, 'amount'>) => sum + (Number(e.amount) || 0), 0);
 
       // Total due
       const regularPlusDue = allMembers
@@ -607,14 +1667,13 @@ export function useSupabaseData() {
         .reduce((sum: number, m: any) => sum + (Number(m.pending_amount) || 0), 0);
 
       const summary = {
-        emt_total_earnings: regularPlusPaid + yearlyPaid,
-        regular_plus_paid_from_members: regularPlusPaid,
-        yearly_paid_from_member_payments: yearlyPaid,
+        emt_total_earnings: totalPaid,
         total_due: regularPlusDue,
         total_teams: allTeams.length,
         total_members: allMembers.length,
         total_payment_records: allPayments.length,
-        note: "EMT = regular/plus members' paid_amount + yearly members' member_payments (status=paid). USDT members: multiply by 125 for BDT."
+        total_ledger_entries: allLedger.length,
+        note: "EMT = sum of payment_ledger amounts (every payment, all team types; paid yearly member_payments rows are mirrored there under the same id). Amounts are BDT; usdt_rate holds the BDT per USD each payment was taken at."
       };
 
       const exportObj = {
@@ -622,7 +1681,11 @@ export function useSupabaseData() {
         teams: allTeams,
         members: allMembers,
         member_payments: allPayments,
+        payment_ledger: allLedger,
+        member_events: eventsRes.data || [],
         notepads: notepadsRes.data || [],
+        subscription_products: productsRes.data || [],
+        usdt_rates: ratesRes.data || [],
         exportedAt: new Date().toISOString()
       };
       const json = JSON.stringify(exportObj, null, 2);
@@ -636,29 +1699,61 @@ export function useSupabaseData() {
     } catch (err) {
       console.error('Export error:', err);
     }
-  }, [user]);
+  }, [user, workspaceId, canViewCredentials]);
 
-  const importData = useCallback((jsonString: string) => {
-    console.log('Import data is available for reference only:', jsonString);
-    return true;
-  }, []);
+  const previewImport = useCallback(
+    async (jsonString: string): Promise<{ ok: true; preview: ImportPreview } | { ok: false; error: string }> => {
+      if (!user || !workspaceId) return { ok: false, error: 'Not authenticated' };
+      const parsed = parseBackup(jsonString);
+      if (parsed.ok === false) return parsed;
+      try {
+        const preview = await buildImportPreview(parsed.data, workspaceId, user.id);
+        return { ok: true, preview };
+      } catch (err) {
+        console.error('Import preview error:', err);
+        return { ok: false, error: 'Failed to read current data' };
+      }
+    },
+    [user, workspaceId]
+  );
+
+  const applyImport = useCallback(
+    async (preview: ImportPreview, mode: ImportMode) => {
+      if (!user || !workspaceId || blockViewOnlyEdit(canEdit)) return null;
+      // Credentials in the backup are sealed before they're stored, which needs the key
+      if (vaultStatus !== 'off' && !vaultKeyRef.current) {
+        toast.error('Unlock the vault to restore a backup');
+        return null;
+      }
+      const result = await applyBackupImport(preview, mode, workspaceId, user.id, vaultKeyRef.current);
+      await rebuildFromLocal();
+      return result;
+    },
+    [user, workspaceId, canEdit, vaultStatus, rebuildFromLocal]
+  );
 
   const setLastBackup = useCallback(
     async (date: string) => {
-      if (!user || !activeTeamId) return;
-      const localTeams = await getLocalTeams(user.id);
+      if (!workspaceId || !activeTeamId || !canEdit) return;
+      const localTeams = await getLocalTeams(workspaceId);
       const existing = localTeams.find((t) => t.id === activeTeamId);
+      const base = existing ? { last_backup: existing.last_backup } : undefined;
       if (existing) {
         existing.last_backup = date;
         await putLocalTeam(existing);
       }
-      await queueAndSync(user.id, 'teams', 'update', activeTeamId, { id: activeTeamId, last_backup: date });
+      await queueAndSync(workspaceId, 'teams', 'update', activeTeamId, { id: activeTeamId, last_backup: date }, base);
     },
-    [user, activeTeamId]
+    [workspaceId, canEdit, activeTeamId]
   );
 
   return {
     data: { teams, activeTeamId: activeTeamId || '' },
+    memberPayments: liveMemberPayments,
+    ledger: liveLedger,
+    memberEvents,
+    trash,
+    syncConflicts,
     activeTeam,
     sortedTeams,
     isLoaded,
@@ -671,6 +1766,11 @@ export function useSupabaseData() {
     updateTeamCreatedAt,
     addMember,
     removeMember,
+    restoreTeam,
+    restoreMember,
+    purgeTeam,
+    purgeMember,
+    purgeExpiredTrash,
     updateMemberDate,
     updateMemberEmail,
     updateMemberPhone,
@@ -685,14 +1785,28 @@ export function useSupabaseData() {
     updateMemberPushed,
     updateMemberActiveTeam,
     updateMemberUsdt,
+    updateMemberTotalAmount,
+    saveMonthPayment,
+    updateMonthPaymentStatus,
+    deleteMonthPayment,
+    saveLedgerEntry,
+    deleteLedgerEntry,
+    assignInvoiceNumber,
+    renewMember,
+    approvePaymentSubmission,
+    resolveSyncConflict,
     updateTeamLogo,
+    updateTeamBillingCycle,
+    updateTeamSeatLimit,
     canAddMember,
     isTeamFull,
     exportData,
-    importData,
+    previewImport,
+    applyImport,
     setLastBackup,
     searchMembers,
-    memberCount: activeTeam ? activeTeam.members.length + 1 : 1,
+    memberCount: activeTeam ? getTeamSeatsUsed(activeTeam) : 1,
+    seatLimit: getTeamSeatLimit(activeTeam),
     teamCount: teams.length,
     refetch: fetchData,
   };
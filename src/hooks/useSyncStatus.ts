@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { getSyncQueue, getDeadLetters, getMeta, DeadLetterEntry, SyncQueueEntry } from '@/services/offlineDb';
+import { fullSync, isOnline, onSyncChange, retryDeadLetter, discardDeadLetter } from '@/services/syncService';
+
+export function useSyncStatus() {
+  const { user } = useAuth();
+  const { workspaceId, canViewCredentials } = useWorkspace();
+  const [pending, setPending] = useState<SyncQueueEntry[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterEntry[]>([]);
+  const [lastSync, setLastSync] = useState<string | null>(null);
+  const [online, setOnline] = useState(isOnline());
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!user || !workspaceId) {
+      setPending([]);
+      setDeadLetters([]);
+      setLastSync(null);
+      return;
+    }
+    // The open workspace's changes plus the user's own notes
+    const scopes = Array.from(new Set([workspaceId, user.id]));
+    const [queues, letters, last] = await Promise.all([
+      Promise.all(scopes.map(getSyncQueue)),
+      Promise.all(scopes.map(getDeadLetters)),
+      getMeta('last_sync'),
+    ]);
+    setPending(queues.flat());
+    setDeadLetters(letters.flat().sort((a, b) => b.failed_at.localeCompare(a.failed_at)));
+    setLastSync(last || null);
+  }, [user, workspaceId]);
+
+  useEffect(() => {
+    refresh();
+    return onSyncChange(() => {
+      refresh();
+    });
+  }, [refresh]);
+
+  useEffect(() => {
+    const on = () => setOnline(true);
+    const off = () => setOnline(false);
+    window.addEventListener('online', on);
+    window.addEventListener('offline', off);
+    return () => { window.removeEventListener('online', on); window.removeEventListener('offline', off); };
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!user || !workspaceId || !isOnline()) return false;
+    setIsSyncing(true);
+    try {
+      const result = await fullSync(workspaceId, { redactCredentials: !canViewCredentials });
+      if (workspaceId !== user.id) await fullSync(user.id);
+      return result !== null;
+    } catch (e) {
+      console.error('[Sync] Manual sync failed:', e);
+      return false;
+    } finally {
+      setIsSyncing(false);
+      await refresh();
+    }
+  }, [user, workspaceId, canViewCredentials, refresh]);
+
+  // Entries still retrying with an error, newest first
+  const errors = pending
+    .filter((e) => e.last_error)
+    .sort((a, b) => (b.next_attempt_at || '').localeCompare(a.next_attempt_at || ''));
+
+  const retry = useCallback(
+    async (id: number) => {
+      const entry = deadLetters.find((d) => d.id === id);
+      if (!entry) return;
+      await retryDeadLetter(id, entry.user_id);
+    },
+    [deadLetters]
+  );
+
+  const discard = useCallback(
+    async (id: number) => {
+      const entry = deadLetters.find((d) => d.id === id);
+      if (!entry) return;
+      await discardDeadLetter(id, entry.user_id);
+    },
+    [deadLetters]
+  );
+
+  return {
+    online,
+    lastSync,
+    pending,
+    errors,
+    deadLetters,
+    isSyncing,
+    syncNow,
+    refresh,
+    retry,
+    discard,
+  };
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { getUndoHistory, onUndoChange, UndoEntry } from '@/services/undoService';
+
+export function useUndoHistory() {
+  const { user } = useAuth();
+  const { workspaceId } = useWorkspace();
+  const [history, setHistory] = useState<UndoEntry[]>([]);
+
+  useEffect(() => {
+    if (!user || !workspaceId) {
+      setHistory([]);
+      return;
+    }
+    // Note deletes are recorded under the user, team and member changes under the workspace
+    const load = () => setHistory(getUndoHistory(user.id, workspaceId));
+    load();
+    return onUndoChange(load);
+  }, [user, workspaceId]);
+
+  return history;
+}
@@ -14,6 +14,30 @@ export type Database = {
   }
   public: {
     Tables: {
+      credential_vaults: {
+        Row: {
+          iterations: number
+          salt: string
+          updated_at: string
+          user_id: string
+          verifier: string
+        }
+        Insert: {
+          iterations: number
+          salt: string
+          updated_at?: string
+          user_id: string
+          verifier: string
+        }
+        Update: {
+          iterations?: number
+          salt?: string
+          updated_at?: string
+          user_id?: string
+          verifier?: string
+        }
+        Relationships: []
+      }
       email_send_log: {
         Row: {
           created_at: string
@@ -77,6 +101,42 @@ export type Database = {
         }
         Relationships: []
       }
+      email_template_overrides: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          lang: string
+          subject: string
+          template_name: string
+          updated_at: string
+          updated_by: string | null
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          lang: string
+          subject: string
+          template_name: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          lang?: string
+          subject?: string
+          template_name?: string
+          updated_at?: string
+          updated_by?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       email_unsubscribe_tokens: {
         Row: {
           created_at: string
@@ -101,6 +161,60 @@ export type Database = {
         }
         Relationships: []
       }
+      invoice_counters: {
+        Row: {
+          last_number: number
+          user_id: string
+        }
+        Insert: {
+          last_number: number
+          user_id: string
+        }
+        Update: {
+          last_number?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      member_events: {
+        Row: {
+          created_at: string
+          field: string | null
+          from_value: string | null
+          id: string
+          member_email: string
+          member_id: string
+          team_id: string
+          to_value: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          field?: string | null
+          from_value?: string | null
+          id?: string
+          member_email?: string
+          member_id: string
+          team_id: string
+          to_value?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          field?: string | null
+          from_value?: string | null
+          id?: string
+          member_email?: string
+          member_id?: string
+          team_id?: string
+          to_value?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       member_payments: {
         Row: {
           amount: number
@@ -111,6 +225,7 @@ export type Database = {
           note: string | null
           status: string
           user_id: string
+          usdt_rate: number | null
           year: number
         }
         Insert: {
@@ -122,6 +237,7 @@ export type Database = {
           note?: string | null
           status?: string
           user_id: string
+          usdt_rate?: number | null
           year: number
         }
         Update: {
@@ -133,6 +249,7 @@ export type Database = {
           note?: string | null
           status?: string
           user_id?: string
+          usdt_rate?: number | null
           year?: number
         }
         Relationships: [
@@ -145,10 +262,32 @@ export type Database = {
           },
         ]
       }
+      member_portal_tokens: {
+        Row: {
+          created_at: string
+          email: string
+          member_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          member_id: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          member_id?: string
+          token?: string
+        }
+        Relationships: []
+      }
       members: {
         Row: {
           active_team_id: string | null
           created_at: string
+          deleted_at: string | null
           e_pass: string | null
           email: string
           g_pass: string | null
@@ -159,6 +298,7 @@ export type Database = {
           join_date: string
           otp_secret: string | null
           paid_amount: number | null
+          paid_usdt_rate: number | null
           password: string | null
           pending_amount: number | null
           phone: string
@@ -169,11 +309,14 @@ export type Database = {
           two_fa: string | null
           twofa: string | null
           twofa_secret: string | null
+          updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
           active_team_id?: string | null
           created_at?: string
+          deleted_at?: string | null
           e_pass?: string | null
           email: string
           g_pass?: string | null
@@ -184,6 +327,7 @@ export type Database = {
           join_date?: string
           otp_secret?: string | null
           paid_amount?: number | null
+          paid_usdt_rate?: number | null
           password?: string | null
           pending_amount?: number | null
           phone?: string
@@ -194,11 +338,14 @@ export type Database = {
           two_fa?: string | null
           twofa?: string | null
           twofa_secret?: string | null
+          updated_at?: string
           user_id: string
+          version?: number
         }
         Update: {
           active_team_id?: string | null
           created_at?: string
+          deleted_at?: string | null
           e_pass?: string | null
           email?: string
           g_pass?: string | null
@@ -209,6 +356,7 @@ export type Database = {
           join_date?: string
           otp_secret?: string | null
           paid_amount?: number | null
+          paid_usdt_rate?: number | null
           password?: string | null
           pending_amount?: number | null
           phone?: string
@@ -219,7 +367,9 @@ export type Database = {
           two_fa?: string | null
           twofa?: string | null
           twofa_secret?: string | null
+          updated_at?: string
           user_id?: string
+          version?: number
         }
         Relationships: [
           {
@@ -231,6 +381,172 @@ export type Database = {
           },
         ]
       }
+      payment_ledger: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          cycle_end: string | null
+          cycle_start: string | null
+          id: string
+          invoice_number: number | null
+          member_id: string
+          method: string | null
+          note: string | null
+          paid_at: string
+          team_id: string
+          usdt_rate: number | null
+          user_id: string
+        }
+        Insert: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          cycle_end?: string | null
+          cycle_start?: string | null
+          id?: string
+          invoice_number?: number | null
+          member_id: string
+          method?: string | null
+          note?: string | null
+          paid_at?: string
+          team_id: string
+          usdt_rate?: number | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          cycle_end?: string | null
+          cycle_start?: string | null
+          id?: string
+          invoice_number?: number | null
+          member_id?: string
+          method?: string | null
+          note?: string | null
+          paid_at?: string
+          team_id?: string
+          usdt_rate?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_ledger_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_submissions: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          ledger_entry_id: string | null
+          member_id: string
+          method: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          screenshot_path: string | null
+          status: string
+          transaction_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency: string
+          id?: string
+          ledger_entry_id?: string | null
+          member_id: string
+          method: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          screenshot_path?: string | null
+          status?: string
+          transaction_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          ledger_entry_id?: string | null
+          member_id?: string
+          method?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          screenshot_path?: string | null
+          status?: string
+          transaction_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_submissions_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "members"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscription_products: {
+        Row: {
+          billing_calendar_month: boolean
+          billing_cycle_days: number
+          color: string
+          created_at: string
+          default_price: number | null
+          default_seats: number | null
+          icon_url: string | null
+          id: string
+          key: string
+          name: string
+          plan_name: string | null
+          sort_order: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          billing_calendar_month?: boolean
+          billing_cycle_days?: number
+          color?: string
+          created_at?: string
+          default_price?: number | null
+          default_seats?: number | null
+          icon_url?: string | null
+          id?: string
+          key: string
+          name: string
+          plan_name?: string | null
+          sort_order?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          billing_calendar_month?: boolean
+          billing_cycle_days?: number
+          color?: string
+          created_at?: string
+          default_price?: number | null
+          default_seats?: number | null
+          icon_url?: string | null
+          id?: string
+          key?: string
+          name?: string
+          plan_name?: string | null
+          sort_order?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       suppressed_emails: {
         Row: {
           created_at: string
@@ -258,36 +574,169 @@ export type Database = {
       teams: {
         Row: {
           admin_email: string
+          billing_calendar_month: boolean
+          billing_cycle_days: number
           created_at: string
+          deleted_at: string | null
           id: string
           is_plus: boolean | null
           is_yearly: boolean | null
           last_backup: string | null
           logo: string | null
+          seat_limit: number | null
           team_name: string
+          updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
           admin_email?: string
+          billing_calendar_month?: boolean
+          billing_cycle_days?: number
           created_at?: string
+          deleted_at?: string | null
           id?: string
           is_plus?: boolean | null
           is_yearly?: boolean | null
           last_backup?: string | null
           logo?: string | null
+          seat_limit?: number | null
           team_name: string
+          updated_at?: string
           user_id: string
+          version?: number
         }
         Update: {
           admin_email?: string
+          billing_calendar_month?: boolean
+          billing_cycle_days?: number
           created_at?: string
+          deleted_at?: string | null
           id?: string
           is_plus?: boolean | null
           is_yearly?: boolean | null
           last_backup?: string | null
           logo?: string | null
+          seat_limit?: number | null
           team_name?: string
+          updated_at?: string
           user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      usdt_rates: {
+        Row: {
+          created_at: string
+          effective_date: string
+          id: string
+          rate: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          effective_date?: string
+          id?: string
+          rate: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          effective_date?: string
+          id?: string
+          rate?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      workspace_invites: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          role: string
+          token: string
+          workspace_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          role: string
+          token?: string
+          workspace_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          role?: string
+          token?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_invites_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["owner_id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          email: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["owner_id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          name: string
+          owner_id: string
+        }
+        Insert: {
+          created_at?: string
+          name: string
+          owner_id: string
+        }
+        Update: {
+          created_at?: string
+          name?: string
+          owner_id?: string
         }
         Relationships: []
       }
@@ -296,6 +745,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_workspace_invite: {
+        Args: { p_token: string }
+        Returns: string
+      }
       delete_email: {
         Args: { message_id: number; queue_name: string }
         Returns: boolean
@@ -321,6 +774,14 @@ export type Database = {
           read_ct: number
         }[]
       }
+      workspace_members_redacted: {
+        Args: { p_workspace_id: string }
+        Returns: Json[]
+      }
+      workspace_role: {
+        Args: { p_workspace_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,55 @@
+// Device-level app lock: a PIN (with an optional platform biometric) that
+// hides the app on launch, after idling and when it goes to the background.
+// Unlike the credential vault it encrypts nothing; it keeps a shared phone
+// from showing customer data to whoever picks it up.
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+const PIN_PBKDF2_ITERATIONS = 100_000;
+
+// Wrong PINs in a row before unlocking pauses, and for how long
+export const MAX_PIN_ATTEMPTS = 5;
+export const PIN_LOCKOUT_MS = 30_000;
+
+// Minutes without interaction before the app locks; 0 only locks on launch/background
+export const DEFAULT_APP_LOCK_IDLE_MINUTES = 2;
+export const APP_LOCK_IDLE_OPTIONS = [1, 2, 5, 15, 0];
+
+// Copying a credential asks to unlock again once this has passed since the last unlock
+export const RECENT_UNLOCK_MS = 2 * 60_000;
+
+export interface AppLockConfig {
+  pinHash: string; // base64
+  salt: string; // base64
+  iterations: number;
+  // WebAuthn platform credential (fingerprint / face), base64 raw id
+  biometricCredentialId?: string;
+  idleMinutes: number;
+}
+
+export const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+export const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+export const isValidPin = (pin: string): boolean =>
+  new RegExp(`^\\d{${MIN_PIN_LENGTH},${MAX_PIN_LENGTH}}$`).test(pin);
+
+const derivePinHash = async (pin: string, salt: string, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, [
+    'deriveBits',
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    256
+  );
+  return toBase64(new Uint8Array(bits));
+};
+
+export const hashPin = async (pin: string): Promise<Pick<AppLockConfig, 'pinHash' | 'salt' | 'iterations'>> => {
+  const salt = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  return { salt, iterations: PIN_PBKDF2_ITERATIONS, pinHash: await derivePinHash(pin, salt, PIN_PBKDF2_ITERATIONS) };
+};
+
+export const checkPin = async (pin: string, config: AppLockConfig): Promise<boolean> =>
+  (await derivePinHash(pin, config.salt, config.iterations)) === config.pinHash;
@@ -0,0 +1,39 @@
+import { Team } from '@/types/member';
+import {
+  BillingCycle,
+  resolveBillingCycle,
+  daysUntilCycleEnd,
+  formatLocalDate,
+  getCycleEndDate,
+  startOfLocalDay,
+} from '../../supabase/functions/_shared/billing-cycle.ts';
+
+// Same module the reminder edge functions use, so app indicators and emails agree
+export * from '../../supabase/functions/_shared/billing-cycle.ts';
+
+export const BILLING_CYCLE_PRESETS = [7, 30, 90];
+
+export const getTeamBillingCycle = (team?: Pick<Team, 'billingCycleDays' | 'billingCalendarMonth'>): BillingCycle =>
+  resolveBillingCycle(team?.billingCycleDays, team?.billingCalendarMonth);
+
+/**
+ * Days left in a member's current cycle on their team (negative = overdue)
+ */
+export const getMemberDaysLeft = (
+  member: { joinDate: string },
+  team?: Pick<Team, 'billingCycleDays' | 'billingCalendarMonth'>,
+  today?: Date
+): number => daysUntilCycleEnd(member.joinDate, getTeamBillingCycle(team), today);
+
+export const formatBillingCycle = (cycle: BillingCycle): string =>
+  cycle.calendarMonth ? 'Calendar month' : `${cycle.days} day${cycle.days !== 1 ? 's' : ''}`;
+
+/**
+ * Start of the cycle after the one starting on `start`. Renewals continue
+ * where the current cycle ends; a member whose next cycle would already be
+ * over has lapsed and restarts today.
+ */
+export const getNextCycleStart = (start: string, cycle: BillingCycle, today: Date = startOfLocalDay()): string => {
+  const currentEnd = getCycleEndDate(start, cycle);
+  return getCycleEndDate(currentEnd, cycle) <= today ? formatLocalDate(today) : formatLocalDate(currentEnd);
+};
@@ -0,0 +1,35 @@
+// Kinds of value the copy buttons put on the clipboard. Each kind has its own
+// auto-clear delay; secrets are also gated behind a recent app unlock.
+
+export type CopyFieldType = 'email' | 'phone' | 'telegram' | 'password' | 'pass' | 'twoFA' | 'totpCode';
+
+export const COPY_FIELD_LABELS: Record<CopyFieldType, string> = {
+  email: 'Emails',
+  phone: 'Phones',
+  telegram: 'Telegram',
+  password: 'Passwords',
+  pass: 'E/G-Pass',
+  twoFA: '2FA secrets',
+  totpCode: '2FA codes',
+};
+
+export const COPY_FIELD_TYPES = Object.keys(COPY_FIELD_LABELS) as CopyFieldType[];
+
+const SECRET_FIELD_TYPES: CopyFieldType[] = ['password', 'pass', 'twoFA', 'totpCode'];
+
+export const isSecretFieldType = (type: CopyFieldType): boolean => SECRET_FIELD_TYPES.includes(type);
+
+// Seconds until a copied value is cleared from the clipboard; 0 leaves it
+export type ClipboardClearSettings = Record<CopyFieldType, number>;
+
+export const DEFAULT_CLIPBOARD_CLEAR_SECONDS: ClipboardClearSettings = {
+  email: 0,
+  phone: 0,
+  telegram: 0,
+  password: 30,
+  pass: 30,
+  twoFA: 30,
+  totpCode: 30,
+};
+
+export const CLIPBOARD_CLEAR_OPTIONS = [0, 10, 30, 60, 120];
@@ -0,0 +1,29 @@
+import { LedgerEntry, Team } from '@/types/member';
+import { bdtToUsd } from '@/lib/usdtRate';
+
+export type TeamKind = 'regular' | 'yearly' | 'plus';
+
+export const getTeamKind = (team?: Pick<Team, 'isYearlyTeam' | 'isPlusTeam'>): TeamKind =>
+  team?.isYearlyTeam ? 'yearly' : team?.isPlusTeam ? 'plus' : 'regular';
+
+// Calendar month a payment was received in (month is 0-based, like Date)
+export const getLedgerMonth = (entry: Pick<LedgerEntry, 'paidAt'>): { year: number; month: number } => {
+  const [year, month] = entry.paidAt.split('-').map(Number);
+  return { year, month: month - 1 };
+};
+
+export const isPaidInMonth = (entry: Pick<LedgerEntry, 'paidAt'>, year: number, month: number): boolean => {
+  const paid = getLedgerMonth(entry);
+  return paid.year === year && paid.month === month;
+};
+
+export const sumLedger = (entries: Pick<LedgerEntry, 'amount'>[]): number =>
+  entries.reduce((sum, e) => sum + e.amount, 0);
+
+/**
+ * USD received for a USDT payment, at the rate it was taken at (0 for BDT payments)
+ */
+export const getLedgerEntryUsd = (
+  entry: Pick<LedgerEntry, 'amount' | 'currency' | 'usdtRate' | 'paidAt'>,
+  rateOn: (date: string) => number
+): number => (entry.currency === 'USDT' ? bdtToUsd(entry.amount, entry.usdtRate || rateOn(entry.paidAt)) : 0);
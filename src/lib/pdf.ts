@@ -0,0 +1,123 @@
+// Minimal single-page PDF writer for receipts, so they can be generated
+// offline without a PDF library. Text uses the standard Helvetica fonts, which
+// every viewer has but which only cover Windows-1252 — spell out currency
+// codes (BDT, USD) rather than symbols like ৳.
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfColor = [number, number, number]; // RGB, 0–1
+export type PdfAlign = 'left' | 'right';
+
+// A4 in points
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+// Helvetica / Helvetica-Bold advance widths (1/1000 em) for ASCII 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that Windows-1252 still has
+const WIN_ANSI_EXTRAS: Record<string, number> = { '•': 0x95, '–': 0x96, '—': 0x97, '€': 0x80 };
+
+const toWinAnsi = (text: string): string =>
+  Array.from(text)
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      return code >= 32 && code <= 255 ? char : '?';
+    })
+    .join('');
+
+const escapeText = (text: string): string => toWinAnsi(text).replace(/([\\()])/g, '\\$1');
+
+const num = (n: number): string => String(Math.round(n * 100) / 100);
+
+const color = ([r, g, b]: PdfColor): string => `${num(r)} ${num(g)} ${num(b)}`;
+
+/** Width of a line of text in points, for right-aligning it. */
+export const measureText = (text: string, size: number, font: PdfFont = 'regular'): number => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = Array.from(toWinAnsi(text)).reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH);
+  }, 0);
+  return (units * size) / 1000;
+};
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  align?: PdfAlign;
+}
+
+/**
+ * Drawing surface for one page. Coordinates are in points from the top-left
+ * corner, like the screen; `render` flips them into PDF space.
+ */
+export const createPdfPage = () => {
+  const ops: string[] = [];
+  const flip = (y: number) => PDF_PAGE_HEIGHT - y;
+
+  return {
+    /** `y` is the text baseline; right-aligned text ends at `x`. */
+    text(content: string, x: number, y: number, options: PdfTextOptions = {}) {
+      const { size = 11, font = 'regular', color: fill = [0, 0, 0], align = 'left' } = options;
+      const left = align === 'right' ? x - measureText(content, size, font) : x;
+      ops.push(
+        `BT /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${color(fill)} rg ${num(left)} ${num(flip(y))} Td (${escapeText(content)}) Tj ET`
+      );
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, stroke: PdfColor = [0, 0, 0], width = 1) {
+      ops.push(`${color(stroke)} RG ${num(width)} w ${num(x1)} ${num(flip(y1))} m ${num(x2)} ${num(flip(y2))} l S`);
+    },
+
+    rect(x: number, y: number, width: number, height: number, fill: PdfColor) {
+      ops.push(`${color(fill)} rg ${num(x)} ${num(flip(y + height))} ${num(width)} ${num(height)} re f`);
+    },
+
+    /** The finished document. */
+    render(title?: string): Blob {
+      const content = ops.join('\n');
+      const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+          '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+        `<<${title ? ` /Title (${escapeText(title)})` : ''} >>`,
+      ];
+
+      // Every character is one byte, so string offsets are byte offsets
+      let pdf = '%PDF-1.4\n';
+      const offsets = objects.map((body, i) => {
+        const offset = pdf.length;
+        pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+        return offset;
+      });
+      const xref = pdf.length;
+      pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF`;
+
+      const bytes = new Uint8Array(pdf.length);
+      for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+      return new Blob([bytes], { type: 'application/pdf' });
+    },
+  };
+};
+
+export type PdfPage = ReturnType<typeof createPdfPage>;
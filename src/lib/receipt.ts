@@ -0,0 +1,101 @@
+import { createPdfPage, PDF_PAGE_WIDTH, PdfColor } from '@/lib/pdf';
+
+// Payment receipts, rendered on the device so they work offline. Shared by the
+// app and the public member portal.
+
+export interface ReceiptData {
+  invoiceNumber: number;
+  businessName: string;
+  memberEmail: string;
+  planName: string;
+  paidAt: string; // YYYY-MM-DD
+  periodStart?: string; // YYYY-MM-DD
+  periodEnd?: string; // YYYY-MM-DD
+  amountBdt: number;
+  // Set for USDT payments, with the rate they were converted at
+  amountUsd?: number;
+  usdtRate?: number;
+  method?: string;
+  reference?: string;
+}
+
+const MARGIN = 48;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const BRAND: PdfColor = [0.06, 0.46, 0.43];
+const WHITE: PdfColor = [1, 1, 1];
+const TEXT: PdfColor = [0.12, 0.12, 0.14];
+const MUTED: PdfColor = [0.45, 0.45, 0.5];
+const RULE: PdfColor = [0.86, 0.86, 0.88];
+const PANEL: PdfColor = [0.95, 0.97, 0.97];
+
+export const formatInvoiceNumber = (invoiceNumber: number): string => `INV-${String(invoiceNumber).padStart(5, '0')}`;
+
+export const receiptFileName = (invoiceNumber: number): string => `receipt-${formatInvoiceNumber(invoiceNumber)}.pdf`;
+
+const formatDate = (d: string) =>
+  new Date(`${d}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatBdt = (amount: number) => `BDT ${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+
+const formatUsd = (amount: number) => `USD ${amount.toFixed(2)}`;
+
+export const buildReceiptPdf = (receipt: ReceiptData): Blob => {
+  const page = createPdfPage();
+  const invoice = formatInvoiceNumber(receipt.invoiceNumber);
+
+  page.rect(0, 0, PDF_PAGE_WIDTH, 110, BRAND);
+  page.text(receipt.businessName, MARGIN, 62, { size: 22, font: 'bold', color: WHITE });
+  page.text('RECEIPT', RIGHT, 58, { size: 16, font: 'bold', color: WHITE, align: 'right' });
+  page.text(invoice, RIGHT, 78, { size: 11, color: WHITE, align: 'right' });
+
+  page.text('BILLED TO', MARGIN, 160, { size: 9, font: 'bold', color: MUTED });
+  page.text(receipt.memberEmail, MARGIN, 178, { size: 12, color: TEXT });
+  page.text('DATE PAID', RIGHT, 160, { size: 9, font: 'bold', color: MUTED, align: 'right' });
+  page.text(formatDate(receipt.paidAt), RIGHT, 178, { size: 12, color: TEXT, align: 'right' });
+
+  const rows: [string, string][] = [['Plan', receipt.planName]];
+  if (receipt.periodStart && receipt.periodEnd) {
+    rows.push(['Period covered', `${formatDate(receipt.periodStart)} – ${formatDate(receipt.periodEnd)}`]);
+  }
+  if (receipt.method) rows.push(['Payment method', receipt.method]);
+  if (receipt.reference) rows.push(['Reference', receipt.reference]);
+
+  let y = 230;
+  page.line(MARGIN, y, RIGHT, y, RULE);
+  for (const [label, value] of rows) {
+    page.text(label, MARGIN, y + 20, { size: 11, color: MUTED });
+    page.text(value, RIGHT, y + 20, { size: 11, color: TEXT, align: 'right' });
+    y += 32;
+    page.line(MARGIN, y, RIGHT, y, RULE);
+  }
+
+  y += 24;
+  const isUsdt = receipt.amountUsd !== undefined;
+  page.rect(MARGIN, y, RIGHT - MARGIN, isUsdt ? 76 : 56, PANEL);
+  page.text('Amount paid', MARGIN + 16, y + 34, { size: 12, font: 'bold', color: TEXT });
+  page.text(
+    isUsdt ? formatUsd(receipt.amountUsd!) : formatBdt(receipt.amountBdt),
+    RIGHT - 16,
+    y + 34,
+    { size: 18, font: 'bold', color: BRAND, align: 'right' }
+  );
+  if (isUsdt) {
+    const rate = receipt.usdtRate ? ` at ${receipt.usdtRate} BDT/USD` : '';
+    page.text(`${formatBdt(receipt.amountBdt)}${rate}`, RIGHT - 16, y + 56, { size: 10, color: MUTED, align: 'right' });
+  }
+
+  page.text('Thank you for your payment.', MARGIN, 760, { size: 11, color: TEXT });
+  page.text(`${receipt.businessName} · ${invoice}`, MARGIN, 780, { size: 9, color: MUTED });
+
+  return page.render(`${receipt.businessName} ${invoice}`);
+};
+
+/** Save the receipt through the browser's download flow. */
+export const downloadReceipt = (receipt: ReceiptData): void => {
+  const url = URL.createObjectURL(buildReceiptPdf(receipt));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = receiptFileName(receipt.invoiceNumber);
+  a.click();
+  URL.revokeObjectURL(url);
+};
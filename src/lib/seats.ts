@@ -0,0 +1,14 @@
+import { Team, DEFAULT_SEAT_LIMIT } from '@/types/member';
+
+// Yearly and Plus teams aren't seat-based subscriptions
+export const hasSeatLimit = (team: Pick<Team, 'isYearlyTeam' | 'isPlusTeam'>): boolean =>
+  !team.isYearlyTeam && !team.isPlusTeam;
+
+export const getTeamSeatLimit = (team?: Pick<Team, 'seatLimit'>): number =>
+  team?.seatLimit && team.seatLimit > 0 ? team.seatLimit : DEFAULT_SEAT_LIMIT;
+
+// The admin holds a seat alongside the members
+export const getTeamSeatsUsed = (team: Pick<Team, 'members'>): number => team.members.length + 1;
+
+export const getTeamFreeSeats = (team: Pick<Team, 'members' | 'seatLimit'>): number =>
+  Math.max(0, getTeamSeatLimit(team) - getTeamSeatsUsed(team));
@@ -0,0 +1,118 @@
+// RFC 6238 time-based one-time passwords for member 2FA secrets. The stored
+// value is either a bare base32 secret or a full otpauth:// URI (as encoded in
+// setup QR codes), which can carry its own digits, period and algorithm.
+
+export type TotpAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-512';
+
+export interface TotpParams {
+  secret: Uint8Array;
+  digits: number;
+  period: number; // seconds
+  algorithm: TotpAlgorithm;
+  issuer?: string;
+  account?: string;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+// Shorter strings are more likely a backup code or a note than a real secret
+const MIN_SECRET_CHARS = 16;
+
+const ALGORITHMS: Record<string, TotpAlgorithm> = {
+  SHA1: 'SHA-1',
+  SHA256: 'SHA-256',
+  SHA512: 'SHA-512',
+};
+
+/** Null when the input isn't valid base32. Spaces, dashes and padding are ignored. */
+export const decodeBase32 = (input: string): Uint8Array | null => {
+  const clean = input.toUpperCase().replace(/[\s-]/g, '').replace(/=+$/, '');
+  if (!clean || /[^A-Z2-7]/.test(clean)) return null;
+
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    buffer = (buffer << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const parseOtpauthUri = (value: string): TotpParams | null => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  // HOTP (counter-based) codes can't be shown without tracking the counter
+  if (url.protocol !== 'otpauth:' || url.host.toLowerCase() !== 'totp') return null;
+
+  const secret = decodeBase32(url.searchParams.get('secret') || '');
+  if (!secret) return null;
+
+  const digits = Number(url.searchParams.get('digits') || 6);
+  const period = Number(url.searchParams.get('period') || 30);
+  const algorithm = ALGORITHMS[(url.searchParams.get('algorithm') || 'SHA1').toUpperCase()];
+  if (!algorithm || !Number.isInteger(digits) || digits < 6 || digits > 10 || !(period > 0)) return null;
+
+  // Label is "Issuer:account" or just "account"
+  const label = decodeURIComponent(url.pathname.replace(/^\/+/, ''));
+  const [labelIssuer, account] = label.includes(':') ? label.split(/:(.*)/s) : [undefined, label];
+
+  return {
+    secret,
+    digits,
+    period,
+    algorithm,
+    issuer: url.searchParams.get('issuer') || labelIssuer || undefined,
+    account: account?.trim() || undefined,
+  };
+};
+
+/** Parse a stored 2FA value; null when it isn't a usable TOTP secret. */
+export const parseTotpSecret = (value?: string | null): TotpParams | null => {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  if (trimmed.toLowerCase().startsWith('otpauth://')) return parseOtpauthUri(trimmed);
+
+  if (trimmed.replace(/[\s-]/g, '').replace(/=+$/, '').length < MIN_SECRET_CHARS) return null;
+  const secret = decodeBase32(trimmed);
+  return secret ? { secret, digits: 6, period: 30, algorithm: 'SHA-1' } : null;
+};
+
+export const isTotpSecret = (value?: string | null): boolean => parseTotpSecret(value) !== null;
+
+export const totpCounter = (params: TotpParams, now = Date.now()): number =>
+  Math.floor(now / 1000 / params.period);
+
+export const totpSecondsRemaining = (params: TotpParams, now = Date.now()): number =>
+  params.period - (Math.floor(now / 1000) % params.period);
+
+export const generateTotp = async (params: TotpParams, now = Date.now()): Promise<string> => {
+  // 8-byte big-endian counter
+  const message = new ArrayBuffer(8);
+  const view = new DataView(message);
+  const counter = totpCounter(params, now);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    params.secret,
+    { name: 'HMAC', hash: params.algorithm },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation (RFC 4226 §5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return String(binary % 10 ** params.digits).padStart(params.digits, '0');
+};
@@ -0,0 +1,25 @@
+import { getMeta, setMeta } from '@/services/offlineDb';
+
+// Days a deleted team or member stays restorable; 0 keeps the trash until purged by hand
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90, 0];
+
+const RETENTION_META_KEY = 'trash_retention_days';
+
+export const getTrashRetentionDays = async (): Promise<number> => {
+  const stored = await getMeta(RETENTION_META_KEY);
+  const days = Number(stored);
+  return stored !== undefined && Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (days: number): Promise<void> => setMeta(RETENTION_META_KEY, String(days));
+
+export const isPastRetention = (deletedAt: string, retentionDays: number, now: Date = new Date()): boolean =>
+  retentionDays > 0 && now.getTime() - new Date(deletedAt).getTime() >= retentionDays * 86_400_000;
+
+// Whole days left before an item is purged automatically (null when kept forever)
+export const daysUntilPurge = (deletedAt: string, retentionDays: number, now: Date = new Date()): number | null =>
+  retentionDays > 0
+    ? Math.max(0, Math.ceil((new Date(deletedAt).getTime() + retentionDays * 86_400_000 - now.getTime()) / 86_400_000))
+    : null;
@@ -0,0 +1,25 @@
+import { toast } from 'sonner';
+import { undo, UndoEntry } from '@/services/undoService';
+
+// How long the Undo button stays on the toast; older actions are still in the undo history
+export const UNDO_TOAST_DURATION_MS = 10_000;
+
+export const runUndo = async (entry: Pick<UndoEntry, 'id' | 'label'>) => {
+  const result = await undo(entry.id);
+  if (result.ok) {
+    toast.success(`Undone: ${entry.label}`);
+  } else {
+    toast.error(result.error || 'Failed to undo');
+  }
+};
+
+export const toastWithUndo = (message: string, entry?: UndoEntry) => {
+  if (!entry) {
+    toast.success(message);
+    return;
+  }
+  toast.success(message, {
+    duration: UNDO_TOAST_DURATION_MS,
+    action: { label: 'Undo', onClick: () => runUndo(entry) },
+  });
+};
@@ -0,0 +1,23 @@
+import { DEFAULT_USDT_RATE, UsdtRate } from '@/types/member';
+import { formatLocalDate } from '@/lib/billingCycle';
+
+/**
+ * Rate in effect on `date` (YYYY-MM-DD): the latest entry dated on or before
+ * it. Dates before the first recorded rate use the old fixed rate.
+ */
+export const getUsdtRateOn = (history: UsdtRate[], date: string = formatLocalDate(new Date())): number => {
+  let match: UsdtRate | undefined;
+  for (const entry of history) {
+    if (entry.effectiveDate > date) continue;
+    if (
+      !match ||
+      entry.effectiveDate > match.effectiveDate ||
+      (entry.effectiveDate === match.effectiveDate && entry.createdAt > match.createdAt)
+    ) {
+      match = entry;
+    }
+  }
+  return match?.rate || DEFAULT_USDT_RATE;
+};
+
+export const bdtToUsd = (amount: number, rate: number): number => amount / (rate || DEFAULT_USDT_RATE);
@@ -0,0 +1,88 @@
+// Client-side encryption for member credentials. Values are sealed with
+// AES-GCM under a key derived (PBKDF2-SHA256) from the user's master
+// passphrase; only the ciphertext is ever written to IndexedDB or synced.
+
+// Member columns that hold credentials (DB field names)
+export const CREDENTIAL_FIELDS = ['twofa_secret', 'password', 'e_pass', 'g_pass'] as const;
+export type CredentialField = (typeof CREDENTIAL_FIELDS)[number];
+
+export const isCredentialField = (field: string): field is CredentialField =>
+  (CREDENTIAL_FIELDS as readonly string[]).includes(field);
+
+export const VAULT_PBKDF2_ITERATIONS = 310_000;
+
+const CIPHERTEXT_PREFIX = 'enc:v1:';
+// Encrypted under the vault key to check a passphrase without touching member data
+const VERIFIER_PLAINTEXT = 'elite-notepad-vault';
+
+// Minutes without interaction before the vault locks; 0 never locks
+export const DEFAULT_VAULT_AUTO_LOCK_MINUTES = 5;
+export const VAULT_AUTO_LOCK_OPTIONS = [1, 5, 15, 30, 0];
+
+export interface VaultConfig {
+  salt: string; // base64
+  iterations: number;
+  verifier: string;
+  updatedAt: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(CIPHERTEXT_PREFIX);
+
+export const generateVaultSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+export const deriveVaultKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// enc:v1:<iv>:<ciphertext>, both base64; a fresh IV per value
+export const encryptValue = async (key: CryptoKey, plaintext: string): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${CIPHERTEXT_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(sealed))}`;
+};
+
+/** Throws when the value was sealed under a different key or was tampered with. */
+export const decryptValue = async (key: CryptoKey, value: string): Promise<string> => {
+  const [iv, sealed] = value.slice(CIPHERTEXT_PREFIX.length).split(':');
+  const opened = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(sealed));
+  return new TextDecoder().decode(opened);
+};
+
+export const createVaultVerifier = (key: CryptoKey): Promise<string> => encryptValue(key, VERIFIER_PLAINTEXT);
+
+export const checkVaultKey = async (key: CryptoKey, verifier: string): Promise<boolean> => {
+  try {
+    return (await decryptValue(key, verifier)) === VERIFIER_PLAINTEXT;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Plaintext for display. Ciphertext stays hidden (undefined) while the vault
+ * is locked or when it can't be opened with the current key.
+ */
+export const revealValue = async (key: CryptoKey | null, value?: string | null): Promise<string | undefined> => {
+  if (!value) return undefined;
+  if (!isEncrypted(value)) return value;
+  if (!key) return undefined;
+  try {
+    return await decryptValue(key, value);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Loader2, Users } from 'lucide-react';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { toast } from 'sonner';
+
+export default function AcceptInvite() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+  const { acceptInvite } = useWorkspace();
+  const [error, setError] = useState<string | null>(token ? null : 'Invalid invite link.');
+  // Accept once, even if the context re-renders mid-request
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (!token || startedRef.current) return;
+    startedRef.current = true;
+    acceptInvite(token).then((result) => {
+      if (!result.ok) {
+        setError(result.error || 'Failed to accept the invite.');
+        return;
+      }
+      toast.success('You joined the workspace');
+      navigate('/', { replace: true });
+    });
+  }, [token, acceptInvite, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background px-4">
+      <div className="max-w-md w-full text-center space-y-6">
+        <div className="mx-auto w-12 h-12 rounded-2xl bg-primary/10 flex items-center justify-center">
+          <Users className="w-6 h-6 text-primary" />
+        </div>
+        <h1 className="text-2xl font-bold text-foreground">Workspace invite</h1>
+
+        {error ? (
+          <div className="space-y-4">
+            <p className="text-destructive">{error}</p>
+            <button
+              onClick={() => navigate('/', { replace: true })}
+              className="px-6 py-3 rounded-xl bg-secondary text-foreground font-semibold hover:bg-secondary/80 transition-colors"
+            >
+              Go to my workspace
+            </button>
+          </div>
+        ) : (
+          <p className="flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Joining…
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
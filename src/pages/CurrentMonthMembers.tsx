@@ -1,11 +1,11 @@
-import { useEffect, useState } from 'react';
+import { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Users, Calendar, Mail, Phone, Crown, CheckCircle, Wallet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/lib/supabase';
-import { useAuth } from '@/contexts/AuthContext';
+import { useSupabaseData } from '@/hooks/useSupabaseData';
+import { isPaidInMonth } from '@/lib/ledger';
 
 interface MemberWithTeam {
   id: string;
@@ -21,152 +21,42 @@ interface MemberWithTeam {
 
 export default function CurrentMonthMembers() {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const [members, setMembers] = useState<MemberWithTeam[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { sortedTeams, ledger, isLoaded } = useSupabaseData();
+  const loading = !isLoaded;
 
   const currentMonth = new Date().getMonth();
   const currentYear = new Date().getFullYear();
   const currentMonthName = new Date().toLocaleDateString('bn-BD', { month: 'long', year: 'numeric' });
 
-  useEffect(() => {
-    const fetchPaidMembers = async () => {
-      if (!user) return;
-
-      try {
-        // Fetch all teams
-        const { data: teamsData, error: teamsError } = await supabase
-          .from('teams')
-          .select('id, team_name, is_yearly, is_plus')
-          .eq('user_id', user.id);
-
-        if (teamsError) throw teamsError;
-
-        // Fetch all members with paid_amount > 0 from normal teams (current month by join_date)
-        const { data: membersData, error: membersError } = await supabase
-          .from('members')
-          .select('id, email, phone, join_date, team_id, paid_amount')
-          .eq('user_id', user.id);
-
-        if (membersError) throw membersError;
-
-        // Get yearly and plus team IDs
-        const yearlyTeamIds = (teamsData || []).filter(t => t.is_yearly).map(t => t.id);
-        const plusTeamIds = (teamsData || []).filter(t => t.is_plus).map(t => t.id);
-        const normalTeamIds = (teamsData || []).filter(t => !t.is_yearly && !t.is_plus).map(t => t.id);
-
-        // Filter normal team members who paid in current month
-        const paidMembers: MemberWithTeam[] = [];
-
-        (membersData || []).forEach(member => {
-          const joinDate = new Date(member.join_date);
-          const memberMonth = joinDate.getMonth();
-          const memberYear = joinDate.getFullYear();
-
-          // Normal team members: check if paid_amount > 0 and join_date is current month
-          if (normalTeamIds.includes(member.team_id) && 
-              memberMonth === currentMonth && 
-              memberYear === currentYear && 
-              member.paid_amount > 0) {
-            const team = teamsData?.find(t => t.id === member.team_id);
-            if (team) {
-              paidMembers.push({
-                id: member.id,
-                email: member.email,
-                phone: member.phone,
-                joinDate: member.join_date,
-                teamId: team.id,
-                teamName: team.team_name,
-                isYearlyTeam: false,
-                isPlusTeam: false,
-                paidAmount: member.paid_amount,
-              });
-            }
-          }
-
-          // Plus team members: check if paid_amount > 0 and join_date is current month
-          if (plusTeamIds.includes(member.team_id) && 
-              memberMonth === currentMonth && 
-              memberYear === currentYear && 
-              member.paid_amount > 0) {
-            const team = teamsData?.find(t => t.id === member.team_id);
-            if (team) {
-              paidMembers.push({
-                id: member.id,
-                email: member.email,
-                phone: member.phone,
-                joinDate: member.join_date,
-                teamId: team.id,
-                teamName: team.team_name,
-                isYearlyTeam: false,
-                isPlusTeam: true,
-                paidAmount: member.paid_amount,
-              });
-            }
-          }
+  const members = useMemo(() => {
+    // Everything received this month, per member, from the payment ledger
+    const paidThisMonth = new Map<string, number>();
+    ledger
+      .filter(p => isPaidInMonth(p, currentYear, currentMonth))
+      .forEach(p => paidThisMonth.set(p.memberId, (paidThisMonth.get(p.memberId) || 0) + p.amount));
+
+    const paidMembers: MemberWithTeam[] = [];
+    sortedTeams.forEach(team => {
+      team.members.forEach(member => {
+        const paid = paidThisMonth.get(member.id) || 0;
+        if (paid <= 0) return;
+        paidMembers.push({
+          id: member.id,
+          email: member.email,
+          phone: member.phone,
+          joinDate: member.joinDate,
+          teamId: team.id,
+          teamName: team.teamName,
+          isYearlyTeam: team.isYearlyTeam || false,
+          isPlusTeam: team.isPlusTeam || false,
+          paidAmount: paid,
         });
+      });
+    });
 
-        // For yearly team members, check member_payments table for current month paid entries
-        if (yearlyTeamIds.length > 0) {
-          const yearlyMemberIds = (membersData || [])
-            .filter(m => yearlyTeamIds.includes(m.team_id))
-            .map(m => m.id);
-
-          if (yearlyMemberIds.length > 0) {
-            const currentMonthInt = currentMonth + 1; // Convert 0-based to 1-based for DB
-
-            const { data: paymentsData, error: paymentsError } = await supabase
-              .from('member_payments')
-              .select('member_id, amount, month, year')
-              .eq('user_id', user.id)
-              .in('member_id', yearlyMemberIds)
-              .eq('status', 'paid')
-              .eq('month', currentMonthInt)
-              .eq('year', currentYear);
-
-            if (!paymentsError && paymentsData) {
-              // Group payments by member
-              const memberPayments: Record<string, number> = {};
-              paymentsData.forEach(p => {
-                memberPayments[p.member_id] = (memberPayments[p.member_id] || 0) + p.amount;
-              });
-
-              // Add yearly members who paid this month
-              Object.keys(memberPayments).forEach(memberId => {
-                const member = membersData?.find(m => m.id === memberId);
-                if (member) {
-                  const team = teamsData?.find(t => t.id === member.team_id);
-                  if (team) {
-                    paidMembers.push({
-                      id: member.id,
-                      email: member.email,
-                      phone: member.phone,
-                      joinDate: member.join_date,
-                      teamId: team.id,
-                      teamName: team.team_name,
-                      isYearlyTeam: true,
-                      paidAmount: memberPayments[memberId],
-                    });
-                  }
-                }
-              });
-            }
-          }
-        }
-
-        // Sort by paid amount (highest first)
-        paidMembers.sort((a, b) => (b.paidAmount || 0) - (a.paidAmount || 0));
-
-        setMembers(paidMembers);
-      } catch (error) {
-        console.error('Error fetching paid members:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchPaidMembers();
-  }, [user, currentMonth, currentYear]);
+    // Sort by paid amount (highest first)
+    return paidMembers.sort((a, b) => (b.paidAmount || 0) - (a.paidAmount || 0));
+  }, [sortedTeams, ledger, currentMonth, currentYear]);
 
   const handleMemberClick = (member: MemberWithTeam) => {
     if (member.isYearlyTeam) {
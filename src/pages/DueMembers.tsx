@@ -1,11 +1,9 @@
-import { useEffect, useState } from 'react';
+import { useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
 import { Member } from '@/types/member';
 import { SubscriptionBadges } from '@/components/SubscriptionBadges';
 
@@ -21,85 +19,34 @@ interface DueMember extends Member {
 
 const DueMembers = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const { sortedTeams, isLoaded } = useSupabaseData();
-  const [yearlyDueMembers, setYearlyDueMembers] = useState<DueMember[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  // Fetch yearly team members with due amounts
-  useEffect(() => {
-    const fetchYearlyMembersDue = async () => {
-      if (!user || !isLoaded) return;
-
-      const yearlyTeams = sortedTeams.filter(team => team.isYearlyTeam);
-      const yearlyMembers = yearlyTeams.flatMap(team => 
-        team.members.map(m => ({ ...m, teamName: team.teamName, teamId: team.id }))
-      );
-
-      if (yearlyMembers.length === 0) {
-        setYearlyDueMembers([]);
-        setLoading(false);
-        return;
-      }
-
-      const memberIds = yearlyMembers.map(m => m.id);
-
-      // Fetch payments and member total_amounts in parallel
-      const [paymentsResult, membersResult] = await Promise.all([
-        supabase
-          .from('member_payments')
-          .select('member_id, amount, status')
-          .eq('user_id', user.id)
-          .in('member_id', memberIds)
-          .eq('status', 'paid'),
-        supabase
-          .from('members')
-          .select('id, total_amount')
-          .in('id', memberIds)
-      ]);
-
-      if (paymentsResult.error || membersResult.error) {
-        console.error('Error fetching data:', paymentsResult.error || membersResult.error);
-        setLoading(false);
-        return;
-      }
-
-      // Create maps
-      const memberTotalAmounts: Record<string, number> = {};
-      (membersResult.data || []).forEach(member => {
-        memberTotalAmounts[member.id] = member.total_amount || 0;
-      });
-
-      const paidSummaries: Record<string, number> = {};
-      (paymentsResult.data || []).forEach(payment => {
-        if (!paidSummaries[payment.member_id]) {
-          paidSummaries[payment.member_id] = 0;
-        }
-        paidSummaries[payment.member_id] += payment.amount;
-      });
-
-      // Calculate due members
-      const dueMembers: DueMember[] = yearlyMembers
-        .map(member => {
-          const totalAmount = memberTotalAmounts[member.id] || 0;
+  const { sortedTeams, ledger, isLoaded } = useSupabaseData();
+
+  // Yearly team members with due amounts (total amount - payment ledger)
+  const yearlyDueMembers: DueMember[] = useMemo(() => {
+    const paidSummaries: Record<string, number> = {};
+    ledger.forEach(payment => {
+      paidSummaries[payment.memberId] = (paidSummaries[payment.memberId] || 0) + payment.amount;
+    });
+
+    return sortedTeams
+      .filter(team => team.isYearlyTeam)
+      .flatMap(team =>
+        team.members.map(member => {
+          const totalAmount = member.totalAmount || 0;
           const totalPaid = paidSummaries[member.id] || 0;
-          const dueAmount = Math.max(0, totalAmount - totalPaid);
           return {
             ...member,
+            teamName: team.teamName,
+            teamId: team.id,
             isYearly: true,
             totalAmount,
             totalPaid,
-            dueAmount,
+            dueAmount: Math.max(0, totalAmount - totalPaid),
           };
         })
-        .filter(member => member.dueAmount > 0);
-
-      setYearlyDueMembers(dueMembers);
-      setLoading(false);
-    };
-
-    fetchYearlyMembersDue();
-  }, [user, sortedTeams, isLoaded]);
+      )
+      .filter(member => member.dueAmount > 0);
+  }, [sortedTeams, ledger]);
 
   // Get regular team members with pending amounts (excluding plus and yearly teams)
   const regularDueMembers: DueMember[] = sortedTeams
@@ -133,6 +80,15 @@ const DueMembers = () => {
         }))
     );
 
+  // Most recent payment per member, from the ledger (newest first)
+  const lastPaidAt = useMemo(() => {
+    const map = new Map<string, string>();
+    ledger.forEach(payment => {
+      if (!map.has(payment.memberId)) map.set(payment.memberId, payment.paidAt);
+    });
+    return map;
+  }, [ledger]);
+
   // Combine all due members
   const allDueMembers = [...yearlyDueMembers, ...regularDueMembers, ...plusDueMembers];
   const totalDue = allDueMembers.reduce((sum, m) => sum + m.dueAmount, 0);
@@ -146,6 +102,9 @@ const DueMembers = () => {
     }).format(amount);
   };
 
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' });
+
   const handleNavigateToMember = (member: DueMember) => {
     if (member.isYearly) {
       navigate(`/yearly-team/${member.teamId}`, { state: { highlightMemberId: member.id } });
@@ -156,7 +115,7 @@ const DueMembers = () => {
     }
   };
 
-  if (loading && !isLoaded) {
+  if (!isLoaded) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="w-8 h-8 rounded-full border-2 border-primary border-t-transparent animate-spin" />
@@ -230,6 +189,9 @@ const DueMembers = () => {
                       <SubscriptionBadges subscriptions={member.subscriptions || []} />
                     </div>
                     <p className="text-sm text-muted-foreground">{member.phone}</p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {lastPaidAt.has(member.id) ? `Last paid ${formatDate(lastPaidAt.get(member.id)!)}` : 'No payments recorded'}
+                    </p>
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
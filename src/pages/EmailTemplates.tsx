@@ -0,0 +1,316 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2, RotateCcw, Save, WifiOff } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { isOnline } from '@/services/syncService';
+import {
+  deleteTemplateOverride,
+  loadTemplateOverrides,
+  previewTemplate,
+  saveTemplateOverride,
+} from '@/services/emailTemplateService';
+import {
+  EDITABLE_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_LANGS,
+  EMAIL_TEMPLATE_VARIABLES,
+  EmailPreview,
+  EmailTemplateLang,
+  EmailTemplateOverride,
+} from '@/types/emailTemplate';
+
+const PREVIEW_DEBOUNCE_MS = 600;
+
+// Rewrite the workspace's member emails, with a live preview of the result
+const EmailTemplates = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { workspaceId, canEdit } = useWorkspace();
+  const [overrides, setOverrides] = useState<EmailTemplateOverride[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [templateName, setTemplateName] = useState(EDITABLE_EMAIL_TEMPLATES[0].name);
+  const [lang, setLang] = useState<EmailTemplateLang>('bn');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [busy, setBusy] = useState<'save' | 'reset' | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const previewRequestRef = useRef(0);
+
+  const online = isOnline();
+  const override = overrides.find((o) => o.templateName === templateName && o.lang === lang);
+  const hasDraft = subject.trim() !== '' || body.trim() !== '';
+
+  useEffect(() => {
+    if (!workspaceId || !online) {
+      setIsLoading(false);
+      return;
+    }
+    loadTemplateOverrides(workspaceId)
+      .then(setOverrides)
+      .catch((e) => {
+        console.error('[Email] Failed to load email templates:', e);
+        toast.error('Failed to load email templates');
+      })
+      .finally(() => setIsLoading(false));
+  }, [workspaceId, online]);
+
+  // Switching template or language starts from what's saved for it
+  useEffect(() => {
+    setSubject(override?.subject ?? '');
+    setBody(override?.body ?? '');
+  }, [templateName, lang, override]);
+
+  // Re-render the preview once typing pauses; an empty draft previews the built-in
+  useEffect(() => {
+    if (!online) return;
+    const request = ++previewRequestRef.current;
+    const timer = setTimeout(async () => {
+      setIsPreviewing(true);
+      try {
+        const result = await previewTemplate(templateName, lang, hasDraft ? { subject, body } : undefined);
+        if (request === previewRequestRef.current) setPreview(result);
+      } catch (e) {
+        console.error('[Email] Preview failed:', e);
+      } finally {
+        if (request === previewRequestRef.current) setIsPreviewing(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [templateName, lang, subject, body, hasDraft, online]);
+
+  const insertVariable = useCallback((name: string) => {
+    const placeholder = `{{${name}}}`;
+    const textarea = bodyRef.current;
+    if (!textarea) {
+      setBody((prev) => prev + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd, value } = textarea;
+    setBody(value.slice(0, selectionStart) + placeholder + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  }, []);
+
+  const handleSave = async () => {
+    if (!workspaceId || !user) return;
+    if (!subject.trim() || !body.trim()) {
+      toast.error('Add both a subject and a body');
+      return;
+    }
+    setBusy('save');
+    try {
+      const saved = await saveTemplateOverride(workspaceId, user.id, templateName, lang, {
+        subject: subject.trim(),
+        body: body.trim(),
+      });
+      setOverrides((prev) => [...prev.filter((o) => o.id !== saved.id), saved]);
+      toast.success('Template saved');
+    } catch (e) {
+      console.error('[Email] Failed to save email template:', e);
+      toast.error('Failed to save the template');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!override) return;
+    setBusy('reset');
+    try {
+      await deleteTemplateOverride(override.id);
+      setOverrides((prev) => prev.filter((o) => o.id !== override.id));
+      toast.success('Using the built-in template again');
+    } catch (e) {
+      console.error('[Email] Failed to reset email template:', e);
+      toast.error('Failed to reset the template');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 rounded-full border-2 border-primary border-t-transparent animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-8">
+      <motion.header
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass-card sticky top-0 z-50 px-4 py-4"
+        style={{ paddingTop: 'max(1rem, env(safe-area-inset-top))' }}
+      >
+        <div className="container mx-auto flex items-center justify-between">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back</span>
+          </button>
+          <h1 className="font-display text-lg font-bold">Email templates</h1>
+          <div className="w-16" />
+        </div>
+      </motion.header>
+
+      <main className="container mx-auto px-4 py-6 space-y-4">
+        {!online ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="glass-card rounded-2xl p-8 text-center space-y-3"
+          >
+            <WifiOff className="w-12 h-12 text-muted-foreground mx-auto" />
+            <h3 className="text-lg font-semibold">You're offline</h3>
+            <p className="text-sm text-muted-foreground">Connect to the internet to edit email templates</p>
+          </motion.div>
+        ) : (
+          <>
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {EDITABLE_EMAIL_TEMPLATES.map((t) => {
+                const customized = overrides.some((o) => o.templateName === t.name);
+                return (
+                  <button
+                    key={t.name}
+                    onClick={() => setTemplateName(t.name)}
+                    className={`shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                      templateName === t.name
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-muted-foreground hover:text-foreground'
+                    }`}
+                  >
+                    {t.label}
+                    {customized && <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" />}
+                  </button>
+                );
+              })}
+            </div>
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="glass-card rounded-2xl p-4 space-y-4"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-1 p-1 rounded-lg bg-secondary">
+                  {EMAIL_TEMPLATE_LANGS.map((l) => (
+                    <button
+                      key={l.value}
+                      onClick={() => setLang(l.value)}
+                      className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${
+                        lang === l.value ? 'bg-background text-foreground' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {l.label}
+                    </button>
+                  ))}
+                </div>
+                <span className={`text-xs ${override ? 'text-emerald-500' : 'text-muted-foreground'}`}>
+                  {override ? 'Customized' : 'Using built-in'}
+                </span>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-subject">Subject</Label>
+                <Input
+                  id="template-subject"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  placeholder={!hasDraft && preview ? preview.subject : 'Subject'}
+                  maxLength={200}
+                  disabled={!canEdit}
+                  className="bg-input border-border"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-body">Body</Label>
+                <Textarea
+                  id="template-body"
+                  ref={bodyRef}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  placeholder="Leave empty to keep the built-in email. Blank lines start a new paragraph."
+                  maxLength={5000}
+                  rows={8}
+                  disabled={!canEdit}
+                  className="bg-input border-border"
+                />
+                <div className="flex flex-wrap gap-1.5">
+                  {EMAIL_TEMPLATE_VARIABLES.map((name) => (
+                    <button
+                      key={name}
+                      onClick={() => insertVariable(name)}
+                      disabled={!canEdit}
+                      className="px-2 py-0.5 rounded-md bg-secondary text-xs font-mono text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50"
+                    >
+                      {`{{${name}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {canEdit && (
+                <div className="flex gap-3">
+                  {override && (
+                    <button
+                      onClick={handleReset}
+                      disabled={busy !== null}
+                      className="flex-1 py-2.5 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                      {busy === 'reset' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      Use built-in
+                    </button>
+                  )}
+                  <button
+                    onClick={handleSave}
+                    disabled={busy !== null || !hasDraft}
+                    className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-white text-sm font-medium hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+                  >
+                    {busy === 'save' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Save
+                  </button>
+                </div>
+              )}
+            </motion.div>
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.1 }}
+              className="glass-card rounded-2xl p-4 space-y-3"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium truncate">{preview?.subject || 'Preview'}</p>
+                {isPreviewing && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground shrink-0" />}
+              </div>
+              {/* Sandboxed: the preview is rendered HTML and never needs to run anything */}
+              <iframe
+                title="Email preview"
+                sandbox=""
+                srcDoc={preview?.html || ''}
+                className="w-full h-[32rem] rounded-xl bg-white"
+              />
+              <p className="text-xs text-muted-foreground">Shown with sample member details</p>
+            </motion.div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default EmailTemplates;
@@ -1,17 +1,24 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { FileText, User } from 'lucide-react';
+import { FileText, User, GitCompare, ChevronRight, Inbox } from 'lucide-react';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
 import { useNotepads } from '@/hooks/useNotepads';
+import { usePaymentSubmissions } from '@/hooks/usePaymentSubmissions';
 import { useNotificationScheduler } from '@/hooks/useNotificationScheduler';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
 import { SubscriptionType } from '@/types/member';
 import { AppHeader } from '@/components/AppHeader';
 import { SettingsModal } from '@/components/SettingsModal';
+import { SubscriptionProductsModal } from '@/components/SubscriptionProductsModal';
+import { UndoHistoryModal } from '@/components/UndoHistoryModal';
 import { TeamList } from '@/components/TeamList';
 import { GlobalSearch } from '@/components/GlobalSearch';
 import { NotepadSection } from '@/components/NotepadSection';
 import { EarningsDashboard } from '@/components/EarningsDashboard';
+import { ImportPreviewModal } from '@/components/ImportPreviewModal';
+import { SyncConflictsModal } from '@/components/SyncConflictsModal';
+import { buildLocalBackup, ImportMode, ImportPreview } from '@/services/backupService';
 import { toast } from 'sonner';
 
 const Index = () => {
@@ -19,13 +26,18 @@ const Index = () => {
   const {
     activeTeam,
     sortedTeams,
+    memberPayments,
+    ledger,
+    syncConflicts,
     isLoaded,
     setActiveTeam,
     createNewTeam,
     deleteTeam,
     updateTeamLogo,
     exportData,
-    importData,
+    previewImport,
+    applyImport,
+    resolveSyncConflict,
     searchMembers
   } = useSupabaseData();
 
@@ -35,61 +47,102 @@ const Index = () => {
     setActiveNotepadId,
     createNotepad,
     updateNotepad,
-    deleteNotepad
+    deleteNotepad,
+    deleteNotepads,
+    refetch: refetchNotepads
   } = useNotepads();
 
+  const { workspaceId, isOwner, canViewCredentials } = useWorkspace();
+  const { submissions: paymentSubmissions } = usePaymentSubmissions();
+
   // Initialize local push notifications for member expiry alerts (native only)
   useNotificationScheduler(sortedTeams, isLoaded);
 
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [showNotepads, setShowNotepads] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showProducts, setShowProducts] = useState(false);
+  const [showUndoHistory, setShowUndoHistory] = useState(false);
+
+  const openImportPreview = async (json: string) => {
+    const result = await previewImport(json);
+    if (result.ok === false) {
+      toast.error(result.error);
+      return;
+    }
+    setIsSettingsOpen(false);
+    setImportPreview(result.preview);
+  };
 
   const handleImport = (json: string) => {
-    const success = importData(json);
-    if (success) {
-      toast.success('Data imported successfully!');
-    } else {
-      toast.error('Failed to import data');
+    openImportPreview(json);
+  };
+
+  const handleApplyImport = async (mode: ImportMode) => {
+    if (!importPreview) return;
+    try {
+      const result = await applyImport(importPreview, mode);
+      await refetchNotepads();
+      setImportPreview(null);
+      if (result) {
+        const parts = [`${result.written} restored`];
+        if (result.removed > 0) parts.push(`${result.removed} removed`);
+        if (result.skipped > 0) parts.push(`${result.skipped} kept local`);
+        toast.success(`Backup restored: ${parts.join(', ')}`);
+      }
+    } catch (err) {
+      console.error('Import error:', err);
+      toast.error('Failed to restore backup');
     }
-    return success;
   };
 
   const getBackupData = async () => {
+    const { supabase } = await import('@/lib/supabase');
+    const { data: session } = await supabase.auth.getSession();
+    const userId = session?.session?.user?.id;
+    if (!userId || !workspaceId) throw new Error('Not authenticated');
+
     try {
-      const { supabase } = await import('@/lib/supabase');
-      const { data: session } = await supabase.auth.getSession();
-      const userId = session?.session?.user?.id;
-      if (!userId) return { teams: sortedTeams, notepads, exportedAt: new Date().toISOString() };
-
-      const [teamsRes, membersRes, paymentsRes, notepadsRes] = await Promise.all([
-        supabase.from('teams').select('*').eq('user_id', userId),
-        supabase.from('members').select('*').eq('user_id', userId),
-        supabase.from('member_payments').select('*').eq('user_id', userId),
+      // Workspace data from the open workspace; notepads are always the user's own
+      const [teamsRes, membersRes, paymentsRes, ledgerRes, eventsRes, notepadsRes, productsRes, ratesRes] = await Promise.all([
+        supabase.from('teams').select('*').eq('user_id', workspaceId),
+        canViewCredentials
+          ? supabase.from('members').select('*').eq('user_id', workspaceId)
+          : supabase.rpc('workspace_members_redacted', { p_workspace_id: workspaceId }),
+        supabase.from('member_payments').select('*').eq('user_id', workspaceId),
+        supabase.from('payment_ledger').select('*').eq('user_id', workspaceId),
+        supabase.from('member_events').select('*').eq('user_id', workspaceId),
         supabase.from('notepads').select('*').eq('user_id', userId),
+        supabase.from('subscription_products').select('*').eq('user_id', workspaceId),
+        supabase.from('usdt_rates').select('*').eq('user_id', workspaceId),
       ]);
+      const failed = [teamsRes, membersRes, paymentsRes, ledgerRes, eventsRes, notepadsRes, productsRes, ratesRes].find(
+        (res) => res.error
+      );
+      if (failed) throw failed.error;
 
       return {
         teams: teamsRes.data || [],
         members: membersRes.data || [],
         member_payments: paymentsRes.data || [],
+        payment_ledger: ledgerRes.data || [],
+        member_events: eventsRes.data || [],
         notepads: notepadsRes.data || [],
+        subscription_products: productsRes.data || [],
+        usdt_rates: ratesRes.data || [],
         exportedAt: new Date().toISOString()
       };
     } catch (err) {
-      console.error('Failed to fetch backup data:', err);
-      return { teams: sortedTeams, notepads, exportedAt: new Date().toISOString() };
+      // This device's rows keep credentials sealed, unlike the teams on screen
+      console.error('Failed to fetch backup data, backing up local data instead:', err);
+      return buildLocalBackup(workspaceId, userId);
     }
   };
 
-  const handleRestoreData = (data: any) => {
+  const handleRestoreData = (data: object) => {
     if (data && typeof data === 'object') {
-      const jsonString = JSON.stringify(data);
-      const success = importData(jsonString);
-      if (success) {
-        toast.success('Data restored from Google Drive!');
-      } else {
-        toast.error('Failed to restore data');
-      }
+      openImportPreview(JSON.stringify(data));
     }
   };
 
@@ -111,7 +164,9 @@ const Index = () => {
 
   const handleDeleteTeam = async (teamId: string) => {
     await deleteTeam(teamId);
-    toast.success('Team deleted!');
+    toast.success('Team moved to trash', {
+      action: { label: 'Trash', onClick: () => navigate('/trash') },
+    });
   };
 
   const handleSelectTeam = (teamId: string, memberId?: string) => {
@@ -156,6 +211,7 @@ const Index = () => {
           onSelectNotepad={setActiveNotepadId}
           onUpdateNotepad={updateNotepad}
           onDeleteNotepad={deleteNotepad}
+          onDeleteNotepads={deleteNotepads}
           onClose={() => {
             setShowNotepads(false);
             setActiveNotepadId(null);
@@ -163,6 +219,36 @@ const Index = () => {
 
 
         <>
+            {/* Sync Conflicts */}
+            {syncConflicts.length > 0 &&
+          <motion.button
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            onClick={() => setShowConflicts(true)}
+            className="w-full p-3 rounded-xl bg-orange-500/10 border border-orange-500/30 hover:border-orange-500/60 transition-all flex items-center gap-2.5">
+                <GitCompare className="w-4 h-4 text-orange-400 shrink-0" />
+                <span className="text-xs font-medium text-foreground flex-1 text-left">
+                  {syncConflicts.length} sync conflict{syncConflicts.length > 1 ? 's' : ''} need{syncConflicts.length === 1 ? 's' : ''} review
+                </span>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </motion.button>
+          }
+
+            {/* Customer-reported payments */}
+            {paymentSubmissions.length > 0 &&
+          <motion.button
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            onClick={() => navigate('/payment-verifications')}
+            className="w-full p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/30 hover:border-emerald-500/60 transition-all flex items-center gap-2.5">
+                <Inbox className="w-4 h-4 text-emerald-400 shrink-0" />
+                <span className="text-xs font-medium text-foreground flex-1 text-left">
+                  {paymentSubmissions.length} payment{paymentSubmissions.length > 1 ? 's' : ''} awaiting verification
+                </span>
+                <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              </motion.button>
+          }
+
             {/* Top Action Buttons */}
             <div className="grid grid-cols-2 gap-3">
               {/* Notepad Button */}
@@ -204,7 +290,7 @@ const Index = () => {
             </div>
 
             {/* Earnings Dashboard */}
-            <EarningsDashboard teams={sortedTeams} />
+            <EarningsDashboard teams={sortedTeams} ledger={ledger} />
 
             {/* Global Search */}
             <GlobalSearch onSearch={searchMembers} onSelectTeam={handleSelectTeam} />
@@ -212,6 +298,7 @@ const Index = () => {
             {/* Team List */}
             <TeamList
             teams={sortedTeams}
+            memberPayments={memberPayments}
             activeTeamId={activeTeam?.id || ''}
             onSelectTeam={handleSelectTeam}
             onCreateTeam={handleCreateNewTeam}
@@ -228,7 +315,37 @@ const Index = () => {
         onExport={exportData}
         onImport={handleImport}
         getBackupData={getBackupData}
-        onRestoreData={handleRestoreData} />
+        onRestoreData={handleRestoreData}
+        onManageProducts={isOwner ? () => {
+          setIsSettingsOpen(false);
+          setShowProducts(true);
+        } : undefined}
+        onOpenEmailTemplates={() => navigate('/email-templates')}
+        onOpenTrash={() => navigate('/trash')}
+        onOpenUndoHistory={() => {
+          setIsSettingsOpen(false);
+          setShowUndoHistory(true);
+        }} />
+
+      <SubscriptionProductsModal
+        isOpen={showProducts}
+        onClose={() => setShowProducts(false)}
+        teams={sortedTeams} />
+
+      <UndoHistoryModal
+        isOpen={showUndoHistory}
+        onClose={() => setShowUndoHistory(false)} />
+
+      <ImportPreviewModal
+        preview={importPreview}
+        onCancel={() => setImportPreview(null)}
+        onConfirm={handleApplyImport} />
+
+      <SyncConflictsModal
+        isOpen={showConflicts}
+        conflicts={syncConflicts}
+        onClose={() => setShowConflicts(false)}
+        onResolve={resolveSyncConflict} />
 
     </div>);
 
@@ -1,29 +1,13 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Mail, Phone, DollarSign, Check, AlertCircle, Pencil, X } from 'lucide-react';
-import { supabase } from '@/lib/supabase';
-import { useAuth } from '@/contexts/AuthContext';
+import { ArrowLeft, Mail, Phone, DollarSign, Check, AlertCircle, Pencil, X, History, FileText } from 'lucide-react';
+import { useSupabaseData } from '@/hooks/useSupabaseData';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
 import { toast } from 'sonner';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-
-interface MemberPayment {
-  id: string;
-  member_id: string;
-  user_id: string;
-  year: number;
-  month: number;
-  status: 'paid' | 'due';
-  amount: number;
-}
-
-interface MemberData {
-  id: string;
-  email: string;
-  phone: string;
-  total_amount: number | null;
-  join_date: string | null;
-}
+import { MemberTimeline } from '@/components/MemberTimeline';
+import { ReceiptModal } from '@/components/ReceiptModal';
 
 const MONTHS = [
   'January', 'February', 'March', 'April', 'May', 'June',
@@ -33,100 +17,67 @@ const MONTHS = [
 const MemberPayDetails = () => {
   const navigate = useNavigate();
   const { memberId } = useParams<{ memberId: string }>();
-  const { user } = useAuth();
+  const {
+    sortedTeams,
+    memberPayments,
+    memberEvents,
+    ledger,
+    isLoaded,
+    saveMonthPayment: saveLedgerPayment,
+    updateMonthPaymentStatus,
+    deleteMonthPayment,
+    updateMemberTotalAmount,
+    assignInvoiceNumber,
+  } = useSupabaseData();
+  const { rate: usdtRate } = useUsdtRate();
   
-  const [member, setMember] = useState<MemberData | null>(null);
-  const [payments, setPayments] = useState<MemberPayment[]>([]);
-  const [allPayments, setAllPayments] = useState<MemberPayment[]>([]);
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
-  const [loading, setLoading] = useState(true);
   const [editingMonth, setEditingMonth] = useState<number | null>(null);
   const [editAmount, setEditAmount] = useState('');
   const [editingTotalAmount, setEditingTotalAmount] = useState(false);
   const [totalAmountValue, setTotalAmountValue] = useState('');
+  const [receiptEntryId, setReceiptEntryId] = useState<string | null>(null);
 
   const currentYear = new Date().getFullYear();
   const years = Array.from({ length: 5 }, (_, i) => currentYear - 2 + i);
 
-  const fetchMember = useCallback(async () => {
-    if (!user || !memberId) return;
-
-    const { data, error } = await supabase
-      .from('members')
-      .select('id, email, phone, total_amount, join_date')
-      .eq('id', memberId)
-      .eq('user_id', user.id)
-      .maybeSingle();
-
-    if (error) {
-      console.error('Error fetching member:', error);
-      toast.error('Failed to load member');
-      return;
-    }
+  const member = useMemo(
+    () => sortedTeams.flatMap(t => t.members).find(m => m.id === memberId) || null,
+    [sortedTeams, memberId]
+  );
+  const team = useMemo(
+    () => sortedTeams.find(t => t.members.some(m => m.id === memberId)) || null,
+    [sortedTeams, memberId]
+  );
+  // Paid months are mirrored into the ledger under the payment's id
+  const receiptEntry = ledger.find(e => e.id === receiptEntryId) || null;
+  const allPayments = useMemo(
+    () => memberPayments.filter(p => p.memberId === memberId),
+    [memberPayments, memberId]
+  );
+  const events = useMemo(
+    () => memberEvents.filter(e => e.memberId === memberId),
+    [memberEvents, memberId]
+  );
+  const payments = allPayments.filter(p => p.year === selectedYear);
+  const loading = !isLoaded;
 
-    if (!data) {
+  useEffect(() => {
+    if (isLoaded && !member) {
       toast.error('Member not found');
       navigate(-1);
-      return;
-    }
-
-    setMember(data);
-    setTotalAmountValue(data.total_amount?.toString() || '0');
-  }, [user, memberId, navigate]);
-
-  const fetchPayments = useCallback(async () => {
-    if (!user || !memberId) return;
-
-    const { data, error } = await supabase
-      .from('member_payments')
-      .select('*')
-      .eq('member_id', memberId)
-      .eq('user_id', user.id)
-      .eq('year', selectedYear);
-
-    if (error) {
-      console.error('Error fetching payments:', error);
-      return;
-    }
-
-    setPayments(data || []);
-  }, [user, memberId, selectedYear]);
-
-  const fetchAllPayments = useCallback(async () => {
-    if (!user || !memberId) return;
-
-    const { data, error } = await supabase
-      .from('member_payments')
-      .select('*')
-      .eq('member_id', memberId)
-      .eq('user_id', user.id);
-
-    if (error) {
-      console.error('Error fetching all payments:', error);
-      return;
     }
-
-    setAllPayments(data || []);
-  }, [user, memberId]);
-
-  useEffect(() => {
-    const loadData = async () => {
-      setLoading(true);
-      await Promise.all([fetchMember(), fetchPayments(), fetchAllPayments()]);
-      setLoading(false);
-    };
-    loadData();
-  }, [fetchMember, fetchPayments, fetchAllPayments]);
+  }, [isLoaded, member, navigate]);
 
   const getPaymentForMonth = (month: number) => {
     return payments.find(p => p.month === month);
   };
 
   const handlePaymentClick = async (month: number, status: 'paid' | 'due') => {
-    if (!user || !memberId || !member) return;
+    if (!memberId || !member) return;
 
     const existingPayment = getPaymentForMonth(month);
-    const defaultAmount = member.total_amount ? member.total_amount / 12 : 0;
+    const defaultAmount = member.totalAmount ? member.totalAmount / 12 : 0;
     
     if (!existingPayment) {
       setEditingMonth(month);
@@ -137,108 +88,37 @@ const MemberPayDetails = () => {
     // Toggle status if same button clicked
     if (existingPayment.status === status) {
       // Remove payment
-      const { error } = await supabase
-        .from('member_payments')
-        .delete()
-        .eq('id', existingPayment.id);
-
-      if (error) {
-        console.error('Error removing payment:', error);
-        toast.error('Failed to remove payment');
-        return;
-      }
-
-      setPayments(prev => prev.filter(p => p.id !== existingPayment.id));
-      setAllPayments(prev => prev.filter(p => p.id !== existingPayment.id));
+      await deleteMonthPayment(existingPayment.id);
       toast.success('Payment removed');
     } else {
       // Update status
-      const { error } = await supabase
-        .from('member_payments')
-        .update({ status })
-        .eq('id', existingPayment.id);
-
-      if (error) {
-        console.error('Error updating payment:', error);
-        toast.error('Failed to update payment');
-        return;
-      }
-
-      setPayments(prev => prev.map(p => p.id === existingPayment.id ? { ...p, status } : p));
-      setAllPayments(prev => prev.map(p => p.id === existingPayment.id ? { ...p, status } : p));
+      await updateMonthPaymentStatus(existingPayment.id, status);
       toast.success(`Marked as ${status}`);
     }
   };
 
   const saveMonthPayment = async (status: 'paid' | 'due') => {
-    if (!user || !memberId || editingMonth === null) return;
+    if (!memberId || editingMonth === null) return;
 
     const amount = parseFloat(editAmount) || 0;
 
-    const { data, error } = await supabase
-      .from('member_payments')
-      .upsert({
-        member_id: memberId,
-        user_id: user.id,
-        year: selectedYear,
-        month: editingMonth,
-        status,
-        amount,
-      }, {
-        onConflict: 'member_id,year,month'
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error saving payment:', error);
+    const payment = await saveLedgerPayment(memberId, selectedYear, editingMonth, status, amount, usdtRate);
+    if (!payment) {
       toast.error('Failed to save payment');
       return;
     }
 
-    setPayments(prev => {
-      const existing = prev.findIndex(p => p.month === editingMonth);
-      if (existing >= 0) {
-        const newPayments = [...prev];
-        newPayments[existing] = data;
-        return newPayments;
-      }
-      return [...prev, data];
-    });
-
-    setAllPayments(prev => {
-      const existing = prev.findIndex(p => p.year === selectedYear && p.month === editingMonth);
-      if (existing >= 0) {
-        const newPayments = [...prev];
-        newPayments[existing] = data;
-        return newPayments;
-      }
-      return [...prev, data];
-    });
-
     toast.success(`Marked as ${status}`);
     setEditingMonth(null);
     setEditAmount('');
   };
 
   const saveTotalAmount = async () => {
-    if (!user || !memberId) return;
+    if (!memberId) return;
 
     const amount = parseFloat(totalAmountValue) || 0;
 
-    const { error } = await supabase
-      .from('members')
-      .update({ total_amount: amount })
-      .eq('id', memberId)
-      .eq('user_id', user.id);
-
-    if (error) {
-      console.error('Error updating total amount:', error);
-      toast.error('Failed to update total amount');
-      return;
-    }
-
-    setMember(prev => prev ? { ...prev, total_amount: amount } : null);
+    await updateMemberTotalAmount(memberId, amount);
     setEditingTotalAmount(false);
     toast.success('Total amount updated');
   };
@@ -247,7 +127,7 @@ const MemberPayDetails = () => {
     .filter(p => p.status === 'paid')
     .reduce((sum, p) => sum + p.amount, 0);
 
-  const totalDue = Math.max(0, (member?.total_amount || 0) - totalPaid);
+  const totalDue = Math.max(0, (member?.totalAmount || 0) - totalPaid);
 
   if (loading) {
     return (
@@ -323,10 +203,10 @@ const MemberPayDetails = () => {
               </div>
             ) : (
               <>
-                <span className="text-sm font-bold text-primary">৳{member.total_amount || 0}</span>
+                <span className="text-sm font-bold text-primary">৳{member.totalAmount || 0}</span>
                 <button
                   onClick={() => {
-                    setTotalAmountValue((member.total_amount || 0).toString());
+                    setTotalAmountValue((member.totalAmount || 0).toString());
                     setEditingTotalAmount(true);
                   }}
                   className="p-1 rounded hover:bg-secondary opacity-0 group-hover:opacity-100 transition-opacity"
@@ -366,7 +246,7 @@ const MemberPayDetails = () => {
               const month = index + 1;
               const payment = getPaymentForMonth(month);
               const isEditing = editingMonth === month;
-              const joinDay = member.join_date ? new Date(member.join_date).getDate() : null;
+              const joinDay = member.joinDate ? new Date(member.joinDate).getDate() : null;
 
               return (
                 <div key={month} className="flex items-center justify-between py-2 border-b border-border/50 last:border-0">
@@ -411,6 +291,15 @@ const MemberPayDetails = () => {
                       {payment && (
                         <span className="text-xs text-muted-foreground mr-2">৳{payment.amount}</span>
                       )}
+                      {payment?.status === 'paid' && ledger.some(e => e.id === payment.id) && (
+                        <button
+                          onClick={() => setReceiptEntryId(payment.id)}
+                          className="p-1 text-muted-foreground hover:text-foreground hover:bg-secondary rounded"
+                          title="Receipt"
+                        >
+                          <FileText className="w-3 h-3" />
+                        </button>
+                      )}
                       <button
                         onClick={() => {
                           if (!payment) {
@@ -432,7 +321,7 @@ const MemberPayDetails = () => {
                         onClick={() => {
                           if (!payment) {
                             setEditingMonth(month);
-                            const defaultAmount = member?.total_amount ? member.total_amount / 12 : 0;
+                            const defaultAmount = member?.totalAmount ? member.totalAmount / 12 : 0;
                             setEditAmount(Math.round(defaultAmount).toString());
                           } else {
                             handlePaymentClick(month, 'due');
@@ -471,7 +360,29 @@ const MemberPayDetails = () => {
             <span className="text-lg font-bold text-orange-500">৳{Math.max(0, totalDue)}</span>
           </div>
         </motion.div>
+
+        {/* Lifecycle History */}
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="glass-card rounded-2xl p-5 card-shadow"
+        >
+          <h3 className="text-sm font-medium text-muted-foreground mb-4 flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History
+          </h3>
+          <MemberTimeline events={events} teams={sortedTeams} />
+        </motion.div>
       </main>
+
+      <ReceiptModal
+        entry={receiptEntry}
+        member={member}
+        team={team}
+        onClose={() => setReceiptEntryId(null)}
+        assignInvoiceNumber={assignInvoiceNumber}
+      />
     </div>
   );
 };
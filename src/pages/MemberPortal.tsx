@@ -0,0 +1,190 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CalendarClock, Download, Receipt, Wallet } from 'lucide-react';
+import { PortalPaymentForm } from '@/components/PortalPaymentForm';
+import { ProductIcon } from '@/components/SubscriptionBadges';
+import { PAYMENT_METHODS } from '@/types/member';
+import { downloadReceipt } from '@/lib/receipt';
+import { PortalData, PortalPayment } from '@/types/portal';
+
+type Status = 'loading' | 'ready' | 'invalid' | 'error';
+
+const formatDate = (d: string) =>
+  new Date(`${d}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const methodLabel = (method: string | null) =>
+  PAYMENT_METHODS.find((m) => m.value === method)?.label || method;
+
+const daysRemainingLabel = (days: number) => {
+  if (days > 1) return `${days} days left`;
+  if (days === 1) return 'Ends tomorrow';
+  if (days === 0) return 'Ends today';
+  return `Expired ${-days} day${days === -1 ? '' : 's'} ago`;
+};
+
+const daysRemainingClass = (days: number) =>
+  days > 3 ? 'bg-emerald-500/15 text-emerald-400' : days >= 0 ? 'bg-amber-500/15 text-amber-400' : 'bg-destructive/15 text-destructive';
+
+// Public view of one member's subscription, opened from the link in their emails.
+// The only thing a customer can do here is report a payment for verification.
+export default function MemberPortal() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  // Set when opened from a receipt email
+  const receiptId = searchParams.get('receipt');
+  const [status, setStatus] = useState<Status>('loading');
+  const [data, setData] = useState<PortalData | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setStatus('invalid');
+      return;
+    }
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const anonKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+    fetch(`${supabaseUrl}/functions/v1/member-portal?token=${encodeURIComponent(token)}`, {
+      headers: { apikey: anonKey },
+    })
+      .then(async (r) => {
+        const body = await r.json();
+        if (body.valid) {
+          setData({ businessName: body.businessName, member: body.member, payments: body.payments });
+          setStatus('ready');
+        } else {
+          setStatus(body.valid === false ? 'invalid' : 'error');
+        }
+      })
+      .catch(() => setStatus('error'));
+  }, [token]);
+
+  const member = data?.member;
+
+  const handleDownloadReceipt = (payment: PortalPayment) => {
+    if (!data || !payment.invoiceNumber) return;
+    downloadReceipt({
+      invoiceNumber: payment.invoiceNumber,
+      businessName: data.businessName,
+      memberEmail: data.member.email,
+      planName: data.member.planName,
+      paidAt: payment.paidAt,
+      periodStart: payment.cycleStart ?? undefined,
+      periodEnd: payment.cycleEnd ?? undefined,
+      amountBdt: payment.amount,
+      amountUsd: payment.usd ?? undefined,
+      method: methodLabel(payment.method) ?? undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-10">
+      <div className="max-w-md mx-auto space-y-6">
+        <h1 className="text-2xl font-bold text-foreground text-center">Tech Subx BD</h1>
+
+        {status === 'loading' && <p className="text-muted-foreground text-center">Loading...</p>}
+
+        {status === 'invalid' && (
+          <p className="text-destructive text-center">This link is invalid or no longer active.</p>
+        )}
+
+        {status === 'error' && (
+          <p className="text-destructive text-center">Something went wrong. Please try again later.</p>
+        )}
+
+        {status === 'ready' && member && data && (
+          <>
+            <div className="rounded-2xl bg-card border border-border p-5 space-y-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-secondary flex items-center justify-center flex-shrink-0">
+                  {member.product ? (
+                    <ProductIcon product={member.product} size={24} />
+                  ) : (
+                    <Receipt className="w-5 h-5 text-muted-foreground" />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="font-semibold text-foreground truncate">{member.planName}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {member.teamName} · {member.email}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <CalendarClock className="w-4 h-4" />
+                  {formatDate(member.cycleStart)} – {formatDate(member.cycleEnd)}
+                </div>
+                <span className={`px-2.5 py-1 rounded-lg text-xs font-medium ${daysRemainingClass(member.daysRemaining)}`}>
+                  {daysRemainingLabel(member.daysRemaining)}
+                </span>
+              </div>
+
+              <div className="flex items-center justify-between gap-3 pt-4 border-t border-border">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Wallet className="w-4 h-4" />
+                  Due
+                </div>
+                {member.dueAmount > 0 ? (
+                  <span className="text-lg font-bold text-amber-400">
+                    {member.isUsdt && member.dueUsd !== null ? `$${member.dueUsd.toFixed(2)}` : `৳${member.dueAmount}`}
+                  </span>
+                ) : (
+                  <span className="text-sm font-medium text-emerald-400">Nothing due</span>
+                )}
+              </div>
+            </div>
+
+            {token && <PortalPaymentForm token={token} isUsdt={member.isUsdt} />}
+
+            <div>
+              <h2 className="text-sm font-semibold text-foreground mb-3">Payment history</h2>
+              {data.payments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payments recorded yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {data.payments.map((payment) => (
+                    <div
+                      key={payment.id}
+                      className={`flex items-center justify-between gap-3 px-4 py-3 rounded-xl bg-secondary/50 text-sm ${
+                        payment.id === receiptId ? 'ring-2 ring-primary' : ''
+                      }`}
+                    >
+                      <div className="min-w-0">
+                        <p className="text-foreground">{formatDate(payment.paidAt)}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {payment.cycleStart && payment.cycleEnd
+                            ? `${formatDate(payment.cycleStart)} – ${formatDate(payment.cycleEnd)}`
+                            : 'Payment'}
+                          {payment.method && ` · ${methodLabel(payment.method)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className="font-semibold text-foreground">
+                          {payment.usd !== null ? `$${payment.usd.toFixed(2)}` : `৳${payment.amount}`}
+                        </span>
+                        {payment.invoiceNumber && (
+                          <button
+                            onClick={() => handleDownloadReceipt(payment)}
+                            className="p-1.5 rounded-lg text-muted-foreground hover:text-foreground hover:bg-secondary transition-colors"
+                            aria-label="Download receipt"
+                            title="Download receipt"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground text-center">
+              Questions? WhatsApp us at 01322230857.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
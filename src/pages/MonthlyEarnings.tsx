@@ -1,15 +1,18 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, TrendingUp, Calendar, ChevronDown, Users } from 'lucide-react';
+import { ArrowLeft, TrendingUp, Calendar, ChevronDown, Users, Package } from 'lucide-react';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
+import { useSubscriptionProducts } from '@/contexts/SubscriptionProductsContext';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
+import { getLedgerEntryUsd, getLedgerMonth, getTeamKind, TeamKind } from '@/lib/ledger';
+import { ProductIcon } from '@/components/SubscriptionBadges';
 
 interface TeamEarning {
   teamId: string;
   teamName: string;
-  type: 'regular' | 'yearly' | 'plus';
+  logo?: string;
+  type: TeamKind;
   amount: number;
   memberIds: string[];
 }
@@ -22,6 +25,8 @@ interface MonthlyData {
   yearly: number;
   plus: number;
   total: number;
+  // USD received from USDT members, at the rate each payment was taken at
+  usdt: number;
   teams: TeamEarning[];
 }
 
@@ -39,101 +44,38 @@ const TYPE_COLORS: Record<string, string> = {
 
 const MonthlyEarnings = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const { sortedTeams, isLoaded } = useSupabaseData();
-  const [yearlyPayments, setYearlyPayments] = useState<{ member_id: string; amount: number; month: number; year: number }[]>([]);
+  const { sortedTeams, ledger, isLoaded } = useSupabaseData();
+  const { getProduct } = useSubscriptionProducts();
+  const { rateOn } = useUsdtRate();
   const [expandedMonth, setExpandedMonth] = useState<string | null>(null);
 
-  useEffect(() => {
-    const fetchYearlyPayments = async () => {
-      if (!user) return;
-      const yearlyMemberIds = sortedTeams
-        .filter(t => t.isYearlyTeam)
-        .flatMap(t => t.members)
-        .map(m => m.id);
-
-      if (yearlyMemberIds.length === 0) { setYearlyPayments([]); return; }
-
-      const { data, error } = await supabase
-        .from('member_payments')
-        .select('member_id, amount, month, year')
-        .eq('user_id', user.id)
-        .in('member_id', yearlyMemberIds)
-        .eq('status', 'paid');
-
-      if (!error && data) setYearlyPayments(data);
-    };
-    if (isLoaded) fetchYearlyPayments();
-  }, [user, sortedTeams, isLoaded]);
-
-  // Build a map of member_id -> team info for yearly teams
-  const yearlyMemberTeamMap = useMemo(() => {
-    const map = new Map<string, { teamId: string; teamName: string }>();
-    sortedTeams.filter(t => t.isYearlyTeam).forEach(team => {
-      team.members.forEach(m => map.set(m.id, { teamId: team.id, teamName: team.teamName }));
-    });
-    return map;
-  }, [sortedTeams]);
-
   const monthlyData = useMemo(() => {
+    const teamsById = new Map(sortedTeams.map(t => [t.id, t]));
     const dataMap = new Map<string, MonthlyData>();
 
     const getOrCreate = (key: string, m: number, y: number): MonthlyData => {
       if (!dataMap.has(key)) {
-        dataMap.set(key, { month: m, year: y, label: '', regular: 0, yearly: 0, plus: 0, total: 0, teams: [] });
+        dataMap.set(key, { month: m, year: y, label: '', regular: 0, yearly: 0, plus: 0, total: 0, usdt: 0, teams: [] });
       }
       return dataMap.get(key)!;
     };
 
-    // Regular & Plus teams
-    sortedTeams.forEach(team => {
-      if (team.isYearlyTeam) return;
-      const type = team.isPlusTeam ? 'plus' : 'regular';
+    // Every ledger entry counts in the month it was received
+    ledger.forEach(payment => {
+      const team = teamsById.get(payment.teamId);
+      const type = getTeamKind(team);
+      const { year: y, month: m } = getLedgerMonth(payment);
+      const entry = getOrCreate(`${y}-${m}`, m, y);
+      entry[type] += payment.amount;
+      entry.usdt += getLedgerEntryUsd(payment, rateOn);
 
-      // Aggregate per team per month
-      const teamMonthData = new Map<string, { amount: number; memberIds: string[] }>();
-      team.members.forEach(member => {
-        if (!member.paidAmount) return;
-        const d = new Date(member.joinDate);
-        const m = d.getMonth();
-        const y = d.getFullYear();
-        const key = `${y}-${m}`;
-        const existing = teamMonthData.get(key) || { amount: 0, memberIds: [] };
-        existing.amount += member.paidAmount;
-        existing.memberIds.push(member.id);
-        teamMonthData.set(key, existing);
-      });
-
-      teamMonthData.forEach((data, key) => {
-        const [y, m] = key.split('-').map(Number);
-        const entry = getOrCreate(key, m, y);
-        entry[type] += data.amount;
-        const existing = entry.teams.find(t => t.teamId === team.id);
-        if (existing) {
-          existing.amount += data.amount;
-          existing.memberIds.push(...data.memberIds);
-        } else {
-          entry.teams.push({ teamId: team.id, teamName: team.teamName, type, amount: data.amount, memberIds: [...data.memberIds] });
-        }
-      });
-    });
-
-    // Yearly teams
-    yearlyPayments.forEach(p => {
-      const m = p.month - 1;
-      const key = `${p.year}-${m}`;
-      const entry = getOrCreate(key, m, p.year);
-      entry.yearly += p.amount;
-
-      const teamInfo = yearlyMemberTeamMap.get(p.member_id);
-      if (teamInfo) {
-        const existing = entry.teams.find(t => t.teamId === teamInfo.teamId);
-        if (existing) {
-          existing.amount += p.amount;
-          if (!existing.memberIds.includes(p.member_id)) existing.memberIds.push(p.member_id);
-        } else {
-          entry.teams.push({ teamId: teamInfo.teamId, teamName: teamInfo.teamName, type: 'yearly', amount: p.amount, memberIds: [p.member_id] });
-        }
+      if (!team) return;
+      const existing = entry.teams.find(t => t.teamId === team.id);
+      if (existing) {
+        existing.amount += payment.amount;
+        if (!existing.memberIds.includes(payment.memberId)) existing.memberIds.push(payment.memberId);
+      } else {
+        entry.teams.push({ teamId: team.id, teamName: team.teamName, logo: team.logo, type, amount: payment.amount, memberIds: [payment.memberId] });
       }
     });
 
@@ -146,10 +88,19 @@ const MonthlyEarnings = () => {
 
     result.sort((a, b) => b.year - a.year || b.month - a.month);
     return result;
-  }, [sortedTeams, yearlyPayments, yearlyMemberTeamMap]);
+  }, [sortedTeams, ledger, rateOn]);
 
   const grandTotal = monthlyData.reduce((sum, d) => sum + d.total, 0);
 
+  // Group a month's team earnings by the product on the team logo
+  const productBreakdown = (teams: TeamEarning[]) => {
+    const map = new Map<string, number>();
+    teams.forEach(t => map.set(t.logo || '', (map.get(t.logo || '') || 0) + t.amount));
+    return Array.from(map.entries())
+      .map(([key, amount]) => ({ key, product: getProduct(key), amount }))
+      .sort((a, b) => b.amount - a.amount);
+  };
+
   const formatCurrency = (amount: number) =>
     new Intl.NumberFormat('en-US', { style: 'currency', currency: 'BDT', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(amount);
 
@@ -232,6 +183,11 @@ const MonthlyEarnings = () => {
                         Plus: <span className="text-foreground font-medium">{formatCurrency(data.plus)}</span>
                       </span>
                     )}
+                    {data.usdt > 0 && (
+                      <span className="text-muted-foreground">
+                        USDT: <span className="text-amber-400 font-medium">${data.usdt.toFixed(1)}</span>
+                      </span>
+                    )}
                   </div>
 
                   <div className="mt-2 h-1.5 rounded-full bg-muted overflow-hidden">
@@ -253,6 +209,21 @@ const MonthlyEarnings = () => {
                       className="overflow-hidden"
                     >
                       <div className="px-3 pb-3 space-y-1.5 border-t border-border pt-2">
+                        <p className="text-[10px] text-muted-foreground font-medium flex items-center gap-1">
+                          <Package className="w-3 h-3" /> প্রোডাক্ট ব্রেকডাউন
+                        </p>
+                        <div className="flex flex-wrap gap-1.5 pb-1">
+                          {productBreakdown(data.teams).map(({ key, product, amount }) => (
+                            <span
+                              key={key || 'none'}
+                              className="flex items-center gap-1.5 text-[10px] px-2 py-1 rounded-full bg-muted/50"
+                            >
+                              <ProductIcon product={product} size={12} />
+                              <span className="text-muted-foreground">{product?.name || 'Other'}</span>
+                              <span className="font-bold text-foreground">{formatCurrency(amount)}</span>
+                            </span>
+                          ))}
+                        </div>
                         <p className="text-[10px] text-muted-foreground font-medium flex items-center gap-1">
                           <Users className="w-3 h-3" /> টিম ব্রেকডাউন
                         </p>
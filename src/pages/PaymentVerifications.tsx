@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { ArrowLeft, Check, ImageIcon, Inbox, Mail, X } from 'lucide-react';
+import { useSupabaseData } from '@/hooks/useSupabaseData';
+import { usePaymentSubmissions } from '@/hooks/usePaymentSubmissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { useUsdtRate } from '@/contexts/UsdtRateContext';
+import { useWorkspace } from '@/contexts/WorkspaceContext';
+import { getScreenshotUrl, rejectSubmission } from '@/services/paymentSubmissionService';
+import { formatLocalDate } from '@/lib/billingCycle';
+import { PaymentSubmission, PAYMENT_METHODS } from '@/types/member';
+
+const formatSubmittedAt = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+const methodLabel = (method: string) => PAYMENT_METHODS.find((m) => m.value === method)?.label || method;
+
+// Inbox of payments customers reported from their portal link
+const PaymentVerifications = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { canEdit } = useWorkspace();
+  const { rateOn } = useUsdtRate();
+  const { sortedTeams, isLoaded, approvePaymentSubmission } = useSupabaseData();
+  const { submissions, isLoading, removeSubmission } = usePaymentSubmissions();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const members = useMemo(
+    () => new Map(sortedTeams.flatMap((team) => team.members.map((member) => [member.id, { member, team }] as const))),
+    [sortedTeams]
+  );
+
+  const rateFor = (submission: PaymentSubmission) => rateOn(formatLocalDate(new Date(submission.createdAt)));
+
+  const handleApprove = async (submission: PaymentSubmission) => {
+    setBusyId(submission.id);
+    const result = await approvePaymentSubmission(submission, rateFor(submission));
+    setBusyId(null);
+    if (result.ok) {
+      removeSubmission(submission.id);
+      toast.success('Payment added to the ledger');
+    } else {
+      toast.error(result.error || 'Failed to approve the payment');
+    }
+  };
+
+  const handleReject = async (submission: PaymentSubmission) => {
+    if (!user) return;
+    setBusyId(submission.id);
+    try {
+      await rejectSubmission(submission.id, user.id);
+      removeSubmission(submission.id);
+      toast.success('Payment rejected');
+    } catch (e) {
+      console.error('[Payments] Failed to reject submission:', e);
+      toast.error('Failed to reject the payment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleViewScreenshot = async (path: string) => {
+    const url = await getScreenshotUrl(path);
+    if (url) {
+      window.open(url, '_blank', 'noopener');
+    } else {
+      toast.error('Failed to open the screenshot');
+    }
+  };
+
+  if (!isLoaded || isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 rounded-full border-2 border-primary border-t-transparent animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-8">
+      <motion.header
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass-card sticky top-0 z-50 px-4 py-4"
+        style={{ paddingTop: 'max(1rem, env(safe-area-inset-top))' }}
+      >
+        <div className="container mx-auto flex items-center justify-between">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back</span>
+          </button>
+          <h1 className="font-display text-lg font-bold">Pending verifications</h1>
+          <div className="w-16" />
+        </div>
+      </motion.header>
+
+      <main className="container mx-auto px-4 py-6 space-y-4">
+        {submissions.length === 0 ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="glass-card rounded-2xl p-8 text-center space-y-3"
+          >
+            <Inbox className="w-12 h-12 text-muted-foreground mx-auto" />
+            <h3 className="text-lg font-semibold">Nothing to verify</h3>
+            <p className="text-sm text-muted-foreground">Payments customers report from their portal link show up here</p>
+          </motion.div>
+        ) : (
+          submissions.map((submission, index) => {
+            const found = members.get(submission.memberId);
+            const isUsdt = submission.currency === 'USDT';
+            return (
+              <motion.div
+                key={submission.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: index * 0.05 }}
+                className="glass-card rounded-2xl p-4 space-y-3"
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate flex items-center gap-2">
+                      <Mail className="w-4 h-4 text-muted-foreground shrink-0" />
+                      {found?.member.email || 'Removed member'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {found ? `${found.team.teamName} · ` : ''}{formatSubmittedAt(submission.createdAt)}
+                    </p>
+                  </div>
+                  <div className="text-right shrink-0">
+                    <p className="font-semibold text-emerald-500">
+                      {isUsdt ? `$${submission.amount.toFixed(2)}` : `৳${submission.amount}`}
+                    </p>
+                    {isUsdt && (
+                      <p className="text-xs text-muted-foreground">
+                        ≈ ৳{Math.round(submission.amount * rateFor(submission))}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="rounded-xl bg-secondary/50 px-3 py-2 text-xs flex items-center justify-between gap-2">
+                  <span className="text-muted-foreground">{methodLabel(submission.method)}</span>
+                  <span className="font-mono truncate select-all">{submission.transactionId}</span>
+                </div>
+
+                {submission.screenshotPath && (
+                  <button
+                    onClick={() => handleViewScreenshot(submission.screenshotPath!)}
+                    className="flex items-center gap-1.5 text-xs text-primary hover:underline"
+                  >
+                    <ImageIcon className="w-3.5 h-3.5" />
+                    View screenshot
+                  </button>
+                )}
+
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleApprove(submission)}
+                      disabled={busyId === submission.id || !found}
+                      className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-emerald-500/20 text-emerald-500 text-sm font-medium hover:bg-emerald-500/30 transition-colors disabled:opacity-50"
+                    >
+                      <Check className="w-3.5 h-3.5" />
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => handleReject(submission)}
+                      disabled={busyId === submission.id}
+                      className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-destructive/20 text-destructive text-sm font-medium hover:bg-destructive/30 transition-colors disabled:opacity-50"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                      Reject
+                    </button>
+                  </div>
+                )}
+              </motion.div>
+            );
+          })
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default PaymentVerifications;
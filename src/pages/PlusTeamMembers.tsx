@@ -1,15 +1,19 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate, useParams, useLocation, useSearchParams } from 'react-router-dom';
 import { AnimatePresence, motion } from 'framer-motion';
 import { ArrowLeft } from 'lucide-react';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
 import { TeamInfo } from '@/components/TeamInfo';
+import { getTeamBillingCycle } from '@/lib/billingCycle';
 import { PlusMemberCard } from '@/components/PlusMemberCard';
+import { LedgerEntry, MemberEvent } from '@/types/member';
 import { EmptyState } from '@/components/EmptyState';
 import { AddPlusMemberModal } from '@/components/AddPlusMemberModal';
 import { ActionControls } from '@/components/ActionControls';
 import { DeleteConfirmModal } from '@/components/DeleteConfirmModal';
+import { ReceiptModal } from '@/components/ReceiptModal';
 import { toast } from 'sonner';
+import { toastWithUndo } from '@/lib/undo';
 
 const PlusTeamMembers = () => {
   const navigate = useNavigate();
@@ -28,29 +32,49 @@ const PlusTeamMembers = () => {
   const {
     activeTeam,
     sortedTeams,
+    memberEvents,
+    ledger,
     isLoaded,
     setActiveTeam,
     updateTeamName,
     updateAdminEmail,
     updateTeamCreatedAt,
+    updateTeamBillingCycle,
     addMember,
     removeMember,
     updateMemberDate,
     updateMemberEmail,
     updateMemberPhone,
     updateMemberTelegram,
+    updateMemberTwoFA,
     updateMemberEPass,
     updateMemberGPass,
     updateMemberPushed,
     updateMemberPayment,
     updateMemberPendingAmount,
     updateMemberUsdt,
+    assignInvoiceNumber,
     memberCount,
   } = useSupabaseData();
 
+  // Lifecycle log per member, newest first (events arrive sorted)
+  const eventsByMember = useMemo(() => {
+    const map = new Map<string, MemberEvent[]>();
+    memberEvents.forEach((e) => map.set(e.memberId, [...(map.get(e.memberId) || []), e]));
+    return map;
+  }, [memberEvents]);
+
+  // Payments per member, newest first (the ledger arrives sorted)
+  const paymentsByMember = useMemo(() => {
+    const map = new Map<string, LedgerEntry[]>();
+    ledger.forEach((e) => map.set(e.memberId, [...(map.get(e.memberId) || []), e]));
+    return map;
+  }, [ledger]);
+
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isRemoveMode, setIsRemoveMode] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ id: string; email: string } | null>(null);
+  const [receiptEntryId, setReceiptEntryId] = useState<string | null>(null);
 
   // Sync active team with URL
   useEffect(() => {
@@ -63,6 +87,7 @@ const PlusTeamMembers = () => {
   }, [teamId, activeTeam?.id, sortedTeams, setActiveTeam]);
 
   const team = sortedTeams.find(t => t.id === teamId) || activeTeam;
+  const receiptEntry = ledger.find((e) => e.id === receiptEntryId) || null;
 
   // Handle scroll and highlight for searched member
   useEffect(() => {
@@ -129,14 +154,17 @@ const PlusTeamMembers = () => {
     return false;
   };
 
+  const handlePushedChange = async (id: string, isPushed: boolean) => {
+    toastWithUndo(isPushed ? 'Member pushed' : 'Member unpushed', await updateMemberPushed(id, isPushed));
+  };
+
   const handleRemoveMember = (id: string, email: string) => {
     setDeleteConfirm({ id, email });
   };
 
   const confirmRemove = async () => {
     if (deleteConfirm) {
-      await removeMember(deleteConfirm.id);
-      toast.success('Member removed');
+      toastWithUndo('Member moved to trash', await removeMember(deleteConfirm.id));
       setDeleteConfirm(null);
       if (team && team.members.length === 1) {
         setIsRemoveMode(false);
@@ -187,6 +215,8 @@ const PlusTeamMembers = () => {
           onTeamNameChange={updateTeamName}
           onAdminEmailChange={updateAdminEmail}
           onCreatedAtChange={updateTeamCreatedAt}
+          billingCycle={getTeamBillingCycle(team)}
+          onBillingCycleChange={(cycle) => updateTeamBillingCycle(team.id, cycle)}
           isPlusTeam={true}
         />
 
@@ -212,14 +242,19 @@ const PlusTeamMembers = () => {
                       isHighlighted={highlightedMemberId === member.id || highlightedMemberIds.includes(member.id)}
                       highlightColor={highlightColor}
                       teamName={team.teamName}
+                      allTeams={sortedTeams}
+                      events={eventsByMember.get(member.id) || []}
+                      payments={paymentsByMember.get(member.id) || []}
+                      onReceipt={(entry) => setReceiptEntryId(entry.id)}
                       onRemove={() => handleRemoveMember(member.id, member.email)}
                       onDateChange={updateMemberDate}
                       onEmailChange={updateMemberEmail}
                       onPhoneChange={updateMemberPhone}
                       onTelegramChange={updateMemberTelegram}
+                      onTwoFAChange={updateMemberTwoFA}
                       onEPassChange={updateMemberEPass}
                       onGPassChange={updateMemberGPass}
-                      onPushedChange={updateMemberPushed}
+                      onPushedChange={handlePushedChange}
                       onPaymentChange={updateMemberPayment}
                       onPendingAmountChange={updateMemberPendingAmount}
                       onUsdtChange={updateMemberUsdt}
@@ -253,6 +288,14 @@ const PlusTeamMembers = () => {
         onConfirm={confirmRemove}
         onCancel={() => setDeleteConfirm(null)}
       />
+
+      <ReceiptModal
+        entry={receiptEntry}
+        member={receiptEntry ? team?.members.find((m) => m.id === receiptEntry.memberId) || null : null}
+        team={team || null}
+        onClose={() => setReceiptEntryId(null)}
+        assignInvoiceNumber={assignInvoiceNumber}
+      />
     </div>
   );
 };
@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, Camera, User, Mail, Save, Loader2, LogOut } from 'lucide-react';
+import { ArrowLeft, Camera, User, Mail, Save, Loader2, LogOut, Building2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useProfile } from '@/hooks/useProfile';
 import { Button } from '@/components/ui/button';
@@ -18,6 +18,7 @@ const Profile = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [fullName, setFullName] = useState('');
+  const [businessName, setBusinessName] = useState('');
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
 
@@ -28,9 +29,15 @@ const Profile = () => {
     }
   }, [profile?.full_name]);
 
+  useEffect(() => {
+    if (profile?.business_name) {
+      setBusinessName(profile.business_name);
+    }
+  }, [profile?.business_name]);
+
   const handleSave = async () => {
     setSaving(true);
-    const { error } = await updateProfile({ full_name: fullName });
+    const { error } = await updateProfile({ full_name: fullName, business_name: businessName.trim() || null });
     setSaving(false);
 
     if (error) {
@@ -179,6 +186,23 @@ const Profile = () => {
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="business-name" className="flex items-center gap-2">
+              <Building2 className="w-4 h-4" />
+              Business Name
+            </Label>
+            <Input
+              id="business-name"
+              value={businessName}
+              onChange={(e) => setBusinessName(e.target.value)}
+              placeholder="Tech Subx BD"
+              className="bg-input border-border"
+            />
+            <p className="text-xs text-muted-foreground">
+              Shown on payment receipts
+            </p>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="email" className="flex items-center gap-2">
               <Mail className="w-4 h-4" />
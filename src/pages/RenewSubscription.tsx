@@ -1,31 +1,35 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
+import { toast } from 'sonner';
 import { ArrowLeft, RefreshCw, Clock, Mail, Phone, MessageCircle, Calendar } from 'lucide-react';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
-import { differenceInDays } from 'date-fns';
-import { SUBSCRIPTION_CONFIG, SubscriptionType, Member, Team } from '@/types/member';
-
-const parseLocalDate = (dateStr: string): Date => {
-  const [y, m, d] = dateStr.split('-').map(Number);
-  return new Date(y, m - 1, d);
-};
+import { Member, Team } from '@/types/member';
+import { useSubscriptionProducts } from '@/contexts/SubscriptionProductsContext';
+import { getMemberDaysLeft, startOfLocalDay } from '@/lib/billingCycle';
+import { RenewMemberModal } from '@/components/RenewMemberModal';
 
 interface RenewableMember {
   member: Member;
   team: Team;
-  daysSinceJoin: number;
+  daysLeft: number; // negative = days past the end of the billing cycle
 }
 
 const RenewSubscription = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const highlightMemberId = searchParams.get('memberId');
-  const { sortedTeams, isLoaded } = useSupabaseData();
+  const { sortedTeams, isLoaded, ledger, renewMember } = useSupabaseData();
+  const { getProduct } = useSubscriptionProducts();
+  const [renewing, setRenewing] = useState<RenewableMember | null>(null);
+
+  const renewingHistory = useMemo(
+    () => (renewing ? ledger.filter((e) => e.memberId === renewing.member.id) : []),
+    [ledger, renewing]
+  );
 
   const renewableMembers = useMemo((): RenewableMember[] => {
-    const today = new Date();
-    const todayLocal = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+    const todayLocal = startOfLocalDay();
     const results: RenewableMember[] = [];
 
     sortedTeams.forEach((team) => {
@@ -34,18 +38,17 @@ const RenewSubscription = () => {
       team.members.forEach((member) => {
         if (member.isPushed) return;
 
-        const joinDate = parseLocalDate(member.joinDate);
-        const days = differenceInDays(todayLocal, joinDate);
+        const daysLeft = getMemberDaysLeft(member, team, todayLocal);
 
-        // Show members with 1-2 days left until 30 (i.e. 28-29 days since join)
-        // OR members who are 30+ days but still in an active (non-expired) team
-        if (days >= 28) {
-          results.push({ member, team, daysSinceJoin: days });
+        // Show members with 1-2 days left in their team's billing cycle
+        // OR members past the end of the cycle but still in an active (non-expired) team
+        if (daysLeft <= 2) {
+          results.push({ member, team, daysLeft });
         }
       });
     });
 
-    return results.sort((a, b) => b.daysSinceJoin - a.daysSinceJoin);
+    return results.sort((a, b) => a.daysLeft - b.daysLeft);
   }, [sortedTeams]);
 
   if (!isLoaded) {
@@ -96,7 +99,7 @@ const RenewSubscription = () => {
             </p>
           </motion.div>
         ) : (
-          renewableMembers.map(({ member, team, daysSinceJoin }, index) => (
+          renewableMembers.map(({ member, team, daysLeft }, index) => (
             <motion.div
               key={member.id}
               initial={{ opacity: 0, y: 20 }}
@@ -114,11 +117,11 @@ const RenewSubscription = () => {
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                   <div className={`px-2.5 py-1 rounded-full text-xs font-bold ${
-                    daysSinceJoin >= 30 ? 'bg-red-500/20 text-red-400' :
+                    daysLeft <= 0 ? 'bg-red-500/20 text-red-400' :
                     'bg-orange-500/20 text-orange-400'
                   }`}>
                     <Clock className="w-3 h-3 inline mr-1" />
-                    {daysSinceJoin >= 30 ? `${daysSinceJoin - 30} দিন অতিরিক্ত` : `${30 - daysSinceJoin} দিন বাকি`}
+                    {daysLeft <= 0 ? `${-daysLeft} দিন অতিরিক্ত` : `${daysLeft} দিন বাকি`}
                   </div>
                 </div>
                 <span className="text-xs text-muted-foreground bg-secondary px-2 py-1 rounded-lg">
@@ -157,7 +160,7 @@ const RenewSubscription = () => {
               {member.subscriptions && member.subscriptions.length > 0 && (
                 <div className="flex flex-wrap gap-1.5">
                   {member.subscriptions.map((sub) => {
-                    const config = SUBSCRIPTION_CONFIG[sub as SubscriptionType];
+                    const config = getProduct(sub);
                     return config ? (
                       <span
                         key={sub}
@@ -183,11 +186,38 @@ const RenewSubscription = () => {
                     Due: ৳{member.pendingAmount}
                   </span>
                 )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setRenewing({ member, team, daysLeft });
+                  }}
+                  className="ml-auto flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gradient-to-r from-emerald-500 to-cyan-500 text-white font-medium hover:opacity-90 transition-opacity"
+                >
+                  <RefreshCw className="w-3.5 h-3.5" />
+                  Renew
+                </button>
               </div>
             </motion.div>
           ))
         )}
       </main>
+
+      <RenewMemberModal
+        member={renewing?.member ?? null}
+        team={renewing?.team ?? null}
+        history={renewingHistory}
+        onClose={() => setRenewing(null)}
+        onRenew={async (payment) => {
+          if (!renewing) return;
+          try {
+            await renewMember(renewing.member.id, payment);
+            toast.success(`${renewing.member.email} renewed`);
+            setRenewing(null);
+          } catch (error) {
+            toast.error(error instanceof Error ? error.message : 'Failed to renew member');
+          }
+        }}
+      />
     </div>
   );
 };
@@ -1,16 +1,21 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useNavigate, useParams, useLocation, useSearchParams } from 'react-router-dom';
 import { AnimatePresence, motion } from 'framer-motion';
 import { ArrowLeft } from 'lucide-react';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
-import { MAX_MEMBERS } from '@/types/member';
+import { useSubscriptionProducts } from '@/contexts/SubscriptionProductsContext';
 import { TeamInfo } from '@/components/TeamInfo';
+import { getTeamBillingCycle } from '@/lib/billingCycle';
+import { getTeamSeatLimit } from '@/lib/seats';
 import { MemberCard } from '@/components/MemberCard';
+import { LedgerEntry, MemberEvent } from '@/types/member';
 import { EmptyState } from '@/components/EmptyState';
 import { AddMemberModal } from '@/components/AddMemberModal';
 import { ActionControls } from '@/components/ActionControls';
 import { DeleteConfirmModal } from '@/components/DeleteConfirmModal';
+import { ReceiptModal } from '@/components/ReceiptModal';
 import { toast } from 'sonner';
+import { toastWithUndo } from '@/lib/undo';
 
 const TeamMembers = () => {
   const navigate = useNavigate();
@@ -29,30 +34,52 @@ const TeamMembers = () => {
   const {
     activeTeam,
     sortedTeams,
+    memberEvents,
+    ledger,
     isLoaded,
     setActiveTeam,
     updateTeamName,
     updateAdminEmail,
     updateTeamCreatedAt,
+    updateTeamBillingCycle,
+    updateTeamSeatLimit,
     addMember,
     removeMember,
     updateMemberDate,
     updateMemberEmail,
     updateMemberPhone,
     updateMemberTelegram,
+    updateMemberTwoFA,
     updateMemberPayment,
     updateMemberSubscriptions,
     updateMemberPendingAmount,
     updateMemberPushed,
     updateMemberActiveTeam,
     updateMemberUsdt,
+    assignInvoiceNumber,
     canAddMember,
     memberCount,
   } = useSupabaseData();
+  const { getProduct } = useSubscriptionProducts();
+
+  // Lifecycle log per member, newest first (events arrive sorted)
+  const eventsByMember = useMemo(() => {
+    const map = new Map<string, MemberEvent[]>();
+    memberEvents.forEach((e) => map.set(e.memberId, [...(map.get(e.memberId) || []), e]));
+    return map;
+  }, [memberEvents]);
+
+  // Payments per member, newest first (the ledger arrives sorted)
+  const paymentsByMember = useMemo(() => {
+    const map = new Map<string, LedgerEntry[]>();
+    ledger.forEach((e) => map.set(e.memberId, [...(map.get(e.memberId) || []), e]));
+    return map;
+  }, [ledger]);
 
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isRemoveMode, setIsRemoveMode] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ id: string; email: string } | null>(null);
+  const [receiptEntryId, setReceiptEntryId] = useState<string | null>(null);
 
   // Sync active team with URL
   useEffect(() => {
@@ -65,6 +92,7 @@ const TeamMembers = () => {
   }, [teamId, activeTeam?.id, sortedTeams, setActiveTeam]);
 
   const team = sortedTeams.find(t => t.id === teamId) || activeTeam;
+  const receiptEntry = ledger.find((e) => e.id === receiptEntryId) || null;
 
   // Handle scroll and highlight for searched member
   useEffect(() => {
@@ -110,19 +138,26 @@ const TeamMembers = () => {
       return true;
     }
 
-    toast.error(result.error || `Maximum ${MAX_MEMBERS} members allowed`);
+    toast.error(result.error || 'No free seats left on this team');
     if (result.code) toast.error(`Code: ${result.code}`);
     return false;
   };
 
+  const handlePushedChange = async (id: string, isPushed: boolean) => {
+    toastWithUndo(isPushed ? 'Member pushed' : 'Member unpushed', await updateMemberPushed(id, isPushed));
+  };
+
+  const handleActiveTeamChange = async (id: string, activeTeamId?: string) => {
+    toastWithUndo(activeTeamId ? 'Active team updated' : 'Active team cleared', await updateMemberActiveTeam(id, activeTeamId));
+  };
+
   const handleRemoveMember = (id: string, email: string) => {
     setDeleteConfirm({ id, email });
   };
 
   const confirmRemove = async () => {
     if (deleteConfirm) {
-      await removeMember(deleteConfirm.id);
-      toast.success('Member removed');
+      toastWithUndo('Member moved to trash', await removeMember(deleteConfirm.id));
       setDeleteConfirm(null);
       if (team && team.members.length === 1) {
         setIsRemoveMode(false);
@@ -168,6 +203,10 @@ const TeamMembers = () => {
           onTeamNameChange={updateTeamName}
           onAdminEmailChange={updateAdminEmail}
           onCreatedAtChange={updateTeamCreatedAt}
+          billingCycle={getTeamBillingCycle(team)}
+          onBillingCycleChange={(cycle) => updateTeamBillingCycle(team.id, cycle)}
+          seatLimit={getTeamSeatLimit(team)}
+          onSeatLimitChange={(seats) => updateTeamSeatLimit(team.id, seats)}
         />
 
         <div className="space-y-3">
@@ -193,16 +232,22 @@ const TeamMembers = () => {
                       highlightColor={highlightColor}
                       allTeams={sortedTeams}
                       teamName={team.teamName}
+                      billingCycle={getTeamBillingCycle(team)}
+                      defaultPrice={getProduct(team.logo)?.defaultPrice}
+                      events={eventsByMember.get(member.id) || []}
+                      payments={paymentsByMember.get(member.id) || []}
+                      onReceipt={(entry) => setReceiptEntryId(entry.id)}
                       onRemove={() => handleRemoveMember(member.id, member.email)}
                       onDateChange={updateMemberDate}
                       onEmailChange={updateMemberEmail}
                       onPhoneChange={updateMemberPhone}
                       onTelegramChange={updateMemberTelegram}
+                      onTwoFAChange={updateMemberTwoFA}
                       onPaymentChange={updateMemberPayment}
                       onSubscriptionsChange={updateMemberSubscriptions}
                       onPendingAmountChange={updateMemberPendingAmount}
-                      onPushedChange={updateMemberPushed}
-                      onActiveTeamChange={updateMemberActiveTeam}
+                      onPushedChange={handlePushedChange}
+                      onActiveTeamChange={handleActiveTeamChange}
                       onUsdtChange={updateMemberUsdt}
                     />
                   </div>
@@ -219,7 +264,7 @@ const TeamMembers = () => {
         onAddClick={() => setIsAddModalOpen(true)}
         onRemoveModeToggle={() => setIsRemoveMode(!isRemoveMode)}
         memberCount={memberCount}
-        maxMembers={MAX_MEMBERS}
+        maxMembers={getTeamSeatLimit(team)}
       />
 
       <AddMemberModal
@@ -234,6 +279,14 @@ const TeamMembers = () => {
         onConfirm={confirmRemove}
         onCancel={() => setDeleteConfirm(null)}
       />
+
+      <ReceiptModal
+        entry={receiptEntry}
+        member={receiptEntry ? team?.members.find((m) => m.id === receiptEntry.memberId) || null : null}
+        team={team || null}
+        onClose={() => setReceiptEntryId(null)}
+        assignInvoiceNumber={assignInvoiceNumber}
+      />
     </div>
   );
 };
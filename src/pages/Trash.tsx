@@ -0,0 +1,303 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import { toast } from 'sonner';
+import { AlertTriangle, ArchiveRestore, ArrowLeft, Mail, Trash2, Users } from 'lucide-react';
+import { useSupabaseData } from '@/hooks/useSupabaseData';
+import {
+  daysUntilPurge,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  TRASH_RETENTION_OPTIONS,
+} from '@/lib/trash';
+
+type PendingPurge =
+  | { kind: 'team'; id: string; label: string }
+  | { kind: 'member'; id: string; label: string }
+  | { kind: 'all' };
+
+const formatDeletedAt = (iso?: string) =>
+  iso ? new Date(iso).toLocaleDateString('en-US', { day: 'numeric', month: 'short', year: 'numeric' }) : '';
+
+const Trash = () => {
+  const navigate = useNavigate();
+  const { trash, isLoaded, restoreTeam, restoreMember, purgeTeam, purgeMember, purgeExpiredTrash } = useSupabaseData();
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+
+  useEffect(() => {
+    getTrashRetentionDays().then(setRetentionDays);
+  }, []);
+
+  const isEmpty = trash.teams.length === 0 && trash.members.length === 0;
+
+  const handleRetentionChange = async (days: number) => {
+    setRetentionDays(days);
+    await setTrashRetentionDays(days);
+    const purged = await purgeExpiredTrash();
+    if (purged > 0) toast.success(`${purged} expired item${purged !== 1 ? 's' : ''} deleted`);
+  };
+
+  const handleRestoreTeam = async (teamId: string) => {
+    await restoreTeam(teamId);
+    toast.success('Team restored');
+  };
+
+  const handleRestoreMember = async (memberId: string) => {
+    const result = await restoreMember(memberId);
+    if (result.ok) {
+      toast.success('Member restored');
+    } else {
+      toast.error(result.error || 'Failed to restore member');
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!pendingPurge) return;
+    const purge = pendingPurge;
+    setPendingPurge(null);
+    if (purge.kind === 'team') {
+      await purgeTeam(purge.id);
+    } else if (purge.kind === 'member') {
+      await purgeMember(purge.id);
+    } else {
+      for (const t of trash.teams) await purgeTeam(t.id);
+      // Members of a purged team are already gone
+      const purgedTeamIds = new Set(trash.teams.map((t) => t.id));
+      for (const { member, team } of trash.members) {
+        if (!team || !purgedTeamIds.has(team.id)) await purgeMember(member.id);
+      }
+    }
+    toast.success(purge.kind === 'all' ? 'Trash emptied' : 'Deleted permanently');
+  };
+
+  const purgeHint = (deletedAt?: string) => {
+    if (!deletedAt) return null;
+    const days = daysUntilPurge(deletedAt, retentionDays);
+    return days === null ? null : days === 0 ? 'Deleted on next purge' : `Deleted in ${days} day${days !== 1 ? 's' : ''}`;
+  };
+
+  if (!isLoaded) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 rounded-full border-2 border-primary border-t-transparent animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-8">
+      <motion.header
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass-card sticky top-0 z-50 px-4 py-4"
+        style={{ paddingTop: 'max(1rem, env(safe-area-inset-top))' }}
+      >
+        <div className="container mx-auto flex items-center justify-between">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back</span>
+          </button>
+          <h1 className="font-display text-lg font-bold">Trash</h1>
+          <div className="w-16" />
+        </div>
+      </motion.header>
+
+      <main className="container mx-auto px-4 py-6 space-y-4">
+        <div className="glass-card rounded-2xl p-4 flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm font-medium">Auto-delete</p>
+            <p className="text-xs text-muted-foreground">Items older than this are deleted for good</p>
+          </div>
+          <select
+            value={retentionDays}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            className="bg-input rounded-xl px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {TRASH_RETENTION_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days === 0 ? 'Never' : `After ${days} days`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isEmpty ? (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="glass-card rounded-2xl p-8 text-center space-y-3"
+          >
+            <Trash2 className="w-12 h-12 text-muted-foreground mx-auto" />
+            <h3 className="text-lg font-semibold">Trash is empty</h3>
+            <p className="text-sm text-muted-foreground">Deleted teams and members show up here</p>
+          </motion.div>
+        ) : (
+          <>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setPendingPurge({ kind: 'all' })}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-destructive/20 text-destructive text-sm font-medium hover:bg-destructive/30 transition-colors"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                Empty trash
+              </button>
+            </div>
+
+            {trash.teams.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-sm font-medium text-muted-foreground">Teams ({trash.teams.length})</h2>
+                {trash.teams.map((team, index) => (
+                  <motion.div
+                    key={team.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                    className="glass-card rounded-2xl p-4 space-y-3"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{team.teamName}</p>
+                        <p className="text-xs text-muted-foreground flex items-center gap-1">
+                          <Users className="w-3 h-3" />
+                          {team.members.length} member{team.members.length !== 1 ? 's' : ''} · Deleted {formatDeletedAt(team.deletedAt)}
+                        </p>
+                      </div>
+                      {purgeHint(team.deletedAt) && (
+                        <span className="text-xs text-muted-foreground bg-secondary px-2 py-1 rounded-lg shrink-0">
+                          {purgeHint(team.deletedAt)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleRestoreTeam(team.id)}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-secondary text-sm font-medium hover:bg-secondary/80 transition-colors"
+                      >
+                        <ArchiveRestore className="w-3.5 h-3.5" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => setPendingPurge({ kind: 'team', id: team.id, label: team.teamName })}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-destructive/20 text-destructive text-sm font-medium hover:bg-destructive/30 transition-colors"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                        Delete forever
+                      </button>
+                    </div>
+                  </motion.div>
+                ))}
+              </section>
+            )}
+
+            {trash.members.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-sm font-medium text-muted-foreground">Members ({trash.members.length})</h2>
+                {trash.members.map(({ member, team }, index) => (
+                  <motion.div
+                    key={member.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                    className="glass-card rounded-2xl p-4 space-y-3"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate flex items-center gap-2">
+                          <Mail className="w-4 h-4 text-muted-foreground shrink-0" />
+                          {member.email}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {team?.teamName || 'Deleted team'}
+                          {team?.deletedAt ? ' (in trash)' : ''} · Deleted {formatDeletedAt(member.deletedAt)}
+                        </p>
+                      </div>
+                      {purgeHint(member.deletedAt) && (
+                        <span className="text-xs text-muted-foreground bg-secondary px-2 py-1 rounded-lg shrink-0">
+                          {purgeHint(member.deletedAt)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleRestoreMember(member.id)}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-secondary text-sm font-medium hover:bg-secondary/80 transition-colors"
+                      >
+                        <ArchiveRestore className="w-3.5 h-3.5" />
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => setPendingPurge({ kind: 'member', id: member.id, label: member.email })}
+                        className="flex-1 flex items-center justify-center gap-1.5 py-2 rounded-lg bg-destructive/20 text-destructive text-sm font-medium hover:bg-destructive/30 transition-colors"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                        Delete forever
+                      </button>
+                    </div>
+                  </motion.div>
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </main>
+
+      <AnimatePresence>
+        {pendingPurge && (
+          <>
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50"
+              onClick={() => setPendingPurge(null)}
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.95, y: 20 }}
+              className="fixed inset-x-4 top-1/2 -translate-y-1/2 max-w-sm mx-auto glass-card rounded-2xl p-6 z-50 card-shadow text-center"
+            >
+              <div className="w-14 h-14 mx-auto mb-4 rounded-2xl bg-destructive/20 flex items-center justify-center">
+                <AlertTriangle className="w-7 h-7 text-destructive" />
+              </div>
+              <h2 className="font-display text-lg font-bold mb-2">
+                {pendingPurge.kind === 'all' ? 'Empty Trash?' : 'Delete Forever?'}
+              </h2>
+              <p className="text-sm text-muted-foreground mb-6">
+                {pendingPurge.kind === 'all' ? (
+                  'Everything in the trash, with its payment records, will be deleted. This cannot be undone.'
+                ) : (
+                  <>
+                    <span className="font-medium text-foreground">{pendingPurge.label}</span> and its payment records
+                    will be deleted. This cannot be undone.
+                  </>
+                )}
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setPendingPurge(null)}
+                  className="flex-1 py-3 rounded-xl bg-secondary hover:bg-secondary/80 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleConfirmPurge}
+                  className="flex-1 py-3 rounded-xl bg-destructive text-destructive-foreground font-medium hover:opacity-90 transition-opacity"
+                >
+                  Delete
+                </button>
+              </div>
+            </motion.div>
+          </>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default Trash;
@@ -1,16 +1,15 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useNavigate, useParams, useLocation, useSearchParams } from 'react-router-dom';
 import { AnimatePresence, motion } from 'framer-motion';
 import { ArrowLeft, Plus, Trash2, X, UserPlus, Mail, Phone, Send, Calendar, Shield, Lock, Check, AlertCircle, Pencil } from 'lucide-react';
 import YearlyMemberCard from '@/components/YearlyMemberCard';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
-import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar as CalendarComponent } from '@/components/ui/calendar';
 import { cn } from '@/lib/utils';
+import { toastWithUndo } from '@/lib/undo';
 
 const YearlyTeamMembers = () => {
   const navigate = useNavigate();
@@ -29,6 +28,7 @@ const YearlyTeamMembers = () => {
   const {
     activeTeam,
     sortedTeams,
+    memberPayments,
     isLoaded,
     setActiveTeam,
     updateTeamName,
@@ -45,15 +45,11 @@ const YearlyTeamMembers = () => {
     updateTeamCreatedAt,
   } = useSupabaseData();
 
-  const { user } = useAuth();
-
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isRemoveMode, setIsRemoveMode] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ id: string; email: string } | null>(null);
   const [paymentModal, setPaymentModal] = useState<{ memberId: string; type: 'paid' | 'due' } | null>(null);
   const [paymentAmount, setPaymentAmount] = useState('');
-  const [memberPaymentSummaries, setMemberPaymentSummaries] = useState<Record<string, { totalPaid: number; totalDue: number }>>({});
-  const [memberCurrentMonthPaid, setMemberCurrentMonthPaid] = useState<Record<string, boolean>>({});
   
   // Inline editing state
   const [editingField, setEditingField] = useState<{ memberId: string; field: string } | null>(null);
@@ -81,96 +77,35 @@ const YearlyTeamMembers = () => {
 
   const team = sortedTeams.find(t => t.id === teamId) || activeTeam;
 
-  // Fetch payment summaries and current month payment status for all members in the team
-  const fetchPaymentSummaries = useCallback(async () => {
-    if (!user || !team) return;
-
-    const memberIds = team.members.map(m => m.id);
-    if (memberIds.length === 0) return;
+  // Payment summaries and current month payment status for all members in the team
+  const { memberPaymentSummaries, memberCurrentMonthPaid } = useMemo(() => {
+    const summaries: Record<string, { totalPaid: number; totalDue: number }> = {};
+    const currentMonthPaidMap: Record<string, boolean> = {};
+    if (!team) return { memberPaymentSummaries: summaries, memberCurrentMonthPaid: currentMonthPaidMap };
 
     const now = new Date();
     const currentYear = now.getFullYear();
     const currentMonth = now.getMonth() + 1;
 
-    // Fetch payments and member total_amounts in parallel
-    const [paymentsResult, membersResult, currentMonthPaymentsResult] = await Promise.all([
-      supabase
-        .from('member_payments')
-        .select('member_id, status, amount')
-        .eq('user_id', user.id)
-        .in('member_id', memberIds),
-      supabase
-        .from('members')
-        .select('id, total_amount')
-        .eq('user_id', user.id)
-        .in('id', memberIds),
-      supabase
-        .from('member_payments')
-        .select('member_id, status')
-        .eq('user_id', user.id)
-        .eq('year', currentYear)
-        .eq('month', currentMonth)
-        .in('member_id', memberIds)
-    ]);
-
-    if (paymentsResult.error) {
-      console.error('Error fetching payment summaries:', paymentsResult.error);
-      return;
-    }
-
-    const payments = paymentsResult.data || [];
-    const membersData = membersResult.data || [];
-    const currentMonthPayments = currentMonthPaymentsResult.data || [];
-
-    // Create a map of member total_amounts
-    const totalAmounts: Record<string, number> = {};
-    membersData.forEach(m => {
-      totalAmounts[m.id] = m.total_amount || 0;
-    });
-
-    // Calculate total paid for each member
-    const paidSums: Record<string, number> = {};
-    memberIds.forEach(id => {
-      paidSums[id] = 0;
-    });
-
-    payments.forEach(p => {
-      if (p.status === 'paid') {
-        paidSums[p.member_id] = (paidSums[p.member_id] || 0) + (p.amount || 0);
-      }
-    });
+    team.members.forEach(member => {
+      const payments = memberPayments.filter(p => p.memberId === member.id);
 
-    // Calculate due as total_amount - totalPaid for each member
-    const summaries: Record<string, { totalPaid: number; totalDue: number }> = {};
-    memberIds.forEach(id => {
-      const totalPaid = paidSums[id] || 0;
-      const totalAmount = totalAmounts[id] || 0;
-      summaries[id] = {
+      // Calculate due as total amount - total paid
+      const totalPaid = payments
+        .filter(p => p.status === 'paid')
+        .reduce((sum, p) => sum + (p.amount || 0), 0);
+      summaries[member.id] = {
         totalPaid,
-        totalDue: Math.max(0, totalAmount - totalPaid)
+        totalDue: Math.max(0, (member.totalAmount || 0) - totalPaid)
       };
-    });
-
-    setMemberPaymentSummaries(summaries);
 
-    // Build current month paid status map
-    const currentMonthPaidMap: Record<string, boolean> = {};
-    memberIds.forEach(id => {
-      currentMonthPaidMap[id] = false;
-    });
-    currentMonthPayments.forEach(p => {
-      if (p.status === 'paid') {
-        currentMonthPaidMap[p.member_id] = true;
-      }
+      currentMonthPaidMap[member.id] = payments.some(
+        p => p.year === currentYear && p.month === currentMonth && p.status === 'paid'
+      );
     });
-    setMemberCurrentMonthPaid(currentMonthPaidMap);
-  }, [user, team]);
 
-  useEffect(() => {
-    if (team && team.members.length > 0) {
-      fetchPaymentSummaries();
-    }
-  }, [team, fetchPaymentSummaries]);
+    return { memberPaymentSummaries: summaries, memberCurrentMonthPaid: currentMonthPaidMap };
+  }, [team, memberPayments]);
 
   // Check if a member should be red highlighted
   // Conditions: (current month not paid AND join date day has passed) OR totalPaid is 0 with totalDue > 0
@@ -295,8 +230,7 @@ const YearlyTeamMembers = () => {
 
   const confirmRemove = async () => {
     if (deleteConfirm) {
-      await removeMember(deleteConfirm.id);
-      toast.success('Member removed');
+      toastWithUndo('Member moved to trash', await removeMember(deleteConfirm.id));
       setDeleteConfirm(null);
       if (team && team.members.length === 1) {
         setIsRemoveMode(false);
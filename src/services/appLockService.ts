@@ -0,0 +1,101 @@
+import { getMeta, setMeta } from './offlineDb';
+import { AppLockConfig, fromBase64, toBase64 } from '@/lib/appLock';
+
+// Per device, not per account: the lock guards the phone, whoever is signed in
+const CONFIG_META_KEY = 'app_lock';
+
+export const getAppLockConfig = async (): Promise<AppLockConfig | null> => {
+  const stored = await getMeta(CONFIG_META_KEY);
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as AppLockConfig;
+  } catch {
+    return null;
+  }
+};
+
+/** Null turns the lock off. */
+export const saveAppLockConfig = (config: AppLockConfig | null): Promise<void> =>
+  setMeta(CONFIG_META_KEY, config ? JSON.stringify(config) : '');
+
+// Stored beside the PIN hash so closing the app doesn't reset the count or end a lockout
+const ATTEMPTS_META_KEY = 'app_lock_attempts';
+
+export interface PinAttempts {
+  failed: number;
+  lockedOutUntil: number;
+}
+
+export const getPinAttempts = async (): Promise<PinAttempts> => {
+  const stored = await getMeta(ATTEMPTS_META_KEY);
+  if (!stored) return { failed: 0, lockedOutUntil: 0 };
+  try {
+    const { failed, lockedOutUntil } = JSON.parse(stored) as PinAttempts;
+    return { failed: Number(failed) || 0, lockedOutUntil: Number(lockedOutUntil) || 0 };
+  } catch {
+    return { failed: 0, lockedOutUntil: 0 };
+  }
+};
+
+export const savePinAttempts = (attempts: PinAttempts): Promise<void> =>
+  setMeta(ATTEMPTS_META_KEY, JSON.stringify(attempts));
+
+// ─── Biometric (WebAuthn platform authenticator) ────────────────
+
+export const isBiometricAvailable = async (): Promise<boolean> => {
+  if (!window.PublicKeyCredential || !navigator.credentials) return false;
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+};
+
+/** Enrol the device's fingerprint/face unlock; returns the credential id. */
+export const registerBiometric = async (): Promise<string> => {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: crypto.getRandomValues(new Uint8Array(32)),
+      rp: { name: 'Elite Notepad' },
+      user: {
+        id: crypto.getRandomValues(new Uint8Array(16)),
+        name: 'app-lock',
+        displayName: 'App lock',
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: -7 }, // ES256
+        { type: 'public-key', alg: -257 }, // RS256
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: 'platform',
+        userVerification: 'required',
+        residentKey: 'discouraged',
+      },
+      timeout: 60_000,
+    },
+  })) as PublicKeyCredential | null;
+  if (!credential) throw new Error('Biometric setup was cancelled');
+  return toBase64(new Uint8Array(credential.rawId));
+};
+
+/**
+ * Ask the platform to verify the user with the enrolled credential. The
+ * assertion only gates the UI on this device, so it isn't checked against a
+ * server; false when the user cancels or verification fails.
+ */
+export const verifyBiometric = async (credentialId: string): Promise<boolean> => {
+  try {
+    const assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge: crypto.getRandomValues(new Uint8Array(32)),
+        allowCredentials: [{ type: 'public-key', id: fromBase64(credentialId) }],
+        userVerification: 'required',
+        timeout: 60_000,
+      },
+    });
+    return assertion !== null;
+  } catch (e) {
+    console.warn('[AppLock] Biometric unlock failed:', e);
+    return false;
+  }
+};
@@ -0,0 +1,549 @@
+import {
+  getLocalTeams,
+  getLocalMembers,
+  getLocalMemberPayments,
+  getLocalLedger,
+  getLocalMemberEvents,
+  getLocalNotepads,
+  getLocalProducts,
+  getLocalUsdtRates,
+  getSyncQueue,
+  putLocalTeam,
+  putLocalMember,
+  putLocalMemberPayment,
+  putLocalLedgerEntry,
+  putLocalMemberEvent,
+  putLocalNotepad,
+  putLocalProduct,
+  putLocalUsdtRate,
+  deleteLocalTeam,
+  deleteLocalMember,
+  deleteLocalMemberPayment,
+  deleteLocalLedgerEntry,
+  deleteLocalMemberEvent,
+  deleteLocalNotepad,
+  deleteLocalProduct,
+  deleteLocalUsdtRate,
+  addToSyncQueue,
+  teamToLocal,
+  memberToLocal,
+  paymentToLocal,
+  ledgerEntryToLocal,
+  memberEventToLocal,
+  notepadToLocal,
+  productToLocal,
+  usdtRateToLocal,
+  SyncTable,
+} from './offlineDb';
+import { isOnline, processSyncQueue } from './syncService';
+import { CREDENTIAL_FIELDS, encryptValue, isEncrypted } from '@/lib/vault';
+
+type Row = Record<string, unknown> & { id: string };
+type TeamRow = Parameters<typeof teamToLocal>[0];
+type PaymentRow = Parameters<typeof paymentToLocal>[0];
+type LedgerRow = Parameters<typeof ledgerEntryToLocal>[0];
+type EventRow = Parameters<typeof memberEventToLocal>[0];
+type NotepadRow = Parameters<typeof notepadToLocal>[0];
+type ProductRow = Parameters<typeof productToLocal>[0];
+type RateRow = Parameters<typeof usdtRateToLocal>[0];
+
+// ─── Types ──────────────────────────────────────────────────────
+
+export type ImportMode = 'merge' | 'replace';
+export type ImportStatus = 'new' | 'changed' | 'conflict';
+
+/**
+ * Raw database rows, in the shape written by `exportData` and `getBackupData`.
+ */
+export interface BackupData {
+  teams: Row[];
+  members: Row[];
+  member_payments: Row[];
+  payment_ledger: Row[];
+  member_events: Row[];
+  notepads: Row[];
+  subscription_products: Row[];
+  usdt_rates: Row[];
+  exportedAt?: string;
+}
+
+export interface ImportRecord {
+  table: SyncTable;
+  id: string;
+  label: string;
+  status: ImportStatus;
+  changedFields: string[];
+  row: Row;
+}
+
+export interface RemovedRecord {
+  table: SyncTable;
+  id: string;
+  label: string;
+}
+
+export interface ImportPreview {
+  backup: BackupData;
+  // Tables this account may restore into
+  tables: SyncTable[];
+  records: ImportRecord[];
+  removed: RemovedRecord[];
+  unchanged: number;
+}
+
+export interface ImportResult {
+  written: number;
+  removed: number;
+  skipped: number;
+}
+
+// Parents before children so the sync queue replays in FK order
+export const IMPORT_TABLES: SyncTable[] = [
+  'subscription_products', 'usdt_rates', 'teams', 'members', 'member_payments', 'payment_ledger',
+  'member_events', 'notepads',
+];
+
+// ─── Parsing & validation ───────────────────────────────────────
+
+// Older Google Drive backups fall back to app-shaped teams with nested members
+const appMemberToRow = (m: Row, teamId: string): Row => ({
+  id: m.id,
+  team_id: teamId,
+  email: m.email,
+  phone: m.phone || '',
+  telegram: m.telegram || null,
+  twofa_secret: m.twoFA || null,
+  password: m.password || null,
+  e_pass: m.ePass || null,
+  g_pass: m.gPass || null,
+  join_date: m.joinDate,
+  is_paid: m.isPaid || false,
+  paid_amount: m.paidAmount || null,
+  pending_amount: m.pendingAmount || null,
+  subscriptions: m.subscriptions || null,
+  is_pushed: m.isPushed || false,
+  active_team_id: m.activeTeamId || null,
+  is_usdt: m.isUsdt || false,
+  paid_usdt_rate: m.paidUsdtRate ?? null,
+  total_amount: m.totalAmount ?? null,
+  deleted_at: m.deletedAt ?? null,
+});
+
+const normalizeBackup = (raw: Row): BackupData => {
+  const teams: Row[] = [];
+  const members: Row[] = Array.isArray(raw.members) ? [...raw.members] : [];
+
+  (Array.isArray(raw.teams) ? raw.teams : []).forEach((t: Row) => {
+    if (t && t.teamName !== undefined && Array.isArray(t.members)) {
+      teams.push({
+        id: t.id,
+        team_name: t.teamName,
+        admin_email: t.adminEmail || '',
+        logo: t.logo || null,
+        created_at: t.createdAt,
+        last_backup: t.lastBackup || null,
+        is_yearly: t.isYearlyTeam || false,
+        is_plus: t.isPlusTeam || false,
+        billing_cycle_days: t.billingCycleDays ?? null,
+        billing_calendar_month: t.billingCalendarMonth ?? null,
+        seat_limit: t.seatLimit ?? null,
+        deleted_at: t.deletedAt ?? null,
+      });
+      t.members.forEach((m: Row) => members.push(appMemberToRow(m, t.id)));
+    } else {
+      teams.push(t);
+    }
+  });
+
+  const notepads = (Array.isArray(raw.notepads) ? raw.notepads : []).map((n: Row) =>
+    n && n.createdAt !== undefined && n.created_at === undefined
+      ? { id: n.id, title: n.title, content: n.content || '', created_at: n.createdAt, updated_at: n.updatedAt }
+      : n
+  );
+
+  return {
+    teams,
+    members,
+    member_payments: Array.isArray(raw.member_payments) ? raw.member_payments : [],
+    payment_ledger: Array.isArray(raw.payment_ledger) ? raw.payment_ledger : [],
+    member_events: Array.isArray(raw.member_events) ? raw.member_events : [],
+    notepads,
+    subscription_products: Array.isArray(raw.subscription_products) ? raw.subscription_products : [],
+    usdt_rates: Array.isArray(raw.usdt_rates) ? raw.usdt_rates : [],
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : undefined,
+  };
+};
+
+const isString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+
+/**
+ * Parse and validate a backup file. Returns a readable error for anything
+ * that would leave the restored data inconsistent.
+ */
+export const parseBackup = (
+  jsonString: string
+): { ok: true; data: BackupData } | { ok: false; error: string } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(jsonString);
+  } catch {
+    return { ok: false, error: 'File is not valid JSON' };
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, error: 'Unrecognized backup format' };
+  }
+  if (!IMPORT_TABLES.some((table) => Array.isArray((raw as Row)[table]))) {
+    return { ok: false, error: 'Unrecognized backup format' };
+  }
+
+  const data = normalizeBackup(raw as Row);
+
+  const teamIds = new Set<string>();
+  for (const t of data.teams) {
+    if (!t || !isString(t.id) || !isString(t.team_name)) {
+      return { ok: false, error: 'Backup contains a team without an id or name' };
+    }
+    teamIds.add(t.id);
+  }
+
+  const memberIds = new Set<string>();
+  for (const m of data.members) {
+    if (!m || !isString(m.id) || !isString(m.email) || !isString(m.join_date)) {
+      return { ok: false, error: 'Backup contains a member without an id, email or join date' };
+    }
+    if (!isString(m.team_id) || !teamIds.has(m.team_id)) {
+      return { ok: false, error: `Member ${m.email} belongs to a team missing from the backup` };
+    }
+    memberIds.add(m.id);
+  }
+
+  for (const p of data.member_payments) {
+    if (!p || !isString(p.id) || typeof p.year !== 'number' || typeof p.month !== 'number') {
+      return { ok: false, error: 'Backup contains an invalid payment record' };
+    }
+    if (!isString(p.member_id) || !memberIds.has(p.member_id)) {
+      return { ok: false, error: 'Backup contains a payment for a member missing from the backup' };
+    }
+  }
+
+  for (const e of data.payment_ledger) {
+    if (!e || !isString(e.id) || !isString(e.paid_at) || !isString(e.team_id) || typeof e.amount !== 'number') {
+      return { ok: false, error: 'Backup contains an invalid ledger entry' };
+    }
+    if (!isString(e.member_id) || !memberIds.has(e.member_id)) {
+      return { ok: false, error: 'Backup contains a ledger entry for a member missing from the backup' };
+    }
+  }
+
+  // Events outlive their member, so they may reference members missing from the backup
+  for (const e of data.member_events) {
+    if (!e || !isString(e.id) || !isString(e.member_id) || !isString(e.type)) {
+      return { ok: false, error: 'Backup contains an invalid member event' };
+    }
+  }
+
+  for (const n of data.notepads) {
+    if (!n || !isString(n.id) || typeof n.title !== 'string') {
+      return { ok: false, error: 'Backup contains an invalid note' };
+    }
+  }
+
+  for (const p of data.subscription_products) {
+    if (!p || !isString(p.id) || !isString(p.key) || !isString(p.name)) {
+      return { ok: false, error: 'Backup contains a subscription product without an id, key or name' };
+    }
+  }
+
+  for (const r of data.usdt_rates) {
+    if (!r || !isString(r.id) || !(Number(r.rate) > 0) || !isString(r.effective_date)) {
+      return { ok: false, error: 'Backup contains an invalid USDT rate' };
+    }
+  }
+
+  if (IMPORT_TABLES.every((table) => data[table].length === 0)) {
+    return { ok: false, error: 'Backup contains no data' };
+  }
+
+  return { ok: true, data };
+};
+
+// ─── Diff preview ───────────────────────────────────────────────
+
+const COMPARED_FIELDS: Record<SyncTable, string[]> = {
+  teams: [
+    'team_name', 'admin_email', 'logo', 'created_at', 'last_backup', 'is_yearly', 'is_plus',
+    'billing_cycle_days', 'billing_calendar_month', 'seat_limit', 'deleted_at',
+  ],
+  members: [
+    'team_id', 'email', 'phone', 'telegram', 'twofa_secret', 'password', 'e_pass', 'g_pass',
+    'join_date', 'is_paid', 'paid_amount', 'pending_amount', 'subscriptions', 'is_pushed', 'active_team_id',
+    'is_usdt', 'paid_usdt_rate', 'total_amount', 'deleted_at',
+  ],
+  member_payments: ['member_id', 'year', 'month', 'status', 'amount', 'note', 'usdt_rate'],
+  payment_ledger: [
+    'member_id', 'team_id', 'paid_at', 'amount', 'currency', 'usdt_rate', 'method', 'cycle_start', 'cycle_end',
+    'note',
+  ],
+  member_events: ['member_id', 'team_id', 'member_email', 'type', 'field', 'from_value', 'to_value', 'created_at'],
+  notepads: ['title', 'content'],
+  subscription_products: [
+    'key', 'name', 'color', 'icon_url', 'plan_name', 'default_price', 'billing_cycle_days',
+    'billing_calendar_month', 'default_seats', 'sort_order',
+  ],
+  usdt_rates: ['rate', 'effective_date'],
+};
+
+const diffFields = (table: SyncTable, incoming: Row, current: Row): string[] =>
+  COMPARED_FIELDS[table].filter(
+    (field) => JSON.stringify(incoming[field] ?? null) !== JSON.stringify(current[field] ?? null)
+  );
+
+// Notepads are always the signed-in user's own; everything else belongs to the open workspace
+const ownerOf = (table: SyncTable, workspaceId: string, userId: string): string =>
+  table === 'notepads' ? userId : workspaceId;
+
+// Only the workspace owner can write products and USDT rates, so a manager's import leaves them alone
+const OWNER_ONLY_TABLES: SyncTable[] = ['subscription_products', 'usdt_rates'];
+
+const importTablesFor = (workspaceId: string, userId: string): SyncTable[] =>
+  userId === workspaceId ? IMPORT_TABLES : IMPORT_TABLES.filter((table) => !OWNER_ONLY_TABLES.includes(table));
+
+const loadCurrentRecords = async (workspaceId: string, userId: string): Promise<Record<SyncTable, Row[]>> => {
+  const [teams, members, payments, ledger, events, notepads, products, rates] = await Promise.all([
+    getLocalTeams(workspaceId),
+    getLocalMembers(workspaceId),
+    getLocalMemberPayments(workspaceId),
+    getLocalLedger(workspaceId),
+    getLocalMemberEvents(workspaceId),
+    getLocalNotepads(userId),
+    getLocalProducts(workspaceId),
+    getLocalUsdtRates(workspaceId),
+  ]);
+  return {
+    teams,
+    members,
+    member_payments: payments,
+    payment_ledger: ledger,
+    member_events: events,
+    notepads,
+    subscription_products: products,
+    usdt_rates: rates,
+  };
+};
+
+/**
+ * This device's copy of the workspace and the user's notepads, for backing up
+ * when the server can't be reached. Rows are as stored, so credentials stay sealed.
+ */
+export const buildLocalBackup = async (workspaceId: string, userId: string) => ({
+  ...(await loadCurrentRecords(workspaceId, userId)),
+  exportedAt: new Date().toISOString(),
+});
+
+/**
+ * Compare a parsed backup against what this device currently holds.
+ * A record is a conflict when it differs from the backup and also has
+ * local edits still waiting in the sync queue.
+ */
+export const buildImportPreview = async (
+  backup: BackupData,
+  workspaceId: string,
+  userId: string
+): Promise<ImportPreview> => {
+  const current = await loadCurrentRecords(workspaceId, userId);
+  const queue = [...(await getSyncQueue(workspaceId)), ...(await getSyncQueue(userId))];
+  const pending = new Set(queue.map((e) => `${e.table}:${e.record_id}`));
+
+  const emailById = new Map<string, string>();
+  [...current.members, ...backup.members].forEach((m) => emailById.set(m.id, String(m.email)));
+
+  const labelFor = (table: SyncTable, row: Row): string => {
+    const memberEmail = emailById.get(String(row.member_id)) || 'Member';
+    if (table === 'teams') return String(row.team_name);
+    if (table === 'members') return String(row.email);
+    if (table === 'member_payments') return `${memberEmail} · ${row.year}-${String(row.month).padStart(2, '0')}`;
+    if (table === 'payment_ledger') return `${memberEmail} · ৳${row.amount} · ${row.paid_at}`;
+    if (table === 'member_events') return `${row.member_email || memberEmail} · ${row.type}`;
+    if (table === 'subscription_products') return String(row.name);
+    if (table === 'usdt_rates') return `৳${row.rate} · ${row.effective_date}`;
+    return String(row.title || 'Untitled Note');
+  };
+
+  const normalize = (table: SyncTable, row: Row): Row => {
+    if (table === 'teams') return teamToLocal(row as TeamRow, workspaceId);
+    if (table === 'members') return memberToLocal(row, workspaceId);
+    if (table === 'member_payments') return paymentToLocal(row as PaymentRow, workspaceId);
+    if (table === 'payment_ledger') return ledgerEntryToLocal(row as LedgerRow, workspaceId);
+    if (table === 'member_events') return memberEventToLocal(row as EventRow, workspaceId);
+    if (table === 'subscription_products') return productToLocal(row as ProductRow, workspaceId);
+    if (table === 'usdt_rates') return usdtRateToLocal(row as RateRow, workspaceId);
+    return row;
+  };
+
+  const records: ImportRecord[] = [];
+  const removed: RemovedRecord[] = [];
+  let unchanged = 0;
+  // Yearly ledger entries share their month row's id, so they follow it when it is re-keyed
+  const rekeyedPaymentIds = new Map<string, string>();
+  const tables = importTablesFor(workspaceId, userId);
+
+  for (const table of tables) {
+    const currentById = new Map(current[table].map((r) => [r.id as string, r]));
+    const incomingIds = new Set<string>();
+
+    for (const original of backup[table]) {
+      let row: Row = { ...original, user_id: ownerOf(table, workspaceId, userId) };
+
+      // Payments are unique per member/month: reuse the existing id so the upsert lands on it
+      if (table === 'member_payments' && !currentById.has(row.id)) {
+        const sameMonth = current.member_payments.find(
+          (p) => p.member_id === row.member_id && p.year === row.year && p.month === row.month
+        );
+        if (sameMonth) {
+          rekeyedPaymentIds.set(row.id, sameMonth.id);
+          row = { ...row, id: sameMonth.id };
+        }
+      }
+
+      if (table === 'payment_ledger' && rekeyedPaymentIds.has(row.id)) {
+        row = { ...row, id: rekeyedPaymentIds.get(row.id) };
+      }
+
+      // Products are unique per key (built-ins are seeded per account with their own ids)
+      if (table === 'subscription_products' && !currentById.has(row.id)) {
+        const sameKey = current.subscription_products.find((p) => p.key === row.key);
+        if (sameKey) row = { ...row, id: sameKey.id };
+      }
+
+      incomingIds.add(row.id);
+      const existing = currentById.get(row.id);
+
+      if (!existing) {
+        records.push({ table, id: row.id, label: labelFor(table, row), status: 'new', changedFields: [], row });
+        continue;
+      }
+
+      const changedFields = diffFields(table, normalize(table, row), normalize(table, existing));
+      if (changedFields.length === 0) {
+        unchanged++;
+        continue;
+      }
+
+      records.push({
+        table,
+        id: row.id,
+        label: labelFor(table, row),
+        status: pending.has(`${table}:${row.id}`) ? 'conflict' : 'changed',
+        changedFields,
+        row,
+      });
+    }
+
+    current[table].forEach((r) => {
+      if (!incomingIds.has(r.id)) removed.push({ table, id: r.id, label: labelFor(table, r) });
+    });
+  }
+
+  return { backup, tables, records, removed, unchanged };
+};
+
+// ─── Apply ──────────────────────────────────────────────────────
+
+// Older backups carry plaintext credentials; seal them before they're stored or queued
+const sealCredentials = async (row: Row, key: CryptoKey): Promise<Row> => {
+  const sealed = { ...row };
+  for (const field of CREDENTIAL_FIELDS) {
+    const value = sealed[field];
+    if (typeof value === 'string' && value && !isEncrypted(value)) sealed[field] = await encryptValue(key, value);
+  }
+  return sealed;
+};
+
+/**
+ * Write the previewed records through IndexedDB and the sync queue.
+ * Merge keeps local unsynced edits on conflicts; replace makes this
+ * account match the backup exactly, deleting records it doesn't contain.
+ * With a vault key, member credentials are sealed on the way in; pass null
+ * only when the workspace has no vault.
+ */
+export const applyBackupImport = async (
+  preview: ImportPreview,
+  mode: ImportMode,
+  workspaceId: string,
+  userId: string,
+  vaultKey: CryptoKey | null
+): Promise<ImportResult> => {
+  const now = new Date().toISOString();
+  let written = 0;
+  let skipped = 0;
+  let removedCount = 0;
+
+  const tables = importTablesFor(workspaceId, userId);
+
+  for (const table of tables) {
+    for (const record of preview.records.filter((r) => r.table === table)) {
+      if (record.status === 'conflict' && mode === 'merge') {
+        skipped++;
+        continue;
+      }
+
+      const owner = ownerOf(table, workspaceId, userId);
+      const row = table === 'members' && vaultKey ? await sealCredentials(record.row, vaultKey) : record.row;
+      if (table === 'teams') await putLocalTeam(teamToLocal(row as TeamRow, owner));
+      if (table === 'members') await putLocalMember(memberToLocal(row, owner));
+      if (table === 'member_payments') await putLocalMemberPayment(paymentToLocal(row as PaymentRow, owner));
+      if (table === 'payment_ledger') await putLocalLedgerEntry(ledgerEntryToLocal(row as LedgerRow, owner));
+      if (table === 'member_events') await putLocalMemberEvent(memberEventToLocal(row as EventRow, owner));
+      if (table === 'subscription_products') await putLocalProduct(productToLocal(row as ProductRow, owner));
+      if (table === 'usdt_rates') await putLocalUsdtRate(usdtRateToLocal(row as RateRow, owner));
+      if (table === 'notepads') {
+        // Not yet on the server as this version, so sync treats it as a plain write
+        await putLocalNotepad({ ...notepadToLocal(row as NotepadRow, owner), synced_updated_at: null });
+      }
+
+      await addToSyncQueue({
+        table,
+        operation: 'insert',
+        record_id: record.id,
+        payload: row,
+        created_at: now,
+        user_id: owner,
+      });
+      written++;
+    }
+  }
+
+  if (mode === 'replace') {
+    // Children before parents so deletes don't trip foreign keys
+    for (const table of [...tables].reverse()) {
+      for (const record of preview.removed.filter((r) => r.table === table)) {
+        if (table === 'teams') await deleteLocalTeam(record.id);
+        if (table === 'members') await deleteLocalMember(record.id);
+        if (table === 'member_payments') await deleteLocalMemberPayment(record.id);
+        if (table === 'payment_ledger') await deleteLocalLedgerEntry(record.id);
+        if (table === 'member_events') await deleteLocalMemberEvent(record.id);
+        if (table === 'notepads') await deleteLocalNotepad(record.id);
+        if (table === 'subscription_products') await deleteLocalProduct(record.id);
+        if (table === 'usdt_rates') await deleteLocalUsdtRate(record.id);
+
+        await addToSyncQueue({
+          table,
+          operation: 'delete',
+          record_id: record.id,
+          payload: {},
+          created_at: now,
+          user_id: ownerOf(table, workspaceId, userId),
+        });
+        removedCount++;
+      }
+    }
+  }
+
+  if (isOnline()) {
+    await processSyncQueue(workspaceId);
+    if (userId !== workspaceId) await processSyncQueue(userId);
+  }
+
+  return { written, removed: removedCount, skipped };
+};
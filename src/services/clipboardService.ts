@@ -0,0 +1,109 @@
+import { toast } from 'sonner';
+import { getMeta, setMeta } from './offlineDb';
+import {
+  ClipboardClearSettings,
+  CopyFieldType,
+  DEFAULT_CLIPBOARD_CLEAR_SECONDS,
+} from '@/lib/clipboard';
+
+const SETTINGS_META_KEY = 'clipboard_clear_seconds';
+const COUNTDOWN_TOAST_ID = 'clipboard-countdown';
+
+export const getClipboardClearSettings = async (): Promise<ClipboardClearSettings> => {
+  const stored = await getMeta(SETTINGS_META_KEY);
+  if (!stored) return { ...DEFAULT_CLIPBOARD_CLEAR_SECONDS };
+  try {
+    return { ...DEFAULT_CLIPBOARD_CLEAR_SECONDS, ...(JSON.parse(stored) as Partial<ClipboardClearSettings>) };
+  } catch {
+    return { ...DEFAULT_CLIPBOARD_CLEAR_SECONDS };
+  }
+};
+
+export const setClipboardClearSettings = (settings: ClipboardClearSettings): Promise<void> =>
+  setMeta(SETTINGS_META_KEY, JSON.stringify(settings));
+
+// ─── Copy + auto-clear ──────────────────────────────────────────
+
+// Only one countdown runs; a newer copy replaces it
+let countdownTimer: ReturnType<typeof setInterval> | null = null;
+
+const stopCountdown = () => {
+  if (countdownTimer) clearInterval(countdownTimer);
+  countdownTimer = null;
+};
+
+/**
+ * Clear the clipboard if it still holds `value`. When the clipboard can't be
+ * read (no permission, some WebViews) it's left alone, since whatever is
+ * there now may not be ours.
+ */
+const clearIfUnchanged = async (value: string) => {
+  let current: string;
+  try {
+    current = await navigator.clipboard.readText();
+  } catch (e) {
+    console.warn('[Clipboard] Failed to read before clearing:', e);
+    toast.dismiss(COUNTDOWN_TOAST_ID);
+    return;
+  }
+  if (current !== value) {
+    toast.dismiss(COUNTDOWN_TOAST_ID);
+    return;
+  }
+  try {
+    await navigator.clipboard.writeText('');
+    toast.success('Clipboard cleared', { id: COUNTDOWN_TOAST_ID, description: undefined, duration: 2000 });
+  } catch (e) {
+    console.warn('[Clipboard] Failed to clear:', e);
+    toast.dismiss(COUNTDOWN_TOAST_ID);
+  }
+};
+
+/**
+ * Copy `text` and, when its field type has an auto-clear delay, show a
+ * countdown toast and wipe the clipboard at the end. Resolves whether the
+ * value was copied.
+ */
+export const secureCopy = async (text: string, label: string, type: CopyFieldType): Promise<boolean> => {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch (e) {
+    console.error('[Clipboard] Failed to copy:', e);
+    toast.error(`Failed to copy ${label}`);
+    return false;
+  }
+
+  stopCountdown();
+  const seconds = (await getClipboardClearSettings())[type];
+  if (seconds <= 0) {
+    toast.success(`${label} copied!`, { id: COUNTDOWN_TOAST_ID, description: undefined, duration: 4000 });
+    return true;
+  }
+
+  let remaining = seconds;
+  const show = () =>
+    toast.success(`${label} copied!`, {
+      id: COUNTDOWN_TOAST_ID,
+      description: `Clipboard clears in ${remaining}s`,
+      duration: Infinity,
+      action: {
+        label: 'Clear now',
+        onClick: () => {
+          stopCountdown();
+          clearIfUnchanged(text);
+        },
+      },
+    });
+  show();
+
+  countdownTimer = setInterval(() => {
+    remaining -= 1;
+    if (remaining > 0) {
+      show();
+      return;
+    }
+    stopCountdown();
+    clearIfUnchanged(text);
+  }, 1000);
+  return true;
+};
@@ -0,0 +1,88 @@
+import { supabase } from '@/lib/supabase';
+import { supabase as cloudSupabase } from '@/integrations/supabase/client';
+import { EmailPreview, EmailTemplateLang, EmailTemplateOverride } from '@/types/emailTemplate';
+
+// Workspace rewrites of the built-in member emails. Emails are only sent
+// online, so like payment submissions these aren't cached offline.
+
+interface EmailTemplateOverrideRow {
+  id: string;
+  template_name: string;
+  lang: EmailTemplateLang;
+  subject: string;
+  body: string;
+  updated_at: string;
+}
+
+const rowToOverride = (row: EmailTemplateOverrideRow): EmailTemplateOverride => ({
+  id: row.id,
+  templateName: row.template_name,
+  lang: row.lang,
+  subject: row.subject,
+  body: row.body,
+  updatedAt: row.updated_at,
+});
+
+export const loadTemplateOverrides = async (workspaceId: string): Promise<EmailTemplateOverride[]> => {
+  const { data, error } = await supabase
+    .from('email_template_overrides')
+    .select('id, template_name, lang, subject, body, updated_at')
+    .eq('user_id', workspaceId);
+  if (error) throw error;
+  return ((data || []) as EmailTemplateOverrideRow[]).map(rowToOverride);
+};
+
+/** Create or replace the workspace's override of a template in one language. */
+export const saveTemplateOverride = async (
+  workspaceId: string,
+  editorId: string,
+  templateName: string,
+  lang: EmailTemplateLang,
+  content: { subject: string; body: string }
+): Promise<EmailTemplateOverride> => {
+  const { data, error } = await supabase
+    .from('email_template_overrides')
+    .upsert(
+      {
+        user_id: workspaceId,
+        template_name: templateName,
+        lang,
+        subject: content.subject,
+        body: content.body,
+        updated_by: editorId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,template_name,lang' }
+    )
+    .select('id, template_name, lang, subject, body, updated_at')
+    .single();
+  if (error) throw error;
+  return rowToOverride(data as EmailTemplateOverrideRow);
+};
+
+// Back to the built-in template
+export const deleteTemplateOverride = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('email_template_overrides').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Render a template with sample data: the draft when one is given, otherwise
+ * the built-in version.
+ */
+export const previewTemplate = async (
+  templateName: string,
+  lang: EmailTemplateLang,
+  draft?: { subject: string; body: string }
+): Promise<EmailPreview> => {
+  // The function checks the signed-in user's session before rendering a draft
+  const { data: session } = await supabase.auth.getSession();
+  const accessToken = session.session?.access_token;
+  if (!accessToken) throw new Error('Not authenticated');
+  const { data, error } = await cloudSupabase.functions.invoke('preview-transactional-email', {
+    body: { templateName, lang, ...draft },
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  if (error) throw error;
+  return data as EmailPreview;
+};
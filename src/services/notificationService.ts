@@ -1,18 +1,9 @@
 import { Capacitor } from '@capacitor/core';
 import { LocalNotifications, ScheduleOptions } from '@capacitor/local-notifications';
-import { differenceInDays } from 'date-fns';
 import { Team, Member } from '@/types/member';
+import { getCycleEndDate, getMemberDaysLeft, getTeamBillingCycle, parseLocalDate, startOfLocalDay } from '@/lib/billingCycle';
 
-// Parse "YYYY-MM-DD" as local date (avoid UTC shift)
-const parseLocalDate = (dateStr: string): Date => {
-  const [y, m, d] = dateStr.split('-').map(Number);
-  return new Date(y, m - 1, d);
-};
-
-const getTodayLocal = (): Date => {
-  const now = new Date();
-  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
-};
+const getTodayLocal = (): Date => startOfLocalDay();
 
 interface ExpiringMember {
   member: Member;
@@ -21,7 +12,7 @@ interface ExpiringMember {
 }
 
 /**
- * Find members whose subscription expires on a specific date (30 days from join)
+ * Find members whose subscription expires on a specific date (one team billing cycle from join)
  */
 const findExpiringOnDate = (teams: Team[], targetDate: Date, isPlus: boolean): ExpiringMember[] => {
   const results: ExpiringMember[] = [];
@@ -32,12 +23,11 @@ const findExpiringOnDate = (teams: Team[], targetDate: Date, isPlus: boolean): E
     team.members.forEach((member) => {
       if (member.isPushed || (!isPlus && member.activeTeamId)) return;
 
-      const joinDate = parseLocalDate(member.joinDate);
-      const daysSinceJoin = differenceInDays(targetDate, joinDate);
+      const daysLeft = getMemberDaysLeft(member, team, targetDate);
 
-      if (daysSinceJoin === 29) {
+      if (daysLeft === 1) {
         results.push({ member, team, daysUntilExpiry: 1 });
-      } else if (isPlus ? daysSinceJoin >= 30 : daysSinceJoin === 30) {
+      } else if (isPlus ? daysLeft <= 0 : daysLeft === 0) {
         results.push({ member, team, daysUntilExpiry: 0 });
       }
     });
@@ -55,7 +45,7 @@ export const findExpiringMembers = (teams: Team[]): ExpiringMember[] => {
 };
 
 /**
- * Find Plus team members whose 30-day period is about to expire
+ * Find Plus team members whose billing cycle is about to expire
  */
 export const findExpiringPlusMembers = (teams: Team[]): ExpiringMember[] => {
   const today = getTodayLocal();
@@ -119,10 +109,8 @@ const buildNotification = (item: ExpiringMember, id: number, scheduleAt: Date) =
   const timeLabel = item.daysUntilExpiry === 1 ? 'আগামীকাল' : 'আজকে';
   const emoji = item.daysUntilExpiry === 0 ? '🔴' : '🟡';
 
-  const [y, m, d] = item.member.joinDate.split('-').map(Number);
-  const joinDate = new Date(y, m - 1, d);
-  const expiryDate = new Date(joinDate);
-  expiryDate.setDate(expiryDate.getDate() + 30);
+  const joinDate = parseLocalDate(item.member.joinDate);
+  const expiryDate = getCycleEndDate(joinDate, getTeamBillingCycle(item.team));
   const expiryStr = `${expiryDate.getDate()}/${expiryDate.getMonth() + 1}/${expiryDate.getFullYear()}`;
   const joinStr = `${joinDate.getDate()}/${joinDate.getMonth() + 1}/${joinDate.getFullYear()}`;
   const phone = item.member.phone ? `\n📞 ${item.member.phone}` : '';
@@ -161,10 +149,8 @@ export const scheduleExpiryNotifications = async (teams: Team[]): Promise<void>
   teams.forEach(t => {
     totalMembers += t.members.length;
     t.members.forEach(m => {
-      const joinDate = parseLocalDate(m.joinDate);
-      const today = getTodayLocal();
-      const daysSince = differenceInDays(today, joinDate);
-      console.log(`📢 [NOTIF] Member: ${m.email}, joinDate: ${m.joinDate}, daysSinceJoin: ${daysSince}, isPushed: ${m.isPushed}`);
+      const daysLeft = getMemberDaysLeft(m, t);
+      console.log(`📢 [NOTIF] Member: ${m.email}, joinDate: ${m.joinDate}, daysLeft: ${daysLeft}, isPushed: ${m.isPushed}`);
     });
   });
   console.log('📢 [NOTIF] total members:', totalMembers);
@@ -1,8 +1,31 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Team, Member, SubscriptionType } from '@/types/member';
+import {
+  Team,
+  Member,
+  MemberPayment,
+  LedgerEntry,
+  MemberEvent,
+  MemberEventType,
+  Notepad,
+  PaymentMethod,
+  SubscriptionProduct,
+  SubscriptionType,
+  UsdtRate,
+} from '@/types/member';
+import type { Tables } from '@/integrations/supabase/types';
 
 // ─── IndexedDB Schema ───────────────────────────────────────────
 
+export type SyncTable =
+  | 'teams'
+  | 'members'
+  | 'member_payments'
+  | 'payment_ledger'
+  | 'member_events'
+  | 'notepads'
+  | 'subscription_products'
+  | 'usdt_rates';
+
 interface EliteDB extends DBSchema {
   teams: {
     key: string;
@@ -16,6 +39,15 @@ interface EliteDB extends DBSchema {
       last_backup: string | null;
       is_yearly: boolean;
       is_plus: boolean;
+      // Unset on rows cached before billing cycles existed (treated as 30 days)
+      billing_cycle_days?: number | null;
+      billing_calendar_month?: boolean | null;
+      seat_limit?: number | null;
+      // Set while the team is in the trash
+      deleted_at?: string | null;
+      // Server row version/updated_at last seen by this device (unset until first sync)
+      version?: number | null;
+      updated_at?: string | null;
     };
     indexes: { 'by-user': string };
   };
@@ -39,31 +71,184 @@ interface EliteDB extends DBSchema {
       subscriptions: string[] | null;
       is_pushed: boolean;
       active_team_id: string | null;
+      is_usdt: boolean;
+      // BDT per USD when paid_amount was recorded (unset on rows cached before rate history)
+      paid_usdt_rate?: number | null;
+      total_amount: number | null;
       created_at: string;
+      // Set while the member is in the trash
+      deleted_at?: string | null;
+      version?: number | null;
+      updated_at?: string | null;
     };
     indexes: { 'by-user': string; 'by-team': string };
   };
+  member_payments: {
+    key: string;
+    value: {
+      id: string;
+      member_id: string;
+      user_id: string;
+      year: number;
+      month: number;
+      status: string;
+      amount: number;
+      note: string | null;
+      usdt_rate?: number | null;
+      created_at: string;
+    };
+    indexes: { 'by-user': string; 'by-member': string };
+  };
+  payment_ledger: {
+    key: string;
+    value: {
+      id: string;
+      user_id: string;
+      member_id: string;
+      team_id: string;
+      paid_at: string;
+      amount: number;
+      currency: string;
+      usdt_rate: number | null;
+      method: string | null;
+      cycle_start: string | null;
+      cycle_end: string | null;
+      note: string | null;
+      invoice_number?: number | null;
+      created_at: string;
+    };
+    indexes: { 'by-user': string; 'by-member': string };
+  };
+  member_events: {
+    key: string;
+    value: {
+      id: string;
+      user_id: string;
+      member_id: string;
+      team_id: string;
+      member_email: string;
+      type: string;
+      field: string | null;
+      from_value: string | null;
+      to_value: string | null;
+      created_at: string;
+    };
+    indexes: { 'by-user': string; 'by-member': string };
+  };
+  notepads: {
+    key: string;
+    value: {
+      id: string;
+      user_id: string;
+      title: string;
+      content: string;
+      created_at: string;
+      updated_at: string;
+      // updated_at of the last version this device saw on the server (null until first sync)
+      synced_updated_at: string | null;
+    };
+    indexes: { 'by-user': string };
+  };
+  subscription_products: {
+    key: string;
+    value: {
+      id: string;
+      user_id: string;
+      key: string;
+      name: string;
+      color: string;
+      icon_url: string | null;
+      plan_name: string | null;
+      default_price: number | null;
+      default_seats?: number | null;
+      billing_cycle_days: number;
+      billing_calendar_month: boolean;
+      sort_order: number;
+      created_at: string;
+    };
+    indexes: { 'by-user': string };
+  };
+  usdt_rates: {
+    key: string;
+    value: {
+      id: string;
+      user_id: string;
+      rate: number;
+      effective_date: string;
+      created_at: string;
+    };
+    indexes: { 'by-user': string };
+  };
   sync_queue: {
     key: number;
     value: {
       id?: number;
-      table: 'teams' | 'members';
+      table: SyncTable;
+      operation: 'insert' | 'update' | 'delete';
+      record_id: string;
+      payload: Record<string, unknown>;
+      // Values the edited fields had locally before this change
+      base?: Record<string, unknown>;
+      created_at: string;
+      user_id: string;
+      // Bumped when later updates are merged in, so an in-flight push of the older payload doesn't drop them
+      revision?: number;
+      attempts?: number;
+      next_attempt_at?: string | null;
+      last_error?: string | null;
+    };
+    indexes: { 'by-user': string };
+  };
+  sync_dead_letters: {
+    key: number;
+    value: {
+      id?: number;
+      table: SyncTable;
       operation: 'insert' | 'update' | 'delete';
       record_id: string;
       payload: Record<string, unknown>;
+      base?: Record<string, unknown>;
       created_at: string;
       user_id: string;
+      attempts: number;
+      last_error: string | null;
+      failed_at: string;
     };
     indexes: { 'by-user': string };
   };
+  sync_conflicts: {
+    key: number;
+    value: {
+      id?: number;
+      table: 'teams' | 'members';
+      record_id: string;
+      label: string;
+      fields: { field: string; local: unknown; remote: unknown }[];
+      created_at: string;
+      user_id: string;
+    };
+    indexes: { 'by-user': string; 'by-record': string };
+  };
   meta: {
     key: string;
     value: { key: string; value: string };
   };
 }
 
+export type LocalTeam = EliteDB['teams']['value'];
+export type LocalMember = EliteDB['members']['value'];
+export type LocalMemberPayment = EliteDB['member_payments']['value'];
+export type LocalLedgerEntry = EliteDB['payment_ledger']['value'];
+export type LocalMemberEvent = EliteDB['member_events']['value'];
+export type LocalNotepad = EliteDB['notepads']['value'];
+export type LocalSubscriptionProduct = EliteDB['subscription_products']['value'];
+export type LocalUsdtRate = EliteDB['usdt_rates']['value'];
+export type SyncQueueEntry = EliteDB['sync_queue']['value'];
+export type SyncConflict = EliteDB['sync_conflicts']['value'];
+export type DeadLetterEntry = EliteDB['sync_dead_letters']['value'];
+
 const DB_NAME = 'elite-notepade-offline';
-const DB_VERSION = 1;
+const DB_VERSION = 9;
 
 let dbInstance: IDBPDatabase<EliteDB> | null = null;
 
@@ -71,25 +256,85 @@ export const getDb = async (): Promise<IDBPDatabase<EliteDB>> => {
   if (dbInstance) return dbInstance;
 
   dbInstance = await openDB<EliteDB>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
-      // Teams store
-      const teamsStore = db.createObjectStore('teams', { keyPath: 'id' });
-      teamsStore.createIndex('by-user', 'user_id');
-
-      // Members store
-      const membersStore = db.createObjectStore('members', { keyPath: 'id' });
-      membersStore.createIndex('by-user', 'user_id');
-      membersStore.createIndex('by-team', 'team_id');
-
-      // Sync queue
-      const syncStore = db.createObjectStore('sync_queue', {
-        keyPath: 'id',
-        autoIncrement: true,
-      });
-      syncStore.createIndex('by-user', 'user_id');
+    upgrade(db, oldVersion) {
+      if (oldVersion < 1) {
+        // Teams store
+        const teamsStore = db.createObjectStore('teams', { keyPath: 'id' });
+        teamsStore.createIndex('by-user', 'user_id');
+
+        // Members store
+        const membersStore = db.createObjectStore('members', { keyPath: 'id' });
+        membersStore.createIndex('by-user', 'user_id');
+        membersStore.createIndex('by-team', 'team_id');
+
+        // Sync queue
+        const syncStore = db.createObjectStore('sync_queue', {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        syncStore.createIndex('by-user', 'user_id');
+
+        // Metadata
+        db.createObjectStore('meta', { keyPath: 'key' });
+      }
+
+      if (oldVersion < 2) {
+        // Yearly team ledger (one row per member per month)
+        const paymentsStore = db.createObjectStore('member_payments', { keyPath: 'id' });
+        paymentsStore.createIndex('by-user', 'user_id');
+        paymentsStore.createIndex('by-member', 'member_id');
+      }
+
+      if (oldVersion < 3) {
+        // Notepads
+        const notepadsStore = db.createObjectStore('notepads', { keyPath: 'id' });
+        notepadsStore.createIndex('by-user', 'user_id');
+      }
+
+      if (oldVersion < 4) {
+        // Field-level conflicts waiting for the user to pick a value
+        const conflictsStore = db.createObjectStore('sync_conflicts', {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        conflictsStore.createIndex('by-user', 'user_id');
+        conflictsStore.createIndex('by-record', 'record_id');
+      }
+
+      if (oldVersion < 5) {
+        // Queue entries that kept failing, parked until the user retries or discards them
+        const deadLetterStore = db.createObjectStore('sync_dead_letters', {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        deadLetterStore.createIndex('by-user', 'user_id');
+      }
+
+      if (oldVersion < 6) {
+        // User-defined subscription catalog
+        const productsStore = db.createObjectStore('subscription_products', { keyPath: 'id' });
+        productsStore.createIndex('by-user', 'user_id');
+      }
 
-      // Metadata
-      db.createObjectStore('meta', { keyPath: 'key' });
+      if (oldVersion < 7) {
+        // Dated BDT/USD rate history
+        const ratesStore = db.createObjectStore('usdt_rates', { keyPath: 'id' });
+        ratesStore.createIndex('by-user', 'user_id');
+      }
+
+      if (oldVersion < 8) {
+        // Payment ledger (every payment, all team types)
+        const ledgerStore = db.createObjectStore('payment_ledger', { keyPath: 'id' });
+        ledgerStore.createIndex('by-user', 'user_id');
+        ledgerStore.createIndex('by-member', 'member_id');
+      }
+
+      if (oldVersion < 9) {
+        // Member lifecycle log (kept after the member is removed)
+        const eventsStore = db.createObjectStore('member_events', { keyPath: 'id' });
+        eventsStore.createIndex('by-user', 'user_id');
+        eventsStore.createIndex('by-member', 'member_id');
+      }
     },
   });
 
@@ -126,11 +371,21 @@ export const getLocalMembers = async (userId: string): Promise<EliteDB['members'
   return db.getAllFromIndex('members', 'by-user', userId);
 };
 
+export const getLocalTeam = async (id: string): Promise<LocalTeam | undefined> => {
+  const db = await getDb();
+  return db.get('teams', id);
+};
+
 export const putLocalTeam = async (team: EliteDB['teams']['value']): Promise<void> => {
   const db = await getDb();
   await db.put('teams', team);
 };
 
+export const getLocalMember = async (id: string): Promise<LocalMember | undefined> => {
+  const db = await getDb();
+  return db.get('members', id);
+};
+
 export const putLocalMember = async (member: EliteDB['members']['value']): Promise<void> => {
   const db = await getDb();
   await db.put('members', member);
@@ -156,13 +411,269 @@ export const deleteLocalMembersByTeam = async (teamId: string): Promise<void> =>
   await tx.done;
 };
 
+// ─── Member Payment Operations ──────────────────────────────────
+
+export const saveMemberPaymentsLocally = async (payments: LocalMemberPayment[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('member_payments', 'readwrite');
+  for (const payment of payments) {
+    await tx.store.put(payment);
+  }
+  await tx.done;
+};
+
+export const getLocalMemberPayments = async (userId: string): Promise<LocalMemberPayment[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('member_payments', 'by-user', userId);
+};
+
+export const getLocalPaymentsByMember = async (memberId: string): Promise<LocalMemberPayment[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('member_payments', 'by-member', memberId);
+};
+
+export const putLocalMemberPayment = async (payment: LocalMemberPayment): Promise<void> => {
+  const db = await getDb();
+  await db.put('member_payments', payment);
+};
+
+export const deleteLocalMemberPayment = async (id: string): Promise<void> => {
+  const db = await getDb();
+  await db.delete('member_payments', id);
+};
+
+export const deleteLocalMemberPayments = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('member_payments', 'readwrite');
+  for (const id of ids) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+};
+
+// ─── Payment Ledger Operations ──────────────────────────────────
+
+export const saveLedgerLocally = async (entries: LocalLedgerEntry[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('payment_ledger', 'readwrite');
+  for (const entry of entries) {
+    await tx.store.put(entry);
+  }
+  await tx.done;
+};
+
+export const getLocalLedger = async (userId: string): Promise<LocalLedgerEntry[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('payment_ledger', 'by-user', userId);
+};
+
+export const getLocalLedgerEntry = async (id: string): Promise<LocalLedgerEntry | undefined> => {
+  const db = await getDb();
+  return db.get('payment_ledger', id);
+};
+
+export const putLocalLedgerEntry = async (entry: LocalLedgerEntry): Promise<void> => {
+  const db = await getDb();
+  await db.put('payment_ledger', entry);
+};
+
+export const deleteLocalLedgerEntry = async (id: string): Promise<void> => {
+  const db = await getDb();
+  await db.delete('payment_ledger', id);
+};
+
+export const deleteLocalLedgerEntries = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('payment_ledger', 'readwrite');
+  for (const id of ids) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+};
+
+// ─── Member Event Operations ────────────────────────────────────
+
+export const saveMemberEventsLocally = async (events: LocalMemberEvent[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('member_events', 'readwrite');
+  for (const event of events) {
+    await tx.store.put(event);
+  }
+  await tx.done;
+};
+
+export const getLocalMemberEvents = async (userId: string): Promise<LocalMemberEvent[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('member_events', 'by-user', userId);
+};
+
+export const putLocalMemberEvent = async (event: LocalMemberEvent): Promise<void> => {
+  const db = await getDb();
+  await db.put('member_events', event);
+};
+
+export const deleteLocalMemberEvent = async (id: string): Promise<void> => {
+  const db = await getDb();
+  await db.delete('member_events', id);
+};
+
+export const deleteLocalMemberEvents = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('member_events', 'readwrite');
+  for (const id of ids) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+};
+
+// ─── Notepad Operations ─────────────────────────────────────────
+
+export const saveNotepadsLocally = async (notepads: LocalNotepad[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('notepads', 'readwrite');
+  for (const notepad of notepads) {
+    await tx.store.put(notepad);
+  }
+  await tx.done;
+};
+
+export const getLocalNotepads = async (userId: string): Promise<LocalNotepad[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('notepads', 'by-user', userId);
+};
+
+export const getLocalNotepad = async (id: string): Promise<LocalNotepad | undefined> => {
+  const db = await getDb();
+  return db.get('notepads', id);
+};
+
+export const putLocalNotepad = async (notepad: LocalNotepad): Promise<void> => {
+  const db = await getDb();
+  await db.put('notepads', notepad);
+};
+
+export const deleteLocalNotepad = async (id: string): Promise<void> => {
+  const db = await getDb();
+  await db.delete('notepads', id);
+};
+
+export const deleteLocalNotepads = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('notepads', 'readwrite');
+  for (const id of ids) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+};
+
+// ─── Subscription Product Operations ────────────────────────────
+
+export const saveProductsLocally = async (products: LocalSubscriptionProduct[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('subscription_products', 'readwrite');
+  for (const product of products) {
+    await tx.store.put(product);
+  }
+  await tx.done;
+};
+
+export const getLocalProducts = async (userId: string): Promise<LocalSubscriptionProduct[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('subscription_products', 'by-user', userId);
+};
+
+export const getLocalProduct = async (id: string): Promise<LocalSubscriptionProduct | undefined> => {
+  const db = await getDb();
+  return db.get('subscription_products', id);
+};
+
+export const putLocalProduct = async (product: LocalSubscriptionProduct): Promise<void> => {
+  const db = await getDb();
+  await db.put('subscription_products', product);
+};
+
+export const deleteLocalProduct = async (id: string): Promise<void> => {
+  const db = await getDb();
+  await db.delete('subscription_products', id);
+};
+
+export const deleteLocalProducts = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('subscription_products', 'readwrite');
+  for (const id of ids) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+};
+
+// ─── USDT Rate Operations ───────────────────────────────────────
+
+export const saveUsdtRatesLocally = async (rates: LocalUsdtRate[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('usdt_rates', 'readwrite');
+  for (const rate of rates) {
+    await tx.store.put(rate);
+  }
+  await tx.done;
+};
+
+export const getLocalUsdtRates = async (userId: string): Promise<LocalUsdtRate[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('usdt_rates', 'by-user', userId);
+};
+
+export const putLocalUsdtRate = async (rate: LocalUsdtRate): Promise<void> => {
+  const db = await getDb();
+  await db.put('usdt_rates', rate);
+};
+
+export const deleteLocalUsdtRate = async (id: string): Promise<void> => {
+  const db = await getDb();
+  await db.delete('usdt_rates', id);
+};
+
+export const deleteLocalUsdtRates = async (ids: string[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('usdt_rates', 'readwrite');
+  for (const id of ids) {
+    await tx.store.delete(id);
+  }
+  await tx.done;
+};
+
 // ─── Sync Queue ─────────────────────────────────────────────────
 
+/**
+ * Queue a change. An update to a record whose latest queued entry is still an
+ * insert/update is merged into that entry instead of adding another one.
+ */
 export const addToSyncQueue = async (
   entry: Omit<EliteDB['sync_queue']['value'], 'id'>
 ): Promise<void> => {
   const db = await getDb();
-  await db.add('sync_queue', entry as EliteDB['sync_queue']['value']);
+  const tx = db.transaction('sync_queue', 'readwrite');
+
+  if (entry.operation === 'update') {
+    const pending = await tx.store.index('by-user').getAll(entry.user_id);
+    const latest = pending
+      .filter((e) => e.table === entry.table && e.record_id === entry.record_id)
+      .sort((a, b) => b.id! - a.id!)[0];
+
+    if (latest && latest.operation !== 'delete') {
+      await tx.store.put({
+        ...latest,
+        payload: { ...latest.payload, ...entry.payload },
+        // Keep the oldest known value of each field as the conflict base
+        base: latest.base || entry.base ? { ...entry.base, ...latest.base } : undefined,
+        revision: (latest.revision || 0) + 1,
+      });
+      await tx.done;
+      return;
+    }
+  }
+
+  await tx.store.add({ ...entry, revision: 0, attempts: 0 } as EliteDB['sync_queue']['value']);
+  await tx.done;
 };
 
 export const getSyncQueue = async (userId: string): Promise<EliteDB['sync_queue']['value'][]> => {
@@ -179,6 +690,144 @@ export const clearSyncQueue = async (ids: number[]): Promise<void> => {
   await tx.done;
 };
 
+/**
+ * Remove pushed entries, unless newer changes were merged into them meanwhile.
+ */
+export const completeSyncEntries = async (entries: SyncQueueEntry[]): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('sync_queue', 'readwrite');
+  for (const entry of entries) {
+    const current = await tx.store.get(entry.id!);
+    if (current && (current.revision || 0) === (entry.revision || 0)) {
+      await tx.store.delete(entry.id!);
+    }
+  }
+  await tx.done;
+};
+
+export const updateSyncEntry = async (entry: SyncQueueEntry): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('sync_queue', 'readwrite');
+  const current = await tx.store.get(entry.id!);
+  // Keep any payload merged in since this entry was read
+  if (current) {
+    await tx.store.put({
+      ...current,
+      attempts: entry.attempts,
+      next_attempt_at: entry.next_attempt_at,
+      last_error: entry.last_error,
+    });
+  }
+  await tx.done;
+};
+
+// ─── Dead Letters ───────────────────────────────────────────────
+
+/**
+ * Replace a pending entry's payload and base. The revision bump keeps an
+ * in-flight push of the old payload from completing the entry.
+ */
+export const rewriteSyncEntry = async (
+  id: number,
+  payload: Record<string, unknown>,
+  base?: Record<string, unknown>
+): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction('sync_queue', 'readwrite');
+  const current = await tx.store.get(id);
+  if (current) {
+    await tx.store.put({ ...current, payload, base, revision: (current.revision || 0) + 1 });
+  }
+  await tx.done;
+};
+
+export const moveToDeadLetter = async (entry: SyncQueueEntry, error: string): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction(['sync_queue', 'sync_dead_letters'], 'readwrite');
+  const current = (await tx.objectStore('sync_queue').get(entry.id!)) || entry;
+  await tx.objectStore('sync_dead_letters').add({
+    table: current.table,
+    operation: current.operation,
+    record_id: current.record_id,
+    payload: current.payload,
+    base: current.base,
+    created_at: current.created_at,
+    user_id: current.user_id,
+    attempts: entry.attempts || 0,
+    last_error: error,
+    failed_at: new Date().toISOString(),
+  });
+  await tx.objectStore('sync_queue').delete(entry.id!);
+  await tx.done;
+};
+
+export const getDeadLetters = async (userId: string): Promise<DeadLetterEntry[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('sync_dead_letters', 'by-user', userId);
+};
+
+/**
+ * Put a dead letter back on the queue. Changes queued for the same record
+ * since it failed are moved behind it, so the record still syncs in order.
+ */
+export const requeueDeadLetter = async (id: number): Promise<void> => {
+  const db = await getDb();
+  const tx = db.transaction(['sync_queue', 'sync_dead_letters'], 'readwrite');
+  const letter = await tx.objectStore('sync_dead_letters').get(id);
+  if (letter) {
+    const queue = tx.objectStore('sync_queue');
+    const later = (await queue.index('by-user').getAll(letter.user_id))
+      .filter((e) => e.table === letter.table && e.record_id === letter.record_id);
+    await queue.add({
+      table: letter.table,
+      operation: letter.operation,
+      record_id: letter.record_id,
+      payload: letter.payload,
+      base: letter.base,
+      created_at: letter.created_at,
+      user_id: letter.user_id,
+      revision: 0,
+      attempts: 0,
+    });
+    // Re-adding gives them keys after the letter's
+    for (const { id: laterId, ...rest } of later) {
+      await queue.delete(laterId!);
+      await queue.add(rest);
+    }
+    await tx.objectStore('sync_dead_letters').delete(id);
+  }
+  await tx.done;
+};
+
+export const deleteDeadLetter = async (id: number): Promise<void> => {
+  const db = await getDb();
+  await db.delete('sync_dead_letters', id);
+};
+
+// ─── Sync Conflicts ─────────────────────────────────────────────
+
+export const addSyncConflict = async (conflict: Omit<SyncConflict, 'id'>): Promise<void> => {
+  const db = await getDb();
+  // One open conflict per record: newer detections replace older ones
+  const existing = await db.getAllFromIndex('sync_conflicts', 'by-record', conflict.record_id);
+  const tx = db.transaction('sync_conflicts', 'readwrite');
+  for (const old of existing) {
+    await tx.store.delete(old.id!);
+  }
+  await tx.store.add(conflict as SyncConflict);
+  await tx.done;
+};
+
+export const getSyncConflicts = async (userId: string): Promise<SyncConflict[]> => {
+  const db = await getDb();
+  return db.getAllFromIndex('sync_conflicts', 'by-user', userId);
+};
+
+export const deleteSyncConflict = async (id: number): Promise<void> => {
+  const db = await getDb();
+  await db.delete('sync_conflicts', id);
+};
+
 // ─── Meta (last sync time, etc.) ────────────────────────────────
 
 export const setMeta = async (key: string, value: string): Promise<void> => {
@@ -195,7 +844,7 @@ export const getMeta = async (key: string): Promise<string | undefined> => {
 // ─── Mapping helpers ────────────────────────────────────────────
 
 export const teamToLocal = (
-  dbTeam: { id: string; user_id?: string; team_name: string; admin_email: string; logo: string | null; created_at: string; last_backup: string | null; is_yearly?: boolean | null; is_plus?: boolean | null },
+  dbTeam: { id: string; user_id?: string; team_name: string; admin_email: string; logo: string | null; created_at: string; last_backup: string | null; is_yearly?: boolean | null; is_plus?: boolean | null; billing_cycle_days?: number | null; billing_calendar_month?: boolean | null; seat_limit?: number | null; deleted_at?: string | null; version?: number | null; updated_at?: string | null },
   userId: string
 ): EliteDB['teams']['value'] => ({
   id: dbTeam.id,
@@ -207,6 +856,12 @@ export const teamToLocal = (
   last_backup: dbTeam.last_backup,
   is_yearly: dbTeam.is_yearly || false,
   is_plus: dbTeam.is_plus || false,
+  billing_cycle_days: dbTeam.billing_cycle_days ?? null,
+  billing_calendar_month: dbTeam.billing_calendar_month ?? null,
+  seat_limit: dbTeam.seat_limit ?? null,
+  deleted_at: dbTeam.deleted_at ?? null,
+  version: dbTeam.version ?? null,
+  updated_at: dbTeam.updated_at ?? null,
 });
 
 export const memberToLocal = (
@@ -230,7 +885,65 @@ export const memberToLocal = (
   subscriptions: dbMember.subscriptions || null,
   is_pushed: dbMember.is_pushed || false,
   active_team_id: dbMember.active_team_id || null,
+  is_usdt: dbMember.is_usdt || false,
+  paid_usdt_rate: dbMember.paid_usdt_rate != null ? Number(dbMember.paid_usdt_rate) : null,
+  total_amount: dbMember.total_amount ?? null,
   created_at: dbMember.created_at || new Date().toISOString(),
+  deleted_at: dbMember.deleted_at ?? null,
+  version: dbMember.version ?? null,
+  updated_at: dbMember.updated_at ?? null,
+});
+
+export const paymentToLocal = (
+  dbPayment: Tables<'member_payments'>,
+  userId: string
+): LocalMemberPayment => ({
+  id: dbPayment.id,
+  member_id: dbPayment.member_id,
+  user_id: dbPayment.user_id || userId,
+  year: Number(dbPayment.year),
+  month: Number(dbPayment.month),
+  status: dbPayment.status || 'due',
+  amount: Number(dbPayment.amount) || 0,
+  note: dbPayment.note || null,
+  usdt_rate: dbPayment.usdt_rate != null ? Number(dbPayment.usdt_rate) : null,
+  created_at: dbPayment.created_at || new Date().toISOString(),
+});
+
+export const ledgerEntryToLocal = (
+  dbEntry: Tables<'payment_ledger'>,
+  userId: string
+): LocalLedgerEntry => ({
+  id: dbEntry.id,
+  user_id: dbEntry.user_id || userId,
+  member_id: dbEntry.member_id,
+  team_id: dbEntry.team_id,
+  paid_at: dbEntry.paid_at,
+  amount: Number(dbEntry.amount) || 0,
+  currency: dbEntry.currency || 'BDT',
+  usdt_rate: dbEntry.usdt_rate != null ? Number(dbEntry.usdt_rate) : null,
+  method: dbEntry.method || null,
+  cycle_start: dbEntry.cycle_start || null,
+  cycle_end: dbEntry.cycle_end || null,
+  note: dbEntry.note || null,
+  invoice_number: dbEntry.invoice_number != null ? Number(dbEntry.invoice_number) : null,
+  created_at: dbEntry.created_at || new Date().toISOString(),
+});
+
+export const memberEventToLocal = (
+  dbEvent: Tables<'member_events'>,
+  userId: string
+): LocalMemberEvent => ({
+  id: dbEvent.id,
+  user_id: dbEvent.user_id || userId,
+  member_id: dbEvent.member_id,
+  team_id: dbEvent.team_id,
+  member_email: dbEvent.member_email || '',
+  type: dbEvent.type || 'updated',
+  field: dbEvent.field || null,
+  from_value: dbEvent.from_value ?? null,
+  to_value: dbEvent.to_value ?? null,
+  created_at: dbEvent.created_at || new Date().toISOString(),
 });
 
 export const localTeamToAppTeam = (
@@ -246,6 +959,10 @@ export const localTeamToAppTeam = (
   logo: localTeam.logo as SubscriptionType | undefined,
   isYearlyTeam: localTeam.is_yearly,
   isPlusTeam: localTeam.is_plus,
+  billingCycleDays: localTeam.billing_cycle_days ?? undefined,
+  billingCalendarMonth: localTeam.billing_calendar_month ?? undefined,
+  seatLimit: localTeam.seat_limit ?? undefined,
+  deletedAt: localTeam.deleted_at || undefined,
 });
 
 export const localMemberToAppMember = (
@@ -266,4 +983,122 @@ export const localMemberToAppMember = (
   subscriptions: (localMember.subscriptions as SubscriptionType[]) || undefined,
   isPushed: localMember.is_pushed || false,
   activeTeamId: localMember.active_team_id || undefined,
+  isUsdt: localMember.is_usdt || false,
+  paidUsdtRate: localMember.paid_usdt_rate ?? undefined,
+  totalAmount: localMember.total_amount ?? undefined,
+  deletedAt: localMember.deleted_at || undefined,
+});
+
+export const notepadToLocal = (
+  dbNotepad: { id: string; user_id?: string; title?: string | null; content?: string | null; created_at?: string; updated_at?: string | null },
+  userId: string
+): LocalNotepad => ({
+  id: dbNotepad.id,
+  user_id: dbNotepad.user_id || userId,
+  title: dbNotepad.title || '',
+  content: dbNotepad.content || '',
+  created_at: dbNotepad.created_at || new Date().toISOString(),
+  updated_at: dbNotepad.updated_at || dbNotepad.created_at || new Date().toISOString(),
+  synced_updated_at: dbNotepad.updated_at || null,
+});
+
+export const productToLocal = (
+  dbProduct: Tables<'subscription_products'>,
+  userId: string
+): LocalSubscriptionProduct => ({
+  id: dbProduct.id,
+  user_id: dbProduct.user_id || userId,
+  key: dbProduct.key || dbProduct.id,
+  name: dbProduct.name || '',
+  color: dbProduct.color || '#6366f1',
+  icon_url: dbProduct.icon_url || null,
+  plan_name: dbProduct.plan_name || null,
+  default_price: dbProduct.default_price != null ? Number(dbProduct.default_price) : null,
+  default_seats: dbProduct.default_seats ?? null,
+  billing_cycle_days: dbProduct.billing_cycle_days || 30,
+  billing_calendar_month: dbProduct.billing_calendar_month || false,
+  sort_order: dbProduct.sort_order ?? 0,
+  created_at: dbProduct.created_at || new Date().toISOString(),
+});
+
+export const localProductToAppProduct = (localProduct: LocalSubscriptionProduct): SubscriptionProduct => ({
+  id: localProduct.id,
+  key: localProduct.key,
+  name: localProduct.name,
+  color: localProduct.color,
+  iconUrl: localProduct.icon_url || undefined,
+  planName: localProduct.plan_name || undefined,
+  defaultPrice: localProduct.default_price ?? undefined,
+  defaultSeats: localProduct.default_seats ?? undefined,
+  billingCycleDays: localProduct.billing_cycle_days,
+  billingCalendarMonth: localProduct.billing_calendar_month,
+  sortOrder: localProduct.sort_order,
+});
+
+export const usdtRateToLocal = (
+  dbRate: Tables<'usdt_rates'>,
+  userId: string
+): LocalUsdtRate => ({
+  id: dbRate.id,
+  user_id: dbRate.user_id || userId,
+  rate: Number(dbRate.rate) || 0,
+  effective_date: dbRate.effective_date,
+  created_at: dbRate.created_at || new Date().toISOString(),
+});
+
+export const localUsdtRateToAppRate = (localRate: LocalUsdtRate): UsdtRate => ({
+  id: localRate.id,
+  rate: localRate.rate,
+  effectiveDate: localRate.effective_date,
+  createdAt: localRate.created_at,
+});
+
+export const localNotepadToAppNotepad = (localNotepad: LocalNotepad): Notepad => ({
+  id: localNotepad.id,
+  title: localNotepad.title,
+  content: localNotepad.content,
+  createdAt: localNotepad.created_at,
+  updatedAt: localNotepad.updated_at,
+});
+
+export const localPaymentToAppPayment = (
+  localPayment: LocalMemberPayment
+): MemberPayment => ({
+  id: localPayment.id,
+  memberId: localPayment.member_id,
+  year: localPayment.year,
+  month: localPayment.month,
+  status: localPayment.status === 'paid' ? 'paid' : 'due',
+  amount: localPayment.amount,
+  note: localPayment.note || undefined,
+  usdtRate: localPayment.usdt_rate ?? undefined,
+  createdAt: localPayment.created_at,
+});
+
+export const localLedgerEntryToAppEntry = (localEntry: LocalLedgerEntry): LedgerEntry => ({
+  id: localEntry.id,
+  memberId: localEntry.member_id,
+  teamId: localEntry.team_id,
+  paidAt: localEntry.paid_at,
+  amount: localEntry.amount,
+  currency: localEntry.currency === 'USDT' ? 'USDT' : 'BDT',
+  usdtRate: localEntry.usdt_rate ?? undefined,
+  method: (localEntry.method as PaymentMethod) || undefined,
+  cycleStart: localEntry.cycle_start || undefined,
+  cycleEnd: localEntry.cycle_end || undefined,
+  note: localEntry.note || undefined,
+  invoiceNumber: localEntry.invoice_number ?? undefined,
+  createdAt: localEntry.created_at,
+});
+
+export const localMemberEventToAppEvent = (localEvent: LocalMemberEvent): MemberEvent => ({
+  id: localEvent.id,
+  memberId: localEvent.member_id,
+  teamId: localEvent.team_id,
+  memberEmail: localEvent.member_email,
+  type: localEvent.type as MemberEventType,
+  field: localEvent.field || undefined,
+  fromValue: localEvent.from_value ?? undefined,
+  toValue: localEvent.to_value ?? undefined,
+  createdAt: localEvent.created_at,
 });
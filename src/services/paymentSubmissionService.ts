@@ -0,0 +1,85 @@
+import { supabase } from '@/lib/supabase';
+import { PaymentSubmission } from '@/types/member';
+
+// Payments customers report from the member portal. They live only on the
+// server (the submit-payment edge function writes them), so unlike members
+// and payments they aren't cached offline.
+
+const SCREENSHOT_BUCKET = 'payment-screenshots';
+const SCREENSHOT_URL_TTL_SECONDS = 60 * 10;
+
+interface PaymentSubmissionRow {
+  id: string;
+  member_id: string;
+  method: PaymentSubmission['method'];
+  transaction_id: string;
+  amount: number;
+  currency: PaymentSubmission['currency'];
+  screenshot_path: string | null;
+  status: PaymentSubmission['status'];
+  created_at: string;
+}
+
+const rowToSubmission = (row: PaymentSubmissionRow): PaymentSubmission => ({
+  id: row.id,
+  memberId: row.member_id,
+  method: row.method,
+  transactionId: row.transaction_id,
+  amount: Number(row.amount),
+  currency: row.currency,
+  screenshotPath: row.screenshot_path ?? undefined,
+  status: row.status,
+  createdAt: row.created_at,
+});
+
+/** Submissions still waiting for someone in the workspace to review them, oldest first. */
+export const loadPendingSubmissions = async (workspaceId: string): Promise<PaymentSubmission[]> => {
+  const { data, error } = await supabase
+    .from('payment_submissions')
+    .select('id, member_id, method, transaction_id, amount, currency, screenshot_path, status, created_at')
+    .eq('user_id', workspaceId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return ((data || []) as PaymentSubmissionRow[]).map(rowToSubmission);
+};
+
+export const getScreenshotUrl = async (path: string): Promise<string | null> => {
+  const { data, error } = await supabase.storage
+    .from(SCREENSHOT_BUCKET)
+    .createSignedUrl(path, SCREENSHOT_URL_TTL_SECONDS);
+  if (error) {
+    console.error('[Payments] Failed to sign screenshot URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+/**
+ * Mark a pending submission approved before its payment is recorded, so two
+ * reviewers can't both approve it. Returns false if it was already reviewed.
+ */
+export const claimSubmission = async (id: string, reviewerId: string, ledgerEntryId: string): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('payment_submissions')
+    .update({
+      status: 'approved',
+      ledger_entry_id: ledgerEntryId,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+};
+
+export const rejectSubmission = async (id: string, reviewerId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('payment_submissions')
+    .update({ status: 'rejected', reviewed_by: reviewerId, reviewed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending');
+  if (error) throw error;
+};
@@ -0,0 +1,54 @@
+import { Camera, CameraResultType, CameraSource } from '@capacitor/camera';
+import { isTotpSecret } from '@/lib/totp';
+
+// BarcodeDetector (Shape Detection API) isn't in the TS DOM lib yet
+interface BarcodeDetectorLike {
+  detect(source: ImageBitmapSource): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const canScanQrCodes = (): boolean => getBarcodeDetector() !== undefined;
+
+/**
+ * Take or pick a photo of a QR code and return its text (e.g. an otpauth://
+ * URI). Resolves null when the user cancels; rejects when nothing readable
+ * is found or the device can't decode QR codes.
+ */
+export const scanQrCode = async (): Promise<string | null> => {
+  const Detector = getBarcodeDetector();
+  if (!Detector) throw new Error("This device can't read QR codes — paste the secret instead");
+
+  let dataUrl: string | undefined;
+  try {
+    const photo = await Camera.getPhoto({
+      resultType: CameraResultType.DataUrl,
+      source: CameraSource.Prompt,
+      // Plain file input on the web (offers the camera on phones)
+      webUseInput: true,
+      quality: 90,
+    });
+    dataUrl = photo.dataUrl;
+  } catch (e) {
+    if (e instanceof Error && /cancel/i.test(e.message)) return null;
+    throw e;
+  }
+  if (!dataUrl) return null;
+
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+
+  const [code] = await new Detector({ formats: ['qr_code'] }).detect(image);
+  if (!code?.rawValue) throw new Error('No QR code found in the photo');
+  return code.rawValue;
+};
+
+/** Scan a 2FA setup QR code; rejects when it doesn't hold a TOTP secret. */
+export const scanTotpQrCode = async (): Promise<string | null> => {
+  const scanned = await scanQrCode();
+  if (scanned && !isTotpSecret(scanned)) throw new Error("That QR code isn't a 2FA setup code");
+  return scanned;
+};
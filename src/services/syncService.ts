@@ -2,12 +2,51 @@ import { supabase } from '@/lib/supabase';
 import {
   getSyncQueue,
   clearSyncQueue,
+  completeSyncEntries,
+  updateSyncEntry,
+  rewriteSyncEntry,
+  moveToDeadLetter,
+  getDeadLetters,
+  requeueDeadLetter,
+  deleteDeadLetter,
   saveTeamsLocally,
   saveMembersLocally,
-  getLocalTeams,
-  getLocalMembers,
+  saveMemberPaymentsLocally,
+  getLocalMemberPayments,
+  deleteLocalMemberPayments,
+  saveLedgerLocally,
+  getLocalLedger,
+  getLocalLedgerEntry,
+  putLocalLedgerEntry,
+  deleteLocalLedgerEntries,
+  saveMemberEventsLocally,
+  getLocalMemberEvents,
+  deleteLocalMemberEvents,
+  getLocalTeam,
+  getLocalMember,
+  putLocalTeam,
+  putLocalMember,
+  addSyncConflict,
+  saveNotepadsLocally,
+  getLocalNotepads,
+  getLocalNotepad,
+  putLocalNotepad,
+  deleteLocalNotepads,
+  saveProductsLocally,
+  getLocalProducts,
+  deleteLocalProducts,
+  saveUsdtRatesLocally,
+  getLocalUsdtRates,
+  deleteLocalUsdtRates,
   teamToLocal,
   memberToLocal,
+  paymentToLocal,
+  ledgerEntryToLocal,
+  memberEventToLocal,
+  notepadToLocal,
+  productToLocal,
+  usdtRateToLocal,
+  SyncQueueEntry,
   setMeta,
 } from './offlineDb';
 
@@ -16,32 +55,316 @@ import {
  */
 export const isOnline = (): boolean => navigator.onLine;
 
+const sameTime = (a?: string | null, b?: string | null): boolean =>
+  !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+
+/**
+ * Push one queued notepad change. If the note was edited on another device
+ * since this one last saw it, the server version is kept and the local
+ * edits are saved alongside it as a conflict copy instead of overwriting.
+ */
+const syncNotepadEntry = async (entry: SyncQueueEntry): Promise<void> => {
+  if (entry.operation === 'delete') {
+    const { error } = await supabase.from('notepads').delete().eq('id', entry.record_id);
+    if (error) throw error;
+    return;
+  }
+
+  const local = await getLocalNotepad(entry.record_id);
+  const payload = entry.payload as { title?: string; content?: string; created_at?: string; updated_at?: string };
+
+  if (entry.operation === 'update' && local?.synced_updated_at) {
+    const { data: remote, error: fetchError } = await supabase
+      .from('notepads')
+      .select('*')
+      .eq('id', entry.record_id)
+      .maybeSingle();
+    if (fetchError) throw fetchError;
+
+    const remoteChanged =
+      remote &&
+      !sameTime(remote.updated_at, local.synced_updated_at) &&
+      (remote.title !== payload.title || (remote.content || '') !== payload.content);
+
+    if (remoteChanged) {
+      const now = new Date().toISOString();
+      const copy = {
+        id: crypto.randomUUID(),
+        user_id: entry.user_id,
+        title: `${payload.title || 'Untitled Note'} (conflict copy)`,
+        content: payload.content || '',
+        created_at: now,
+        updated_at: now,
+      };
+      const { error } = await supabase.from('notepads').insert(copy);
+      if (error) throw error;
+
+      await putLocalNotepad({ ...copy, synced_updated_at: now });
+      await putLocalNotepad(notepadToLocal(remote, entry.user_id));
+      console.warn(`[Sync] Note ${entry.record_id} changed on another device — kept both versions`);
+      return;
+    }
+  }
+
+  const row = {
+    id: entry.record_id,
+    user_id: entry.user_id,
+    title: payload.title,
+    content: payload.content,
+    created_at: local?.created_at || payload.created_at,
+    updated_at: payload.updated_at,
+  };
+  // Upsert so an edit to a note deleted elsewhere brings it back rather than vanishing
+  const { data, error } = await supabase
+    .from('notepads')
+    .upsert(row)
+    .select('updated_at')
+    .single();
+  if (error) throw error;
+
+  const current = await getLocalNotepad(entry.record_id);
+  if (current) {
+    await putLocalNotepad({ ...current, synced_updated_at: data?.updated_at || row.updated_at });
+  }
+};
+
+// ─── Change notifications ───────────────────────────────────────
+
+type SyncListener = () => void;
+const syncListeners = new Set<SyncListener>();
+
+/**
+ * Subscribe to queue, conflict, dead-letter and pull activity.
+ */
+export const onSyncChange = (listener: SyncListener): (() => void) => {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
+
+export const notifySyncChange = () => syncListeners.forEach((listener) => listener());
+
+// ─── Retry policy ───────────────────────────────────────────────
+
+export const MAX_SYNC_ATTEMPTS = 5;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 30 * 60_000;
+
+// 30s, 1m, 2m, 4m… capped at 30 minutes
+const retryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const errorMessage = (err: unknown): string => {
+  if (err instanceof Error) return err.message;
+  if (err && typeof err === 'object' && 'message' in err) return String((err as { message: unknown }).message);
+  return String(err);
+};
+
+/**
+ * Put a dead-lettered entry back on the queue with a fresh attempt count.
+ */
+export const retryDeadLetter = async (id: number, userId: string): Promise<void> => {
+  await requeueDeadLetter(id);
+  notifySyncChange();
+  if (isOnline()) await processSyncQueue(userId);
+};
+
+/**
+ * Drop a dead-lettered change for good, then pull so local data matches the server again.
+ */
+export const discardDeadLetter = async (id: number, userId: string): Promise<void> => {
+  await deleteDeadLetter(id);
+  notifySyncChange();
+  if (isOnline()) await fullSync(userId);
+};
+
+// ─── Conflict detection ─────────────────────────────────────────
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Push a queued team/member update. When the server row has moved past the
+ * version this device last saw, fields the other side changed to a different
+ * value are held back and recorded as conflicts; everything else still syncs.
+ */
+const syncVersionedUpdate = async (entry: SyncQueueEntry, queue: SyncQueueEntry[]): Promise<void> => {
+  const table = entry.table as 'teams' | 'members';
+  const { id: _id, ...changes } = entry.payload;
+
+  const { data: remote, error: fetchError } = await supabase
+    .from(table)
+    .select('*')
+    .eq('id', entry.record_id)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  // Deleted on another device: fail, so the edit retries and then dead-letters instead of vanishing
+  if (!remote) throw new Error(`${table === 'teams' ? 'Team' : 'Member'} no longer exists on the server`);
+
+  const local = table === 'teams' ? await getLocalTeam(entry.record_id) : await getLocalMember(entry.record_id);
+  const conflicts: { field: string; local: unknown; remote: unknown }[] = [];
+
+  if (local?.version != null && remote.version !== local.version && entry.base) {
+    for (const [field, value] of Object.entries(changes)) {
+      if (!(field in entry.base)) continue;
+      const remoteValue = remote[field];
+      // Unchanged remotely, or both sides landed on the same value
+      if (sameValue(remoteValue, entry.base[field]) || sameValue(remoteValue, value)) continue;
+      conflicts.push({ field, local: value, remote: remoteValue });
+    }
+  }
+
+  const toPush = { ...changes };
+  conflicts.forEach((c) => delete toPush[c.field]);
+
+  let synced = remote;
+  if (Object.keys(toPush).length > 0) {
+    const { data, error } = await supabase
+      .from(table)
+      .update(toPush)
+      .eq('id', entry.record_id)
+      .select('*')
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new Error(`${table === 'teams' ? 'Team' : 'Member'} no longer exists on the server`);
+    synced = data;
+  }
+
+  // Adopt the server row, keeping fields that later queued edits still have to push
+  const laterChanges: Record<string, unknown> = {};
+  queue
+    .filter((e) => e.table === table && e.record_id === entry.record_id && e.operation === 'update' && e.id! > entry.id!)
+    .forEach((e) => Object.assign(laterChanges, e.payload));
+
+  if (table === 'teams') {
+    await putLocalTeam({ ...teamToLocal(synced, entry.user_id), ...laterChanges });
+  } else {
+    await putLocalMember({ ...memberToLocal(synced, entry.user_id), ...laterChanges });
+  }
+
+  if (conflicts.length > 0) {
+    await addSyncConflict({
+      table,
+      record_id: entry.record_id,
+      label: table === 'teams' ? synced.team_name : synced.email,
+      fields: conflicts,
+      created_at: new Date().toISOString(),
+      user_id: entry.user_id,
+    });
+    console.warn(`[Sync] ${conflicts.length} conflicting field(s) on ${table}/${entry.record_id}`);
+  }
+};
+
+let queueRun: Promise<number> | null = null;
+// Scopes (user or workspace ids) that queued more changes during the current run
+const rerunQueued = new Set<string>();
+
 /**
  * Process the sync queue — push pending local changes to Supabase.
  * Returns the number of successfully synced items.
  */
-export const processSyncQueue = async (userId: string): Promise<number> => {
+export const processSyncQueue = (userId: string): Promise<number> => {
+  // Share an in-flight run so overlapping triggers don't push the same entries
+  // twice; changes queued meanwhile are picked up by one more pass.
+  if (queueRun) {
+    rerunQueued.add(userId);
+    return queueRun;
+  }
+
+  queueRun = (async () => {
+    let synced = 0;
+    let next: string | undefined = userId;
+    while (next) {
+      rerunQueued.delete(next);
+      synced += await runSyncQueue(next);
+      next = rerunQueued.values().next().value;
+    }
+    return synced;
+  })().finally(() => {
+    queueRun = null;
+  });
+  return queueRun;
+};
+
+/**
+ * Take back a change that hasn't left the queue yet: the latest pending entry
+ * for the record pushes `restore` instead. Fields back at their base value are
+ * dropped, and an update left with nothing to push is removed — unless a push
+ * is running, since it may already be sending that entry. Returns false when
+ * the change has already synced, so the caller has to queue a new update.
+ */
+export const revertQueuedUpdate = async (
+  userId: string,
+  table: 'teams' | 'members',
+  recordId: string,
+  restore: Record<string, unknown>
+): Promise<boolean> => {
+  const latest = (await getSyncQueue(userId))
+    .filter((e) => e.table === table && e.record_id === recordId)
+    .sort((a, b) => b.id! - a.id!)[0];
+  if (!latest || latest.operation === 'delete') return false;
+  if (!Object.keys(restore).every((field) => field in latest.payload)) return false;
+
+  const payload = { ...latest.payload };
+  const base = latest.base ? { ...latest.base } : undefined;
+  for (const [field, value] of Object.entries(restore)) {
+    if (!queueRun && base && field in base && sameValue(base[field], value)) {
+      delete payload[field];
+      delete base[field];
+    } else {
+      payload[field] = value;
+    }
+  }
+
+  if (latest.operation === 'update' && Object.keys(payload).every((field) => field === 'id')) {
+    await clearSyncQueue([latest.id!]);
+  } else {
+    await rewriteSyncEntry(latest.id!, payload, base);
+  }
+  notifySyncChange();
+  return true;
+};
+
+/**
+ * Invoice numbers are handed out by the server's per-workspace counter, so
+ * the provisional one this device picked can come back different.
+ */
+const adoptInvoiceNumber = async (entryId: string, invoiceNumber: number | null | undefined): Promise<void> => {
+  const local = await getLocalLedgerEntry(entryId);
+  if (!local || invoiceNumber == null || local.invoice_number === invoiceNumber) return;
+  await putLocalLedgerEntry({ ...local, invoice_number: invoiceNumber });
+  notifySyncChange();
+};
+
+const runSyncQueue = async (userId: string): Promise<number> => {
   if (!isOnline()) return 0;
 
   const queue = await getSyncQueue(userId);
   if (queue.length === 0) return 0;
 
   console.log(`[Sync] Processing ${queue.length} queued operations…`);
-  const completedIds: number[] = [];
+  const completed: SyncQueueEntry[] = [];
+  const now = Date.now();
+  // Records with an earlier entry waiting, failing or dead-lettered keep their later entries in order
+  const blocked = new Set((await getDeadLetters(userId)).map((l) => `${l.table}:${l.record_id}`));
+  let failed = 0;
 
   for (const entry of queue) {
+    const recordKey = `${entry.table}:${entry.record_id}`;
+    if (blocked.has(recordKey)) continue;
+    if (entry.next_attempt_at && new Date(entry.next_attempt_at).getTime() > now) {
+      blocked.add(recordKey);
+      continue;
+    }
+
     try {
       if (entry.table === 'teams') {
         if (entry.operation === 'insert') {
-          const { error } = await supabase.from('teams').upsert(entry.payload as any);
+          const { error } = await supabase.from('teams').upsert(entry.payload);
           if (error) throw error;
         } else if (entry.operation === 'update') {
-          const { id: _id, ...updatePayload } = entry.payload;
-          const { error } = await supabase
-            .from('teams')
-            .update(updatePayload as any)
-            .eq('id', entry.record_id);
-          if (error) throw error;
+          await syncVersionedUpdate(entry, queue);
         } else if (entry.operation === 'delete') {
           const { error } = await supabase.from('teams').delete().eq('id', entry.record_id);
           if (error) throw error;
@@ -50,7 +373,7 @@ export const processSyncQueue = async (userId: string): Promise<number> => {
         if (entry.operation === 'insert') {
           // Remove optional columns that may not exist in some schemas
           const payload = { ...entry.payload };
-          const { error } = await supabase.from('members').upsert(payload as any);
+          const { error } = await supabase.from('members').upsert(payload);
           if (error) {
             // Retry without optional columns if column doesn't exist
             if (error.code === 'PGRST204') {
@@ -58,67 +381,253 @@ export const processSyncQueue = async (userId: string): Promise<number> => {
               if (msg.includes("'two_fa'")) delete payload.two_fa;
               if (msg.includes("'password'")) delete payload.password;
               if (msg.includes("'twofa_secret'")) delete payload.twofa_secret;
-              const { error: e2 } = await supabase.from('members').upsert(payload as any);
+              const { error: e2 } = await supabase.from('members').upsert(payload);
               if (e2) throw e2;
             } else {
               throw error;
             }
           }
+        } else if (entry.operation === 'update') {
+          await syncVersionedUpdate(entry, queue);
+        } else if (entry.operation === 'delete') {
+          const { error } = await supabase.from('members').delete().eq('id', entry.record_id);
+          if (error) throw error;
+        }
+      } else if (entry.table === 'member_payments') {
+        if (entry.operation === 'insert') {
+          // One ledger row per member/month, even if another device created it first
+          const { error } = await supabase
+            .from('member_payments')
+            .upsert(entry.payload, { onConflict: 'member_id,year,month' });
+          if (error) throw error;
         } else if (entry.operation === 'update') {
           const { id: _id, ...updatePayload } = entry.payload;
           const { error } = await supabase
-            .from('members')
-            .update(updatePayload as any)
+            .from('member_payments')
+            .update(updatePayload)
             .eq('id', entry.record_id);
           if (error) throw error;
         } else if (entry.operation === 'delete') {
-          const { error } = await supabase.from('members').delete().eq('id', entry.record_id);
+          const { error } = await supabase.from('member_payments').delete().eq('id', entry.record_id);
+          if (error) throw error;
+        }
+      } else if (entry.table === 'payment_ledger') {
+        if (entry.operation === 'insert') {
+          const { data, error } = await supabase
+            .from('payment_ledger')
+            .upsert(entry.payload)
+            .select('invoice_number')
+            .maybeSingle();
+          if (error) throw error;
+          if (entry.payload.invoice_number != null) await adoptInvoiceNumber(entry.record_id, data?.invoice_number);
+        } else if (entry.operation === 'update') {
+          const { id: _id, ...updatePayload } = entry.payload;
+          const { data, error } = await supabase
+            .from('payment_ledger')
+            .update(updatePayload)
+            .eq('id', entry.record_id)
+            .select('invoice_number')
+            .maybeSingle();
+          if (error) throw error;
+          if (updatePayload.invoice_number != null) await adoptInvoiceNumber(entry.record_id, data?.invoice_number);
+        } else if (entry.operation === 'delete') {
+          const { error } = await supabase.from('payment_ledger').delete().eq('id', entry.record_id);
+          if (error) throw error;
+        }
+      } else if (entry.table === 'member_events') {
+        // The log is append-only; deletes only come from backup imports
+        if (entry.operation === 'delete') {
+          const { error } = await supabase.from('member_events').delete().eq('id', entry.record_id);
+          if (error) throw error;
+        } else {
+          const { error } = await supabase.from('member_events').upsert(entry.payload);
+          if (error) throw error;
+        }
+      } else if (entry.table === 'notepads') {
+        await syncNotepadEntry(entry);
+      } else if (entry.table === 'subscription_products') {
+        if (entry.operation === 'insert') {
+          // Keys are unique per user, so a restored built-in lands on the existing row
+          const { error } = await supabase
+            .from('subscription_products')
+            .upsert(entry.payload, { onConflict: 'user_id,key' });
+          if (error) throw error;
+        } else if (entry.operation === 'update') {
+          const { id: _id, ...updatePayload } = entry.payload;
+          const { error } = await supabase
+            .from('subscription_products')
+            .update(updatePayload)
+            .eq('id', entry.record_id);
+          if (error) throw error;
+        } else if (entry.operation === 'delete') {
+          const { error } = await supabase.from('subscription_products').delete().eq('id', entry.record_id);
+          if (error) throw error;
+        }
+      } else if (entry.table === 'usdt_rates') {
+        if (entry.operation === 'insert') {
+          const { error } = await supabase.from('usdt_rates').upsert(entry.payload);
+          if (error) throw error;
+        } else if (entry.operation === 'delete') {
+          const { error } = await supabase.from('usdt_rates').delete().eq('id', entry.record_id);
           if (error) throw error;
         }
       }
 
-      completedIds.push(entry.id!);
+      completed.push(entry);
     } catch (err) {
       console.error(`[Sync] Failed to sync ${entry.table}/${entry.operation}:`, err);
-      // Don't add to completedIds — will retry next time
+      blocked.add(recordKey);
+      failed++;
+
+      const attempts = (entry.attempts || 0) + 1;
+      const message = errorMessage(err);
+      if (attempts >= MAX_SYNC_ATTEMPTS) {
+        console.warn(`[Sync] Giving up on ${entry.table}/${entry.operation} after ${attempts} attempts`);
+        await moveToDeadLetter({ ...entry, attempts }, message);
+      } else {
+        await updateSyncEntry({
+          ...entry,
+          attempts,
+          next_attempt_at: new Date(now + retryDelay(attempts)).toISOString(),
+          last_error: message,
+        });
+      }
     }
   }
 
-  if (completedIds.length > 0) {
-    await clearSyncQueue(completedIds);
+  if (completed.length > 0) {
+    await completeSyncEntries(completed);
     await setMeta('last_sync', new Date().toISOString());
-    console.log(`[Sync] Synced ${completedIds.length}/${queue.length} operations`);
+    console.log(`[Sync] Synced ${completed.length}/${queue.length} operations`);
   }
+  if (completed.length > 0 || failed > 0) notifySyncChange();
 
-  return completedIds.length;
+  return completed.length;
 };
 
+export interface PullOptions {
+  // Workspace viewers get members without credential columns
+  redactCredentials?: boolean;
+}
+
 /**
  * Pull latest data from Supabase and save to IndexedDB.
  * Returns the remote data for immediate UI use.
  */
-export const pullFromRemote = async (userId: string) => {
+export const pullFromRemote = async (userId: string, options: PullOptions = {}) => {
   if (!isOnline()) return null;
 
   try {
-    const [teamsRes, membersRes] = await Promise.all([
+    const [teamsRes, membersRes, paymentsRes, ledgerRes, eventsRes, notepadsRes, productsRes, ratesRes] = await Promise.all([
       supabase.from('teams').select('*').eq('user_id', userId).order('created_at', { ascending: false }),
-      supabase.from('members').select('*').eq('user_id', userId),
+      options.redactCredentials
+        ? supabase.rpc('workspace_members_redacted', { p_workspace_id: userId })
+        : supabase.from('members').select('*').eq('user_id', userId),
+      supabase.from('member_payments').select('*').eq('user_id', userId),
+      supabase.from('payment_ledger').select('*').eq('user_id', userId),
+      supabase.from('member_events').select('*').eq('user_id', userId),
+      supabase.from('notepads').select('*').eq('user_id', userId),
+      supabase.from('subscription_products').select('*').eq('user_id', userId),
+      supabase.from('usdt_rates').select('*').eq('user_id', userId),
     ]);
 
-    if (teamsRes.error || membersRes.error) {
-      console.error('[Sync] Pull error:', teamsRes.error || membersRes.error);
+    const pullError =
+      teamsRes.error || membersRes.error || paymentsRes.error || ledgerRes.error || eventsRes.error ||
+      notepadsRes.error || productsRes.error || ratesRes.error;
+    if (pullError) {
+      console.error('[Sync] Pull error:', pullError);
       return null;
     }
 
-    const localTeams = (teamsRes.data || []).map((t: any) => teamToLocal(t, userId));
-    const localMembers = (membersRes.data || []).map((m: any) => memberToLocal(m, userId));
+    const queue = await getSyncQueue(userId);
+    const pendingIds = (table: string) =>
+      new Set(queue.filter((e) => e.table === table).map((e) => e.record_id));
+
+    const localTeams = (teamsRes.data || []).map((t) => teamToLocal(t, userId));
+    const localMembers = (membersRes.data || []).map((m) => memberToLocal(m, userId));
+    const localPayments = (paymentsRes.data || []).map((p) => paymentToLocal(p, userId));
+
+    // Rows with unsynced local edits keep them; the queue checks them against the server on push
+    const pendingTeamIds = pendingIds('teams');
+    const pendingMemberIds = pendingIds('members');
+    await saveTeamsLocally(localTeams.filter((t) => !pendingTeamIds.has(t.id)));
+    await saveMembersLocally(localMembers.filter((m) => !pendingMemberIds.has(m.id)));
+    const pendingPaymentIds = pendingIds('member_payments');
+    await saveMemberPaymentsLocally(localPayments.filter((p) => !pendingPaymentIds.has(p.id)));
+
+    // Drop ledger rows removed (or re-keyed) remotely, keeping ones still waiting to sync
+    const remotePaymentIds = new Set(localPayments.map((p) => p.id));
+    const stalePaymentIds = (await getLocalMemberPayments(userId))
+      .filter((p) => !remotePaymentIds.has(p.id) && !pendingPaymentIds.has(p.id))
+      .map((p) => p.id);
+    if (stalePaymentIds.length > 0) await deleteLocalMemberPayments(stalePaymentIds);
+
+    const pendingLedgerIds = pendingIds('payment_ledger');
+    const localLedger = (ledgerRes.data || []).map((e) => ledgerEntryToLocal(e, userId));
+    await saveLedgerLocally(localLedger.filter((e) => !pendingLedgerIds.has(e.id)));
+
+    const remoteLedgerIds = new Set(localLedger.map((e) => e.id));
+    const staleLedgerIds = (await getLocalLedger(userId))
+      .filter((e) => !remoteLedgerIds.has(e.id) && !pendingLedgerIds.has(e.id))
+      .map((e) => e.id);
+    if (staleLedgerIds.length > 0) await deleteLocalLedgerEntries(staleLedgerIds);
+
+    const pendingEventIds = pendingIds('member_events');
+    const localEvents = (eventsRes.data || []).map((e) => memberEventToLocal(e, userId));
+    await saveMemberEventsLocally(localEvents.filter((e) => !pendingEventIds.has(e.id)));
+
+    const remoteEventIds = new Set(localEvents.map((e) => e.id));
+    const staleEventIds = (await getLocalMemberEvents(userId))
+      .filter((e) => !remoteEventIds.has(e.id) && !pendingEventIds.has(e.id))
+      .map((e) => e.id);
+    if (staleEventIds.length > 0) await deleteLocalMemberEvents(staleEventIds);
+
+    // Notes with unsynced local edits keep them until the queue pushes them
+    const pendingNotepadIds = pendingIds('notepads');
+    const localNotepads = (notepadsRes.data || [])
+      .filter((n) => !pendingNotepadIds.has(n.id))
+      .map((n) => notepadToLocal(n, userId));
+    await saveNotepadsLocally(localNotepads);
+
+    const remoteNotepadIds = new Set((notepadsRes.data || []).map((n) => n.id as string));
+    const staleNotepadIds = (await getLocalNotepads(userId))
+      .filter((n) => n.synced_updated_at && !remoteNotepadIds.has(n.id) && !pendingNotepadIds.has(n.id))
+      .map((n) => n.id);
+    if (staleNotepadIds.length > 0) await deleteLocalNotepads(staleNotepadIds);
+
+    const pendingProductIds = pendingIds('subscription_products');
+    const localProducts = (productsRes.data || []).map((p) => productToLocal(p, userId));
+    await saveProductsLocally(localProducts.filter((p) => !pendingProductIds.has(p.id)));
+
+    const remoteProductIds = new Set(localProducts.map((p) => p.id));
+    const staleProductIds = (await getLocalProducts(userId))
+      .filter((p) => !remoteProductIds.has(p.id) && !pendingProductIds.has(p.id))
+      .map((p) => p.id);
+    if (staleProductIds.length > 0) await deleteLocalProducts(staleProductIds);
+
+    const pendingRateIds = pendingIds('usdt_rates');
+    const localRates = (ratesRes.data || []).map((r) => usdtRateToLocal(r, userId));
+    await saveUsdtRatesLocally(localRates.filter((r) => !pendingRateIds.has(r.id)));
+
+    const remoteRateIds = new Set(localRates.map((r) => r.id));
+    const staleRateIds = (await getLocalUsdtRates(userId))
+      .filter((r) => !remoteRateIds.has(r.id) && !pendingRateIds.has(r.id))
+      .map((r) => r.id);
+    if (staleRateIds.length > 0) await deleteLocalUsdtRates(staleRateIds);
 
-    await saveTeamsLocally(localTeams);
-    await saveMembersLocally(localMembers);
     await setMeta('last_sync', new Date().toISOString());
+    notifySyncChange();
 
-    return { teams: localTeams, members: localMembers };
+    return {
+      teams: localTeams,
+      members: localMembers,
+      payments: localPayments,
+      ledger: localLedger,
+      memberEvents: localEvents,
+      notepads: localNotepads,
+      products: localProducts,
+      usdtRates: localRates,
+    };
   } catch (err) {
     console.error('[Sync] Pull failed:', err);
     return null;
@@ -128,9 +637,19 @@ export const pullFromRemote = async (userId: string) => {
 /**
  * Full sync: push pending changes, then pull latest from remote.
  */
-export const fullSync = async (userId: string) => {
-  if (!isOnline()) return null;
+const fullSyncRuns = new Map<string, ReturnType<typeof pullFromRemote>>();
 
-  await processSyncQueue(userId);
-  return pullFromRemote(userId);
+export const fullSync = (userId: string, options: PullOptions = {}) => {
+  if (!isOnline()) return Promise.resolve(null);
+
+  let run = fullSyncRuns.get(userId);
+  if (!run) {
+    run = processSyncQueue(userId)
+      .then(() => pullFromRemote(userId, options))
+      .finally(() => {
+        fullSyncRuns.delete(userId);
+      });
+    fullSyncRuns.set(userId, run);
+  }
+  return run;
 };
@@ -0,0 +1,79 @@
+// ─── Session undo history ───────────────────────────────────────
+//
+// Undoable mutations register how to revert themselves here. The history
+// lives for the session only (it holds closures), newest first.
+
+export interface UndoEntry {
+  id: string;
+  userId: string;
+  label: string;
+  createdAt: string;
+  undone: boolean;
+}
+
+interface StoredUndoEntry extends UndoEntry {
+  revert: () => Promise<void>;
+}
+
+const MAX_UNDO_HISTORY = 50;
+
+let history: StoredUndoEntry[] = [];
+
+type UndoListener = () => void;
+const undoListeners = new Set<UndoListener>();
+
+export const onUndoChange = (listener: UndoListener): (() => void) => {
+  undoListeners.add(listener);
+  return () => {
+    undoListeners.delete(listener);
+  };
+};
+
+const notifyUndoChange = () => undoListeners.forEach((listener) => listener());
+
+const toPublicEntry = ({ revert: _revert, ...entry }: StoredUndoEntry): UndoEntry => entry;
+
+export const recordUndo = (userId: string, label: string, revert: () => Promise<void>): UndoEntry => {
+  const entry: StoredUndoEntry = {
+    id: crypto.randomUUID(),
+    userId,
+    label,
+    createdAt: new Date().toISOString(),
+    undone: false,
+    revert,
+  };
+  history = [entry, ...history].slice(0, MAX_UNDO_HISTORY);
+  notifyUndoChange();
+  return toPublicEntry(entry);
+};
+
+// Entries are recorded under the scope they changed: the user's own notes or a workspace
+export const getUndoHistory = (...scopes: string[]): UndoEntry[] =>
+  history.filter((e) => scopes.includes(e.userId)).map(toPublicEntry);
+
+/**
+ * Revert one recorded action. Each entry can be undone once; a failed revert
+ * (e.g. its team is full again) leaves it available to retry.
+ */
+export const undo = async (id: string): Promise<{ ok: boolean; error?: string }> => {
+  const entry = history.find((e) => e.id === id);
+  if (!entry) return { ok: false, error: 'Nothing to undo' };
+  if (entry.undone) return { ok: false, error: 'Already undone' };
+
+  entry.undone = true;
+  try {
+    await entry.revert();
+    return { ok: true };
+  } catch (e) {
+    entry.undone = false;
+    console.error('[Undo] Failed to revert:', e);
+    return { ok: false, error: e instanceof Error ? e.message : 'Failed to undo' };
+  } finally {
+    notifyUndoChange();
+  }
+};
+
+export const clearUndoHistory = () => {
+  history = [];
+  notifyUndoChange();
+};
@@ -0,0 +1,140 @@
+import { supabase } from '@/lib/supabase';
+import { getLocalMembers, putLocalMember, getMeta, setMeta, addToSyncQueue } from './offlineDb';
+import { isOnline, processSyncQueue, notifySyncChange } from './syncService';
+import {
+  CREDENTIAL_FIELDS,
+  DEFAULT_VAULT_AUTO_LOCK_MINUTES,
+  decryptValue,
+  encryptValue,
+  isEncrypted,
+  VaultConfig,
+} from '@/lib/vault';
+
+// ─── Vault config (salt + verifier) ─────────────────────────────
+
+const configMetaKey = (userId: string) => `vault_config:${userId}`;
+const AUTO_LOCK_META_KEY = 'vault_auto_lock_minutes';
+
+export const getCachedVaultConfig = async (userId: string): Promise<VaultConfig | null> => {
+  const stored = await getMeta(configMetaKey(userId));
+  if (!stored) return null;
+  try {
+    return JSON.parse(stored) as VaultConfig;
+  } catch {
+    return null;
+  }
+};
+
+const cacheVaultConfig = (userId: string, config: VaultConfig): Promise<void> =>
+  setMeta(configMetaKey(userId), JSON.stringify(config));
+
+/**
+ * Latest config from the server (cached for offline unlock). Falls back to
+ * the cached copy when offline or the request fails.
+ */
+export const loadVaultConfig = async (userId: string): Promise<VaultConfig | null> => {
+  const cached = await getCachedVaultConfig(userId);
+  if (!isOnline()) return cached;
+
+  const { data, error } = await supabase
+    .from('credential_vaults')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('[Vault] Failed to load vault config:', error);
+    return cached;
+  }
+  if (!data) return cached;
+
+  const config: VaultConfig = {
+    salt: data.salt,
+    iterations: data.iterations,
+    verifier: data.verifier,
+    updatedAt: data.updated_at,
+  };
+  await cacheVaultConfig(userId, config);
+  return config;
+};
+
+/** Setting up or changing the passphrase has to reach the server, so other devices can unlock. */
+export const saveVaultConfig = async (userId: string, config: VaultConfig): Promise<void> => {
+  const { error } = await supabase.from('credential_vaults').upsert({
+    user_id: userId,
+    salt: config.salt,
+    iterations: config.iterations,
+    verifier: config.verifier,
+    updated_at: config.updatedAt,
+  });
+  if (error) throw error;
+  await cacheVaultConfig(userId, config);
+};
+
+export const getVaultAutoLockMinutes = async (): Promise<number> => {
+  const stored = await getMeta(AUTO_LOCK_META_KEY);
+  const minutes = Number(stored);
+  return stored !== undefined && Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_VAULT_AUTO_LOCK_MINUTES;
+};
+
+export const setVaultAutoLockMinutes = (minutes: number): Promise<void> =>
+  setMeta(AUTO_LOCK_META_KEY, String(minutes));
+
+// ─── Re-encryption ──────────────────────────────────────────────
+
+/**
+ * Seal every stored credential under `toKey`. Plaintext values (from before
+ * the vault existed, an older device or an imported backup) are encrypted;
+ * values sealed under `fromKey` are re-encrypted. Changed members are queued
+ * for sync. Returns how many values couldn't be opened and were left as is.
+ */
+export const resealCredentials = async (
+  userId: string,
+  toKey: CryptoKey,
+  fromKey: CryptoKey | null = null
+): Promise<{ resealed: number; failed: number }> => {
+  let resealed = 0;
+  let failed = 0;
+
+  for (const member of await getLocalMembers(userId)) {
+    const changes: Record<string, string> = {};
+    const base: Record<string, unknown> = {};
+
+    for (const field of CREDENTIAL_FIELDS) {
+      const value = member[field];
+      if (!value) continue;
+
+      let plaintext = value;
+      if (isEncrypted(value)) {
+        if (!fromKey) continue; // Already sealed under the current key
+        try {
+          plaintext = await decryptValue(fromKey, value);
+        } catch {
+          failed++;
+          continue;
+        }
+      }
+      changes[field] = await encryptValue(toKey, plaintext);
+      base[field] = value;
+    }
+
+    if (Object.keys(changes).length === 0) continue;
+    await putLocalMember({ ...member, ...changes });
+    await addToSyncQueue({
+      table: 'members',
+      operation: 'update',
+      record_id: member.id,
+      payload: { id: member.id, ...changes },
+      base,
+      created_at: new Date().toISOString(),
+      user_id: userId,
+    });
+    resealed += Object.keys(changes).length;
+  }
+
+  if (failed > 0) console.warn(`[Vault] ${failed} credential(s) could not be opened and were left as is`);
+  if (resealed > 0) {
+    notifySyncChange();
+    if (isOnline()) processSyncQueue(userId).catch((e) => console.error('[Sync] background error:', e));
+  }
+  return { resealed, failed };
+};
@@ -0,0 +1,210 @@
+import { User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { supabase as cloudSupabase } from '@/integrations/supabase/client';
+import { getMeta, setMeta } from './offlineDb';
+import { isOnline } from './syncService';
+import {
+  CollaboratorRole,
+  Workspace,
+  WorkspaceCollaborator,
+  WorkspaceInvite,
+} from '@/types/workspace';
+
+const workspacesMetaKey = (userId: string) => `workspaces:${userId}`;
+const activeWorkspaceMetaKey = (userId: string) => `active_workspace:${userId}`;
+
+const OWN_WORKSPACE_NAME = 'My workspace';
+
+const ownWorkspace = (userId: string, name?: string): Workspace => ({
+  id: userId,
+  name: name || OWN_WORKSPACE_NAME,
+  role: 'owner',
+});
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  error && typeof error === 'object' && 'message' in error && typeof error.message === 'string'
+    ? error.message
+    : fallback;
+
+// ─── Workspaces the user can open ───────────────────────────────
+
+const getCachedWorkspaces = async (userId: string): Promise<Workspace[]> => {
+  const stored = await getMeta(workspacesMetaKey(userId));
+  if (!stored) return [ownWorkspace(userId)];
+  try {
+    return JSON.parse(stored) as Workspace[];
+  } catch {
+    return [ownWorkspace(userId)];
+  }
+};
+
+/**
+ * The user's own workspace first, then the ones they collaborate on. Cached
+ * so the app opens in the right workspace offline.
+ */
+export const loadWorkspaces = async (userId: string): Promise<Workspace[]> => {
+  if (!isOnline()) return getCachedWorkspaces(userId);
+
+  const [ownRes, membershipsRes] = await Promise.all([
+    supabase.from('workspaces').select('name').eq('owner_id', userId).maybeSingle(),
+    supabase.from('workspace_members').select('workspace_id, role').eq('user_id', userId),
+  ]);
+  if (ownRes.error || membershipsRes.error) {
+    console.error('[Workspace] Failed to load workspaces:', ownRes.error || membershipsRes.error);
+    return getCachedWorkspaces(userId);
+  }
+
+  const memberships: { workspace_id: string; role: CollaboratorRole }[] = membershipsRes.data || [];
+  const names = new Map<string, string>();
+  if (memberships.length) {
+    const { data } = await supabase
+      .from('workspaces')
+      .select('owner_id, name')
+      .in('owner_id', memberships.map((m) => m.workspace_id));
+    (data || []).forEach((w: { owner_id: string; name: string }) => names.set(w.owner_id, w.name));
+  }
+
+  const workspaces: Workspace[] = [
+    ownWorkspace(userId, ownRes.data?.name),
+    ...memberships.map((m) => ({
+      id: m.workspace_id,
+      name: names.get(m.workspace_id) || 'Shared workspace',
+      role: m.role,
+    })),
+  ];
+  await setMeta(workspacesMetaKey(userId), JSON.stringify(workspaces));
+  return workspaces;
+};
+
+export const getActiveWorkspaceId = async (userId: string): Promise<string> =>
+  (await getMeta(activeWorkspaceMetaKey(userId))) || userId;
+
+export const setActiveWorkspaceId = (userId: string, workspaceId: string): Promise<void> =>
+  setMeta(activeWorkspaceMetaKey(userId), workspaceId);
+
+// ─── Collaborators (owner only) ─────────────────────────────────
+
+export const loadCollaborators = async (
+  ownerId: string
+): Promise<{ collaborators: WorkspaceCollaborator[]; invites: WorkspaceInvite[] }> => {
+  const [membersRes, invitesRes] = await Promise.all([
+    supabase.from('workspace_members').select('*').eq('workspace_id', ownerId).order('created_at'),
+    supabase
+      .from('workspace_invites')
+      .select('*')
+      .eq('workspace_id', ownerId)
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false }),
+  ]);
+  if (membersRes.error) throw membersRes.error;
+  if (invitesRes.error) throw invitesRes.error;
+
+  return {
+    collaborators: (membersRes.data || []).map((m) => ({
+      userId: m.user_id,
+      email: m.email,
+      role: m.role,
+      createdAt: m.created_at,
+    })),
+    invites: (invitesRes.data || []).map((i) => ({
+      id: i.id,
+      email: i.email,
+      role: i.role,
+      createdAt: i.created_at,
+      expiresAt: i.expires_at,
+    })),
+  };
+};
+
+/** Create (or replace) an invite and email the link to join. */
+export const inviteCollaborator = async (
+  owner: User,
+  workspaceName: string,
+  email: string,
+  role: CollaboratorRole
+): Promise<{ ok: boolean; error?: string }> => {
+  const address = email.trim().toLowerCase();
+  if (!/^\S+@\S+\.\S+$/.test(address)) return { ok: false, error: 'Enter a valid email address' };
+  if (address === owner.email?.toLowerCase()) return { ok: false, error: "You can't invite yourself" };
+  if (!isOnline()) return { ok: false, error: 'Connect to the internet to invite collaborators' };
+
+  try {
+    const { error: workspaceError } = await supabase
+      .from('workspaces')
+      .upsert({ owner_id: owner.id, name: workspaceName }, { onConflict: 'owner_id', ignoreDuplicates: true });
+    if (workspaceError) throw workspaceError;
+
+    // One open invite per address: a re-invite gets a fresh link and role
+    const { error: deleteError } = await supabase
+      .from('workspace_invites')
+      .delete()
+      .eq('workspace_id', owner.id)
+      .eq('email', address)
+      .is('accepted_at', null);
+    if (deleteError) throw deleteError;
+
+    const { data: invite, error } = await supabase
+      .from('workspace_invites')
+      .insert({ workspace_id: owner.id, email: address, role })
+      .select()
+      .single();
+    if (error) throw error;
+
+    cloudSupabase.functions.invoke('send-transactional-email', {
+      body: {
+        templateName: 'workspace-invite',
+        recipientEmail: address,
+        idempotencyKey: `workspace-invite-${invite.id}`,
+        templateData: {
+          inviterEmail: owner.email,
+          workspaceName,
+          role,
+          inviteUrl: `${window.location.origin}/invite?token=${invite.token}`,
+          expiresAt: invite.expires_at,
+        },
+      },
+    }).catch((e) => console.error('[Email] Workspace invite email failed:', e));
+
+    return { ok: true };
+  } catch (e) {
+    console.error('[Workspace] Invite failed:', e);
+    return { ok: false, error: errorMessage(e, 'Failed to send the invite') };
+  }
+};
+
+export const revokeInvite = async (inviteId: string): Promise<void> => {
+  const { error } = await supabase.from('workspace_invites').delete().eq('id', inviteId);
+  if (error) throw error;
+};
+
+export const updateCollaboratorRole = async (ownerId: string, userId: string, role: CollaboratorRole): Promise<void> => {
+  const { error } = await supabase
+    .from('workspace_members')
+    .update({ role })
+    .eq('workspace_id', ownerId)
+    .eq('user_id', userId);
+  if (error) throw error;
+};
+
+/** Owners remove a collaborator; collaborators pass their own id to leave. */
+export const removeCollaborator = async (workspaceId: string, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId);
+  if (error) throw error;
+};
+
+export const renameWorkspace = async (ownerId: string, name: string): Promise<void> => {
+  const { error } = await supabase.from('workspaces').upsert({ owner_id: ownerId, name });
+  if (error) throw error;
+};
+
+/** Join the workspace behind an invite link; returns its id. */
+export const acceptInvite = async (token: string): Promise<{ ok: boolean; workspaceId?: string; error?: string }> => {
+  const { data, error } = await supabase.rpc('accept_workspace_invite', { p_token: token });
+  if (error) return { ok: false, error: errorMessage(error, 'Failed to accept the invite') };
+  return { ok: true, workspaceId: data as string };
+};
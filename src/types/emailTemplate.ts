@@ -0,0 +1,36 @@
+// bn goes to BDT members, en to USDT members — the same split the built-in templates use
+export type EmailTemplateLang = 'bn' | 'en';
+
+export const EMAIL_TEMPLATE_LANGS: { value: EmailTemplateLang; label: string }[] = [
+  { value: 'bn', label: 'Bangla (BDT)' },
+  { value: 'en', label: 'English (USDT)' },
+];
+
+// Member emails a workspace can rewrite; names match the edge function's template registry
+export const EDITABLE_EMAIL_TEMPLATES: { name: string; label: string }[] = [
+  { name: 'welcome-member', label: 'Welcome' },
+  { name: 'due-reminder', label: 'Due reminder' },
+  { name: 'renew-reminder', label: 'Renewal reminder' },
+  { name: 'renewal-confirmed', label: 'Renewal confirmed' },
+  { name: 'payment-received', label: 'Payment received' },
+  { name: 'payment-receipt', label: 'Payment receipt' },
+  { name: 'team-moved', label: 'Team moved' },
+  { name: 'member-removed', label: 'Member removed' },
+];
+
+// Placeholders an override can use, written as {{name}}
+export const EMAIL_TEMPLATE_VARIABLES = ['email', 'dueAmount', 'planName', 'teamName', 'joinDate', 'isUsdt'] as const;
+
+export interface EmailTemplateOverride {
+  id: string;
+  templateName: string;
+  lang: EmailTemplateLang;
+  subject: string;
+  body: string;
+  updatedAt: string;
+}
+
+export interface EmailPreview {
+  subject: string;
+  html: string;
+}
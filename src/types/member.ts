@@ -1,17 +1,29 @@
-export type SubscriptionType = 'chatgpt' | 'gemini' | 'perplexity' | 'youtube' | 'canva' | 'quillbot' | 'crunchyroll' | 'netflix';
+// Key of a product in the user's subscription catalog (team logo, member subscriptions)
+export type SubscriptionType = string;
 
-export const SUBSCRIPTION_CONFIG: Record<SubscriptionType, { name: string; color: string }> = {
-  chatgpt: { name: 'ChatGPT', color: '#10A37F' },
-  gemini: { name: 'Gemini AI', color: '#4285F4' },
-  perplexity: { name: 'Perplexity', color: '#20808D' },
-  youtube: { name: 'YouTube', color: '#FF0000' },
-  canva: { name: 'Canva', color: '#00C4CC' },
-  quillbot: { name: 'QuillBot', color: '#4CAF50' },
-  crunchyroll: { name: 'Crunchyroll', color: '#F47521' },
-  netflix: { name: 'Netflix', color: '#E50914' },
-};
+export interface SubscriptionProduct {
+  id: string;
+  key: SubscriptionType;
+  name: string;
+  color: string;
+  iconUrl?: string;
+  planName?: string;
+  defaultPrice?: number;
+  defaultSeats?: number;
+  billingCycleDays: number;
+  billingCalendarMonth: boolean;
+  sortOrder: number;
+}
 
-export const USDT_RATE = 125;
+// BDT per USD used until the user records a rate of their own
+export const DEFAULT_USDT_RATE = 125;
+
+export interface UsdtRate {
+  id: string;
+  rate: number;
+  effectiveDate: string; // YYYY-MM-DD
+  createdAt: string;
+}
 
 export interface Member {
   id: string;
@@ -31,6 +43,100 @@ export interface Member {
   activeTeamId?: string;
   activeTeamName?: string;
   isUsdt?: boolean;
+  // Rate in effect when paidAmount was recorded
+  paidUsdtRate?: number;
+  totalAmount?: number;
+  // Set while the member is in the trash
+  deletedAt?: string;
+}
+
+export interface MemberPayment {
+  id: string;
+  memberId: string;
+  year: number;
+  month: number; // 1-12
+  status: 'paid' | 'due';
+  amount: number;
+  note?: string;
+  usdtRate?: number;
+  createdAt: string;
+}
+
+export type PaymentCurrency = 'BDT' | 'USDT';
+
+export type PaymentMethod = 'cash' | 'bkash' | 'nagad' | 'rocket' | 'bank' | 'binance' | 'other';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'bkash', label: 'bKash' },
+  { value: 'nagad', label: 'Nagad' },
+  { value: 'rocket', label: 'Rocket' },
+  { value: 'bank', label: 'Bank' },
+  { value: 'binance', label: 'Binance' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'other', label: 'Other' },
+];
+
+// One received payment, for any team type. Amounts are in BDT; USDT payments
+// keep the rate they were converted at. Paid yearly month rows are mirrored
+// here under the same id.
+export interface LedgerEntry {
+  id: string;
+  memberId: string;
+  teamId: string;
+  paidAt: string; // YYYY-MM-DD
+  amount: number;
+  currency: PaymentCurrency;
+  usdtRate?: number;
+  method?: PaymentMethod;
+  cycleStart?: string; // YYYY-MM-DD
+  cycleEnd?: string; // YYYY-MM-DD
+  note?: string;
+  // Assigned the first time a receipt is made for the payment
+  invoiceNumber?: number;
+  createdAt: string;
+}
+
+export type PaymentSubmissionStatus = 'pending' | 'approved' | 'rejected';
+
+// A payment a customer reported from their portal link. The amount is in the
+// member's own currency (USD for USDT members) until it's approved into the
+// ledger, which reuses the submission id.
+export interface PaymentSubmission {
+  id: string;
+  memberId: string;
+  method: PaymentMethod;
+  transactionId: string;
+  amount: number;
+  currency: PaymentCurrency;
+  screenshotPath?: string;
+  status: PaymentSubmissionStatus;
+  createdAt: string;
+}
+
+export type MemberEventType =
+  | 'added'
+  | 'removed'
+  | 'updated'
+  | 'moved'
+  | 'pushed'
+  | 'usdt'
+  | 'credentials'
+  | 'payment'
+  | 'renewed'
+  | 'restored';
+
+// One entry in a member's lifecycle log. Events outlive the member, so they
+// keep the email it had at the time. Credential changes never store values.
+export interface MemberEvent {
+  id: string;
+  memberId: string;
+  teamId: string;
+  memberEmail: string;
+  type: MemberEventType;
+  field?: string;
+  fromValue?: string;
+  toValue?: string;
+  createdAt: string;
 }
 
 export interface Team {
@@ -43,6 +149,12 @@ export interface Team {
   logo?: SubscriptionType;
   isYearlyTeam?: boolean;
   isPlusTeam?: boolean;
+  billingCycleDays?: number;
+  billingCalendarMonth?: boolean;
+  // Seats including the admin; unset means DEFAULT_SEAT_LIMIT
+  seatLimit?: number;
+  // Set while the team is in the trash
+  deletedAt?: string;
 }
 
 export interface Notepad {
@@ -59,4 +171,5 @@ export interface AppData {
   notepads?: Notepad[];
 }
 
-export const MAX_MEMBERS = 8;
+// Seats per team (admin included) when neither the team nor its product sets one
+export const DEFAULT_SEAT_LIMIT = 8;
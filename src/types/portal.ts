@@ -0,0 +1,35 @@
+// What the public member portal (`member-portal` edge function) returns for a
+// valid link. Amounts are BDT; the USD figures are filled in for USDT members.
+
+export interface PortalMember {
+  email: string;
+  teamName: string;
+  planName: string;
+  product: { name: string; color: string; iconUrl?: string | null } | null;
+  cycleStart: string;
+  cycleEnd: string;
+  // Negative once the cycle has ended
+  daysRemaining: number;
+  isUsdt: boolean;
+  dueAmount: number;
+  dueUsd: number | null;
+}
+
+export interface PortalPayment {
+  id: string;
+  paidAt: string;
+  amount: number;
+  currency: 'BDT' | 'USDT';
+  usd: number | null;
+  method: string | null;
+  cycleStart: string | null;
+  cycleEnd: string | null;
+  // Set once a receipt has been issued for the payment
+  invoiceNumber: number | null;
+}
+
+export interface PortalData {
+  businessName: string;
+  member: PortalMember;
+  payments: PortalPayment[];
+}
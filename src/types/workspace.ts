@@ -0,0 +1,33 @@
+// owner: the account whose data it is; manager: edits customers and payments;
+// viewer: read-only, without member credentials
+export type WorkspaceRole = 'owner' | 'manager' | 'viewer';
+
+export type CollaboratorRole = Exclude<WorkspaceRole, 'owner'>;
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['manager', 'viewer'];
+
+export interface Workspace {
+  // The owner's user id, which every row in the workspace is stored under
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceCollaborator {
+  userId: string;
+  email: string;
+  role: CollaboratorRole;
+  createdAt: string;
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  email: string;
+  role: CollaboratorRole;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export const canEditWorkspace = (role: WorkspaceRole): boolean => role !== 'viewer';
+
+export const canViewCredentials = (role: WorkspaceRole): boolean => role !== 'viewer';
@@ -0,0 +1,64 @@
+// Billing cycle date math shared by the app and the reminder edge functions.
+// Kept dependency-free so it runs unchanged in the browser and in Deno.
+
+export const DEFAULT_BILLING_CYCLE_DAYS = 30
+
+export interface BillingCycle {
+  days: number
+  // Renew on the same day each month instead of after a fixed number of days
+  calendarMonth: boolean
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export const resolveBillingCycle = (
+  days?: number | null,
+  calendarMonth?: boolean | null
+): BillingCycle => ({
+  days: days && days > 0 ? days : DEFAULT_BILLING_CYCLE_DAYS,
+  calendarMonth: calendarMonth || false,
+})
+
+// Parse "YYYY-MM-DD" as local date (avoid UTC shift)
+export const parseLocalDate = (dateStr: string): Date => {
+  const [y, m, d] = dateStr.split('-').map(Number)
+  return new Date(y, m - 1, d)
+}
+
+export const startOfLocalDay = (date: Date = new Date()): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate())
+
+export const formatLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+// Whole calendar days from a to b (DST-safe)
+export const daysBetween = (a: Date, b: Date): number =>
+  Math.round((startOfLocalDay(b).getTime() - startOfLocalDay(a).getTime()) / DAY_MS)
+
+/**
+ * Date the cycle starting on `start` ends. Calendar-month cycles land on the
+ * same day next month, clamped to the last day of shorter months.
+ */
+export const getCycleEndDate = (start: string | Date, cycle: BillingCycle): Date => {
+  const startDate = typeof start === 'string' ? parseLocalDate(start) : startOfLocalDay(start)
+
+  if (cycle.calendarMonth) {
+    const lastDayOfNextMonth = new Date(startDate.getFullYear(), startDate.getMonth() + 2, 0).getDate()
+    return new Date(startDate.getFullYear(), startDate.getMonth() + 1, Math.min(startDate.getDate(), lastDayOfNextMonth))
+  }
+
+  return new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + cycle.days)
+}
+
+/**
+ * Days left until the cycle ends: 1 = ends tomorrow, 0 = ends today,
+ * negative = overdue by that many days.
+ */
+export const daysUntilCycleEnd = (
+  start: string | Date,
+  cycle: BillingCycle,
+  today: Date = startOfLocalDay()
+): number => daysBetween(today, getCycleEndDate(start, cycle))
+
+export const isCycleExpired = (start: string | Date, cycle: BillingCycle, today?: Date): boolean =>
+  daysUntilCycleEnd(start, cycle, today) <= 0
@@ -0,0 +1,93 @@
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+// Where the app is served; portal links point at its /portal route
+const APP_URL = Deno.env.get('APP_URL') || 'https://myproduct.tech'
+
+function generateToken(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Link to a member's read-only portal, issued for the address the email goes
+ * to. The portal checks that address against the member's email, so a link
+ * requested for someone else's member never opens.
+ */
+export async function getMemberPortalUrl(
+  supabase: SupabaseClient,
+  memberId: string,
+  email: string
+): Promise<string | null> {
+  const normalizedEmail = email.toLowerCase()
+
+  // Upsert handles concurrent sends; re-read to get whichever token won
+  const { error: upsertError } = await supabase
+    .from('member_portal_tokens')
+    .upsert(
+      { token: generateToken(), member_id: memberId, email: normalizedEmail },
+      { onConflict: 'member_id,email', ignoreDuplicates: true }
+    )
+  if (upsertError) {
+    console.error('Failed to issue member portal token', { error: upsertError, memberId })
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('member_portal_tokens')
+    .select('token')
+    .eq('member_id', memberId)
+    .eq('email', normalizedEmail)
+    .maybeSingle()
+  if (error || !data) {
+    console.error('Failed to read member portal token', { error, memberId })
+    return null
+  }
+
+  return `${APP_URL}/portal?token=${data.token}`
+}
+
+export interface PortalMemberRow {
+  id: string
+  user_id: string
+  team_id: string
+  email: string
+  join_date: string
+  pending_amount: number | null
+  is_usdt: boolean | null
+}
+
+/**
+ * The member a portal token opens, or null when the token is unknown, the
+ * member was removed, or their email has changed since the link was sent.
+ * Only non-credential columns are read.
+ */
+export async function resolvePortalMember(
+  supabase: SupabaseClient,
+  token: string
+): Promise<PortalMemberRow | null> {
+  const { data: tokenRecord, error: lookupError } = await supabase
+    .from('member_portal_tokens')
+    .select('member_id, email')
+    .eq('token', token)
+    .maybeSingle()
+
+  if (lookupError || !tokenRecord) return null
+
+  const { data: member, error: memberError } = await supabase
+    .from('members')
+    .select('id, user_id, team_id, email, join_date, pending_amount, is_usdt, deleted_at')
+    .eq('id', tokenRecord.member_id)
+    .maybeSingle()
+
+  if (memberError) {
+    console.error('Failed to fetch portal member', { error: memberError })
+    throw memberError
+  }
+  if (!member || member.deleted_at || member.email.toLowerCase() !== tokenRecord.email) return null
+
+  const { deleted_at: _deletedAt, ...row } = member
+  return row
+}
@@ -0,0 +1,174 @@
+import * as React from 'npm:react@18.3.1'
+import {
+  Body, Container, Head, Heading, Html, Preview, Text, Section, Hr, Link,
+} from 'npm:@react-email/components@0.0.22'
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2'
+
+// Workspaces can replace a built-in template's copy (subject and body, per
+// language) from the app. The override is plain text with {{variable}}
+// placeholders, rendered inside the same branded layout as the built-ins.
+
+const SITE_NAME = "Tech Subx BD"
+
+// Used when the sender didn't pass the rate the amount was recorded at
+const FALLBACK_USDT_RATE = 125
+
+export type TemplateLang = 'bn' | 'en'
+
+export interface TemplateOverride {
+  subject: string
+  body: string
+}
+
+// The send's templateData fields an override can use; anything else is ignored
+export interface OverrideTemplateData {
+  email?: string
+  dueAmount?: number | string
+  planName?: string
+  teamName?: string
+  joinDate?: string
+  isUsdt?: boolean
+  usdtRate?: number
+  portalUrl?: string
+  [key: string]: unknown
+}
+
+// Built-ins send Bangla to BDT members and English to USDT members
+export const templateLang = (data: OverrideTemplateData): TemplateLang => (data.isUsdt ? 'en' : 'bn')
+
+const formatDate = (d: string) =>
+  new Date(d).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+
+// The values a placeholder can use, formatted the way the built-ins show them
+const templateVariables = (data: OverrideTemplateData): Record<string, string> => {
+  const amount = Number(data.dueAmount) || 0
+  return {
+    email: data.email || '',
+    dueAmount: data.isUsdt ? `$${(amount / (data.usdtRate || FALLBACK_USDT_RATE)).toFixed(2)}` : `৳${amount}`,
+    planName: data.planName || 'Business Subscription',
+    teamName: data.teamName || '',
+    joinDate: data.joinDate ? formatDate(data.joinDate) : '',
+    isUsdt: data.isUsdt ? 'USDT' : 'BDT',
+  }
+}
+
+// Unknown placeholders are left as typed so a misspelling shows up in the preview
+export const fillPlaceholders = (text: string, data: OverrideTemplateData): string => {
+  const variables = templateVariables(data)
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name] : match
+  )
+}
+
+interface OverrideEmailProps {
+  lang: TemplateLang
+  preview: string
+  body: string
+  portalUrl?: string
+}
+
+// Blank lines separate paragraphs; single line breaks are kept
+const OverrideEmail = ({ lang, preview, body, portalUrl }: OverrideEmailProps) => (
+  <Html lang={lang} dir="ltr">
+    <Head />
+    <Preview>{preview}</Preview>
+    <Body style={main}>
+      <Container style={container}>
+        <Section style={headerSection}>
+          <Heading style={brandName}>{SITE_NAME}</Heading>
+        </Section>
+
+        <Section style={contentSection}>
+          {body.split(/\n\s*\n/).map((paragraph, i) => (
+            <Text key={i} style={text}>
+              {paragraph.split('\n').map((line, j) => (
+                <React.Fragment key={j}>
+                  {j > 0 && <br />}
+                  {line}
+                </React.Fragment>
+              ))}
+            </Text>
+          ))}
+
+          {portalUrl && (
+            <Section style={portalSection}>
+              <Link href={portalUrl} style={portalLink}>
+                {lang === 'en'
+                  ? 'View your subscription & payment history →'
+                  : 'আপনার সাবস্ক্রিপশন ও পেমেন্ট হিস্টোরি দেখুন →'}
+              </Link>
+            </Section>
+          )}
+
+          <Hr style={divider} />
+          <Text style={contactText}>WhatsApp: 01322230857</Text>
+          <Text style={contactText}>
+            Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+          </Text>
+          <Hr style={divider} />
+          <Text style={footer}>
+            {lang === 'en' ? 'Best regards,' : 'ধন্যবাদান্তে,'}<br />{SITE_NAME} Team
+          </Text>
+        </Section>
+      </Container>
+    </Body>
+  </Html>
+)
+
+/** The email element and subject for an override, with the send's data filled in. */
+export function buildOverrideEmail(override: TemplateOverride, data: OverrideTemplateData) {
+  const subject = fillPlaceholders(override.subject, data)
+  const element = React.createElement(OverrideEmail, {
+    lang: templateLang(data),
+    preview: subject,
+    body: fillPlaceholders(override.body, data),
+    portalUrl: data.portalUrl,
+  })
+  return { subject, element }
+}
+
+/**
+ * The workspace's override of a template in one language, or null to use the
+ * built-in. A failed lookup also falls back, so a send never fails over copy.
+ */
+export async function loadTemplateOverride(
+  supabase: SupabaseClient,
+  userId: string,
+  templateName: string,
+  lang: TemplateLang
+): Promise<TemplateOverride | null> {
+  const { data, error } = await supabase
+    .from('email_template_overrides')
+    .select('subject, body')
+    .eq('user_id', userId)
+    .eq('template_name', templateName)
+    .eq('lang', lang)
+    .maybeSingle()
+  if (error) {
+    console.error('Failed to load template override', { error, userId, templateName, lang })
+    return null
+  }
+  return data
+}
+
+// Styles
+const main = { backgroundColor: '#ffffff', fontFamily: "'Segoe UI', Arial, sans-serif" }
+const container = { maxWidth: '580px', margin: '0 auto' }
+const headerSection = {
+  background: 'linear-gradient(135deg, #10b981 0%, #0ea5e9 50%, #8b5cf6 100%)',
+  padding: '32px 24px',
+  borderRadius: '12px 12px 0 0',
+  textAlign: 'center' as const,
+}
+const brandName = {
+  fontSize: '28px', fontWeight: '800', color: '#ffffff', margin: '0',
+  letterSpacing: '-0.5px',
+}
+const contentSection = { padding: '32px 24px', backgroundColor: '#ffffff' }
+const text = { fontSize: '15px', color: '#374151', lineHeight: '1.6', margin: '0 0 20px' }
+const portalSection = { textAlign: 'center' as const, margin: '8px 0 0' }
+const portalLink = { color: '#2563eb', fontSize: '14px', fontWeight: '600', textDecoration: 'none' }
+const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
+const contactText = { fontSize: '13px', color: '#6b7280', margin: '4px 0', textAlign: 'center' as const }
+const linkStyle = { color: '#2563eb', textDecoration: 'underline' }
+const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
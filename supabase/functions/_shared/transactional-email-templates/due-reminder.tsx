@@ -5,19 +5,24 @@ import {
 import type { TemplateEntry } from './registry.ts'
 
 const SITE_NAME = "Tech Subx BD"
+// Used when the sender didn't pass the rate the due was recorded at
+const FALLBACK_USDT_RATE = 125
 
 interface DueReminderProps {
   email?: string
   dueAmount?: number
   isUsdt?: boolean
+  usdtRate?: number
   planName?: string
   teamName?: string
+  // Read-only portal link, issued by send-transactional-email when memberId is passed
+  portalUrl?: string
 }
 
-const DueReminderEmail = ({ email, dueAmount, isUsdt, planName, teamName }: DueReminderProps) => {
+const DueReminderEmail = ({ email, dueAmount, isUsdt, usdtRate, planName, teamName, portalUrl }: DueReminderProps) => {
   const amount = dueAmount || 0
   const plan = planName || 'Subscription'
-  const displayAmount = isUsdt ? `$${(amount / 125).toFixed(2)}` : `৳${amount}`
+  const displayAmount = isUsdt ? `$${(amount / (usdtRate || FALLBACK_USDT_RATE)).toFixed(2)}` : `৳${amount}`
 
   if (isUsdt) {
     // English version for USDT members
@@ -55,6 +60,12 @@ const DueReminderEmail = ({ email, dueAmount, isUsdt, planName, teamName }: DueR
                 </Text>
               </Section>
 
+              {portalUrl && (
+                <Section style={portalSection}>
+                  <Link href={portalUrl} style={portalLink}>View your subscription & payment history →</Link>
+                </Section>
+              )}
+
               <Hr style={divider} />
               <Text style={contactText}>WhatsApp: 01322230857</Text>
               <Text style={contactText}>
@@ -104,6 +115,12 @@ const DueReminderEmail = ({ email, dueAmount, isUsdt, planName, teamName }: DueR
               </Text>
             </Section>
 
+            {portalUrl && (
+              <Section style={portalSection}>
+                <Link href={portalUrl} style={portalLink}>আপনার সাবস্ক্রিপশন ও পেমেন্ট হিস্টোরি দেখুন →</Link>
+              </Section>
+            )}
+
             <Hr style={divider} />
             <Text style={contactText}>WhatsApp: 01322230857</Text>
             <Text style={contactText}>
@@ -122,7 +139,7 @@ export const template = {
   component: DueReminderEmail,
   subject: (data: Record<string, any>) => {
     const amount = data.dueAmount || 0
-    const display = data.isUsdt ? `$${(amount / 125).toFixed(2)}` : `৳${amount}`
+    const display = data.isUsdt ? `$${(amount / (data.usdtRate || FALLBACK_USDT_RATE)).toFixed(2)}` : `৳${amount}`
     return data.isUsdt
       ? `Payment Reminder — ${display} Due — Tech Subx BD`
       : `পেমেন্ট রিমাইন্ডার — ${display} বকেয়া — Tech Subx BD`
@@ -133,6 +150,7 @@ export const template = {
     dueAmount: 750,
     isUsdt: false,
     planName: 'Business Subscription',
+    portalUrl: 'https://myproduct.tech/portal?token=preview',
   },
 } satisfies TemplateEntry
 
@@ -169,4 +187,6 @@ const urgentText = { fontSize: '14px', color: '#9a3412', margin: '0', lineHeight
 const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
 const contactText = { fontSize: '13px', color: '#6b7280', margin: '4px 0', textAlign: 'center' as const }
 const linkStyle = { color: '#2563eb', textDecoration: 'underline' }
+const portalSection = { textAlign: 'center' as const, margin: '8px 0 0' }
+const portalLink = { color: '#2563eb', fontSize: '14px', fontWeight: '600', textDecoration: 'none' }
 const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
@@ -0,0 +1,164 @@
+import * as React from 'npm:react@18.3.1'
+import {
+  Body, Container, Head, Heading, Html, Preview, Text, Section, Hr, Link,
+} from 'npm:@react-email/components@0.0.22'
+import type { TemplateEntry } from './registry.ts'
+
+const SITE_NAME = "Tech Subx BD"
+
+interface MemberRemovedProps {
+  email?: string
+  planName?: string
+  teamName?: string
+  isUsdt?: boolean
+  removedAt?: string
+}
+
+const MemberRemovedEmail = ({ email, planName, teamName, isUsdt, removedAt }: MemberRemovedProps) => {
+  const lang = isUsdt ? 'en' : 'bn'
+  const plan = planName || 'Business Subscription'
+  const removedStr = removedAt || new Date().toISOString().split('T')[0]
+
+  const formatDate = (d: string) => {
+    const date = new Date(d)
+    return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+  }
+
+  if (lang === 'en') {
+    return (
+      <Html lang="en" dir="ltr">
+        <Head />
+        <Preview>Your {plan} subscription has ended.</Preview>
+        <Body style={main}>
+          <Container style={container}>
+            <Section style={headerSection}>
+              <Heading style={brandName}>{SITE_NAME}</Heading>
+              <Text style={headerSubtext}>Subscription Ended</Text>
+            </Section>
+
+            <Section style={contentSection}>
+              <Heading style={h1}>Your subscription has ended 👋</Heading>
+              <Text style={text}>
+                Dear Customer, your account has been removed from the team below and your access has ended.
+              </Text>
+
+              <Section style={detailsBox}>
+                <Text style={detailsTitle}>Subscription Details</Text>
+                <Hr style={detailsDivider} />
+                <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+                {teamName && <Text style={detailRow}><span style={detailLabel}>Team:</span> {teamName}</Text>}
+                <Text style={detailRow}><span style={detailLabel}>Plan:</span> {plan}</Text>
+                <Text style={detailRow}><span style={detailLabel}>Ended On:</span> {formatDate(removedStr)}</Text>
+              </Section>
+
+              <Text style={text}>
+                Thank you for being with us. If this was a mistake or you'd like to subscribe again, just message us on WhatsApp.
+              </Text>
+
+              <Hr style={divider} />
+              <Text style={contactText}>WhatsApp: 01322230857</Text>
+              <Text style={contactText}>
+                Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+              </Text>
+              <Hr style={divider} />
+              <Text style={footer}>Best regards,<br />{SITE_NAME} Team</Text>
+            </Section>
+          </Container>
+        </Body>
+      </Html>
+    )
+  }
+
+  // Bengali version
+  return (
+    <Html lang="bn" dir="ltr">
+      <Head />
+      <Preview>আপনার {plan} সাবস্ক্রিপশন শেষ হয়েছে।</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={headerSection}>
+            <Heading style={brandName}>{SITE_NAME}</Heading>
+            <Text style={headerSubtext}>সাবস্ক্রিপশন শেষ</Text>
+          </Section>
+
+          <Section style={contentSection}>
+            <Heading style={h1}>সাবস্ক্রিপশন শেষ | Subscription ended 👋</Heading>
+            <Text style={text}>
+              প্রিয় গ্রাহক, আপনার অ্যাকাউন্টটি নিচের টিম থেকে সরিয়ে দেওয়া হয়েছে এবং আপনার অ্যাক্সেস বন্ধ হয়েছে।
+            </Text>
+
+            <Section style={detailsBox}>
+              <Text style={detailsTitle}>Subscription Details</Text>
+              <Hr style={detailsDivider} />
+              <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+              {teamName && <Text style={detailRow}><span style={detailLabel}>Team Name:</span> {teamName}</Text>}
+              <Text style={detailRow}><span style={detailLabel}>Plan Name:</span> {plan}</Text>
+              <Text style={detailRow}><span style={detailLabel}>শেষ হয়েছে / Ended On:</span> {formatDate(removedStr)}</Text>
+            </Section>
+
+            <Text style={text}>
+              আমাদের সাথে থাকার জন্য ধন্যবাদ। এটি ভুল হয়ে থাকলে বা আবার সাবস্ক্রাইব করতে চাইলে WhatsApp-এ আমাদের মেসেজ করুন।
+            </Text>
+
+            <Hr style={divider} />
+            <Text style={contactText}>WhatsApp: 01322230857</Text>
+            <Text style={contactText}>
+              Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+            </Text>
+            <Hr style={divider} />
+            <Text style={footer}>ধন্যবাদান্তে,<br />{SITE_NAME} Team</Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export const template = {
+  component: MemberRemovedEmail,
+  subject: (data: Record<string, unknown>) =>
+    data.isUsdt
+      ? `👋 ${data.planName || 'Subscription'} Ended — Tech Subx BD`
+      : `👋 সাবস্ক্রিপশন শেষ | ${data.planName || 'Subscription'} — Tech Subx BD`,
+  displayName: 'Member Removed',
+  previewData: {
+    email: 'customer@example.com',
+    planName: 'Business Subscription',
+    teamName: 'ChatGPT Team',
+    isUsdt: false,
+    removedAt: '2025-03-16',
+  },
+} satisfies TemplateEntry
+
+// Styles
+const main = { backgroundColor: '#ffffff', fontFamily: "'Segoe UI', Arial, sans-serif" }
+const container = { maxWidth: '580px', margin: '0 auto' }
+const headerSection = {
+  background: 'linear-gradient(135deg, #10b981 0%, #0ea5e9 50%, #8b5cf6 100%)',
+  padding: '32px 24px',
+  borderRadius: '12px 12px 0 0',
+  textAlign: 'center' as const,
+}
+const brandName = {
+  fontSize: '28px', fontWeight: '800', color: '#ffffff', margin: '0 0 4px',
+  letterSpacing: '-0.5px',
+}
+const headerSubtext = { fontSize: '14px', color: 'rgba(255,255,255,0.85)', margin: '0' }
+const contentSection = { padding: '32px 24px', backgroundColor: '#ffffff' }
+const h1 = { fontSize: '24px', fontWeight: '700', color: '#1a1a1a', margin: '0 0 16px' }
+const text = { fontSize: '15px', color: '#374151', lineHeight: '1.6', margin: '0 0 20px' }
+const detailsBox = {
+  backgroundColor: '#f8fafc', border: '1px solid #e2e8f0', borderRadius: '10px',
+  padding: '20px', margin: '20px 0',
+}
+const detailsTitle = {
+  fontSize: '16px', fontWeight: '700', color: '#1e293b', margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+const detailsDivider = { borderColor: '#e2e8f0', margin: '12px 0' }
+const detailRow = { fontSize: '14px', color: '#475569', margin: '8px 0', lineHeight: '1.5' }
+const detailLabel = { fontWeight: '600', color: '#1e293b' }
+const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
+const contactText = { fontSize: '13px', color: '#6b7280', margin: '4px 0', textAlign: 'center' as const }
+const linkStyle = { color: '#2563eb', textDecoration: 'underline' }
+const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
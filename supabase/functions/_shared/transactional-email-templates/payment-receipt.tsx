@@ -0,0 +1,211 @@
+import * as React from 'npm:react@18.3.1'
+import {
+  Body, Button, Container, Head, Heading, Html, Preview, Text, Section, Hr, Link,
+} from 'npm:@react-email/components@0.0.22'
+import type { TemplateEntry } from './registry.ts'
+
+const SITE_NAME = "Tech Subx BD"
+
+// Only used when the sender didn't pass the rate the payment was taken at
+const FALLBACK_USDT_RATE = 125
+
+interface PaymentReceiptProps {
+  email?: string
+  invoiceNumber?: string
+  planName?: string
+  teamName?: string
+  isUsdt?: boolean
+  amount?: number
+  usdtRate?: number
+  paidAt?: string
+  cycleStart?: string
+  cycleEnd?: string
+  method?: string
+  // Ledger entry the receipt is for; the portal offers its PDF
+  receiptId?: string
+  portalUrl?: string
+}
+
+const PaymentReceiptEmail = ({
+  email, invoiceNumber, planName, teamName, isUsdt, amount, usdtRate, paidAt, cycleStart, cycleEnd, method, receiptId, portalUrl,
+}: PaymentReceiptProps) => {
+  const lang = isUsdt ? 'en' : 'bn'
+  const plan = planName || 'Business Subscription'
+  const paidStr = paidAt || new Date().toISOString().split('T')[0]
+  const receiptUrl = portalUrl && receiptId ? `${portalUrl}&receipt=${encodeURIComponent(receiptId)}` : portalUrl
+
+  const formatDate = (d: string) => {
+    const date = new Date(d)
+    return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+  }
+
+  const amountStr = amount
+    ? isUsdt
+      ? `$${(amount / (usdtRate || FALLBACK_USDT_RATE)).toFixed(2)}`
+      : `৳${amount}`
+    : null
+
+  if (lang === 'en') {
+    return (
+      <Html lang="en" dir="ltr">
+        <Head />
+        <Preview>Receipt {invoiceNumber || ''} for your {plan} payment</Preview>
+        <Body style={main}>
+          <Container style={container}>
+            <Section style={headerSection}>
+              <Heading style={brandName}>{SITE_NAME}</Heading>
+              <Text style={headerSubtext}>Payment Receipt</Text>
+            </Section>
+
+            <Section style={contentSection}>
+              <Heading style={h1}>Payment received 🧾</Heading>
+              <Text style={text}>
+                Dear Customer, thank you for your payment. Here is your receipt.
+              </Text>
+
+              <Section style={detailsBox}>
+                <Text style={detailsTitle}>Receipt {invoiceNumber}</Text>
+                <Hr style={detailsDivider} />
+                <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+                {teamName && <Text style={detailRow}><span style={detailLabel}>Team:</span> {teamName}</Text>}
+                <Text style={detailRow}><span style={detailLabel}>Plan:</span> {plan}</Text>
+                {amountStr && <Text style={detailRow}><span style={detailLabel}>Amount Paid:</span> {amountStr}</Text>}
+                {method && <Text style={detailRow}><span style={detailLabel}>Method:</span> {method}</Text>}
+                <Text style={detailRow}><span style={detailLabel}>Date:</span> {formatDate(paidStr)}</Text>
+                {cycleStart && cycleEnd && (
+                  <Text style={detailRow}><span style={detailLabel}>Period:</span> {formatDate(cycleStart)} – {formatDate(cycleEnd)}</Text>
+                )}
+              </Section>
+
+              {receiptUrl && (
+                <Section style={buttonSection}>
+                  <Button href={receiptUrl} style={button}>Download PDF receipt</Button>
+                </Section>
+              )}
+
+              <Hr style={divider} />
+              <Text style={contactText}>WhatsApp: 01322230857</Text>
+              <Text style={contactText}>
+                Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+              </Text>
+              <Hr style={divider} />
+              <Text style={footer}>Best regards,<br />{SITE_NAME} Team</Text>
+            </Section>
+          </Container>
+        </Body>
+      </Html>
+    )
+  }
+
+  // Bengali version
+  return (
+    <Html lang="bn" dir="ltr">
+      <Head />
+      <Preview>আপনার {plan} পেমেন্টের রসিদ {invoiceNumber || ''}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={headerSection}>
+            <Heading style={brandName}>{SITE_NAME}</Heading>
+            <Text style={headerSubtext}>পেমেন্ট রসিদ</Text>
+          </Section>
+
+          <Section style={contentSection}>
+            <Heading style={h1}>পেমেন্ট পেয়েছি | Payment received 🧾</Heading>
+            <Text style={text}>
+              প্রিয় গ্রাহক, আপনার পেমেন্টের জন্য ধন্যবাদ। নিচে আপনার রসিদের বিবরণ দেওয়া হলো।
+            </Text>
+
+            <Section style={detailsBox}>
+              <Text style={detailsTitle}>Receipt {invoiceNumber}</Text>
+              <Hr style={detailsDivider} />
+              <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+              {teamName && <Text style={detailRow}><span style={detailLabel}>Team Name:</span> {teamName}</Text>}
+              <Text style={detailRow}><span style={detailLabel}>Plan Name:</span> {plan}</Text>
+              {amountStr && <Text style={detailRow}><span style={detailLabel}>পরিশোধ / Paid:</span> {amountStr}</Text>}
+              {method && <Text style={detailRow}><span style={detailLabel}>মাধ্যম / Method:</span> {method}</Text>}
+              <Text style={detailRow}><span style={detailLabel}>তারিখ / Date:</span> {formatDate(paidStr)}</Text>
+              {cycleStart && cycleEnd && (
+                <Text style={detailRow}><span style={detailLabel}>মেয়াদ / Period:</span> {formatDate(cycleStart)} – {formatDate(cycleEnd)}</Text>
+              )}
+            </Section>
+
+            {receiptUrl && (
+              <Section style={buttonSection}>
+                <Button href={receiptUrl} style={button}>রসিদ ডাউনলোড করুন (PDF)</Button>
+              </Section>
+            )}
+
+            <Hr style={divider} />
+            <Text style={contactText}>WhatsApp: 01322230857</Text>
+            <Text style={contactText}>
+              Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+            </Text>
+            <Hr style={divider} />
+            <Text style={footer}>ধন্যবাদান্তে,<br />{SITE_NAME} Team</Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export const template = {
+  component: PaymentReceiptEmail,
+  subject: (data: Record<string, unknown>) =>
+    data.isUsdt
+      ? `🧾 Receipt ${data.invoiceNumber || ''} — ${data.planName || 'Subscription'} — Tech Subx BD`
+      : `🧾 পেমেন্ট রসিদ ${data.invoiceNumber || ''} | ${data.planName || 'Subscription'} — Tech Subx BD`,
+  displayName: 'Payment Receipt',
+  previewData: {
+    email: 'customer@example.com',
+    invoiceNumber: 'INV-00042',
+    planName: 'Business Subscription',
+    teamName: 'ChatGPT Team',
+    isUsdt: false,
+    amount: 500,
+    paidAt: '2025-02-14',
+    cycleStart: '2025-02-14',
+    cycleEnd: '2025-03-16',
+    method: 'bKash',
+    receiptId: 'preview',
+    portalUrl: 'https://myproduct.tech/portal?token=preview',
+  },
+} satisfies TemplateEntry
+
+// Styles
+const main = { backgroundColor: '#ffffff', fontFamily: "'Segoe UI', Arial, sans-serif" }
+const container = { maxWidth: '580px', margin: '0 auto' }
+const headerSection = {
+  background: 'linear-gradient(135deg, #10b981 0%, #0ea5e9 50%, #8b5cf6 100%)',
+  padding: '32px 24px',
+  borderRadius: '12px 12px 0 0',
+  textAlign: 'center' as const,
+}
+const brandName = {
+  fontSize: '28px', fontWeight: '800', color: '#ffffff', margin: '0 0 4px',
+  letterSpacing: '-0.5px',
+}
+const headerSubtext = { fontSize: '14px', color: 'rgba(255,255,255,0.85)', margin: '0' }
+const contentSection = { padding: '32px 24px', backgroundColor: '#ffffff' }
+const h1 = { fontSize: '24px', fontWeight: '700', color: '#1a1a1a', margin: '0 0 16px' }
+const text = { fontSize: '15px', color: '#374151', lineHeight: '1.6', margin: '0 0 20px' }
+const detailsBox = {
+  backgroundColor: '#f8fafc', border: '1px solid #e2e8f0', borderRadius: '10px',
+  padding: '20px', margin: '20px 0',
+}
+const detailsTitle = {
+  fontSize: '16px', fontWeight: '700', color: '#1e293b', margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+const detailsDivider = { borderColor: '#e2e8f0', margin: '12px 0' }
+const detailRow = { fontSize: '14px', color: '#475569', margin: '8px 0', lineHeight: '1.5' }
+const detailLabel = { fontWeight: '600', color: '#1e293b' }
+const buttonSection = { textAlign: 'center' as const, margin: '8px 0 0' }
+const button = {
+  backgroundColor: '#10b981', color: '#ffffff', fontSize: '15px', fontWeight: '600',
+  borderRadius: '8px', padding: '12px 24px', textDecoration: 'none',
+}
+const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
+const contactText = { fontSize: '13px', color: '#6b7280', margin: '4px 0', textAlign: 'center' as const }
+const linkStyle = { color: '#2563eb', textDecoration: 'underline' }
+const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
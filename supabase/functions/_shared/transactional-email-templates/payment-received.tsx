@@ -0,0 +1,202 @@
+import * as React from 'npm:react@18.3.1'
+import {
+  Body, Container, Head, Heading, Html, Preview, Text, Section, Hr, Link,
+} from 'npm:@react-email/components@0.0.22'
+import type { TemplateEntry } from './registry.ts'
+
+const SITE_NAME = "Tech Subx BD"
+
+// Only used when the sender didn't pass the rate the payment was taken at
+const FALLBACK_USDT_RATE = 125
+
+interface PaymentReceivedProps {
+  email?: string
+  planName?: string
+  teamName?: string
+  isUsdt?: boolean
+  amount?: number
+  usdtRate?: number
+  paidAt?: string
+  cycleStart?: string
+  cycleEnd?: string
+  method?: string
+  portalUrl?: string
+}
+
+const PaymentReceivedEmail = ({
+  email, planName, teamName, isUsdt, amount, usdtRate, paidAt, cycleStart, cycleEnd, method, portalUrl,
+}: PaymentReceivedProps) => {
+  const lang = isUsdt ? 'en' : 'bn'
+  const plan = planName || 'Business Subscription'
+  const paidStr = paidAt || new Date().toISOString().split('T')[0]
+
+  const formatDate = (d: string) => {
+    const date = new Date(d)
+    return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+  }
+
+  const amountStr = amount
+    ? isUsdt
+      ? `$${(amount / (usdtRate || FALLBACK_USDT_RATE)).toFixed(2)}`
+      : `৳${amount}`
+    : null
+
+  if (lang === 'en') {
+    return (
+      <Html lang="en" dir="ltr">
+        <Head />
+        <Preview>We received your {amountStr || ''} payment for {plan}.</Preview>
+        <Body style={main}>
+          <Container style={container}>
+            <Section style={headerSection}>
+              <Heading style={brandName}>{SITE_NAME}</Heading>
+              <Text style={headerSubtext}>Payment Received</Text>
+            </Section>
+
+            <Section style={contentSection}>
+              <Heading style={h1}>Payment received 💳</Heading>
+              <Text style={text}>
+                Dear Customer, thank you! Your payment has been received and recorded on your account.
+              </Text>
+
+              <Section style={detailsBox}>
+                <Text style={detailsTitle}>Payment Details</Text>
+                <Hr style={detailsDivider} />
+                <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+                {teamName && <Text style={detailRow}><span style={detailLabel}>Team:</span> {teamName}</Text>}
+                <Text style={detailRow}><span style={detailLabel}>Plan:</span> {plan}</Text>
+                {amountStr && <Text style={detailRow}><span style={detailLabel}>Amount Paid:</span> {amountStr}</Text>}
+                {method && <Text style={detailRow}><span style={detailLabel}>Method:</span> {method}</Text>}
+                <Text style={detailRow}><span style={detailLabel}>Date:</span> {formatDate(paidStr)}</Text>
+                {cycleStart && cycleEnd && (
+                  <Text style={detailRow}><span style={detailLabel}>Period:</span> {formatDate(cycleStart)} – {formatDate(cycleEnd)}</Text>
+                )}
+              </Section>
+
+              {portalUrl && (
+                <Section style={portalSection}>
+                  <Link href={portalUrl} style={portalLink}>View your payment history & receipts →</Link>
+                </Section>
+              )}
+
+              <Hr style={divider} />
+              <Text style={contactText}>WhatsApp: 01322230857</Text>
+              <Text style={contactText}>
+                Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+              </Text>
+              <Hr style={divider} />
+              <Text style={footer}>Best regards,<br />{SITE_NAME} Team</Text>
+            </Section>
+          </Container>
+        </Body>
+      </Html>
+    )
+  }
+
+  // Bengali version
+  return (
+    <Html lang="bn" dir="ltr">
+      <Head />
+      <Preview>আপনার {plan} এর {amountStr || ''} পেমেন্ট পেয়েছি।</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={headerSection}>
+            <Heading style={brandName}>{SITE_NAME}</Heading>
+            <Text style={headerSubtext}>পেমেন্ট গ্রহণ করা হয়েছে</Text>
+          </Section>
+
+          <Section style={contentSection}>
+            <Heading style={h1}>পেমেন্ট পেয়েছি | Payment received 💳</Heading>
+            <Text style={text}>
+              প্রিয় গ্রাহক, ধন্যবাদ! আপনার পেমেন্ট পেয়েছি এবং আপনার অ্যাকাউন্টে যুক্ত করা হয়েছে।
+            </Text>
+
+            <Section style={detailsBox}>
+              <Text style={detailsTitle}>Payment Details</Text>
+              <Hr style={detailsDivider} />
+              <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+              {teamName && <Text style={detailRow}><span style={detailLabel}>Team Name:</span> {teamName}</Text>}
+              <Text style={detailRow}><span style={detailLabel}>Plan Name:</span> {plan}</Text>
+              {amountStr && <Text style={detailRow}><span style={detailLabel}>পরিশোধ / Paid:</span> {amountStr}</Text>}
+              {method && <Text style={detailRow}><span style={detailLabel}>মাধ্যম / Method:</span> {method}</Text>}
+              <Text style={detailRow}><span style={detailLabel}>তারিখ / Date:</span> {formatDate(paidStr)}</Text>
+              {cycleStart && cycleEnd && (
+                <Text style={detailRow}><span style={detailLabel}>মেয়াদ / Period:</span> {formatDate(cycleStart)} – {formatDate(cycleEnd)}</Text>
+              )}
+            </Section>
+
+            {portalUrl && (
+              <Section style={portalSection}>
+                <Link href={portalUrl} style={portalLink}>আপনার পেমেন্ট হিস্টোরি ও রসিদ দেখুন →</Link>
+              </Section>
+            )}
+
+            <Hr style={divider} />
+            <Text style={contactText}>WhatsApp: 01322230857</Text>
+            <Text style={contactText}>
+              Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+            </Text>
+            <Hr style={divider} />
+            <Text style={footer}>ধন্যবাদান্তে,<br />{SITE_NAME} Team</Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export const template = {
+  component: PaymentReceivedEmail,
+  subject: (data: Record<string, unknown>) =>
+    data.isUsdt
+      ? `💳 Payment Received — ${data.planName || 'Subscription'} — Tech Subx BD`
+      : `💳 পেমেন্ট পেয়েছি | ${data.planName || 'Subscription'} — Tech Subx BD`,
+  displayName: 'Payment Received',
+  previewData: {
+    email: 'customer@example.com',
+    planName: 'Business Subscription',
+    teamName: 'ChatGPT Team',
+    isUsdt: false,
+    amount: 500,
+    paidAt: '2025-02-14',
+    cycleStart: '2025-02-14',
+    cycleEnd: '2025-03-16',
+    method: 'bKash',
+    portalUrl: 'https://myproduct.tech/portal?token=preview',
+  },
+} satisfies TemplateEntry
+
+// Styles
+const main = { backgroundColor: '#ffffff', fontFamily: "'Segoe UI', Arial, sans-serif" }
+const container = { maxWidth: '580px', margin: '0 auto' }
+const headerSection = {
+  background: 'linear-gradient(135deg, #10b981 0%, #0ea5e9 50%, #8b5cf6 100%)',
+  padding: '32px 24px',
+  borderRadius: '12px 12px 0 0',
+  textAlign: 'center' as const,
+}
+const brandName = {
+  fontSize: '28px', fontWeight: '800', color: '#ffffff', margin: '0 0 4px',
+  letterSpacing: '-0.5px',
+}
+const headerSubtext = { fontSize: '14px', color: 'rgba(255,255,255,0.85)', margin: '0' }
+const contentSection = { padding: '32px 24px', backgroundColor: '#ffffff' }
+const h1 = { fontSize: '24px', fontWeight: '700', color: '#1a1a1a', margin: '0 0 16px' }
+const text = { fontSize: '15px', color: '#374151', lineHeight: '1.6', margin: '0 0 20px' }
+const detailsBox = {
+  backgroundColor: '#f8fafc', border: '1px solid #e2e8f0', borderRadius: '10px',
+  padding: '20px', margin: '20px 0',
+}
+const detailsTitle = {
+  fontSize: '16px', fontWeight: '700', color: '#1e293b', margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+const detailsDivider = { borderColor: '#e2e8f0', margin: '12px 0' }
+const detailRow = { fontSize: '14px', color: '#475569', margin: '8px 0', lineHeight: '1.5' }
+const detailLabel = { fontWeight: '600', color: '#1e293b' }
+const portalSection = { textAlign: 'center' as const, margin: '8px 0 0' }
+const portalLink = { color: '#2563eb', fontSize: '14px', fontWeight: '600', textDecoration: 'none' }
+const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
+const contactText = { fontSize: '13px', color: '#6b7280', margin: '4px 0', textAlign: 'center' as const }
+const linkStyle = { color: '#2563eb', textDecoration: 'underline' }
+const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
@@ -12,9 +12,21 @@ export interface TemplateEntry {
 import { template as welcomeMember } from './welcome-member.tsx'
 import { template as dueReminder } from './due-reminder.tsx'
 import { template as renewReminder } from './renew-reminder.tsx'
+import { template as renewalConfirmed } from './renewal-confirmed.tsx'
+import { template as workspaceInvite } from './workspace-invite.tsx'
+import { template as paymentReceipt } from './payment-receipt.tsx'
+import { template as paymentReceived } from './payment-received.tsx'
+import { template as memberRemoved } from './member-removed.tsx'
+import { template as teamMoved } from './team-moved.tsx'
 
 export const TEMPLATES: Record<string, TemplateEntry> = {
   'welcome-member': welcomeMember,
   'due-reminder': dueReminder,
   'renew-reminder': renewReminder,
+  'renewal-confirmed': renewalConfirmed,
+  'workspace-invite': workspaceInvite,
+  'payment-receipt': paymentReceipt,
+  'payment-received': paymentReceived,
+  'member-removed': memberRemoved,
+  'team-moved': teamMoved,
 }
@@ -3,26 +3,28 @@ import {
   Body, Container, Head, Heading, Html, Preview, Text, Section, Hr, Link, Button,
 } from 'npm:@react-email/components@0.0.22'
 import type { TemplateEntry } from './registry.ts'
+import { formatLocalDate, getCycleEndDate, resolveBillingCycle } from '../billing-cycle.ts'
 
 const SITE_NAME = "Tech Subx BD"
 
 interface RenewReminderProps {
   email?: string
   joinDate?: string
+  expiryDate?: string
   planName?: string
   isUsdt?: boolean
   teamName?: string
+  // Read-only portal link, issued by send-transactional-email when memberId is passed
+  portalUrl?: string
 }
 
-const RenewReminderEmail = ({ email, joinDate, planName, isUsdt, teamName }: RenewReminderProps) => {
+const RenewReminderEmail = ({ email, joinDate, expiryDate, planName, isUsdt, teamName, portalUrl }: RenewReminderProps) => {
   const lang = isUsdt ? 'en' : 'bn'
   const jd = joinDate || new Date().toISOString().split('T')[0]
   const plan = planName || 'Business Subscription'
 
-  const joinDateObj = new Date(jd)
-  const expiryDate = new Date(joinDateObj)
-  expiryDate.setDate(expiryDate.getDate() + 30)
-  const expiryStr = expiryDate.toISOString().split('T')[0]
+  // Senders pass the team's cycle end; older callers fall back to the default cycle
+  const expiryStr = expiryDate || formatLocalDate(getCycleEndDate(jd, resolveBillingCycle()))
 
   const formatDate = (d: string) => {
     const date = new Date(d)
@@ -80,6 +82,12 @@ const RenewReminderEmail = ({ email, joinDate, planName, isUsdt, teamName }: Ren
                 Or message us directly at: <strong>01322230857</strong>
               </Text>
 
+              {portalUrl && (
+                <Section style={portalSection}>
+                  <Link href={portalUrl} style={portalLink}>View your subscription & payment history →</Link>
+                </Section>
+              )}
+
               <Hr style={divider} />
               <Text style={contactText}>
                 Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
@@ -138,6 +146,12 @@ const RenewReminderEmail = ({ email, joinDate, planName, isUsdt, teamName }: Ren
               অথবা সরাসরি মেসেজ করুন: <strong>01322230857</strong>
             </Text>
 
+            {portalUrl && (
+              <Section style={portalSection}>
+                <Link href={portalUrl} style={portalLink}>আপনার সাবস্ক্রিপশন ও পেমেন্ট হিস্টোরি দেখুন →</Link>
+              </Section>
+            )}
+
             <Hr style={divider} />
             <Text style={contactText}>
               Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
@@ -161,9 +175,11 @@ export const template = {
   previewData: {
     email: 'customer@example.com',
     joinDate: '2025-01-15',
+    expiryDate: '2025-02-14',
     planName: 'Business Subscription',
     isUsdt: false,
     teamName: 'ChatGPT Team',
+    portalUrl: 'https://myproduct.tech/portal?token=preview',
   },
 } satisfies TemplateEntry
 
@@ -212,4 +228,6 @@ const smallText = { fontSize: '13px', color: '#6b7280', textAlign: 'center' as c
 const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
 const contactText = { fontSize: '13px', color: '#6b7280', margin: '4px 0', textAlign: 'center' as const }
 const linkStyle = { color: '#2563eb', textDecoration: 'underline' }
+const portalSection = { textAlign: 'center' as const, margin: '8px 0 0' }
+const portalLink = { color: '#2563eb', fontSize: '14px', fontWeight: '600', textDecoration: 'none' }
 const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
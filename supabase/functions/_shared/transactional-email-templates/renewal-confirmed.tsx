@@ -0,0 +1,184 @@
+import * as React from 'npm:react@18.3.1'
+import {
+  Body, Container, Head, Heading, Html, Preview, Text, Section, Hr, Link,
+} from 'npm:@react-email/components@0.0.22'
+import type { TemplateEntry } from './registry.ts'
+import { formatLocalDate, getCycleEndDate, resolveBillingCycle } from '../billing-cycle.ts'
+
+const SITE_NAME = "Tech Subx BD"
+
+// Only used when the sender didn't pass the rate the payment was taken at
+const FALLBACK_USDT_RATE = 125
+
+interface RenewalConfirmedProps {
+  email?: string
+  cycleStart?: string
+  expiryDate?: string
+  planName?: string
+  isUsdt?: boolean
+  teamName?: string
+  amount?: number
+  usdtRate?: number
+}
+
+const RenewalConfirmedEmail = ({
+  email, cycleStart, expiryDate, planName, isUsdt, teamName, amount, usdtRate,
+}: RenewalConfirmedProps) => {
+  const lang = isUsdt ? 'en' : 'bn'
+  const start = cycleStart || new Date().toISOString().split('T')[0]
+  const plan = planName || 'Business Subscription'
+  const expiryStr = expiryDate || formatLocalDate(getCycleEndDate(start, resolveBillingCycle()))
+
+  const formatDate = (d: string) => {
+    const date = new Date(d)
+    return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+  }
+
+  const amountStr = amount
+    ? isUsdt
+      ? `$${(amount / (usdtRate || FALLBACK_USDT_RATE)).toFixed(2)}`
+      : `৳${amount}`
+    : null
+
+  if (lang === 'en') {
+    return (
+      <Html lang="en" dir="ltr">
+        <Head />
+        <Preview>Your {plan} subscription has been renewed.</Preview>
+        <Body style={main}>
+          <Container style={container}>
+            <Section style={headerSection}>
+              <Heading style={brandName}>{SITE_NAME}</Heading>
+              <Text style={headerSubtext}>Subscription Renewed</Text>
+            </Section>
+
+            <Section style={contentSection}>
+              <Heading style={h1}>Thank you! ✅</Heading>
+              <Text style={text}>
+                Dear Customer, we have received your payment and your subscription has been renewed.
+              </Text>
+
+              <Section style={detailsBox}>
+                <Text style={detailsTitle}>Renewal Details</Text>
+                <Hr style={detailsDivider} />
+                <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+                {teamName && <Text style={detailRow}><span style={detailLabel}>Team:</span> {teamName}</Text>}
+                <Text style={detailRow}><span style={detailLabel}>Plan:</span> {plan}</Text>
+                {amountStr && <Text style={detailRow}><span style={detailLabel}>Amount Paid:</span> {amountStr}</Text>}
+                <Text style={detailRow}><span style={detailLabel}>New Period:</span> {formatDate(start)} – {formatDate(expiryStr)}</Text>
+              </Section>
+
+              <Text style={text}>
+                Your service continues without interruption. We'll remind you again before the next expiry date.
+              </Text>
+
+              <Hr style={divider} />
+              <Text style={contactText}>WhatsApp: 01322230857</Text>
+              <Text style={contactText}>
+                Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+              </Text>
+              <Hr style={divider} />
+              <Text style={footer}>Best regards,<br />{SITE_NAME} Team</Text>
+            </Section>
+          </Container>
+        </Body>
+      </Html>
+    )
+  }
+
+  // Bengali version
+  return (
+    <Html lang="bn" dir="ltr">
+      <Head />
+      <Preview>আপনার {plan} সাবস্ক্রিপশন রিনিউ হয়েছে।</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={headerSection}>
+            <Heading style={brandName}>{SITE_NAME}</Heading>
+            <Text style={headerSubtext}>সাবস্ক্রিপশন রিনিউ সম্পন্ন</Text>
+          </Section>
+
+          <Section style={contentSection}>
+            <Heading style={h1}>ধন্যবাদ | Thank you! ✅</Heading>
+            <Text style={text}>
+              প্রিয় গ্রাহক, আপনার পেমেন্ট পেয়েছি এবং আপনার সাবস্ক্রিপশন সফলভাবে রিনিউ করা হয়েছে।
+            </Text>
+
+            <Section style={detailsBox}>
+              <Text style={detailsTitle}>Renewal Details</Text>
+              <Hr style={detailsDivider} />
+              <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+              {teamName && <Text style={detailRow}><span style={detailLabel}>Team Name:</span> {teamName}</Text>}
+              <Text style={detailRow}><span style={detailLabel}>Plan Name:</span> {plan}</Text>
+              {amountStr && <Text style={detailRow}><span style={detailLabel}>পরিশোধ / Paid:</span> {amountStr}</Text>}
+              <Text style={detailRow}><span style={detailLabel}>নতুন মেয়াদ / New Period:</span> {formatDate(start)} – {formatDate(expiryStr)}</Text>
+            </Section>
+
+            <Text style={text}>
+              আপনার সার্ভিস কোনো বিরতি ছাড়াই চালু থাকবে। পরবর্তী মেয়াদ শেষ হওয়ার আগে আমরা আবার মনে করিয়ে দেব।
+            </Text>
+
+            <Hr style={divider} />
+            <Text style={contactText}>WhatsApp: 01322230857</Text>
+            <Text style={contactText}>
+              Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+            </Text>
+            <Hr style={divider} />
+            <Text style={footer}>ধন্যবাদান্তে,<br />{SITE_NAME} Team</Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export const template = {
+  component: RenewalConfirmedEmail,
+  subject: (data: Record<string, unknown>) =>
+    data.isUsdt
+      ? `✅ ${data.planName || 'Subscription'} Renewed — Tech Subx BD`
+      : `✅ রিনিউ সম্পন্ন | ${data.planName || 'Subscription'} — Tech Subx BD`,
+  displayName: 'Renewal Confirmed',
+  previewData: {
+    email: 'customer@example.com',
+    cycleStart: '2025-02-14',
+    expiryDate: '2025-03-16',
+    planName: 'Business Subscription',
+    isUsdt: false,
+    teamName: 'ChatGPT Team',
+    amount: 500,
+  },
+} satisfies TemplateEntry
+
+// Styles
+const main = { backgroundColor: '#ffffff', fontFamily: "'Segoe UI', Arial, sans-serif" }
+const container = { maxWidth: '580px', margin: '0 auto' }
+const headerSection = {
+  background: 'linear-gradient(135deg, #10b981 0%, #0ea5e9 50%, #8b5cf6 100%)',
+  padding: '32px 24px',
+  borderRadius: '12px 12px 0 0',
+  textAlign: 'center' as const,
+}
+const brandName = {
+  fontSize: '28px', fontWeight: '800', color: '#ffffff', margin: '0 0 4px',
+  letterSpacing: '-0.5px',
+}
+const headerSubtext = { fontSize: '14px', color: 'rgba(255,255,255,0.85)', margin: '0' }
+const contentSection = { padding: '32px 24px', backgroundColor: '#ffffff' }
+const h1 = { fontSize: '24px', fontWeight: '700', color: '#1a1a1a', margin: '0 0 16px' }
+const text = { fontSize: '15px', color: '#374151', lineHeight: '1.6', margin: '0 0 20px' }
+const detailsBox = {
+  backgroundColor: '#f8fafc', border: '1px solid #e2e8f0', borderRadius: '10px',
+  padding: '20px', margin: '20px 0',
+}
+const detailsTitle = {
+  fontSize: '16px', fontWeight: '700', color: '#1e293b', margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+const detailsDivider = { borderColor: '#e2e8f0', margin: '12px 0' }
+const detailRow = { fontSize: '14px', color: '#475569', margin: '8px 0', lineHeight: '1.5' }
+const detailLabel = { fontWeight: '600', color: '#1e293b' }
+const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
+const contactText = { fontSize: '13px', color: '#6b7280', margin: '4px 0', textAlign: 'center' as const }
+const linkStyle = { color: '#2563eb', textDecoration: 'underline' }
+const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
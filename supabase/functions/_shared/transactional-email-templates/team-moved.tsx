@@ -0,0 +1,175 @@
+import * as React from 'npm:react@18.3.1'
+import {
+  Body, Container, Head, Heading, Html, Preview, Text, Section, Hr, Link,
+} from 'npm:@react-email/components@0.0.22'
+import type { TemplateEntry } from './registry.ts'
+
+const SITE_NAME = "Tech Subx BD"
+
+interface TeamMovedProps {
+  email?: string
+  planName?: string
+  // Team the member was on before the move, if any
+  fromTeamName?: string
+  teamName?: string
+  isUsdt?: boolean
+  portalUrl?: string
+}
+
+const TeamMovedEmail = ({ email, planName, fromTeamName, teamName, isUsdt, portalUrl }: TeamMovedProps) => {
+  const lang = isUsdt ? 'en' : 'bn'
+  const plan = planName || 'Business Subscription'
+
+  if (lang === 'en') {
+    return (
+      <Html lang="en" dir="ltr">
+        <Head />
+        <Preview>Your {plan} subscription has moved to {teamName || 'a new team'}.</Preview>
+        <Body style={main}>
+          <Container style={container}>
+            <Section style={headerSection}>
+              <Heading style={brandName}>{SITE_NAME}</Heading>
+              <Text style={headerSubtext}>Team Changed</Text>
+            </Section>
+
+            <Section style={contentSection}>
+              <Heading style={h1}>You've been moved to a new team 🔄</Heading>
+              <Text style={text}>
+                Dear Customer, your subscription has been moved to a new team. Your plan and billing stay the same.
+              </Text>
+
+              <Section style={detailsBox}>
+                <Text style={detailsTitle}>Team Details</Text>
+                <Hr style={detailsDivider} />
+                <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+                {fromTeamName && <Text style={detailRow}><span style={detailLabel}>Previous Team:</span> {fromTeamName}</Text>}
+                {teamName && <Text style={detailRow}><span style={detailLabel}>New Team:</span> {teamName}</Text>}
+                <Text style={detailRow}><span style={detailLabel}>Plan:</span> {plan}</Text>
+              </Section>
+
+              <Text style={text}>
+                You'll receive an invitation to the new team shortly — please accept it to keep using your subscription.
+              </Text>
+
+              {portalUrl && (
+                <Section style={portalSection}>
+                  <Link href={portalUrl} style={portalLink}>View your subscription & payment history →</Link>
+                </Section>
+              )}
+
+              <Hr style={divider} />
+              <Text style={contactText}>WhatsApp: 01322230857</Text>
+              <Text style={contactText}>
+                Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+              </Text>
+              <Hr style={divider} />
+              <Text style={footer}>Best regards,<br />{SITE_NAME} Team</Text>
+            </Section>
+          </Container>
+        </Body>
+      </Html>
+    )
+  }
+
+  // Bengali version
+  return (
+    <Html lang="bn" dir="ltr">
+      <Head />
+      <Preview>আপনার {plan} সাবস্ক্রিপশন {teamName || 'নতুন টিমে'} সরানো হয়েছে।</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={headerSection}>
+            <Heading style={brandName}>{SITE_NAME}</Heading>
+            <Text style={headerSubtext}>টিম পরিবর্তন</Text>
+          </Section>
+
+          <Section style={contentSection}>
+            <Heading style={h1}>নতুন টিম | Team changed 🔄</Heading>
+            <Text style={text}>
+              প্রিয় গ্রাহক, আপনার সাবস্ক্রিপশন একটি নতুন টিমে সরানো হয়েছে। আপনার প্ল্যান ও পেমেন্ট আগের মতোই থাকবে।
+            </Text>
+
+            <Section style={detailsBox}>
+              <Text style={detailsTitle}>Team Details</Text>
+              <Hr style={detailsDivider} />
+              <Text style={detailRow}><span style={detailLabel}>Email:</span> {email || '—'}</Text>
+              {fromTeamName && <Text style={detailRow}><span style={detailLabel}>আগের টিম / Previous Team:</span> {fromTeamName}</Text>}
+              {teamName && <Text style={detailRow}><span style={detailLabel}>নতুন টিম / New Team:</span> {teamName}</Text>}
+              <Text style={detailRow}><span style={detailLabel}>Plan Name:</span> {plan}</Text>
+            </Section>
+
+            <Text style={text}>
+              শীঘ্রই নতুন টিমের একটি ইনভাইটেশন পাবেন — সাবস্ক্রিপশন চালু রাখতে অনুগ্রহ করে সেটি গ্রহণ করুন।
+            </Text>
+
+            {portalUrl && (
+              <Section style={portalSection}>
+                <Link href={portalUrl} style={portalLink}>আপনার সাবস্ক্রিপশন ও পেমেন্ট হিস্টোরি দেখুন →</Link>
+              </Section>
+            )}
+
+            <Hr style={divider} />
+            <Text style={contactText}>WhatsApp: 01322230857</Text>
+            <Text style={contactText}>
+              Website: <Link href="https://myproduct.tech" style={linkStyle}>myproduct.tech</Link>
+            </Text>
+            <Hr style={divider} />
+            <Text style={footer}>ধন্যবাদান্তে,<br />{SITE_NAME} Team</Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export const template = {
+  component: TeamMovedEmail,
+  subject: (data: Record<string, unknown>) =>
+    data.isUsdt
+      ? `🔄 Moved to ${data.teamName || 'a new team'} — Tech Subx BD`
+      : `🔄 টিম পরিবর্তন | ${data.teamName || 'New Team'} — Tech Subx BD`,
+  displayName: 'Team Moved',
+  previewData: {
+    email: 'customer@example.com',
+    planName: 'Business Subscription',
+    fromTeamName: 'ChatGPT Team',
+    teamName: 'ChatGPT Team 2',
+    isUsdt: false,
+    portalUrl: 'https://myproduct.tech/portal?token=preview',
+  },
+} satisfies TemplateEntry
+
+// Styles
+const main = { backgroundColor: '#ffffff', fontFamily: "'Segoe UI', Arial, sans-serif" }
+const container = { maxWidth: '580px', margin: '0 auto' }
+const headerSection = {
+  background: 'linear-gradient(135deg, #10b981 0%, #0ea5e9 50%, #8b5cf6 100%)',
+  padding: '32px 24px',
+  borderRadius: '12px 12px 0 0',
+  textAlign: 'center' as const,
+}
+const brandName = {
+  fontSize: '28px', fontWeight: '800', color: '#ffffff', margin: '0 0 4px',
+  letterSpacing: '-0.5px',
+}
+const headerSubtext = { fontSize: '14px', color: 'rgba(255,255,255,0.85)', margin: '0' }
+const contentSection = { padding: '32px 24px', backgroundColor: '#ffffff' }
+const h1 = { fontSize: '24px', fontWeight: '700', color: '#1a1a1a', margin: '0 0 16px' }
+const text = { fontSize: '15px', color: '#374151', lineHeight: '1.6', margin: '0 0 20px' }
+const detailsBox = {
+  backgroundColor: '#f8fafc', border: '1px solid #e2e8f0', borderRadius: '10px',
+  padding: '20px', margin: '20px 0',
+}
+const detailsTitle = {
+  fontSize: '16px', fontWeight: '700', color: '#1e293b', margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+const detailsDivider = { borderColor: '#e2e8f0', margin: '12px 0' }
+const detailRow = { fontSize: '14px', color: '#475569', margin: '8px 0', lineHeight: '1.5' }
+const detailLabel = { fontWeight: '600', color: '#1e293b' }
+const portalSection = { textAlign: 'center' as const, margin: '8px 0 0' }
+const portalLink = { color: '#2563eb', fontSize: '14px', fontWeight: '600', textDecoration: 'none' }
+const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
+const contactText = { fontSize: '13px', color: '#6b7280', margin: '4px 0', textAlign: 'center' as const }
+const linkStyle = { color: '#2563eb', textDecoration: 'underline' }
+const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
@@ -0,0 +1,133 @@
+import * as React from 'npm:react@18.3.1'
+import {
+  Body, Container, Head, Heading, Html, Preview, Text, Section, Hr, Button,
+} from 'npm:@react-email/components@0.0.22'
+import type { TemplateEntry } from './registry.ts'
+
+const SITE_NAME = "Tech Subx BD"
+
+interface WorkspaceInviteProps {
+  inviterEmail?: string
+  workspaceName?: string
+  role?: 'manager' | 'viewer'
+  inviteUrl?: string
+  expiresAt?: string
+}
+
+const ROLE_DESCRIPTIONS = {
+  manager: 'You can add and edit teams, members and payments.',
+  viewer: 'You can see teams, members and payments, but not change them or see member passwords.',
+}
+
+// Sent to collaborators; the app itself is English-only, so this is too
+const WorkspaceInviteEmail = ({ inviterEmail, workspaceName, role, inviteUrl, expiresAt }: WorkspaceInviteProps) => {
+  const name = workspaceName || 'a workspace'
+  const roleKey = role === 'manager' ? 'manager' : 'viewer'
+
+  const formatDate = (d: string) => {
+    const date = new Date(d)
+    return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+  }
+
+  return (
+    <Html lang="en" dir="ltr">
+      <Head />
+      <Preview>{inviterEmail || 'Someone'} invited you to {name} on {SITE_NAME}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={headerSection}>
+            <Heading style={brandName}>{SITE_NAME}</Heading>
+            <Text style={headerSubtext}>Workspace Invite</Text>
+          </Section>
+
+          <Section style={contentSection}>
+            <Heading style={h1}>You're invited 👋</Heading>
+            <Text style={text}>
+              {inviterEmail || 'The workspace owner'} invited you to collaborate on <strong>{name}</strong>.
+            </Text>
+
+            <Section style={detailsBox}>
+              <Text style={detailsTitle}>Invite Details</Text>
+              <Hr style={detailsDivider} />
+              <Text style={detailRow}><span style={detailLabel}>Workspace:</span> {name}</Text>
+              <Text style={detailRow}>
+                <span style={detailLabel}>Role:</span> {roleKey === 'manager' ? 'Manager' : 'Viewer'}
+              </Text>
+              <Text style={detailRow}>{ROLE_DESCRIPTIONS[roleKey]}</Text>
+              {expiresAt && (
+                <Text style={detailRow}><span style={detailLabel}>Expires:</span> {formatDate(expiresAt)}</Text>
+              )}
+            </Section>
+
+            {inviteUrl && (
+              <Section style={ctaSection}>
+                <Button style={ctaButton} href={inviteUrl}>
+                  Accept invite
+                </Button>
+              </Section>
+            )}
+
+            <Text style={smallText}>
+              Sign in with this email address to accept. If you weren't expecting this invite, you can ignore it.
+            </Text>
+
+            <Hr style={divider} />
+            <Text style={footer}>Best regards,<br />{SITE_NAME} Team</Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  )
+}
+
+export const template = {
+  component: WorkspaceInviteEmail,
+  subject: (data: Record<string, unknown>) =>
+    `You're invited to ${data.workspaceName || 'a workspace'} on Tech Subx BD`,
+  displayName: 'Workspace Invite',
+  previewData: {
+    inviterEmail: 'owner@example.com',
+    workspaceName: 'My workspace',
+    role: 'manager',
+    inviteUrl: 'https://myproduct.tech/invite?token=00000000-0000-0000-0000-000000000000',
+    expiresAt: '2025-01-22T10:00:00Z',
+  },
+} satisfies TemplateEntry
+
+// Styles
+const main = { backgroundColor: '#ffffff', fontFamily: "'Segoe UI', Arial, sans-serif" }
+const container = { maxWidth: '580px', margin: '0 auto' }
+const headerSection = {
+  background: 'linear-gradient(135deg, #0ea5e9 0%, #8b5cf6 50%, #ec4899 100%)',
+  padding: '32px 24px',
+  borderRadius: '12px 12px 0 0',
+  textAlign: 'center' as const,
+}
+const brandName = {
+  fontSize: '28px', fontWeight: '800', color: '#ffffff', margin: '0 0 4px',
+  letterSpacing: '-0.5px',
+}
+const headerSubtext = { fontSize: '14px', color: 'rgba(255,255,255,0.85)', margin: '0' }
+const contentSection = { padding: '32px 24px', backgroundColor: '#ffffff' }
+const h1 = { fontSize: '24px', fontWeight: '700', color: '#1a1a1a', margin: '0 0 16px' }
+const text = { fontSize: '15px', color: '#374151', lineHeight: '1.6', margin: '0 0 20px' }
+const detailsBox = {
+  backgroundColor: '#f8fafc', border: '1px solid #e2e8f0', borderRadius: '10px',
+  padding: '20px', margin: '20px 0',
+}
+const detailsTitle = {
+  fontSize: '16px', fontWeight: '700', color: '#1e293b', margin: '0 0 8px',
+  textAlign: 'center' as const,
+}
+const detailsDivider = { borderColor: '#e2e8f0', margin: '12px 0' }
+const detailRow = { fontSize: '14px', color: '#475569', margin: '8px 0', lineHeight: '1.5' }
+const detailLabel = { fontWeight: '600', color: '#1e293b' }
+const ctaSection = { textAlign: 'center' as const, margin: '24px 0' }
+const ctaButton = {
+  backgroundColor: '#8b5cf6', color: '#ffffff', padding: '14px 32px',
+  borderRadius: '10px', fontSize: '16px', fontWeight: '700',
+  textDecoration: 'none', display: 'inline-block',
+}
+const smallText = { fontSize: '13px', color: '#6b7280', textAlign: 'center' as const, margin: '8px 0 0' }
+const divider = { borderColor: '#e5e7eb', margin: '24px 0' }
+const footer = { fontSize: '14px', color: '#6b7280', textAlign: 'center' as const, margin: '16px 0 0' }
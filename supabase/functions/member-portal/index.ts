@@ -0,0 +1,143 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  daysUntilCycleEnd,
+  formatLocalDate,
+  getCycleEndDate,
+  resolveBillingCycle,
+} from '../_shared/billing-cycle.ts'
+import { resolvePortalMember } from '../_shared/member-portal.ts'
+
+// Member portal behind the link in member emails. Returns what a customer may
+// see about their own subscription — never credentials, notes or anything
+// about other members. Payments with an invoice number can be downloaded as
+// receipts.
+
+const FALLBACK_USDT_RATE = 125
+const MAX_PAYMENTS = 50
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+const toUsd = (amount: number, rate: number) => Math.round((amount / (rate || FALLBACK_USDT_RATE)) * 100) / 100
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return jsonResponse({ error: 'Server configuration error' }, 500)
+  }
+
+  const token = new URL(req.url).searchParams.get('token')
+  if (!token) {
+    return jsonResponse({ error: 'Token is required' }, 400)
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+  let member
+  try {
+    member = await resolvePortalMember(supabase, token)
+  } catch {
+    return jsonResponse({ error: 'Failed to load subscription' }, 500)
+  }
+  if (!member) {
+    return jsonResponse({ valid: false, reason: 'invalid' }, 404)
+  }
+
+  const { data: team, error: teamError } = await supabase
+    .from('teams')
+    .select('team_name, logo, billing_cycle_days, billing_calendar_month, deleted_at')
+    .eq('id', member.team_id)
+    .maybeSingle()
+
+  if (teamError || !team || team.deleted_at) {
+    if (teamError) console.error('Failed to fetch team', { error: teamError })
+    return jsonResponse({ valid: false, reason: 'invalid' }, 404)
+  }
+
+  const today = formatLocalDate(new Date())
+  const [productRes, rateRes, ledgerRes, profileRes] = await Promise.all([
+    team.logo
+      ? supabase
+          .from('subscription_products')
+          .select('name, color, icon_url, plan_name')
+          .eq('user_id', member.user_id)
+          .eq('key', team.logo)
+          .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    supabase
+      .from('usdt_rates')
+      .select('rate')
+      .eq('user_id', member.user_id)
+      .lte('effective_date', today)
+      .order('effective_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('payment_ledger')
+      .select('id, paid_at, amount, currency, usdt_rate, method, cycle_start, cycle_end, invoice_number')
+      .eq('member_id', member.id)
+      .order('paid_at', { ascending: false })
+      .limit(MAX_PAYMENTS),
+    supabase.from('profiles').select('business_name').eq('id', member.user_id).maybeSingle(),
+  ])
+
+  if (ledgerRes.error) {
+    console.error('Failed to fetch payments', { error: ledgerRes.error })
+    return jsonResponse({ error: 'Failed to load subscription' }, 500)
+  }
+
+  const product = productRes.data
+  const usdtRate = rateRes.data?.rate || FALLBACK_USDT_RATE
+  const cycle = resolveBillingCycle(team.billing_cycle_days, team.billing_calendar_month)
+  const dueAmount = member.pending_amount || 0
+
+  return jsonResponse({
+    valid: true,
+    // Printed on the receipts the portal generates
+    businessName: profileRes.data?.business_name || 'Tech Subx BD',
+    member: {
+      email: member.email,
+      teamName: team.team_name,
+      planName: product?.plan_name || 'Business Subscription',
+      product: product ? { name: product.name, color: product.color, iconUrl: product.icon_url } : null,
+      cycleStart: member.join_date,
+      cycleEnd: formatLocalDate(getCycleEndDate(member.join_date, cycle)),
+      daysRemaining: daysUntilCycleEnd(member.join_date, cycle),
+      isUsdt: member.is_usdt || false,
+      dueAmount,
+      dueUsd: member.is_usdt ? toUsd(dueAmount, usdtRate) : null,
+    },
+    payments: (ledgerRes.data || []).map((p) => ({
+      id: p.id,
+      paidAt: p.paid_at,
+      amount: p.amount,
+      currency: p.currency,
+      usd: p.currency === 'USDT' ? toUsd(p.amount, p.usdt_rate || usdtRate) : null,
+      method: p.method,
+      cycleStart: p.cycle_start,
+      cycleEnd: p.cycle_end,
+      invoiceNumber: p.invoice_number,
+    })),
+  })
+})
@@ -1,20 +1,109 @@
 import * as React from 'npm:react@18.3.1'
 import { renderAsync } from 'npm:@react-email/components@0.0.22'
+import { createClient } from 'npm:@supabase/supabase-js@2'
 import { TEMPLATES } from '../_shared/transactional-email-templates/registry.ts'
+import { buildOverrideEmail } from '../_shared/template-overrides.tsx'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
 // Renders all registered templates with their previewData.
 // Gated by LOVABLE_API_KEY — only the Go API calls this.
+//
+// The app's template editor also POSTs a single draft here:
+// { templateName, lang, subject?, body? }, rendered with sample data. Drafts
+// need a signed-in app user's JWT (or the same key).
+
+// The project app users sign in to, when it isn't the one this function runs in
+const AUTH_URL = Deno.env.get('APP_SUPABASE_URL') || Deno.env.get('SUPABASE_URL')
+const AUTH_ANON_KEY = Deno.env.get('APP_SUPABASE_ANON_KEY') || Deno.env.get('SUPABASE_ANON_KEY')
+
+// Sample values for the variables overrides can use, under the template's own previewData
+const SAMPLE_DATA = {
+  email: 'customer@example.com',
+  dueAmount: 500,
+  planName: 'Business Subscription',
+  teamName: 'ChatGPT Team',
+  joinDate: '2025-02-14',
+}
+
+interface DraftRequest {
+  templateName: string
+  lang?: unknown
+  subject?: unknown
+  body?: unknown
+}
+
+async function canPreviewDraft(token: string | undefined): Promise<boolean> {
+  if (!token) return false
+  const apiKey = Deno.env.get('LOVABLE_API_KEY')
+  if (apiKey && token === apiKey) return true
+  if (!AUTH_URL || !AUTH_ANON_KEY) return false
+  const { data, error } = await createClient(AUTH_URL, AUTH_ANON_KEY).auth.getUser(token)
+  return !error && !!data.user
+}
+
+async function renderDraft(draft: DraftRequest): Promise<Response> {
+  const entry = TEMPLATES[draft.templateName]
+  if (!entry) {
+    return new Response(JSON.stringify({ error: `Template '${draft.templateName}' not found` }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+  if (draft.lang !== 'bn' && draft.lang !== 'en') {
+    return new Response(JSON.stringify({ error: "lang must be 'bn' or 'en'" }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+
+  const data = { ...SAMPLE_DATA, ...entry.previewData, isUsdt: draft.lang === 'en' }
+  try {
+    let subject: string
+    let html: string
+    if (typeof draft.subject === 'string' && typeof draft.body === 'string') {
+      const email = buildOverrideEmail({ subject: draft.subject, body: draft.body }, data)
+      subject = email.subject
+      html = await renderAsync(email.element)
+    } else {
+      subject = typeof entry.subject === 'function' ? entry.subject(data) : entry.subject
+      html = await renderAsync(React.createElement(entry.component, data))
+    }
+    return new Response(JSON.stringify({ subject, html }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  } catch (err) {
+    console.error('Failed to render draft preview', { template: draft.templateName, error: err })
+    return new Response(JSON.stringify({ error: 'Failed to render preview' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    })
+  }
+}
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders })
   }
 
+  if (req.method === 'POST') {
+    const draft = await req.json().catch(() => null)
+    if (draft && typeof draft.templateName === 'string') {
+      const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+      if (!(await canPreviewDraft(token))) {
+        return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+          status: 401,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        })
+      }
+      return renderDraft(draft)
+    }
+  }
+
   const apiKey = Deno.env.get('LOVABLE_API_KEY')
   if (!apiKey) {
     return new Response(
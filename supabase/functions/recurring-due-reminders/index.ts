@@ -28,6 +28,7 @@ Deno.serve(async (req) => {
     .from('members')
     .select('id, email, pending_amount, is_usdt, is_pushed, team_id')
     .gt('pending_amount', 0)
+    .is('deleted_at', null)
 
   if (membersError) {
     console.error('Failed to fetch members', membersError)
@@ -51,6 +52,7 @@ Deno.serve(async (req) => {
     .from('teams')
     .select('id, is_yearly, team_name')
     .in('id', teamIds)
+    .is('deleted_at', null)
 
   if (teamsError) {
     console.error('Failed to fetch teams', teamsError)
@@ -63,9 +65,9 @@ Deno.serve(async (req) => {
   const yearlyTeamIds = new Set((teams || []).filter((t) => t.is_yearly).map((t) => t.id))
   const teamNameMap = new Map((teams || []).map((t) => [t.id, t.team_name]))
 
-  // Filter: exclude pushed members and yearly team members
+  // Filter: exclude pushed members, yearly team members and teams in the trash
   const eligibleMembers = members.filter(
-    (m) => !m.is_pushed && !yearlyTeamIds.has(m.team_id)
+    (m) => !m.is_pushed && !yearlyTeamIds.has(m.team_id) && teamNameMap.has(m.team_id)
   )
 
   if (eligibleMembers.length === 0) {
@@ -114,6 +116,7 @@ Deno.serve(async (req) => {
             recipientEmail: member.email,
             idempotencyKey: `recurring-due-${member.id}-${new Date().toISOString().split('T')[0]}`,
             templateData: {
+              memberId: member.id,
               email: member.email,
               dueAmount: member.pending_amount,
               isUsdt: member.is_usdt || false,
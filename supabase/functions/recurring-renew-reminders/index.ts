@@ -1,17 +1,18 @@
 import { createClient } from 'npm:@supabase/supabase-js@2'
+import {
+  daysUntilCycleEnd,
+  formatLocalDate,
+  getCycleEndDate,
+  resolveBillingCycle,
+  startOfLocalDay,
+} from '../_shared/billing-cycle.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
-// Plan name logic based on team logo/subscription type
-function getPlanName(logo: string | null): string {
-  if (!logo) return 'Business Subscription'
-  if (logo === 'gemini' || logo === 'canva') return 'Pro Subscription'
-  if (logo === 'youtube') return 'Premium Subscription'
-  return 'Business Subscription'
-}
+const DEFAULT_PLAN_NAME = 'Business Subscription'
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -35,6 +36,7 @@ Deno.serve(async (req) => {
   const { data: allMembers, error: membersError } = await supabase
     .from('members')
     .select('id, email, join_date, is_usdt, is_pushed, team_id, active_team_id')
+    .is('deleted_at', null)
 
   if (membersError) {
     console.error('Failed to fetch members', membersError)
@@ -55,8 +57,9 @@ Deno.serve(async (req) => {
   const teamIds = [...new Set(allMembers.map((m) => m.team_id))]
   const { data: teams, error: teamsError } = await supabase
     .from('teams')
-    .select('id, is_yearly, is_plus, team_name, logo')
+    .select('id, user_id, is_yearly, is_plus, team_name, logo, billing_cycle_days, billing_calendar_month')
     .in('id', teamIds)
+    .is('deleted_at', null)
 
   if (teamsError) {
     console.error('Failed to fetch teams', teamsError)
@@ -70,26 +73,48 @@ Deno.serve(async (req) => {
   const yearlyTeamIds = new Set((teams || []).filter((t) => t.is_yearly).map((t) => t.id))
   const teamMap = new Map((teams || []).map((t) => [t.id, t]))
 
-  // 3. Filter members: not pushed, not yearly, joined exactly 29+ days ago
+  // Plan names come from each owner's product catalog, keyed by team logo
+  const ownerIds = [...new Set((teams || []).map((t) => t.user_id))]
+  const { data: products, error: productsError } = await supabase
+    .from('subscription_products')
+    .select('user_id, key, plan_name')
+    .in('user_id', ownerIds)
+
+  if (productsError) {
+    console.error('Failed to fetch subscription products', productsError)
+  }
+
+  const planNames = new Map(
+    (products || []).map((p) => [`${p.user_id}:${p.key}`, p.plan_name as string | null])
+  )
+
+  const planNameFor = (team?: { user_id: string; logo: string | null }) =>
+    (team?.logo && planNames.get(`${team.user_id}:${team.logo}`)) || DEFAULT_PLAN_NAME
+
+  const cycleFor = (teamId: string) => {
+    const team = teamMap.get(teamId)
+    return resolveBillingCycle(team?.billing_cycle_days, team?.billing_calendar_month)
+  }
+
+  // 3. Filter members: not pushed, not yearly, one day before their team's cycle ends
   const now = new Date()
+  const today = startOfLocalDay(now)
   const eligibleMembers = allMembers.filter((m) => {
     if (m.is_pushed) return false
     if (yearlyTeamIds.has(m.team_id)) return false
+    if (!teamMap.has(m.team_id)) return false // team is in the trash
     if (!m.join_date) return false
+    if (m.join_date.split('-').length < 3) return false
 
-    // Calculate days since join
-    const parts = m.join_date.split('-')
-    if (parts.length < 3) return false
-    const joinDate = new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]))
-    const diffDays = Math.floor((now.getTime() - joinDate.getTime()) / (1000 * 60 * 60 * 24))
+    const daysLeft = daysUntilCycleEnd(m.join_date, cycleFor(m.team_id), today)
 
-    // Send at exactly 29 days (or 29+ for members who may have been missed)
-    // But cap at 33 to avoid spamming very old members
-    return diffDays >= 29 && diffDays <= 33
+    // Send one day before the cycle ends (or later for members who may have been missed)
+    // But stop 3 days after it ended to avoid spamming very old members
+    return daysLeft <= 1 && daysLeft >= -3
   })
 
   if (eligibleMembers.length === 0) {
-    console.log('No members at 29 days for renewal reminder')
+    console.log('No members near the end of their billing cycle for renewal reminder')
     return new Response(JSON.stringify({ sent: 0 }), {
       status: 200,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -122,7 +147,7 @@ Deno.serve(async (req) => {
     }
 
     const team = teamMap.get(member.team_id)
-    const planName = getPlanName(team?.logo || null)
+    const planName = planNameFor(team)
 
     try {
       const { error: invokeError } = await supabase.functions.invoke(
@@ -133,8 +158,10 @@ Deno.serve(async (req) => {
             recipientEmail: member.email,
             idempotencyKey: `renew-${member.id}-${now.toISOString().split('T')[0]}`,
             templateData: {
+              memberId: member.id,
               email: member.email,
               joinDate: member.join_date,
+              expiryDate: formatLocalDate(getCycleEndDate(member.join_date, cycleFor(member.team_id))),
               planName,
               isUsdt: member.is_usdt || false,
               teamName: team?.team_name || '',
@@ -2,6 +2,8 @@ import * as React from 'npm:react@18.3.1'
 import { renderAsync } from 'npm:@react-email/components@0.0.22'
 import { createClient } from 'npm:@supabase/supabase-js@2'
 import { TEMPLATES } from '../_shared/transactional-email-templates/registry.ts'
+import { getMemberPortalUrl } from '../_shared/member-portal.ts'
+import { buildOverrideEmail, loadTemplateOverride, templateLang } from '../_shared/template-overrides.tsx'
 
 // Configuration baked in at scaffold time — do NOT change these manually.
 // To update, re-run the email domain setup flow.
@@ -282,18 +284,42 @@ Deno.serve(async (req) => {
     )
   }
 
+  // Emails about a member link to their read-only portal. Never trust a
+  // caller-supplied link; it's issued here for the actual recipient.
+  const { portalUrl: _callerPortalUrl, ...safeTemplateData } = templateData
+  templateData = safeTemplateData
+  let workspaceOwnerId: string | null = null
+  if (typeof templateData.memberId === 'string') {
+    const { data: member } = await supabase
+      .from('members')
+      .select('user_id, deleted_at')
+      .eq('id', templateData.memberId)
+      .maybeSingle()
+    if (member) workspaceOwnerId = member.user_id
+    // Removed members can't open the portal, so don't link it. A member that
+    // hasn't synced up yet still gets a link; the portal checks the row when opened.
+    if (!member?.deleted_at) {
+      const portalUrl = await getMemberPortalUrl(supabase, templateData.memberId, effectiveRecipient)
+      if (portalUrl) templateData.portalUrl = portalUrl
+    }
+  }
+
+  // The member's workspace may have rewritten this template's copy; the
+  // built-in component is used when it hasn't
+  const override = workspaceOwnerId
+    ? await loadTemplateOverride(supabase, workspaceOwnerId, templateName, templateLang(templateData))
+    : null
+  const overrideEmail = override ? buildOverrideEmail(override, templateData) : null
+  const element = overrideEmail?.element ?? React.createElement(template.component, templateData)
+
   // 4. Render React Email template to HTML and plain text
-  const html = await renderAsync(
-    React.createElement(template.component, templateData)
-  )
-  const plainText = await renderAsync(
-    React.createElement(template.component, templateData),
-    { plainText: true }
-  )
+  const html = await renderAsync(element)
+  const plainText = await renderAsync(element, { plainText: true })
 
   // Resolve subject — supports static string or dynamic function
-  const resolvedSubject =
-    typeof template.subject === 'function'
+  const resolvedSubject = overrideEmail
+    ? overrideEmail.subject
+    : typeof template.subject === 'function'
       ? template.subject(templateData)
       : template.subject
 
@@ -0,0 +1,150 @@
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import { resolvePortalMember } from '../_shared/member-portal.ts'
+
+// Public payment submission from the member portal. The member is identified
+// by their portal token; the payment waits in payment_submissions until
+// someone in the workspace verifies it.
+
+const PAYMENT_METHODS = ['bkash', 'nagad', 'rocket', 'bank', 'binance', 'other']
+const MAX_SCREENSHOT_BYTES = 5 * 1024 * 1024
+const MAX_AMOUNT = 10_000_000
+// Keeps a leaked link from flooding the inbox
+const MAX_PENDING_PER_MEMBER = 5
+
+const SCREENSHOT_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers':
+    'authorization, x-client-info, apikey, content-type',
+}
+
+function jsonResponse(data: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return jsonResponse({ error: 'Server configuration error' }, 500)
+  }
+
+  let form: FormData
+  try {
+    form = await req.formData()
+  } catch {
+    return jsonResponse({ error: 'Invalid form data' }, 400)
+  }
+
+  const token = form.get('token')
+  const method = form.get('method')
+  const transactionId = String(form.get('transactionId') ?? '').trim()
+  const amount = Number(form.get('amount'))
+  const screenshot = form.get('screenshot')
+
+  if (typeof token !== 'string' || !token) {
+    return jsonResponse({ error: 'Token is required' }, 400)
+  }
+  if (typeof method !== 'string' || !PAYMENT_METHODS.includes(method)) {
+    return jsonResponse({ error: 'Choose how you paid' }, 400)
+  }
+  if (transactionId.length < 3 || transactionId.length > 64) {
+    return jsonResponse({ error: 'Enter the transaction ID' }, 400)
+  }
+  if (!(amount > 0) || amount > MAX_AMOUNT) {
+    return jsonResponse({ error: 'Enter the amount you paid' }, 400)
+  }
+  if (screenshot !== null && !(screenshot instanceof File)) {
+    return jsonResponse({ error: 'Invalid screenshot' }, 400)
+  }
+  if (screenshot && !SCREENSHOT_EXTENSIONS[screenshot.type]) {
+    return jsonResponse({ error: 'The screenshot must be a JPG, PNG, WEBP or HEIC image' }, 400)
+  }
+  if (screenshot && screenshot.size > MAX_SCREENSHOT_BYTES) {
+    return jsonResponse({ error: 'The screenshot must be under 5 MB' }, 400)
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+  let member
+  try {
+    member = await resolvePortalMember(supabase, token)
+  } catch {
+    return jsonResponse({ error: 'Failed to submit payment' }, 500)
+  }
+  if (!member) {
+    return jsonResponse({ error: 'This link is invalid or no longer active' }, 404)
+  }
+
+  const { count, error: countError } = await supabase
+    .from('payment_submissions')
+    .select('id', { count: 'exact', head: true })
+    .eq('member_id', member.id)
+    .eq('status', 'pending')
+
+  if (countError) {
+    console.error('Failed to count pending submissions', { error: countError })
+    return jsonResponse({ error: 'Failed to submit payment' }, 500)
+  }
+  if ((count ?? 0) >= MAX_PENDING_PER_MEMBER) {
+    return jsonResponse({ error: 'You already have payments waiting for verification' }, 429)
+  }
+
+  const id = crypto.randomUUID()
+  let screenshotPath: string | null = null
+
+  if (screenshot) {
+    screenshotPath = `${member.user_id}/${id}.${SCREENSHOT_EXTENSIONS[screenshot.type]}`
+    const { error: uploadError } = await supabase.storage
+      .from('payment-screenshots')
+      .upload(screenshotPath, screenshot, { contentType: screenshot.type })
+
+    if (uploadError) {
+      console.error('Failed to upload payment screenshot', { error: uploadError })
+      return jsonResponse({ error: 'Failed to upload the screenshot' }, 500)
+    }
+  }
+
+  const { error: insertError } = await supabase.from('payment_submissions').insert({
+    id,
+    user_id: member.user_id,
+    member_id: member.id,
+    method,
+    transaction_id: transactionId,
+    amount,
+    currency: member.is_usdt ? 'USDT' : 'BDT',
+    screenshot_path: screenshotPath,
+  })
+
+  if (insertError) {
+    if (screenshotPath) await supabase.storage.from('payment-screenshots').remove([screenshotPath])
+    // Unique (member_id, transaction_id)
+    if (insertError.code === '23505') {
+      return jsonResponse({ error: 'This transaction ID was already submitted' }, 409)
+    }
+    console.error('Failed to save payment submission', { error: insertError })
+    return jsonResponse({ error: 'Failed to submit payment' }, 500)
+  }
+
+  console.log('Payment submitted', { memberId: member.id, method })
+
+  return jsonResponse({ success: true })
+})
@@ -0,0 +1,33 @@
+-- Row versions for offline conflict detection on teams and members.
+-- Every update bumps `version` and `updated_at`; clients compare the version
+-- they last saw against the server row before replaying queued edits.
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE public.members
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE OR REPLACE FUNCTION public.bump_row_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS teams_bump_version ON public.teams;
+CREATE TRIGGER teams_bump_version
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW EXECUTE FUNCTION public.bump_row_version();
+
+DROP TRIGGER IF EXISTS members_bump_version ON public.members;
+CREATE TRIGGER members_bump_version
+  BEFORE UPDATE ON public.members
+  FOR EACH ROW EXECUTE FUNCTION public.bump_row_version();
@@ -0,0 +1,12 @@
+-- Per-team billing cycle. Members renew `billing_cycle_days` after their
+-- join date, or on the same day each month when `billing_calendar_month` is set.
+-- Existing teams keep the previous fixed 30-day cycle.
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS billing_cycle_days integer NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS billing_calendar_month boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.teams
+  DROP CONSTRAINT IF EXISTS teams_billing_cycle_days_positive;
+ALTER TABLE public.teams
+  ADD CONSTRAINT teams_billing_cycle_days_positive CHECK (billing_cycle_days > 0);
@@ -0,0 +1,114 @@
+-- Per-user catalog of subscription products (ChatGPT, Spotify, ...).
+-- `teams.logo` and `members.subscriptions` reference products by `key`.
+-- The built-in services keep their legacy keys so existing rows resolve
+-- unchanged; products added later use their id as key.
+
+CREATE TABLE IF NOT EXISTS public.subscription_products (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#6366f1',
+  icon_url text,
+  plan_name text,
+  default_price numeric,
+  billing_cycle_days integer NOT NULL DEFAULT 30 CHECK (billing_cycle_days > 0),
+  billing_calendar_month boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, key)
+);
+
+ALTER TABLE public.subscription_products ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own subscription products" ON public.subscription_products;
+CREATE POLICY "Users manage their own subscription products"
+  ON public.subscription_products
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.touch_updated_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS subscription_products_touch ON public.subscription_products;
+CREATE TRIGGER subscription_products_touch
+  BEFORE UPDATE ON public.subscription_products
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
+
+-- ─── Built-in catalog ───────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.seed_subscription_products(p_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.subscription_products (user_id, key, name, color, icon_url, plan_name, sort_order)
+  VALUES
+    (p_user_id, 'chatgpt', 'ChatGPT', '#10A37F', 'https://upload.wikimedia.org/wikipedia/commons/0/04/ChatGPT_logo.svg', 'Business Subscription', 0),
+    (p_user_id, 'gemini', 'Gemini AI', '#4285F4', 'https://upload.wikimedia.org/wikipedia/commons/8/8a/Google_Gemini_logo.svg', 'Pro Subscription', 1),
+    (p_user_id, 'perplexity', 'Perplexity', '#20808D', 'https://uxwing.com/wp-content/themes/uxwing/download/brands-and-social-media/perplexity-ai-icon.png', 'Business Subscription', 2),
+    (p_user_id, 'youtube', 'YouTube', '#FF0000', 'https://upload.wikimedia.org/wikipedia/commons/0/09/YouTube_full-color_icon_%282017%29.svg', 'Premium Subscription', 3),
+    (p_user_id, 'canva', 'Canva', '#00C4CC', 'https://static.canva.com/static/images/favicon-1.ico', 'Pro Subscription', 4),
+    (p_user_id, 'quillbot', 'QuillBot', '#4CAF50', '/images/quillbot-logo.png', 'Business Subscription', 5),
+    (p_user_id, 'crunchyroll', 'Crunchyroll', '#F47521', '/images/crunchyroll-logo.png', 'Business Subscription', 6),
+    (p_user_id, 'netflix', 'Netflix', '#E50914', 'https://upload.wikimedia.org/wikipedia/commons/0/08/Netflix_2015_logo.svg', 'Business Subscription', 7)
+  ON CONFLICT (user_id, key) DO NOTHING;
+$$;
+
+-- Existing accounts
+SELECT public.seed_subscription_products(id) FROM auth.users;
+
+-- New accounts
+CREATE OR REPLACE FUNCTION public.handle_new_user_subscription_products()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.seed_subscription_products(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created_subscription_products ON auth.users;
+CREATE TRIGGER on_auth_user_created_subscription_products
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user_subscription_products();
+
+-- ─── Icon uploads ───────────────────────────────────────────────
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-icons', 'product-icons', true)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Product icons are publicly readable" ON storage.objects;
+CREATE POLICY "Product icons are publicly readable"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'product-icons');
+
+DROP POLICY IF EXISTS "Users upload their own product icons" ON storage.objects;
+CREATE POLICY "Users upload their own product icons"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'product-icons' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+DROP POLICY IF EXISTS "Users update their own product icons" ON storage.objects;
+CREATE POLICY "Users update their own product icons"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'product-icons' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+DROP POLICY IF EXISTS "Users delete their own product icons" ON storage.objects;
+CREATE POLICY "Users delete their own product icons"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'product-icons' AND auth.uid()::text = (storage.foldername(name))[1]);
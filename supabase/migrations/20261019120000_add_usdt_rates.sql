@@ -0,0 +1,39 @@
+-- Per-user BDT/USD rate history. The rate in effect on a date is the latest
+-- entry with effective_date on or before it; before the first entry the app
+-- falls back to the old fixed rate (125).
+
+CREATE TABLE IF NOT EXISTS public.usdt_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rate numeric NOT NULL CHECK (rate > 0),
+  effective_date date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS usdt_rates_user_date_idx
+  ON public.usdt_rates (user_id, effective_date DESC);
+
+ALTER TABLE public.usdt_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own USDT rates" ON public.usdt_rates;
+CREATE POLICY "Users manage their own USDT rates"
+  ON public.usdt_rates
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Rate each payment was taken at, so converted figures don't move with later rates
+ALTER TABLE public.members
+  ADD COLUMN IF NOT EXISTS paid_usdt_rate numeric;
+
+ALTER TABLE public.member_payments
+  ADD COLUMN IF NOT EXISTS usdt_rate numeric;
+
+-- Existing payments were all taken at the fixed rate
+UPDATE public.members
+  SET paid_usdt_rate = 125
+  WHERE paid_usdt_rate IS NULL AND paid_amount IS NOT NULL;
+
+UPDATE public.member_payments
+  SET usdt_rate = 125
+  WHERE usdt_rate IS NULL;
@@ -0,0 +1,33 @@
+-- Seat capacity per team (admin included). NULL falls back to the app
+-- default of 8, the old global limit.
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS seat_limit integer CHECK (seat_limit IS NULL OR seat_limit > 0);
+
+-- Seats a new team of this product starts with
+ALTER TABLE public.subscription_products
+  ADD COLUMN IF NOT EXISTS default_seats integer CHECK (default_seats IS NULL OR default_seats > 0);
+
+UPDATE public.subscription_products SET default_seats = 8 WHERE key = 'chatgpt' AND default_seats IS NULL;
+UPDATE public.subscription_products SET default_seats = 6 WHERE key = 'youtube' AND default_seats IS NULL;
+UPDATE public.subscription_products SET default_seats = 5 WHERE key = 'netflix' AND default_seats IS NULL;
+
+-- Keep seeding new accounts with the same defaults
+CREATE OR REPLACE FUNCTION public.seed_subscription_products(p_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.subscription_products (user_id, key, name, color, icon_url, plan_name, default_seats, sort_order)
+  VALUES
+    (p_user_id, 'chatgpt', 'ChatGPT', '#10A37F', 'https://upload.wikimedia.org/wikipedia/commons/0/04/ChatGPT_logo.svg', 'Business Subscription', 8, 0),
+    (p_user_id, 'gemini', 'Gemini AI', '#4285F4', 'https://upload.wikimedia.org/wikipedia/commons/8/8a/Google_Gemini_logo.svg', 'Pro Subscription', NULL, 1),
+    (p_user_id, 'perplexity', 'Perplexity', '#20808D', 'https://uxwing.com/wp-content/themes/uxwing/download/brands-and-social-media/perplexity-ai-icon.png', 'Business Subscription', NULL, 2),
+    (p_user_id, 'youtube', 'YouTube', '#FF0000', 'https://upload.wikimedia.org/wikipedia/commons/0/09/YouTube_full-color_icon_%282017%29.svg', 'Premium Subscription', 6, 3),
+    (p_user_id, 'canva', 'Canva', '#00C4CC', 'https://static.canva.com/static/images/favicon-1.ico', 'Pro Subscription', NULL, 4),
+    (p_user_id, 'quillbot', 'QuillBot', '#4CAF50', '/images/quillbot-logo.png', 'Business Subscription', NULL, 5),
+    (p_user_id, 'crunchyroll', 'Crunchyroll', '#F47521', '/images/crunchyroll-logo.png', 'Business Subscription', NULL, 6),
+    (p_user_id, 'netflix', 'Netflix', '#E50914', 'https://upload.wikimedia.org/wikipedia/commons/0/08/Netflix_2015_logo.svg', 'Business Subscription', 5, 7)
+  ON CONFLICT (user_id, key) DO NOTHING;
+$$;
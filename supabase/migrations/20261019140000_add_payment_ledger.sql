@@ -0,0 +1,82 @@
+-- Every payment received, for all team types. Amounts are BDT; USDT payments
+-- keep the rate they were converted at. Regular and Plus members get one entry
+-- per billing cycle; paid yearly `member_payments` rows are mirrored here under
+-- the same id.
+
+CREATE TABLE IF NOT EXISTS public.payment_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES public.members(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL,
+  paid_at date NOT NULL DEFAULT CURRENT_DATE,
+  amount numeric NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'BDT' CHECK (currency IN ('BDT', 'USDT')),
+  usdt_rate numeric,
+  method text,
+  cycle_start date,
+  cycle_end date,
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payment_ledger_user_paid_at_idx
+  ON public.payment_ledger (user_id, paid_at DESC);
+
+CREATE INDEX IF NOT EXISTS payment_ledger_member_idx
+  ON public.payment_ledger (member_id);
+
+ALTER TABLE public.payment_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own payment ledger" ON public.payment_ledger;
+CREATE POLICY "Users manage their own payment ledger"
+  ON public.payment_ledger
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ─── Backfill ───────────────────────────────────────────────────
+
+-- Regular and Plus members: the current paid amount, dated to the cycle it covers
+INSERT INTO public.payment_ledger
+  (user_id, member_id, team_id, paid_at, amount, currency, usdt_rate, cycle_start, cycle_end)
+SELECT
+  m.user_id,
+  m.id,
+  m.team_id,
+  m.join_date::date,
+  m.paid_amount,
+  CASE WHEN m.is_usdt THEN 'USDT' ELSE 'BDT' END,
+  m.paid_usdt_rate,
+  m.join_date::date,
+  CASE
+    WHEN t.billing_calendar_month THEN (m.join_date::date + interval '1 month')::date
+    ELSE m.join_date::date + COALESCE(t.billing_cycle_days, 30)
+  END
+FROM public.members m
+JOIN public.teams t ON t.id = m.team_id
+WHERE COALESCE(t.is_yearly, false) = false
+  AND m.paid_amount > 0
+  AND NOT EXISTS (
+    SELECT 1 FROM public.payment_ledger l
+    WHERE l.member_id = m.id AND l.cycle_start = m.join_date::date
+  );
+
+-- Yearly members: paid month rows, same id
+INSERT INTO public.payment_ledger
+  (id, user_id, member_id, team_id, paid_at, amount, currency, usdt_rate, cycle_start, cycle_end, note)
+SELECT
+  p.id,
+  p.user_id,
+  p.member_id,
+  m.team_id,
+  make_date(p.year, p.month, 1),
+  p.amount,
+  CASE WHEN m.is_usdt THEN 'USDT' ELSE 'BDT' END,
+  p.usdt_rate,
+  make_date(p.year, p.month, 1),
+  (make_date(p.year, p.month, 1) + interval '1 month - 1 day')::date,
+  p.note
+FROM public.member_payments p
+JOIN public.members m ON m.id = p.member_id
+WHERE p.status = 'paid' AND p.amount > 0
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,41 @@
+-- Lifecycle log per member: added, moved, pushed, USDT toggled, credentials
+-- changed, paid, renewed, removed. Rows outlive the member (no FK), so they
+-- keep the email it had at the time. Credential changes never store values.
+
+CREATE TABLE IF NOT EXISTS public.member_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL,
+  team_id uuid NOT NULL,
+  member_email text NOT NULL DEFAULT '',
+  type text NOT NULL,
+  field text,
+  from_value text,
+  to_value text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS member_events_user_created_idx
+  ON public.member_events (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS member_events_member_idx
+  ON public.member_events (member_id);
+
+ALTER TABLE public.member_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own member events" ON public.member_events;
+CREATE POLICY "Users manage their own member events"
+  ON public.member_events
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ─── Backfill ───────────────────────────────────────────────────
+
+-- Every existing member starts its history with when it was added
+INSERT INTO public.member_events (user_id, member_id, team_id, member_email, type, created_at)
+SELECT m.user_id, m.id, m.team_id, m.email, 'added', m.created_at
+FROM public.members m
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.member_events e WHERE e.member_id = m.id AND e.type = 'added'
+);
@@ -0,0 +1,17 @@
+-- Deleting a team or member moves it to the trash instead of removing the row.
+-- The app restores it by clearing deleted_at, or purges it (a real DELETE)
+-- from the Trash view or once the device's retention window has passed.
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE public.members
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS teams_user_deleted_at_idx
+  ON public.teams (user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS members_user_deleted_at_idx
+  ON public.members (user_id, deleted_at)
+  WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,21 @@
+-- Per-user credential vault. Member passwords, e/g-passes and 2FA secrets are
+-- encrypted in the browser (AES-GCM, key from PBKDF2 over the master
+-- passphrase); the server only stores the salt, the iteration count and a
+-- verifier sealed under the key. The passphrase and key never leave the device.
+
+CREATE TABLE IF NOT EXISTS public.credential_vaults (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  salt text NOT NULL,
+  iterations integer NOT NULL CHECK (iterations > 0),
+  verifier text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.credential_vaults ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own credential vault" ON public.credential_vaults;
+CREATE POLICY "Users manage their own credential vault"
+  ON public.credential_vaults
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,195 @@
+-- Shared workspaces. A workspace is keyed by its owner's user id — the
+-- `user_id` every data row already carries — so existing data needs no
+-- backfill. Collaborators join by invite with a role:
+--   owner   – everything, including collaborators, products and rates
+--   manager – edits teams, members and payments
+--   viewer  – read-only, and never receives member credentials
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  owner_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+  workspace_id uuid NOT NULL REFERENCES public.workspaces(owner_id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('manager', 'viewer')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS workspace_members_user_idx
+  ON public.workspace_members (user_id);
+
+CREATE TABLE IF NOT EXISTS public.workspace_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_id uuid NOT NULL REFERENCES public.workspaces(owner_id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL CHECK (role IN ('manager', 'viewer')),
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz
+);
+
+-- One open invite per address and workspace; re-inviting replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS workspace_invites_open_email_idx
+  ON public.workspace_invites (workspace_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+-- ─── Role lookup ────────────────────────────────────────────────
+
+-- The caller's role in a workspace, or null. SECURITY DEFINER so policies on
+-- other tables can use it without recursing into workspace_members' own RLS.
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_workspace_id = auth.uid() THEN 'owner'
+    ELSE (
+      SELECT role FROM public.workspace_members
+      WHERE workspace_id = p_workspace_id AND user_id = auth.uid()
+    )
+  END;
+$$;
+
+-- ─── RLS: workspace tables ──────────────────────────────────────
+
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Owners manage their workspace" ON public.workspaces;
+CREATE POLICY "Owners manage their workspace"
+  ON public.workspaces
+  FOR ALL
+  USING (auth.uid() = owner_id)
+  WITH CHECK (auth.uid() = owner_id);
+
+DROP POLICY IF EXISTS "Collaborators read their workspaces" ON public.workspaces;
+CREATE POLICY "Collaborators read their workspaces"
+  ON public.workspaces
+  FOR SELECT
+  USING (public.workspace_role(owner_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Owners manage collaborators" ON public.workspace_members;
+CREATE POLICY "Owners manage collaborators"
+  ON public.workspace_members
+  FOR ALL
+  USING (auth.uid() = workspace_id)
+  WITH CHECK (auth.uid() = workspace_id);
+
+DROP POLICY IF EXISTS "Collaborators read their memberships" ON public.workspace_members;
+CREATE POLICY "Collaborators read their memberships"
+  ON public.workspace_members
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Collaborators leave workspaces" ON public.workspace_members;
+CREATE POLICY "Collaborators leave workspaces"
+  ON public.workspace_members
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Owners manage invites" ON public.workspace_invites;
+CREATE POLICY "Owners manage invites"
+  ON public.workspace_invites
+  FOR ALL
+  USING (auth.uid() = workspace_id)
+  WITH CHECK (auth.uid() = workspace_id);
+
+-- ─── RLS: shared data ───────────────────────────────────────────
+-- Added alongside the existing "own rows" policies (policies are OR-ed).
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  -- Managers edit customer data
+  FOREACH t IN ARRAY ARRAY['teams', 'members', 'member_payments', 'payment_ledger', 'member_events'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Workspace managers manage %1$s" ON public.%1$I', t);
+    EXECUTE format(
+      'CREATE POLICY "Workspace managers manage %1$s" ON public.%1$I FOR ALL
+         USING (public.workspace_role(user_id) = ''manager'')
+         WITH CHECK (public.workspace_role(user_id) = ''manager'')',
+      t
+    );
+  END LOOP;
+
+  -- Everyone in the workspace reads everything but members (viewers get
+  -- those through workspace_members_redacted) and the owner's settings
+  FOREACH t IN ARRAY ARRAY['teams', 'member_payments', 'payment_ledger', 'member_events', 'subscription_products', 'usdt_rates'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Workspace collaborators read %1$s" ON public.%1$I', t);
+    EXECUTE format(
+      'CREATE POLICY "Workspace collaborators read %1$s" ON public.%1$I FOR SELECT
+         USING (public.workspace_role(user_id) IS NOT NULL)',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- Managers unlock the owner's vault with the shared passphrase
+DROP POLICY IF EXISTS "Workspace managers read the credential vault" ON public.credential_vaults;
+CREATE POLICY "Workspace managers read the credential vault"
+  ON public.credential_vaults
+  FOR SELECT
+  USING (public.workspace_role(user_id) = 'manager');
+
+-- ─── Functions ──────────────────────────────────────────────────
+
+-- Members of a workspace with every credential column removed, for viewers
+CREATE OR REPLACE FUNCTION public.workspace_members_redacted(p_workspace_id uuid)
+RETURNS SETOF jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(m) - 'password' - 'e_pass' - 'g_pass' - 'twofa_secret' - 'twofa' - 'two_fa' - 'otp_secret'
+  FROM public.members m
+  WHERE m.user_id = p_workspace_id
+    AND public.workspace_role(p_workspace_id) IS NOT NULL;
+$$;
+
+-- Join the workspace an invite is for. The signed-in address has to match
+-- the invited one. Returns the workspace id.
+CREATE OR REPLACE FUNCTION public.accept_workspace_invite(p_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite public.workspace_invites%ROWTYPE;
+  caller_email text := lower(auth.jwt() ->> 'email');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invite FROM public.workspace_invites
+  WHERE token = p_token AND accepted_at IS NULL AND expires_at > now();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite is invalid or has expired';
+  END IF;
+  IF lower(invite.email) <> caller_email THEN
+    RAISE EXCEPTION 'This invite was sent to a different email address';
+  END IF;
+  IF invite.workspace_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this workspace';
+  END IF;
+
+  INSERT INTO public.workspace_members (workspace_id, user_id, email, role)
+  VALUES (invite.workspace_id, auth.uid(), caller_email, invite.role)
+  ON CONFLICT (workspace_id, user_id) DO UPDATE SET role = EXCLUDED.role;
+
+  UPDATE public.workspace_invites SET accepted_at = now() WHERE id = invite.id;
+  RETURN invite.workspace_id;
+END;
+$$;
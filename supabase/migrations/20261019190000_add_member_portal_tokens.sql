@@ -0,0 +1,16 @@
+-- Links to the read-only member portal. A token is issued the first time an
+-- email goes to a member's address and is reused after that. It stays bound
+-- to that address: the portal only opens while the member's email still
+-- matches. No foreign key to members — a welcome email can go out before the
+-- new member has synced up, and the portal treats a missing member as invalid.
+
+CREATE TABLE IF NOT EXISTS public.member_portal_tokens (
+  token text PRIMARY KEY,
+  member_id uuid NOT NULL,
+  email text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (member_id, email)
+);
+
+-- Only the edge functions (service role) read or issue tokens
+ALTER TABLE public.member_portal_tokens ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,65 @@
+-- Payments customers report themselves through their member portal link.
+-- They wait in the "Pending verifications" inbox until someone in the
+-- workspace approves (which records the payment in the ledger) or rejects
+-- them. Rows are only created by the submit-payment edge function.
+
+CREATE TABLE IF NOT EXISTS public.payment_submissions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Workspace (owner) the member belongs to
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  member_id uuid NOT NULL REFERENCES public.members(id) ON DELETE CASCADE,
+  method text NOT NULL,
+  transaction_id text NOT NULL,
+  -- In the member's own currency: BDT, or USD for USDT members
+  amount numeric NOT NULL CHECK (amount > 0),
+  currency text NOT NULL CHECK (currency IN ('BDT', 'USDT')),
+  screenshot_path text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  ledger_entry_id uuid,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  -- The same transaction can't be submitted twice for a member
+  UNIQUE (member_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS payment_submissions_user_status_idx
+  ON public.payment_submissions (user_id, status, created_at DESC);
+
+ALTER TABLE public.payment_submissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users review their own payment submissions" ON public.payment_submissions;
+CREATE POLICY "Users review their own payment submissions"
+  ON public.payment_submissions
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Workspace managers review payment submissions" ON public.payment_submissions;
+CREATE POLICY "Workspace managers review payment submissions"
+  ON public.payment_submissions
+  FOR ALL
+  USING (public.workspace_role(user_id) = 'manager')
+  WITH CHECK (public.workspace_role(user_id) = 'manager');
+
+DROP POLICY IF EXISTS "Workspace collaborators read payment submissions" ON public.payment_submissions;
+CREATE POLICY "Workspace collaborators read payment submissions"
+  ON public.payment_submissions
+  FOR SELECT
+  USING (public.workspace_role(user_id) IS NOT NULL);
+
+-- ─── Screenshots ────────────────────────────────────────────────
+-- Private bucket, stored under <workspace id>/<submission id>.<ext>
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-screenshots', 'payment-screenshots', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Workspace collaborators view payment screenshots" ON storage.objects;
+CREATE POLICY "Workspace collaborators view payment screenshots"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'payment-screenshots'
+    AND public.workspace_role(((storage.foldername(name))[1])::uuid) IS NOT NULL
+  );
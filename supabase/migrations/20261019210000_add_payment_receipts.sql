@@ -0,0 +1,13 @@
+-- Receipts are generated on the device; the database only keeps what has to
+-- agree everywhere: each ledger entry's invoice number (assigned the first
+-- time a receipt is made, so a payment keeps its number) and the business
+-- name printed on them.
+
+ALTER TABLE public.payment_ledger
+  ADD COLUMN IF NOT EXISTS invoice_number integer CHECK (invoice_number IS NULL OR invoice_number > 0);
+
+CREATE INDEX IF NOT EXISTS payment_ledger_user_invoice_idx
+  ON public.payment_ledger (user_id, invoice_number);
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS business_name text;
@@ -0,0 +1,41 @@
+-- Per-workspace rewrites of the built-in transactional emails. Each row
+-- replaces one template's subject and body in one language (Bangla for BDT
+-- members, English for USDT members); send-transactional-email falls back to
+-- the built-in template when there's no row.
+
+CREATE TABLE IF NOT EXISTS public.email_template_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Workspace (owner) whose members receive the rewritten email
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  template_name text NOT NULL,
+  lang text NOT NULL CHECK (lang IN ('bn', 'en')),
+  -- Plain text with {{variable}} placeholders
+  subject text NOT NULL CHECK (length(subject) BETWEEN 1 AND 200),
+  body text NOT NULL CHECK (length(body) BETWEEN 1 AND 5000),
+  updated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, template_name, lang)
+);
+
+ALTER TABLE public.email_template_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own email templates" ON public.email_template_overrides;
+CREATE POLICY "Users manage their own email templates"
+  ON public.email_template_overrides
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Workspace managers manage email templates" ON public.email_template_overrides;
+CREATE POLICY "Workspace managers manage email templates"
+  ON public.email_template_overrides
+  FOR ALL
+  USING (public.workspace_role(user_id) = 'manager')
+  WITH CHECK (public.workspace_role(user_id) = 'manager');
+
+DROP POLICY IF EXISTS "Workspace collaborators read email templates" ON public.email_template_overrides;
+CREATE POLICY "Workspace collaborators read email templates"
+  ON public.email_template_overrides
+  FOR SELECT
+  USING (public.workspace_role(user_id) IS NOT NULL);
@@ -0,0 +1,90 @@
+-- Invoice numbers come from a per-workspace counter on the server. Devices
+-- still pick a provisional number offline (max + 1 of what they hold), but
+-- two devices can pick the same one and a purged payment's number would be
+-- picked again, so the number a device sends is replaced with the next one
+-- from the counter. The counter never goes down, so numbers aren't reused.
+
+CREATE TABLE IF NOT EXISTS public.invoice_counters (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_number integer NOT NULL CHECK (last_number > 0)
+);
+
+-- Only the trigger below touches it
+ALTER TABLE public.invoice_counters ENABLE ROW LEVEL SECURITY;
+
+-- Numbers already handed out twice: the earliest payment keeps it, the rest
+-- get new ones after the workspace's highest
+WITH ranked AS (
+  SELECT id, user_id,
+    row_number() OVER (PARTITION BY user_id, invoice_number ORDER BY created_at, id) AS copy
+  FROM public.payment_ledger
+  WHERE invoice_number IS NOT NULL
+),
+renumbered AS (
+  SELECT r.id,
+    (SELECT max(p.invoice_number) FROM public.payment_ledger p WHERE p.user_id = r.user_id)
+      + row_number() OVER (PARTITION BY r.user_id ORDER BY r.id) AS invoice_number
+  FROM ranked r
+  WHERE r.copy > 1
+)
+UPDATE public.payment_ledger l
+SET invoice_number = renumbered.invoice_number
+FROM renumbered
+WHERE l.id = renumbered.id;
+
+INSERT INTO public.invoice_counters (user_id, last_number)
+SELECT user_id, max(invoice_number)
+FROM public.payment_ledger
+WHERE invoice_number IS NOT NULL
+GROUP BY user_id
+ON CONFLICT (user_id) DO UPDATE
+  SET last_number = GREATEST(public.invoice_counters.last_number, EXCLUDED.last_number);
+
+DROP INDEX IF EXISTS public.payment_ledger_user_invoice_idx;
+
+CREATE UNIQUE INDEX IF NOT EXISTS payment_ledger_user_invoice_key
+  ON public.payment_ledger (user_id, invoice_number);
+
+-- A payment keeps the number it was first given. A newly numbered payment
+-- takes the next one from the counter, except a restored row whose number
+-- is still free in the workspace, which keeps it (and moves the counter past it).
+CREATE OR REPLACE FUNCTION public.assign_invoice_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.invoice_number IS NOT NULL THEN
+    NEW.invoice_number := OLD.invoice_number;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.invoice_number IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NOT EXISTS (
+    SELECT 1 FROM public.payment_ledger
+    WHERE user_id = NEW.user_id AND invoice_number = NEW.invoice_number AND id <> NEW.id
+  ) THEN
+    INSERT INTO public.invoice_counters (user_id, last_number)
+    VALUES (NEW.user_id, NEW.invoice_number)
+    ON CONFLICT (user_id) DO UPDATE
+      SET last_number = GREATEST(public.invoice_counters.last_number, EXCLUDED.last_number);
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.invoice_counters (user_id, last_number)
+  VALUES (NEW.user_id, 1)
+  ON CONFLICT (user_id) DO UPDATE
+    SET last_number = public.invoice_counters.last_number + 1
+  RETURNING last_number INTO NEW.invoice_number;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS payment_ledger_assign_invoice_number ON public.payment_ledger;
+CREATE TRIGGER payment_ledger_assign_invoice_number
+  BEFORE INSERT OR UPDATE OF invoice_number ON public.payment_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.assign_invoice_number();